@@ -1,10 +1,14 @@
-import { useEffect } from 'react';
-import { Routes, Route, Navigate, useParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from './stores/auth-store';
+import { useLobbyStore } from './stores/lobby-store';
+import { useI18n } from './i18n';
 import Lobby from './pages/Lobby';
 import Game from './pages/Game';
 import Login from './pages/Login';
 import Settings from './pages/Settings';
+import Tournaments from './pages/Tournaments';
+import Replay from './pages/Replay';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { token, user, isLoading, restoreSession } = useAuthStore();
@@ -24,21 +28,16 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
-/** Game route that allows guests (spectators) for multiplayer rooms */
+/** Game route that allows guests (spectators) */
 function GameRoute() {
-  const { roomId } = useParams();
   const { token, user, isLoading, restoreSession } = useAuthStore();
-  const isLocal = roomId === 'local';
 
   useEffect(() => {
     if (token && !user) restoreSession();
   }, [token, user, restoreSession]);
 
-  // Local game requires login
-  if (isLocal && !token) return <Navigate to="/login" replace />;
-
-  // Multiplayer: allow guest access for spectating
-  if (!isLocal && !token) {
+  // Allow guest access for spectating
+  if (!token) {
     return <Game />;
   }
 
@@ -53,14 +52,42 @@ function GameRoute() {
   return <Game />;
 }
 
+/** Countdown to a server restart, over every page */
+function ShutdownBanner() {
+  const deadline = useLobbyStore(s => s.shutdownDeadline);
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (deadline === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (deadline === null) return null;
+  const seconds = Math.ceil((deadline - now) / 1000);
+  return (
+    <div className="fixed top-0 inset-x-0 z-[100] px-3 py-1.5 text-center text-xs font-medium
+      bg-amber-500/90 text-black backdrop-blur-sm">
+      {seconds > 0 ? t('app.shutdown', { seconds }) : t('app.shutdownNow')}
+    </div>
+  );
+}
+
 function App() {
   return (
-    <Routes>
-      <Route path="/login" element={<Login />} />
-      <Route path="/" element={<ProtectedRoute><Lobby /></ProtectedRoute>} />
-      <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
-      <Route path="/game/:roomId?" element={<GameRoute />} />
-    </Routes>
+    <>
+      <ShutdownBanner />
+      <Routes>
+        <Route path="/login" element={<Login />} />
+        <Route path="/" element={<ProtectedRoute><Lobby /></ProtectedRoute>} />
+        <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
+        <Route path="/tournaments/:tournamentId?" element={<ProtectedRoute><Tournaments /></ProtectedRoute>} />
+        <Route path="/game/:roomId?" element={<GameRoute />} />
+        <Route path="/replay/:handId?" element={<ProtectedRoute><Replay /></ProtectedRoute>} />
+      </Routes>
+    </>
   );
 }
 
@@ -1,27 +1,28 @@
 import { useState, useEffect, useRef } from 'react';
 import { GameState, PlayerAction } from '@texas-agent/shared';
-import { formatChips } from '@texas-agent/shared';
+import { formatChips, getMaxRaise, canRaise, canGoAllIn, isBettingReopened } from '@texas-agent/shared';
 import { Button } from '@/components/ui/button';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useI18n } from '../../i18n';
 import { useGameStore } from '../../stores/game-store';
-import { Minus, Plus } from 'lucide-react';
+import { Minus, Plus, Hourglass } from 'lucide-react';
 
 interface ActionPanelProps {
   gameState: GameState;
   myPlayerId: string;
   isMyTurn: boolean;
   onAction: (action: PlayerAction) => void;
-  isLocal?: boolean;
   onStandUp?: () => void;
   isStandingUp?: boolean;
 }
 
-export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction, isLocal, onStandUp, isStandingUp }: ActionPanelProps) {
+export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction, onStandUp, isStandingUp }: ActionPanelProps) {
   const [raiseAmount, setRaiseAmount] = useState(0);
   const [showRaise, setShowRaise] = useState(false);
   const { t } = useI18n();
   const timeLimit = useGameStore(s => s.timeLimit);
+  const deadline = useGameStore(s => s.deadline);
+  const callTimeBank = useGameStore(s => s.callTimeBank);
 
   // Countdown timer
   const [timeLeft, setTimeLeft] = useState(timeLimit);
@@ -35,13 +36,12 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
       autoFoldRef.current = null;
     }
 
-    if (isMyTurn && !isLocal) {
-      setTimeLeft(timeLimit);
+    if (isMyTurn) {
+      // Count down to the server's deadline, so a reconnect or a time bank shows the real time left
+      const end = deadline ?? Date.now() + timeLimit;
+      setTimeLeft(Math.max(0, end - Date.now()));
       timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          const next = prev - 100;
-          return next <= 0 ? 0 : next;
-        });
+        setTimeLeft(Math.max(0, end - Date.now()));
       }, 100);
       // Client-side safety net: auto-fold 2s after server timeout
       // to prevent stuck game if server fold is not received
@@ -52,15 +52,7 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
         } else {
           onAction({ type: 'fold' });
         }
-      }, timeLimit + 2000);
-    } else if (isMyTurn && isLocal) {
-      setTimeLeft(timeLimit);
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          const next = prev - 100;
-          return next <= 0 ? 0 : next;
-        });
-      }, 100);
+      }, Math.max(0, end - Date.now()) + 2000);
     } else {
       if (timerRef.current) clearInterval(timerRef.current);
       timerRef.current = null;
@@ -72,7 +64,7 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
         autoFoldRef.current = null;
       }
     };
-  }, [isMyTurn, timeLimit]);
+  }, [isMyTurn, timeLimit, deadline]);
 
   const player = gameState.players.find(p => p.id === myPlayerId);
   if (!player || player.isFolded || !player.isActive) return null;
@@ -80,17 +72,30 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
   const callAmount = gameState.currentBet - player.currentBet;
   const canCheck = callAmount === 0;
   const minRaise = gameState.minRaise;
-  const maxRaise = player.chips + player.currentBet;
+  // Highest raise-to allowed by the betting structure (pot-limit / fixed-limit), capped by stack
+  const maxRaise = getMaxRaise(gameState, player);
+  const stackTotal = player.chips + player.currentBet;
+  const raiseAllowed = canRaise(gameState, player);
+  const allInAllowed = canGoAllIn(gameState, player);
+  // A short all-in since this player last acted lets them call the extra but not re-raise
+  const raiseReopened = isBettingReopened(gameState, player);
+  const isFixedLimit = gameState.bettingStructure === 'fixed-limit';
+  const canUseTimeBank = (player.timeBank ?? 0) > 0 && !gameState.turnClock?.usingTimeBank;
 
   const handleFold = () => onAction({ type: 'fold' });
   const handleCheck = () => onAction({ type: 'check' });
-  const handleCall = () => onAction({ type: 'call' });
-  const handleRaise = () => {
-    if (raiseAmount >= maxRaise) {
+  // A stack short of the call can still call for all it has
+  const callIsAllIn = player.chips < callAmount;
+  const handleCall = () => onAction(callIsAllIn ? { type: 'all-in' } : { type: 'call' });
+  const submitRaise = (amount: number) => {
+    if (amount >= stackTotal) {
       onAction({ type: 'all-in' });
     } else {
-      onAction({ type: 'raise', amount: raiseAmount });
+      onAction({ type: 'raise', amount });
     }
+  };
+  const handleRaise = () => {
+    submitRaise(raiseAmount);
     setShowRaise(false);
   };
 
@@ -122,25 +127,33 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
           className="fixed bottom-0 left-0 right-0 p-1.5 sm:p-3 bg-gradient-to-t from-black/95 via-black/80 to-transparent backdrop-blur-md z-50"
         >
           <div className="max-w-2xl mx-auto space-y-1 sm:space-y-2">
-            {/* Countdown timer bar — only in multiplayer mode */}
-            {!isLocal && (
-              <div className="flex items-center gap-2">
-                <div className="relative flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
-                  <motion.div
-                    className={`absolute left-0 top-0 h-full rounded-full ${
-                      timeLeft / timeLimit > 0.3 ? 'bg-gold-500' : timeLeft / timeLimit > 0.1 ? 'bg-orange-500' : 'bg-red-500'
-                    }`}
-                    style={{ width: `${(timeLeft / timeLimit) * 100}%` }}
-                    transition={{ duration: 0.1 }}
-                  />
-                </div>
-                <span className={`text-[10px] font-mono tabular-nums ${
-                  timeLeft / timeLimit > 0.3 ? 'text-gray-400' : timeLeft / timeLimit > 0.1 ? 'text-orange-400' : 'text-red-400'
-                }`}>
-                  {Math.ceil(timeLeft / 1000)}s
-                </span>
+            {/* Countdown timer bar */}
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+                <motion.div
+                  className={`absolute left-0 top-0 h-full rounded-full ${
+                    timeLeft / timeLimit > 0.3 ? 'bg-gold-500' : timeLeft / timeLimit > 0.1 ? 'bg-orange-500' : 'bg-red-500'
+                  }`}
+                  style={{ width: `${(timeLeft / timeLimit) * 100}%` }}
+                  transition={{ duration: 0.1 }}
+                />
               </div>
-            )}
+              <span className={`text-[10px] font-mono tabular-nums ${
+                timeLeft / timeLimit > 0.3 ? 'text-gray-400' : timeLeft / timeLimit > 0.1 ? 'text-orange-400' : 'text-red-400'
+              }`}>
+                {Math.ceil(timeLeft / 1000)}s
+              </span>
+              {canUseTimeBank && (
+                <button
+                  onClick={callTimeBank}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-blue-500/20 border border-blue-500/40
+                    text-blue-300 text-[10px] font-medium hover:bg-blue-500/30 transition-colors cursor-pointer"
+                >
+                  <Hourglass size={10} />
+                  {t('action.timeBank', { seconds: Math.ceil(player.timeBank! / 1000) })}
+                </button>
+              )}
+            </div>
             {/* Raise slider panel */}
             <AnimatePresence>
               {showRaise && (
@@ -164,7 +177,7 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
                       <div className="text-center">
                         <span className="text-gray-400 text-xs">{t('action.raiseTo')}</span>
                         <div className="text-gold-400 font-bold text-lg sm:text-xl">
-                          {raiseAmount >= maxRaise ? 'ALL IN' : `$${formatChips(raiseAmount)}`}
+                          {raiseAmount >= stackTotal ? 'ALL IN' : `$${formatChips(raiseAmount)}`}
                         </div>
                       </div>
                       <button
@@ -203,7 +216,7 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
                             : 'bg-red-600/10 border-red-500/20 text-red-400 hover:bg-red-600/20 hover:text-red-300'
                           }`}
                       >
-                        <div>{t('action.allIn')}</div>
+                        <div>{allInAllowed ? t('action.allIn') : t('action.maxRaise')}</div>
                         <div className="text-[10px] sm:text-xs opacity-70">${formatChips(maxRaise)}</div>
                       </button>
                     </div>
@@ -221,7 +234,7 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
                         onClick={handleRaise}
                         className="flex-1 bg-gold-500 text-black hover:bg-gold-400 font-bold cursor-pointer"
                       >
-                        {raiseAmount >= maxRaise ? `${t('action.allIn')}!` : `${t('action.raiseTo')} $${formatChips(raiseAmount)}`}
+                        {raiseAmount >= stackTotal ? `${t('action.allIn')}!` : `${t('action.raiseTo')} $${formatChips(raiseAmount)}`}
                       </Button>
                     </div>
                   </div>
@@ -249,29 +262,38 @@ export default function ActionPanel({ gameState, myPlayerId, isMyTurn, onAction,
                 ) : (
                   <Button
                     onClick={handleCall}
-                    disabled={player.chips < callAmount}
+                    disabled={callIsAllIn && !allInAllowed}
                     className="flex-1 h-9 sm:h-11 bg-blue-600/80 hover:bg-blue-600 text-white font-bold text-sm sm:text-base
                       disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                   >
-                    {t('action.call')} ${formatChips(callAmount)}
+                    {callIsAllIn
+                      ? `${t('action.allIn')} $${formatChips(player.chips)}`
+                      : `${t('action.call')} $${formatChips(callAmount)}`}
                   </Button>
                 )}
 
                 <Button
                   onClick={() => {
+                    // Fixed-limit has a single legal raise size — no need for the sizing panel
+                    if (isFixedLimit) {
+                      submitRaise(maxRaise);
+                      return;
+                    }
                     setRaiseAmount(minRaise);
                     setShowRaise(true);
                   }}
-                  disabled={player.chips <= 0}
+                  disabled={!raiseAllowed}
                   className="flex-1 h-9 sm:h-11 bg-gold-500/90 hover:bg-gold-500 text-black font-bold text-sm sm:text-base
                     disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                 >
-                  {t('action.raise')}
+                  {!raiseAllowed && player.chips > 0
+                    ? t(raiseReopened ? 'action.capped' : 'action.callOnly')
+                    : isFixedLimit ? `${t('action.raise')} $${formatChips(maxRaise)}` : t('action.raise')}
                 </Button>
               </div>
             )}
             {/* Stand Up button — shown inside action panel to avoid overlap with +/- buttons */}
-            {!isLocal && onStandUp !== undefined && (
+            {onStandUp !== undefined && (
               <div className="flex justify-end mt-1">
                 {isStandingUp ? (
                   <span className="text-yellow-400 text-xs px-2 py-1">{t('game.standingUp')}</span>
@@ -10,11 +10,13 @@ interface BetSliderProps {
   pot: number;
   bigBlind: number;
   currentBet: number;
+  /** False when maxRaise is a structure limit (pot-limit / fixed-limit) below the player's stack */
+  allInAllowed?: boolean;
   onConfirm: (amount: number) => void;
   onCancel: () => void;
 }
 
-export default function BetSlider({ minRaise, maxRaise, pot, bigBlind, currentBet, onConfirm, onCancel }: BetSliderProps) {
+export default function BetSlider({ minRaise, maxRaise, pot, bigBlind, currentBet, allInAllowed = true, onConfirm, onCancel }: BetSliderProps) {
   const [amount, setAmount] = useState(minRaise);
 
   const quickBets = [
@@ -23,7 +25,7 @@ export default function BetSlider({ minRaise, maxRaise, pot, bigBlind, currentBe
     { label: 'Pot', value: Math.max(minRaise, pot + currentBet) },
   ].filter(b => b.value <= maxRaise);
 
-  const isAllIn = amount >= maxRaise;
+  const isAllIn = allInAllowed && amount >= maxRaise;
 
   return (
     <motion.div
@@ -70,7 +72,7 @@ export default function BetSlider({ minRaise, maxRaise, pot, bigBlind, currentBe
               bg-red-600/20 border border-red-500/30 text-red-400
               hover:bg-red-600/30 hover:text-red-300 transition-colors cursor-pointer"
           >
-            All In
+            {allInAllowed ? 'All In' : 'Max'}
           </button>
         </div>
 
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Shuffle } from 'lucide-react';
+import { GameVariant } from '@texas-agent/shared';
+import { useI18n } from '../../i18n';
+
+interface DealersChoicePanelProps {
+  options: GameVariant[];
+  timeLimit: number;
+  onChoose: (variant: GameVariant) => void;
+}
+
+/** Dealer's choice: the player taking the button calls the game for their orbit */
+export default function DealersChoicePanel({ options, timeLimit, onChoose }: DealersChoicePanelProps) {
+  const { t } = useI18n();
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(timeLimit / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setSecondsLeft(s => Math.max(s - 1, 0)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ y: 40, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 40, opacity: 0 }}
+      className="fixed bottom-[11.5rem] left-1/2 -translate-x-1/2 sm:bottom-[13rem] z-50
+        bg-casino-card/95 border border-gold-500/40 rounded-xl p-3 backdrop-blur-md space-y-2"
+    >
+      <div className="flex items-center justify-between gap-3 text-xs">
+        <span className="flex items-center gap-1.5 text-gold-400 font-semibold">
+          <Shuffle size={14} />
+          {t('dealersChoice.title')}
+        </span>
+        <span className="text-gray-500 tabular-nums">{secondsLeft}s</span>
+      </div>
+      <div className="flex gap-2">
+        {options.map(variant => (
+          <button
+            key={variant}
+            onClick={() => onChoose(variant)}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium transition-colors cursor-pointer bg-gold-500 text-black hover:bg-gold-400"
+          >
+            {t(`variant.${variant}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">{t('dealersChoice.hint')}</p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Layers } from 'lucide-react';
+import { useI18n } from '../../i18n';
+
+interface RunItPanelProps {
+  maxRuns: number;
+  timeLimit: number;
+  onChoose: (runs: number) => void;
+}
+
+/** All-in before the river: choose to run the rest of the board once, twice or three times */
+export default function RunItPanel({ maxRuns, timeLimit, onChoose }: RunItPanelProps) {
+  const { t } = useI18n();
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(timeLimit / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setSecondsLeft(s => Math.max(s - 1, 0)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const labels = [t('runIt.once'), t('runIt.twice'), t('runIt.threeTimes')];
+
+  return (
+    <motion.div
+      initial={{ y: 40, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 40, opacity: 0 }}
+      className="fixed bottom-[11.5rem] left-1/2 -translate-x-1/2 sm:bottom-[13rem] z-50
+        bg-casino-card/95 border border-gold-500/40 rounded-xl p-3 backdrop-blur-md space-y-2"
+    >
+      <div className="flex items-center justify-between gap-3 text-xs">
+        <span className="flex items-center gap-1.5 text-gold-400 font-semibold">
+          <Layers size={14} />
+          {t('runIt.title')}
+        </span>
+        <span className="text-gray-500 tabular-nums">{secondsLeft}s</span>
+      </div>
+      <div className="flex gap-2">
+        {labels.slice(0, maxRuns).map((label, i) => (
+          <button
+            key={label}
+            onClick={() => onChoose(i + 1)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors cursor-pointer ${
+              i === 0
+                ? 'bg-casino-bg border border-casino-border text-gray-300 hover:text-white'
+                : 'bg-gold-500 text-black hover:bg-gold-400'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">{t('runIt.hint')}</p>
+    </motion.div>
+  );
+}
@@ -10,19 +10,21 @@ interface PlayerCardsProps {
 }
 
 export default function PlayerCards({ cards, showCards, isFolded, size = 'sm' }: PlayerCardsProps) {
+  // Omaha deals four hole cards — overlap them so the row keeps a hold'em-like footprint
+  const layout = cards.length > 2 ? '-space-x-4 sm:-space-x-5' : 'gap-0.5';
+
   if (isFolded) {
     return (
       <motion.div
         initial={{ opacity: 1 }}
         animate={{ opacity: 0.3 }}
-        className="flex gap-0.5"
+        className={`flex ${layout}`}
       >
-        <div className={`${size === 'sm' ? 'w-10 h-14 sm:w-12 sm:h-17' : 'w-12 h-17 sm:w-16 sm:h-22'} rounded-lg bg-gray-700/50 border border-gray-600/30 flex items-center justify-center`}>
-          <span className="text-gray-600 text-xs italic">✕</span>
-        </div>
-        <div className={`${size === 'sm' ? 'w-10 h-14 sm:w-12 sm:h-17' : 'w-12 h-17 sm:w-16 sm:h-22'} rounded-lg bg-gray-700/50 border border-gray-600/30 flex items-center justify-center`}>
-          <span className="text-gray-600 text-xs italic">✕</span>
-        </div>
+        {Array.from({ length: Math.max(cards.length, 2) }, (_, i) => (
+          <div key={i} className={`${size === 'sm' ? 'w-10 h-14 sm:w-12 sm:h-17' : 'w-12 h-17 sm:w-16 sm:h-22'} rounded-lg bg-gray-700/50 border border-gray-600/30 flex items-center justify-center`}>
+            <span className="text-gray-600 text-xs italic">✕</span>
+          </div>
+        ))}
       </motion.div>
     );
   }
@@ -31,7 +33,7 @@ export default function PlayerCards({ cards, showCards, isFolded, size = 'sm' }:
 
   return (
     <AnimatePresence>
-      <div className="flex gap-0.5">
+      <div className={`flex ${layout}`}>
         {cards.map((card, i) => (
           <PokerCard
             key={`${card.rank}-${card.suit}-${i}`}
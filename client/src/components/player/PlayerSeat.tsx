@@ -1,5 +1,5 @@
-import { useMemo, useState, useRef, useCallback } from 'react';
-import { Player, Card, GamePhase, evaluateHand, LLM_BOT_CONFIGS, RULE_BOT_CONFIGS } from '@texas-agent/shared';
+import { useMemo, useState, useRef, useCallback, useEffect } from 'react';
+import { Player, Card, GamePhase, GameVariant, TurnClock, evaluateHand, LLM_BOT_CONFIGS, RULE_BOT_CONFIGS } from '@texas-agent/shared';
 import { formatChips } from '@texas-agent/shared';
 import PokerCard from '../table/PokerCard';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -22,14 +22,41 @@ interface PlayerSeatProps {
   phase: GamePhase;
   position: { x: string; y: string };
   isWinner?: boolean;
+  /** Player voluntarily tabled their hole cards after the hand */
+  isShown?: boolean;
+  variant?: GameVariant;
   communityCards?: Card[];
   isMultiplayer?: boolean;
   compact?: boolean;
+  /** Server clock of this player's decision, while it is their turn */
+  turnClock?: TurnClock;
 }
 
-export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, position, isWinner, communityCards = [], isMultiplayer = false, compact = false }: PlayerSeatProps) {
+/** Time left on a player's decision, counted down from the server deadline */
+function TurnCountdown({ clock }: { clock: TurnClock }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const total = clock.deadline - clock.startedAt;
+  const left = Math.max(0, clock.deadline - now);
+  const ratio = total > 0 ? left / total : 0;
+  return (
+    <div className="absolute -bottom-1 left-1 right-1 h-0.5 bg-white/10 rounded-full overflow-hidden">
+      <div
+        className={`h-full rounded-full transition-[width] duration-200 ${clock.usingTimeBank ? 'bg-blue-400' : ratio > 0.3 ? 'bg-gold-500' : ratio > 0.1 ? 'bg-orange-500' : 'bg-red-500'}`}
+        style={{ width: `${ratio * 100}%` }}
+      />
+    </div>
+  );
+}
+
+export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, position, isWinner, isShown = false, variant = 'holdem', communityCards = [], isMultiplayer = false, compact = false, turnClock }: PlayerSeatProps) {
   // Show cards: self always, showdown for non-folded (server controls which cards are real vs hidden)
-  const showCards = isSelf || (phase === 'showdown' && !player.isFolded);
+  const showCards = isSelf || isShown || (phase === 'showdown' && !player.isFolded);
   const { t, tHand } = useI18n();
 
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
@@ -38,19 +65,19 @@ export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, posit
 
   // Evaluate best hand for players whose cards are visible and community cards exist
   const bestHand = useMemo(() => {
-    if (!showCards || player.isFolded || player.cards.length === 0) return null;
+    if (!showCards || (player.isFolded && !isShown) || player.cards.length === 0) return null;
     // Only evaluate when there are community cards (flop+)
     if (communityCards.length === 0) return null;
     // Check that cards are real (not face-down placeholders — face-down cards have no rank/suit)
     const hasRealCards = player.cards.every(c => c.rank && c.suit);
     if (!hasRealCards) return null;
     try {
-      const evaluation = evaluateHand(player.cards, communityCards);
+      const evaluation = evaluateHand(player.cards, communityCards, variant);
       return evaluation.rankName;
     } catch {
       return null;
     }
-  }, [showCards, player.cards, player.isFolded, communityCards]);
+  }, [showCards, isShown, player.cards, player.isFolded, communityCards, variant]);
 
   const handleLongPressStart = useCallback(() => {
     if (!isMultiplayer || isSelf) return;
@@ -98,8 +125,9 @@ export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, posit
       )}
 
       {/* Cards */}
-      <div className="flex gap-0.5 mb-0.5 sm:mb-1">
-        {player.cards.length > 0 && !player.isFolded ? (
+      {/* Omaha hands overlap so four cards fit the seat */}
+      <div className={`flex mb-0.5 sm:mb-1 ${player.cards.length > 2 ? '-space-x-4 sm:-space-x-5' : 'gap-0.5'}`}>
+        {player.cards.length > 0 && (!player.isFolded || isShown) ? (
           player.cards.map((card, i) => (
             <PokerCard
               key={i}
@@ -120,7 +148,7 @@ export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, posit
         className={`relative rounded-lg sm:rounded-xl ${compact ? 'px-1.5 py-1' : 'px-2.5 py-1.5 sm:px-3 sm:py-2'} ${compact ? 'min-w-[56px]' : 'min-w-[76px] sm:min-w-[100px]'} text-center transition-all duration-300
           ${isCurrentTurn ? 'ring-2 ring-gold-400 player-card-3d-active animate-pulse-gold' : 'player-card-3d'}
           ${isWinner ? 'ring-2 ring-gold-400 winner-glow' : ''}
-          ${player.isFolded ? 'opacity-40' : ''}
+          ${player.isFolded || player.isSittingOut ? 'opacity-40' : ''}
           bg-gradient-to-b from-casino-card/95 to-casino-card/80 backdrop-blur-sm border border-casino-border/50
           ${isMultiplayer && !isSelf ? 'cursor-pointer select-none' : ''}`}
         onMouseDown={handleLongPressStart}
@@ -141,6 +169,9 @@ export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, posit
           {player.isBigBlind && (
             <span className="px-1 py-0.5 text-[7px] sm:text-[9px] font-bold bg-red-500 text-white rounded-full">BB</span>
           )}
+          {player.isStraddle && (
+            <span className="px-1 py-0.5 text-[7px] sm:text-[9px] font-bold bg-purple-500 text-white rounded-full">STR</span>
+          )}
         </div>
 
         {/* Avatar & Name */}
@@ -176,6 +207,17 @@ export default function PlayerSeat({ player, isCurrentTurn, isSelf, phase, posit
           </div>
         )}
 
+        {isCurrentTurn && turnClock && <TurnCountdown clock={turnClock} />}
+
+        {/* Away badge — the seat is kept while the player sits out */}
+        {player.isSittingOut && !player.isAllIn && (
+          <div className="absolute -bottom-2 left-1/2 -translate-x-1/2">
+            <span className="px-1.5 py-0.5 text-[7px] sm:text-[9px] font-bold bg-gray-600 text-white rounded-full uppercase tracking-wider">
+              {t('player.sittingOut')}
+            </span>
+          </div>
+        )}
+
         {/* All-in badge */}
         {player.isAllIn && (
           <div className="absolute -bottom-2 left-1/2 -translate-x-1/2">
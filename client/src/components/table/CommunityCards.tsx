@@ -4,9 +4,11 @@ import { motion } from 'framer-motion';
 
 interface CommunityCardsProps {
   cards: Card[];
+  /** Every run-out when the board was run more than once */
+  boards?: Card[][];
 }
 
-export default function CommunityCards({ cards }: CommunityCardsProps) {
+function BoardRow({ cards }: { cards: Card[] }) {
   return (
     <div className="flex items-center justify-center gap-1 sm:gap-2">
       {cards.map((card, i) => (
@@ -22,3 +24,18 @@ export default function CommunityCards({ cards }: CommunityCardsProps) {
     </div>
   );
 }
+
+export default function CommunityCards({ cards, boards }: CommunityCardsProps) {
+  if (!boards || boards.length <= 1) return <BoardRow cards={cards} />;
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      {boards.map((board, b) => (
+        <div key={b} className="flex items-center gap-1 sm:gap-2">
+          <span className="w-3 text-[10px] sm:text-xs text-gray-400 font-semibold">{b + 1}</span>
+          <BoardRow cards={board} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -22,6 +22,18 @@ function LogMessage({ entry }: { entry: LogEntry }) {
     const handLabel = tHand(String(entry.params.hand));
     return <>{t('log.wins', { ...entry.params, hand: handLabel })}</>;
   }
+  if (entry.key === 'log.potWins' && entry.params) {
+    const handLabel = tHand(String(entry.params.hand));
+    const potIndex = Number(entry.params.pot);
+    const sidePotLabel = potIndex === 0 ? t('game.mainPot') : t('game.sidePot', { n: potIndex });
+    const potLabel = entry.params.board !== undefined
+      ? `${t('game.board', { n: Number(entry.params.board) + 1 })} · ${sidePotLabel}`
+      : sidePotLabel;
+    return <>{t('log.potWins', { ...entry.params, pot: potLabel, hand: handLabel })}</>;
+  }
+  if (entry.key === 'log.dealersChoice' && entry.params) {
+    return <>{t('log.dealersChoice', { game: t(`variant.${entry.params.game}`) })}</>;
+  }
 
   return <>{t(entry.key, entry.params)}</>;
 }
@@ -1,7 +1,7 @@
 import { useRef, useMemo, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGameStore } from '../../stores/game-store';
-import { GameState } from '@texas-agent/shared';
+import { GameState, calculateSidePots } from '@texas-agent/shared';
 import CommunityCards from './CommunityCards';
 import Pot from './Pot';
 import Dealer from './Dealer';
@@ -166,6 +166,12 @@ export default function PokerTable({ gameState, myPlayerId, isMultiplayer = fals
   const isCompact = isMobile && gameState.players.length >= 8;
   const { t, tHand } = useI18n();
 
+  // Pots are only split once someone is all-in; at showdown the engine has already settled them
+  const sidePots = gameState.phase === 'showdown'
+    ? gameState.sidePots
+    : gameState.players.some(p => p.isAllIn) ? calculateSidePots(gameState) : [];
+  const nameOf = (id: string) => gameState.players.find(pl => pl.id === id)?.name;
+
   // Build winner IDs set
   const winnerIds = new Set(gameState.winners?.map(w => w.playerId) || []);
 
@@ -254,28 +260,38 @@ export default function PokerTable({ gameState, myPlayerId, isMultiplayer = fals
               {/* Phase indicator */}
               <div className="px-2 py-0.5 sm:px-3 sm:py-1 rounded-full bg-black/40 text-gray-300 text-[10px] sm:text-xs font-medium uppercase tracking-wider border border-white/5 backdrop-blur-sm"
                 style={{ boxShadow: '0 2px 8px rgba(0,0,0,0.3)' }}>
-                {phaseLabel} · {t('game.round')} {gameState.round}
+                {phaseLabel} · {t('game.round')} {gameState.round}{gameState.bombPot ? ` · ${t('game.bombPot')}` : ''}
               </div>
 
               {/* Community cards */}
-              <CommunityCards cards={gameState.communityCards} />
+              <CommunityCards cards={gameState.communityCards} boards={gameState.boards} />
 
               {/* Pot */}
-              <Pot amount={gameState.pot} />
+              <Pot amount={gameState.pot} deadMoney={gameState.deadMoney} sidePots={sidePots} />
 
-              {/* Winners */}
-              {gameState.winners && gameState.winners.length > 0 && (
+              {/* Winners — pot by pot once the pot was split */}
+              {gameState.potResults && gameState.potResults.length > 1 ? (
+                <div className="flex flex-col items-center gap-1 mt-1 sm:mt-2">
+                  {gameState.potResults.map(pot => (
+                    <div key={`${pot.board ?? 0}-${pot.potIndex}`} className="px-2 py-1 sm:px-3 sm:py-1.5 rounded-full bg-gold-500/20 border border-gold-500/40 text-gold-400 text-[10px] sm:text-sm font-semibold winner-flash flex items-center gap-1 sm:gap-1.5"
+                      style={{ boxShadow: '0 2px 12px rgba(212,175,55,0.2)' }}>
+                      <span className="text-gray-300 font-normal">
+                        {pot.board !== undefined && `${t('game.board', { n: pot.board + 1 })} · `}
+                        {pot.potIndex === 0 ? t('game.mainPot') : t('game.sidePot', { n: pot.potIndex })}
+                      </span>
+                      {pot.winners.map(w => `${nameOf(w.playerId)} $${w.amount} (${tHand(w.handName)})`).join(' · ')}
+                    </div>
+                  ))}
+                </div>
+              ) : gameState.winners && gameState.winners.length > 0 && (
                 <div className="flex flex-col items-center gap-1 mt-1 sm:mt-2">
-                  {gameState.winners.map((w, i) => {
-                    const p = gameState.players.find(pl => pl.id === w.playerId);
-                    return (
-                      <div key={i} className="px-2 py-1 sm:px-3 sm:py-1.5 rounded-full bg-gold-500/20 border border-gold-500/40 text-gold-400 text-[10px] sm:text-sm font-semibold winner-flash flex items-center gap-1 sm:gap-1.5"
-                        style={{ boxShadow: '0 2px 12px rgba(212,175,55,0.2)' }}>
-                        <span className="text-xs sm:text-base">👑</span>
-                        {p?.name} wins ${w.amount} ({tHand(w.handName)})
-                      </div>
-                    );
-                  })}
+                  {gameState.winners.map((w, i) => (
+                    <div key={i} className="px-2 py-1 sm:px-3 sm:py-1.5 rounded-full bg-gold-500/20 border border-gold-500/40 text-gold-400 text-[10px] sm:text-sm font-semibold winner-flash flex items-center gap-1 sm:gap-1.5"
+                      style={{ boxShadow: '0 2px 12px rgba(212,175,55,0.2)' }}>
+                      <span className="text-xs sm:text-base">👑</span>
+                      {nameOf(w.playerId)} wins ${w.amount} ({tHand(w.handName)})
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
@@ -298,9 +314,12 @@ export default function PokerTable({ gameState, myPlayerId, isMultiplayer = fals
             phase={gameState.phase}
             position={pos}
             isWinner={winnerIds.has(player.id)}
+            isShown={gameState.shownPlayerIds?.includes(player.id)}
+            variant={gameState.variant}
             communityCards={gameState.communityCards}
             isMultiplayer={isMultiplayer}
             compact={isCompact}
+            turnClock={gameState.turnClock?.playerId === player.id ? gameState.turnClock : undefined}
           />
         );
       })}
@@ -1,8 +1,13 @@
-import { formatChips } from '@texas-agent/shared';
+import { SidePot, formatChips } from '@texas-agent/shared';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useI18n } from '../../i18n';
 
 interface PotProps {
   amount: number;
+  /** Antes included in the amount */
+  deadMoney?: number;
+  /** Main and side pots; broken down under the total once there is more than one */
+  sidePots?: SidePot[];
 }
 
 /** 3D-styled poker chip stack for the pot display */
@@ -41,22 +46,39 @@ function ChipStack({ amount }: { amount: number }) {
   );
 }
 
-export default function Pot({ amount }: PotProps) {
+export default function Pot({ amount, deadMoney = 0, sidePots = [] }: PotProps) {
+  const { t } = useI18n();
   if (amount === 0) return null;
 
   return (
-    <AnimatePresence>
-      <motion.div
-        initial={{ scale: 0.8, opacity: 0 }}
-        animate={{ scale: 1, opacity: 1 }}
-        className="flex items-center gap-1.5 sm:gap-2.5 px-2.5 py-1 sm:px-4 sm:py-1.5 rounded-full bg-black/50 border border-white/10 backdrop-blur-sm"
-        style={{ boxShadow: '0 4px 16px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.05)' }}
-      >
-        <ChipStack amount={amount} />
-        <span className="text-gold-400 font-bold text-sm sm:text-lg tabular-nums drop-shadow-[0_1px_2px_rgba(0,0,0,0.8)]">
-          {formatChips(amount)}
-        </span>
-      </motion.div>
-    </AnimatePresence>
+    <div className="flex flex-col items-center gap-1">
+      <AnimatePresence>
+        <motion.div
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="flex items-center gap-1.5 sm:gap-2.5 px-2.5 py-1 sm:px-4 sm:py-1.5 rounded-full bg-black/50 border border-white/10 backdrop-blur-sm"
+          style={{ boxShadow: '0 4px 16px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.05)' }}
+        >
+          <ChipStack amount={amount} />
+          <span className="text-gold-400 font-bold text-sm sm:text-lg tabular-nums drop-shadow-[0_1px_2px_rgba(0,0,0,0.8)]">
+            {formatChips(amount)}
+          </span>
+          {deadMoney > 0 && (
+            <span className="text-[9px] sm:text-[11px] text-gray-400 whitespace-nowrap">
+              {t('game.deadMoney', { amount: formatChips(deadMoney) })}
+            </span>
+          )}
+        </motion.div>
+      </AnimatePresence>
+      {sidePots.length > 1 && (
+        <div className="flex flex-wrap justify-center gap-1 sm:gap-1.5">
+          {sidePots.map((pot, i) => (
+            <span key={i} className="px-1.5 py-0.5 sm:px-2 rounded-full bg-black/40 border border-white/10 text-[9px] sm:text-[11px] text-gray-300 tabular-nums whitespace-nowrap">
+              {i === 0 ? t('game.mainPot') : t('game.sidePot', { n: i })} {formatChips(pot.amount)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Coins } from 'lucide-react';
+import { RoomConfig, getBuyInRange } from '@texas-agent/shared';
+import { Slider } from '@/components/ui/slider';
+import { useI18n } from '../../i18n';
+
+interface TopUpDialogProps {
+  config: RoomConfig;
+  /** Chips at the table, including a top-up already bought for the next hand */
+  stack: number;
+  bankroll: number;
+  onConfirm: (amount: number) => void;
+  onClose: () => void;
+}
+
+/** Buy more chips from the bankroll, within the room's buy-in limits — a rebuy when the stack is empty */
+export default function TopUpDialog({ config, stack, bankroll, onConfirm, onClose }: TopUpDialogProps) {
+  const { t } = useI18n();
+  const { min, max } = getBuyInRange(config);
+  const lowest = Math.max(1, min - stack);
+  const highest = Math.min(max - stack, bankroll);
+  const canBuy = highest >= lowest;
+  const [amount, setAmount] = useState(highest);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-casino-card border border-casino-border rounded-2xl p-6 max-w-sm w-full mx-4 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2">
+          <Coins size={20} className="text-gold-400" />
+          <h2 className="text-lg font-bold text-white">{stack > 0 ? t('topUp.title') : t('topUp.rebuyTitle')}</h2>
+        </div>
+
+        <div className="space-y-1 text-xs text-gray-400">
+          <p>{t('topUp.limits', { min: min.toLocaleString(), max: max.toLocaleString() })}</p>
+          <p>{t('topUp.stack', { stack: stack.toLocaleString() })} · {t('topUp.bankroll', { bankroll: bankroll.toLocaleString() })}</p>
+        </div>
+
+        {canBuy ? (
+          <div>
+            <p className="text-center text-2xl font-bold font-mono text-gold-400">+{amount.toLocaleString()}</p>
+            <Slider
+              value={[amount]}
+              min={lowest}
+              max={highest}
+              step={1}
+              onValueChange={([v]) => setAmount(v)}
+              className="mt-3"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-red-400">{stack >= max ? t('topUp.atMax') : t('topUp.insufficient')}</p>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 rounded-lg bg-casino-bg border border-casino-border text-gray-300 text-sm
+              hover:text-white transition-colors cursor-pointer"
+          >
+            {t('topUp.cancel')}
+          </button>
+          {canBuy && (
+            <button
+              onClick={() => onConfirm(amount)}
+              className="flex-1 py-2 rounded-lg bg-gold-500 text-black font-bold text-sm
+                hover:bg-gold-400 transition-colors cursor-pointer"
+            >
+              {t('topUp.confirm')}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { TournamentConfig, TournamentStatus, BlindLevel } from '@texas-agent/shared';
+import { useI18n } from '../../i18n';
+
+interface TournamentInfoProps {
+  config: TournamentConfig;
+  status: TournamentStatus;
+  /** Single line for the table's top bar */
+  compact?: boolean;
+}
+
+const formatBlinds = (b: BlindLevel) => `${b.smallBlind}/${b.bigBlind}${b.ante > 0 ? ` (${b.ante})` : ''}`;
+
+function formatClock(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** Tournament progress: level and blinds, when they next go up, players left and the prize pool */
+export default function TournamentInfo({ config, status, compact }: TournamentInfoProps) {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (status.levelEndsAt === undefined) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status.levelEndsAt]);
+
+  if (status.status === 'registering') {
+    return (
+      <p className="text-xs text-gold-400 flex items-center gap-1">
+        <Trophy size={12} />
+        {t('tournament.registering', { buyIn: config.buyIn, pool: status.prizePool })}
+      </p>
+    );
+  }
+
+  if (status.status === 'finished') {
+    return (
+      <p className="text-xs text-gold-400 flex items-center gap-1 flex-wrap">
+        <Trophy size={12} />
+        {status.finishes.filter(f => f.prize > 0).map(f => `#${f.place} ${f.name} +${f.prize}`).join(' · ')}
+      </p>
+    );
+  }
+
+  const nextIn = status.levelEndsAt !== undefined
+    ? formatClock(status.levelEndsAt - now)
+    : t('tournament.hands', { count: status.handsLeftInLevel ?? 0 });
+  const level = t('tournament.level', { n: status.level + 1, blinds: formatBlinds(status.blinds) });
+  const next = t('tournament.next', { blinds: formatBlinds(status.nextBlinds), time: nextIn });
+  const remaining = t('tournament.remaining', { left: status.remaining, total: status.entrants });
+  const handForHand = status.handForHand && (
+    <span className="px-1.5 rounded bg-red-500/20 text-red-300 font-semibold">{t('tournament.handForHand')}</span>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-1 px-2 py-1.5 sm:px-3 sm:py-2 rounded-lg bg-casino-card/80 border border-gold-500/30
+        text-[10px] sm:text-xs text-gold-400 backdrop-blur-sm">
+        <Trophy size={12} />
+        <span>{level}</span>
+        <span className="text-gray-400 hidden sm:inline">· {next}</span>
+        <span className="text-gray-400">· {remaining}</span>
+        {handForHand}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs space-y-0.5">
+      <p className="text-gold-400 flex items-center gap-1"><Trophy size={12} />{level}{handForHand}</p>
+      <p className="text-gray-400">{next} · {remaining} · {t('tournament.pool', { pool: status.prizePool })}</p>
+    </div>
+  );
+}
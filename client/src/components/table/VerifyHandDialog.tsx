@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { GameState, Card, verifyHand, formatCards } from '@texas-agent/shared';
+import { useI18n } from '../../i18n';
+
+interface VerifyHandDialogProps {
+  gameState: GameState;
+  onClose: () => void;
+}
+
+/**
+ * Re-deals the finished hand from its revealed server seed and checks it against the cards that were seen.
+ * Only hands the viewer saw at the table are listed; the re-dealt deck also holds the mucked ones.
+ */
+export default function VerifyHandDialog({ gameState, onClose }: VerifyHandDialogProps) {
+  const { t } = useI18n();
+  const fairness = gameState.fairness!;
+
+  const result = useMemo(() => {
+    const known: Record<string, Card[]> = {};
+    for (const p of gameState.players) known[p.id] = p.cards;
+    return verifyHand(fairness, gameState.variant, known, gameState.boards ?? [gameState.communityCards]);
+  }, [gameState, fairness]);
+
+  const valid = result.commitmentValid && result.cardsValid;
+  const seenIds = fairness.dealOrder.filter(id => (gameState.players.find(p => p.id === id)?.cards.length ?? 0) > 0);
+  const nameOf = (id: string) => gameState.players.find(p => p.id === id)?.name ?? '?';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        className="bg-casino-card border border-casino-border rounded-2xl p-6 max-w-md w-full mx-4 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2">
+          {valid
+            ? <ShieldCheck size={20} className="text-green-400" />
+            : <ShieldAlert size={20} className="text-red-400" />}
+          <h2 className="text-lg font-bold text-white">{t('verify.title')}</h2>
+        </div>
+
+        <div className="space-y-1 text-xs">
+          <p className={result.commitmentValid ? 'text-green-400' : 'text-red-400'}>
+            {result.commitmentValid ? t('verify.commitmentOk') : t('verify.commitmentFail')}
+          </p>
+          <p className={result.cardsValid ? 'text-green-400' : 'text-red-400'}>
+            {result.cardsValid ? t('verify.cardsOk') : t('verify.cardsFail', { count: result.mismatches.length })}
+          </p>
+        </div>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[11px]">
+          <dt className="text-gray-500">{t('verify.commitment')}</dt>
+          <dd className="text-gray-300 font-mono break-all">{fairness.commitment}</dd>
+          <dt className="text-gray-500">{t('verify.serverSeed')}</dt>
+          <dd className="text-gray-300 font-mono break-all">{fairness.serverSeed}</dd>
+          <dt className="text-gray-500">{t('verify.clientSeed')}</dt>
+          <dd className="text-gray-300 font-mono break-all">{fairness.clientSeed || '—'}</dd>
+          <dt className="text-gray-500">{t('verify.nonce')}</dt>
+          <dd className="text-gray-300 font-mono">{fairness.nonce}</dd>
+        </dl>
+
+        <div className="space-y-1 text-xs">
+          <p className="text-gray-500">{t('verify.redealt')}</p>
+          {seenIds.map(id => (
+            <p key={id} className="text-gray-300">
+              {nameOf(id)}: <span className="font-mono">{formatCards(result.holeCards[id] ?? [])}</span>
+            </p>
+          ))}
+          {result.boards.map((board, i) => (
+            <p key={i} className="text-gray-300">
+              {result.boards.length > 1 ? t('game.board', { n: i + 1 }) : t('verify.board')}:{' '}
+              <span className="font-mono">{formatCards(board)}</span>
+            </p>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-2 rounded-lg bg-casino-bg border border-casino-border text-gray-300 text-sm
+            hover:text-white transition-colors cursor-pointer"
+        >
+          {t('verify.close')}
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+}
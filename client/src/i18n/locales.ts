@@ -5,10 +5,13 @@ export const locales: Record<Locale, Record<string, string>> = {
     // App title
     'app.title': 'TexasAgent',
     'app.subtitle': 'Poker AI',
+    'app.shutdown': 'Server restarting in {seconds}s — hands in play will finish or have their bets refunded',
+    'app.shutdownNow': 'Server restarting — reconnecting shortly',
 
     // Lobby
     'lobby.singlePlayer': 'Single Player',
     'lobby.singlePlayerDesc': 'Challenge AI opponents',
+    'lobby.otherVariants': 'Other games:',
     'lobby.singlePlayerDetail': 'Play against intelligent AI bots with different personalities — conservative, aggressive, or balanced. Perfect for practice and honing your skills.',
     'lobby.multiplayer': 'Multiplayer',
     'lobby.multiplayerDesc': 'Play with friends online',
@@ -29,7 +32,51 @@ export const locales: Record<Locale, Record<string, string>> = {
     'room.name': 'Room Name',
     'room.maxPlayers': 'Max Players',
     'room.blindLevel': 'Blind Level',
-    'room.startingChips': 'Starting Chips',
+    'room.bettingStructure': 'Betting Structure',
+    'room.variant': 'Game',
+    'variant.holdem': "Texas Hold'em",
+    'variant.omaha': 'Omaha',
+    'variant.short-deck': 'Short Deck (6+)',
+    'room.ante': 'Ante',
+    'room.anteAmount': 'Ante Size',
+    'anteStructure.none': 'No Ante',
+    'anteStructure.every-player': 'Every Player',
+    'anteStructure.big-blind': 'Big Blind Ante',
+    'anteStructure.button': 'Button Ante',
+    'room.straddle': 'Straddle',
+    'room.straddleOff': 'Off',
+    'room.straddleOn': 'UTG straddle ({amount})',
+    'room.runItTwice': 'Run It Twice',
+    'room.runItTwiceOff': 'Off',
+    'room.runItTwiceOn': 'Allowed when all-in',
+    'room.sitOutBlinds': 'Sitting Out',
+    'room.sitOutBlinds.skip': 'Dealt out, no blinds',
+    'room.sitOutBlinds.post': 'Keeps posting blinds',
+    'room.bombPot': 'Bomb Pots',
+    'room.bombPotOff': 'Off',
+    'room.bombPotEvery': 'Every {hands} hands',
+    'room.bombPotAnte': 'Bomb Pot Ante',
+    'room.dealersChoice': "Dealer's Choice",
+    'room.dealersChoiceHint': 'Pick two or more games: the button calls one for each orbit',
+    'room.actionTimeout': 'Action Clock',
+    'room.timeBank': 'Time Bank',
+    'room.timeBankOff': 'Off',
+    'room.seconds': '{seconds}s',
+    'room.type': 'Game Type',
+    'room.typeCash': 'Cash game',
+    'room.typeSng': 'Sit-and-Go tournament',
+    'room.buyIn': 'Buy-in',
+    'room.tournamentStack': 'Tournament Stack',
+    'room.minBuyIn': 'Min Buy-in',
+    'room.maxBuyIn': 'Max Buy-in',
+    'room.buyInBB': '{bb} BB ({chips})',
+    'room.blindsUp': 'Blinds Go Up',
+    'room.levelTime': 'Every {n} min',
+    'room.levelHands': 'Every {n} hands',
+    'room.payouts': 'Payouts',
+    'bettingStructure.no-limit': 'No-Limit',
+    'bettingStructure.pot-limit': 'Pot-Limit',
+    'bettingStructure.fixed-limit': 'Fixed-Limit',
     'room.addAI': 'Add AI',
     'room.startGame': 'Start Game',
     'room.leaveRoom': 'Leave Room',
@@ -65,13 +112,18 @@ export const locales: Record<Locale, Record<string, string>> = {
     'action.pot': 'Pot',
     'action.onePot': '1x Pot',
     'action.twoPot': '2x Pot',
+    'action.timeBank': 'Time Bank +{seconds}s',
     'action.bet': 'Bet',
     'action.minRaise': 'Min',
+    'action.maxRaise': 'Max',
+    'action.capped': 'Capped',
+    'action.callOnly': 'Call only',
 
     // Player
     'player.you': 'You',
     'player.folded': 'Folded',
     'player.allIn': 'All In',
+    'player.sittingOut': 'Away',
 
     // Log messages
     'log.gameStarted': '🎴 Game started!',
@@ -79,12 +131,37 @@ export const locales: Record<Locale, Record<string, string>> = {
     'log.gameOver': 'Game over! Not enough players.',
     'log.gameRestarted': '🔄 Game restarted!',
     'log.wins': '🏆 {name} wins ${amount} ({hand})',
+    'log.potWins': '🏆 {pot}: {name} wins ${amount} ({hand})',
+    'log.ranIt': 'Board run {count} times',
+    'log.levelUp': '⏫ Level {level}: blinds {small}/{big}',
+    'log.eliminated': '{name} finishes #{place}',
+    'log.eliminatedPrize': '{name} finishes #{place} and wins ${prize}',
+    'log.tournamentOver': '🏆 {name} wins the tournament (${prize})',
+    'log.handForHand': '⏸ Hand-for-hand: every table waits for the others before the next deal',
+    'log.handForHandOff': '▶ Hand-for-hand is over',
+    'log.tableMoved': '🔀 You were moved to this table to balance the tournament',
     'log.action': '{name}: {action}',
     'log.playerLeft': '🚪 {name} left the table (out of chips)',
+    'log.antes': '🪙 Antes: ${amount} dead money in the pot',
+    'log.straddle': '{name} straddles ${amount}',
+    'log.bombPot': '💣 Bomb pot! Everyone antes ${amount} and play starts on the flop',
+    'log.handDownloadFailed': 'Could not download the hand history',
+    'replay.title': 'Hand Replay',
+    'replay.loading': 'Loading hand…',
+    'replay.notFound': 'Hand not found, or you cannot view it',
+    'replay.pasteHint': 'Paste a downloaded .json hand history file to review a hand shared with you',
+    'replay.invalidFile': 'Not a valid hand history file',
+    'replay.load': 'Load hand',
+    'replay.openFile': 'Open file',
+    'replay.play': 'Play',
+    'replay.pause': 'Pause',
+    'replay.back': 'Step back',
+    'replay.forward': 'Step forward',
+    'replay.revealCards': 'Reveal cards',
+    'replay.hideCards': 'Hide cards',
+    'log.dealersChoice': "🎲 Dealer's choice: {game} this orbit",
 
     // Game over / restart
-    'game.over': 'Game Over',
-    'game.overDesc': 'You ran out of chips!',
     'game.victory': 'Victory!',
     'game.victoryDesc': 'You defeated all opponents!',
     'game.restart': 'Restart Game',
@@ -93,11 +170,96 @@ export const locales: Record<Locale, Record<string, string>> = {
     'game.sitDown': 'Sit Down',
     'game.standUp': 'Stand Up',
     'game.standingUp': 'You will start spectating at the next hand',
+    'game.sitOut': 'Sit Out',
+    'game.imBack': "I'm Back",
+    'game.sittingOut': 'You are sitting out — your seat is kept for {orbits} orbits',
+    'game.sittingOutTournament': 'You are sitting out — your blinds are still posted and your hands folded',
+    'game.busted': 'You are out of chips — rebuy to keep your seat (held for {orbits} orbits)',
+    'game.rebuy': 'Rebuy',
+    'game.topUp': 'Buy Chips',
+    'game.showCards': 'Show Cards',
+    'game.verifyHand': 'Verify Hand',
+    'game.downloadHand': 'Download hand history',
+    'game.replayHand': 'Replay',
+    'game.downloadHandText': 'PokerStars-format text, for trackers and replayers',
+    'game.downloadHandJson': 'JSON file, to open in the hand replayer',
+    'game.deadMoney': 'incl. {amount} antes',
+    'game.bombPot': 'Bomb pot',
+    'game.mainPot': 'Main pot',
+    'game.sidePot': 'Side pot {n}',
+    'game.board': 'Board {n}',
     'game.waitingNextRound': 'You will join at the start of the next hand',
     'game.gameOverPlayers': 'Game Over! Not enough players.',
     'game.loginToPlay': 'Login to join the game',
     'game.loginRequired': 'You need to log in or register to sit down and play.',
 
+    // Provably-fair verification
+    'verify.title': 'Verify Hand',
+    'verify.commitmentOk': '✓ Server seed matches the commitment published before the deal',
+    'verify.commitmentFail': '✗ Server seed does NOT match the published commitment',
+    'verify.cardsOk': '✓ Every card you saw matches the re-dealt deck',
+    'verify.cardsFail': '✗ {count} card(s) do not match the re-dealt deck',
+    'verify.commitment': 'Commitment',
+    'verify.serverSeed': 'Server seed',
+    'verify.clientSeed': 'Client seed',
+    'verify.nonce': 'Nonce',
+    'verify.redealt': 'Re-dealt from the seed:',
+    'verify.board': 'Board',
+    'verify.close': 'Close',
+    'topUp.title': 'Top Up',
+    'topUp.rebuyTitle': 'Rebuy',
+    'topUp.limits': 'Buy-in: {min} – {max}',
+    'topUp.stack': 'At the table: {stack}',
+    'topUp.bankroll': 'Bankroll: {bankroll}',
+    'topUp.atMax': 'Your stack is already at the maximum buy-in',
+    'topUp.insufficient': 'Not enough chips in your bankroll',
+    'topUp.cancel': 'Cancel',
+    'topUp.confirm': 'Buy',
+
+    // Run it twice
+    'runIt.title': 'Run it more than once?',
+    'runIt.once': 'Once',
+    'runIt.twice': 'Twice',
+    'runIt.threeTimes': 'Three times',
+    'runIt.hint': 'The board runs as many times as every all-in player agrees to',
+    'dealersChoice.title': "Dealer's choice: call the game",
+    'dealersChoice.hint': 'Plays for one orbit; no call keeps the current game',
+    'dealersChoice.waiting': '{name} is calling the next game…',
+
+    // Sit-and-Go
+    'tournament.registering': 'Sit-and-Go · buy-in {buyIn} · prize pool {pool}',
+    'tournament.level': 'Level {n}: {blinds}',
+    'tournament.next': 'next {blinds} in {time}',
+    'tournament.hands': '{count} hands',
+    'tournament.remaining': '{left}/{total} left',
+    'tournament.pool': 'prize pool {pool}',
+    'tournament.handForHand': 'Hand-for-hand',
+
+    // Multi-table tournaments
+    'mtt.title': 'Tournaments',
+    'mtt.create': 'Schedule Tournament',
+    'mtt.name': 'Name',
+    'mtt.startIn': 'Starts in',
+    'mtt.minutes': '{n} min',
+    'mtt.tableSize': 'Seats per table',
+    'mtt.minEntrants': 'Min entrants',
+    'mtt.maxEntrants': 'Max entrants',
+    'mtt.aiEntrants': 'AI entrants',
+    'mtt.paidPlaces': 'Top {n} paid',
+    'mtt.empty': 'No tournaments scheduled — create one!',
+    'mtt.notFound': 'Tournament not found',
+    'mtt.startsIn': 'starts in {time}',
+    'mtt.running': 'Running',
+    'mtt.finished': 'Finished',
+    'mtt.cancelled': 'Cancelled — buy-ins refunded',
+    'mtt.summary': 'Buy-in ${buyIn} · {tableSize}-max tables · {minutes} min levels · {paid} paid',
+    'mtt.register': 'Register (${buyIn})',
+    'mtt.unregister': 'Unregister',
+    'mtt.takeSeat': 'Go to my table',
+    'mtt.registered': '{count} registered · {ai} AI entrants',
+    'mtt.standings': 'Standings',
+    'mtt.watch': 'Watch',
+
     // LLM Advisor
     'advisor.title': 'AI Advisor',
     'advisor.thinking': 'Analyzing...',
@@ -138,10 +300,13 @@ export const locales: Record<Locale, Record<string, string>> = {
     // App title
     'app.title': 'TexasAgent',
     'app.subtitle': '扑克AI',
+    'app.shutdown': '服务器将在 {seconds} 秒后重启，进行中的牌局会打完或退还下注',
+    'app.shutdownNow': '服务器正在重启，稍后将自动重连',
 
     // Lobby
     'lobby.singlePlayer': '单人模式',
     'lobby.singlePlayerDesc': '挑战AI对手',
+    'lobby.otherVariants': '其他玩法：',
     'lobby.singlePlayerDetail': '与拥有不同性格（保守型、激进型、平衡型）的智能AI机器人对战，是练习和提升牌技的最佳方式。',
     'lobby.multiplayer': '多人模式',
     'lobby.multiplayerDesc': '与好友在线对战',
@@ -162,7 +327,51 @@ export const locales: Record<Locale, Record<string, string>> = {
     'room.name': '房间名称',
     'room.maxPlayers': '最大人数',
     'room.blindLevel': '盲注级别',
-    'room.startingChips': '初始筹码',
+    'room.bettingStructure': '下注结构',
+    'room.variant': '玩法',
+    'variant.holdem': '德州扑克',
+    'variant.omaha': '奥马哈',
+    'variant.short-deck': '短牌 (6+)',
+    'room.ante': '前注',
+    'room.anteAmount': '前注金额',
+    'anteStructure.none': '无前注',
+    'anteStructure.every-player': '每人前注',
+    'anteStructure.big-blind': '大盲前注',
+    'anteStructure.button': '庄位前注',
+    'room.straddle': '抓瞎',
+    'room.straddleOff': '关闭',
+    'room.straddleOn': '枪口位抓瞎 ({amount})',
+    'room.runItTwice': '发两次',
+    'room.runItTwiceOff': '关闭',
+    'room.runItTwiceOn': '全下时可选',
+    'room.sitOutBlinds': '暂离',
+    'room.sitOutBlinds.skip': '暂离不发牌，不交盲注',
+    'room.sitOutBlinds.post': '暂离仍需交盲注',
+    'room.bombPot': '炸弹底池',
+    'room.bombPotOff': '关闭',
+    'room.bombPotEvery': '每 {hands} 手一次',
+    'room.bombPotAnte': '炸弹底池前注',
+    'room.dealersChoice': '庄家选游戏',
+    'room.dealersChoiceHint': '选择两种或以上玩法：每一圈由按钮位玩家决定玩哪一种',
+    'room.actionTimeout': '行动时限',
+    'room.timeBank': '时间银行',
+    'room.timeBankOff': '关闭',
+    'room.seconds': '{seconds}秒',
+    'room.type': '游戏类型',
+    'room.typeCash': '现金桌',
+    'room.typeSng': '坐满即玩锦标赛',
+    'room.buyIn': '报名费',
+    'room.tournamentStack': '锦标赛筹码',
+    'room.minBuyIn': '最小买入',
+    'room.maxBuyIn': '最大买入',
+    'room.buyInBB': '{bb} 个大盲（{chips}）',
+    'room.blindsUp': '涨盲',
+    'room.levelTime': '每 {n} 分钟',
+    'room.levelHands': '每 {n} 手',
+    'room.payouts': '奖励分配',
+    'bettingStructure.no-limit': '无限注',
+    'bettingStructure.pot-limit': '底池限注',
+    'bettingStructure.fixed-limit': '固定限注',
     'room.addAI': '添加AI',
     'room.startGame': '开始游戏',
     'room.leaveRoom': '离开房间',
@@ -198,13 +407,18 @@ export const locales: Record<Locale, Record<string, string>> = {
     'action.pot': '底池',
     'action.onePot': '1x底池',
     'action.twoPot': '2x底池',
+    'action.timeBank': '时间银行 +{seconds}秒',
     'action.bet': '下注',
     'action.minRaise': '最小',
+    'action.maxRaise': '最大',
+    'action.capped': '封顶',
+    'action.callOnly': '仅可跟注',
 
     // Player
     'player.you': '你',
     'player.folded': '已弃牌',
     'player.allIn': '全押',
+    'player.sittingOut': '暂离',
 
     // Log messages
     'log.gameStarted': '🎴 游戏开始！',
@@ -212,12 +426,37 @@ export const locales: Record<Locale, Record<string, string>> = {
     'log.gameOver': '游戏结束！玩家不足。',
     'log.gameRestarted': '🔄 游戏已重新开始！',
     'log.wins': '🏆 {name} 赢得 ${amount}（{hand}）',
+    'log.potWins': '🏆 {pot}：{name} 赢得 ${amount}（{hand}）',
+    'log.ranIt': '公共牌发了 {count} 次',
+    'log.levelUp': '⏫ 第 {level} 级：盲注 {small}/{big}',
+    'log.eliminated': '{name} 获得第 {place} 名',
+    'log.eliminatedPrize': '{name} 获得第 {place} 名，奖金 ${prize}',
+    'log.tournamentOver': '🏆 {name} 赢得锦标赛冠军（${prize}）',
+    'log.handForHand': '⏸ 同步发牌：各桌打完本手后等待其他牌桌',
+    'log.handForHandOff': '▶ 同步发牌结束',
+    'log.tableMoved': '🔀 为平衡牌桌，你已被移到这张桌子',
     'log.action': '{name}：{action}',
     'log.playerLeft': '🚪 {name} 离开了牌桌（筹码耗尽）',
+    'log.antes': '🪙 前注：底池中有 ${amount} 死钱',
+    'log.straddle': '{name} 抓瞎 ${amount}',
+    'log.bombPot': '💣 炸弹底池！每人前注 ${amount}，直接从翻牌开始',
+    'log.handDownloadFailed': '牌局记录下载失败',
+    'replay.title': '牌局回放',
+    'replay.loading': '正在加载牌局…',
+    'replay.notFound': '牌局不存在或无权查看',
+    'replay.pasteHint': '粘贴下载的 .json 牌局记录，即可查看别人分享给你的牌局',
+    'replay.invalidFile': '不是有效的牌局记录文件',
+    'replay.load': '加载牌局',
+    'replay.openFile': '打开文件',
+    'replay.play': '播放',
+    'replay.pause': '暂停',
+    'replay.back': '后退一步',
+    'replay.forward': '前进一步',
+    'replay.revealCards': '显示底牌',
+    'replay.hideCards': '隐藏底牌',
+    'log.dealersChoice': '🎲 庄家选游戏：本圈玩 {game}',
 
     // Game over / restart
-    'game.over': '游戏结束',
-    'game.overDesc': '你的筹码已耗尽！',
     'game.victory': '胜利！',
     'game.victoryDesc': '你击败了所有对手！',
     'game.restart': '重新开始',
@@ -226,11 +465,96 @@ export const locales: Record<Locale, Record<string, string>> = {
     'game.sitDown': '坐下',
     'game.standUp': '站起',
     'game.standingUp': '你将在下一轮开始时进入观战',
+    'game.sitOut': '暂离',
+    'game.imBack': '我回来了',
+    'game.sittingOut': '你已暂离，座位将为你保留 {orbits} 圈',
+    'game.sittingOutTournament': '你已暂离，盲注照常扣除，手牌自动弃掉',
+    'game.busted': '你的筹码已输光——重新买入即可继续（座位保留 {orbits} 圈）',
+    'game.rebuy': '重新买入',
+    'game.topUp': '补充筹码',
+    'game.showCards': '亮牌',
+    'game.verifyHand': '验证牌局',
+    'game.downloadHand': '下载牌局记录',
+    'game.replayHand': '回放',
+    'game.downloadHandText': 'PokerStars 格式文本，可导入统计与回放工具',
+    'game.downloadHandJson': 'JSON 文件，可在牌局回放中打开',
+    'game.deadMoney': '含前注 {amount}',
+    'game.bombPot': '炸弹底池',
+    'game.mainPot': '主池',
+    'game.sidePot': '边池 {n}',
+    'game.board': '第 {n} 组公共牌',
     'game.waitingNextRound': '你将在下一轮开始时加入游戏',
     'game.gameOverPlayers': '游戏结束！玩家不足。',
     'game.loginToPlay': '登录后即可参与游戏',
     'game.loginRequired': '你需要登录或注册才能坐下参与游戏。',
 
+    // Provably-fair verification
+    'verify.title': '验证牌局',
+    'verify.commitmentOk': '✓ 服务端种子与发牌前公布的承诺哈希一致',
+    'verify.commitmentFail': '✗ 服务端种子与公布的承诺哈希不一致',
+    'verify.cardsOk': '✓ 你看到的每张牌都与重新发出的牌堆一致',
+    'verify.cardsFail': '✗ 有 {count} 处牌与重新发出的牌堆不一致',
+    'verify.commitment': '承诺哈希',
+    'verify.serverSeed': '服务端种子',
+    'verify.clientSeed': '客户端种子',
+    'verify.nonce': '随机数',
+    'verify.redealt': '由种子重新发牌：',
+    'verify.board': '公共牌',
+    'verify.close': '关闭',
+    'topUp.title': '补充筹码',
+    'topUp.rebuyTitle': '重新买入',
+    'topUp.limits': '买入范围：{min} – {max}',
+    'topUp.stack': '桌上筹码：{stack}',
+    'topUp.bankroll': '账户余额：{bankroll}',
+    'topUp.atMax': '你的筹码已达最大买入',
+    'topUp.insufficient': '账户余额不足',
+    'topUp.cancel': '取消',
+    'topUp.confirm': '买入',
+
+    // Run it twice
+    'runIt.title': '要多发几次公共牌吗？',
+    'runIt.once': '一次',
+    'runIt.twice': '两次',
+    'runIt.threeTimes': '三次',
+    'runIt.hint': '次数取所有全下玩家都同意的最少次数',
+    'dealersChoice.title': '庄家选游戏：请选择玩法',
+    'dealersChoice.hint': '本圈都玩这一种；超时未选则沿用当前玩法',
+    'dealersChoice.waiting': '{name} 正在选择下一圈的玩法…',
+
+    // Sit-and-Go
+    'tournament.registering': '坐满即玩 · 报名费 {buyIn} · 奖池 {pool}',
+    'tournament.level': '第 {n} 级：{blinds}',
+    'tournament.next': '下一级 {blinds}，{time} 后',
+    'tournament.hands': '{count} 手',
+    'tournament.remaining': '剩余 {left}/{total}',
+    'tournament.pool': '奖池 {pool}',
+    'tournament.handForHand': '同步发牌',
+
+    // Multi-table tournaments
+    'mtt.title': '锦标赛',
+    'mtt.create': '创建锦标赛',
+    'mtt.name': '名称',
+    'mtt.startIn': '开赛时间',
+    'mtt.minutes': '{n} 分钟后',
+    'mtt.tableSize': '每桌人数',
+    'mtt.minEntrants': '最少参赛人数',
+    'mtt.maxEntrants': '最多参赛人数',
+    'mtt.aiEntrants': 'AI 参赛人数',
+    'mtt.paidPlaces': '前 {n} 名有奖',
+    'mtt.empty': '暂无锦标赛，快来创建一个吧！',
+    'mtt.notFound': '锦标赛不存在',
+    'mtt.startsIn': '{time} 后开赛',
+    'mtt.running': '进行中',
+    'mtt.finished': '已结束',
+    'mtt.cancelled': '已取消，报名费已退还',
+    'mtt.summary': '报名费 ${buyIn} · 每桌 {tableSize} 人 · 每级 {minutes} 分钟 · 前 {paid} 名有奖',
+    'mtt.register': '报名（${buyIn}）',
+    'mtt.unregister': '取消报名',
+    'mtt.takeSeat': '回到我的牌桌',
+    'mtt.registered': '已报名 {count} 人 · AI {ai} 人',
+    'mtt.standings': '排名',
+    'mtt.watch': '观战',
+
     // LLM Advisor
     'advisor.title': 'AI 顾问',
     'advisor.thinking': '分析中...',
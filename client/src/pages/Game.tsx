@@ -1,9 +1,8 @@
 import { useEffect, useRef, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useGameStore } from '../stores/game-store';
 import { useLobbyStore } from '../stores/lobby-store';
-import { DEFAULT_ROOM_CONFIG, RoomConfig } from '@texas-agent/shared';
-import { LocalGameEngine, LocalGameOptions } from '../services/local-game';
+import { SIT_OUT_MAX_ORBITS, HandExportFormat } from '@texas-agent/shared';
 import { getSocket, connectSocket, reconnectWithToken } from '../services/socket-service';
 import PokerTable from '../components/table/PokerTable';
 import ActionPanel from '../components/controls/ActionPanel';
@@ -11,25 +10,33 @@ import GameLog from '../components/table/GameLog';
 import { LanguageSwitch } from '../components/controls/LanguageSwitch';
 import SoundToggle from '../components/controls/SoundToggle';
 import LLMAdvisor from '../components/controls/LLMAdvisor';
+import RunItPanel from '../components/controls/RunItPanel';
+import DealersChoicePanel from '../components/controls/DealersChoicePanel';
+import TournamentInfo from '../components/table/TournamentInfo';
 import ChatPanel from '../components/table/ChatPanel';
-import { ArrowLeft, RotateCcw, Armchair, LogOut, Eye } from 'lucide-react';
+import VerifyHandDialog from '../components/table/VerifyHandDialog';
+import TopUpDialog from '../components/table/TopUpDialog';
+import { ArrowLeft, RotateCcw, Armchair, LogOut, Eye, ShieldCheck, Coffee, Coins, Download, Film } from 'lucide-react';
 import { useI18n } from '../i18n';
 import { playSound, startBGM, stopBGM, isBGMEnabled } from '../services/sound-service';
 import { recordAction, recordHandResult, setCurrentRound } from '../services/player-memory';
+import { downloadHandHistory } from '../services/hand-history';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuthStore } from '../stores/auth-store';
 
 export default function Game() {
   const { roomId } = useParams();
   const navigate = useNavigate();
-  const isLocal = roomId === 'local';
-  const localEngine = useRef<LocalGameEngine | null>(null);
-  const { gameState, isMyTurn, myPlayerId, gameLog, setGameState, setMyPlayerId, sendAction, addLog, addHandAction, clearGame, initGameListeners } = useGameStore();
-  const [started, setStarted] = useState(false);
+  const location = useLocation();
+  // A private table against bots, opened from the lobby's single-player card
+  const isSinglePlayer = useLobbyStore(s => !!s.currentRoom?.isPrivate);
+  const { gameState, isMyTurn, myPlayerId, gameLog, setMyPlayerId, sendAction, showCards, runItOffer, sendRunIt, dealersChoiceOffer, sendDealersChoice, addLog, clearGame, initGameListeners } = useGameStore();
   const { t } = useI18n();
   const prevPhaseRef = useRef<string | null>(null);
   const prevRoundRef = useRef<number | null>(null);
   const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const [showVerifyDialog, setShowVerifyDialog] = useState(false);
+  const [showTopUpDialog, setShowTopUpDialog] = useState(false);
 
   const { token, user } = useAuthStore();
   const isGuest = !token;
@@ -59,11 +66,6 @@ export default function Game() {
     // Track current round for memory
     setCurrentRound(gameState.round);
 
-    // Reset hand actions on new round (for local mode; multiplayer resets via game:started)
-    if (isLocal && prevRoundRef.current !== null && prevRoundRef.current !== gameState.round && phase !== 'showdown') {
-      useGameStore.setState({ handActions: [] });
-    }
-
     // Record actions to player memory (with phase info) — record ALL players for LLM profiling
     if (gameState.lastAction) {
       const actionKey = `${gameState.lastAction.playerId}-${gameState.lastAction.action.type}-${gameState.lastAction.action.amount || 0}`;
@@ -79,20 +81,11 @@ export default function Game() {
             gameState.pot,
             gameState.phase,
           );
-          // Record structured action for LLM advisor (local mode; multiplayer does this in game-store)
-          if (isLocal) {
-            addHandAction({
-              playerName: player.name,
-              action: gameState.lastAction.action.type,
-              amount: gameState.lastAction.action.amount,
-              phase: gameState.phase,
-            });
-          }
         }
       }
     }
 
-    // Record hand results + settle chips for local mode — track ALL players for LLM profiling
+    // Record hand results — track ALL players for LLM profiling
     if (phase === 'showdown' && gameState.winners && prevRoundRef.current !== gameState.round) {
       prevRoundRef.current = gameState.round;
       const winnerIds = new Set(gameState.winners.map(w => w.playerId));
@@ -101,86 +94,55 @@ export default function Game() {
           recordHandResult(p.id, p.name, winnerIds.has(p.id));
         }
       }
-
-      // Settle chips in local (single player) mode
-      if (isLocal) {
-        const human = gameState.players.find(p => p.id === 'human');
-        if (human) {
-          const { user, token, updateUser } = useAuthStore.getState();
-          if (user && token) {
-            // Update user chips to match current in-game chips
-            const API_BASE = import.meta.env.VITE_SERVER_URL ?? (import.meta.env.PROD ? '' : `http://${window.location.hostname}:3001`);
-            const newChips = human.chips;
-            fetch(`${API_BASE}/api/auth/me`, {
-              headers: { Authorization: `Bearer ${token}` },
-            }).then(r => r.json()).then(data => {
-              if (data.user) updateUser({ ...data.user, chips: newChips });
-            }).catch(() => {});
-            // Tell server the new chip count
-            fetch(`${API_BASE}/api/user/chips`, {
-              method: 'PUT',
-              headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-              body: JSON.stringify({ chips: newChips }),
-            }).catch(() => {});
-          }
-        }
-      }
     }
   }, [gameState?.phase, gameState?.currentPlayerIndex, gameState?.lastAction, gameState?.winners]);
 
   useEffect(() => {
-    let cleanupGameListeners: (() => void) | undefined;
-
     // Start BGM when entering the game page — different scene for single/multiplayer
     if (isBGMEnabled()) {
-      startBGM(isLocal ? 'singlePlayer' : 'multiplayer');
+      startBGM(isSinglePlayer ? 'singlePlayer' : 'multiplayer');
     }
 
-    if (isLocal) {
-      setMyPlayerId('human');
-      startLocalGame();
-    } else {
-      // Connect socket — with token if logged in, without for guest spectating
-      const socket = connectSocket(token || undefined);
-      setMyPlayerId(socket.id || '');
+    // Connect socket — with token if logged in, without for guest spectating
+    const socket = connectSocket(token || undefined);
+    setMyPlayerId(socket.id || '');
 
-      // Ensure lobby-store listeners are set up (needed for spectator state)
-      useLobbyStore.getState().connect();
-
-      cleanupGameListeners = initGameListeners();
-
-      // Auto-spectate the room if entering via direct link
-      const handleConnect = () => {
-        setMyPlayerId(socket.id || '');
-        if (roomId && roomId !== 'local') {
-          // Check if we're already in a room via lobby-store
-          const lobbyRoom = useLobbyStore.getState().currentRoom;
-          if (!lobbyRoom) {
-            // Direct link entry — spectate the room
-            socket.emit('room:spectate', roomId);
-          } else {
-            // Already in the room (came from lobby)
-            socket.emit('game:resync');
-          }
-        }
-      };
+    // Ensure lobby-store listeners are set up (needed for spectator state)
+    useLobbyStore.getState().connect();
+
+    const cleanupGameListeners = initGameListeners();
+    if ((location.state as { moved?: boolean } | null)?.moved) addLog({ key: 'log.tableMoved' });
 
-      if (socket.connected) {
-        handleConnect();
+    // Auto-spectate the room if entering via direct link
+    const handleConnect = () => {
+      setMyPlayerId(socket.id || '');
+      if (roomId) {
+        // Check if we're already in a room via lobby-store
+        const lobbyRoom = useLobbyStore.getState().currentRoom;
+        if (!lobbyRoom) {
+          // Direct link entry — spectate the room
+          socket.emit('room:spectate', roomId);
+        } else {
+          // Already in the room (came from lobby)
+          socket.emit('game:resync');
+        }
       }
-      socket.on('connect', handleConnect);
+    };
 
-      // If kicked from room (e.g. timeout), navigate back
-      socket.on('room:left', () => {
-        clearGame();
-        navigate(isGuest ? '/login' : '/');
-      });
+    if (socket.connected) {
+      handleConnect();
     }
+    socket.on('connect', handleConnect);
+
+    // If kicked from room (e.g. timeout), navigate back
+    socket.on('room:left', () => {
+      clearGame();
+      navigate(isGuest ? '/login' : '/');
+    });
 
     return () => {
       stopBGM();
-      localEngine.current?.cleanup();
-      cleanupGameListeners?.();
+      cleanupGameListeners();
       const socket = getSocket();
       socket.off('room:left');
       socket.off('connect');
@@ -188,28 +150,6 @@ export default function Game() {
     };
   }, [roomId, token]);
 
-  const startLocalGame = () => {
-    const { user: authUser, token: authToken } = useAuthStore.getState();
-    const userChips = authUser?.chips ?? 2000;
-    const config: RoomConfig = { ...DEFAULT_ROOM_CONFIG, aiCount: 5 };
-    const API_BASE = import.meta.env.VITE_SERVER_URL ?? (import.meta.env.PROD ? '' : `http://${window.location.hostname}:3001`);
-    const options: LocalGameOptions = {
-      serverUrl: API_BASE,
-      authToken: authToken || undefined,
-      maxLLMBots: 2,
-      maxRuleBots: 2,
-    };
-    localEngine.current = new LocalGameEngine(
-      config,
-      (state) => setGameState(state),
-      (msg) => addLog(msg),
-      userChips,
-      options,
-    );
-    localEngine.current.start();
-    setStarted(true);
-  };
-
   const handleAction = (action: any) => {
     // Play action sound
     const soundMap: Record<string, any> = {
@@ -217,27 +157,22 @@ export default function Game() {
     };
     playSound(soundMap[action.type] || 'chip');
 
-    if (isLocal) {
-      localEngine.current?.handleAction(action);
-    } else {
-      sendAction(action);
-    }
+    sendAction(action);
   };
 
+  // Single player: cash out of this table and open a fresh one with the same variant
   const handleRestart = () => {
-    if (isLocal && localEngine.current) {
-      localEngine.current.restart();
-      playSound('notify');
-    }
+    const { currentRoom, leaveRoom, startSinglePlayer } = useLobbyStore.getState();
+    const variant = currentRoom?.config.variant ?? 'holdem';
+    leaveRoom();
+    clearGame();
+    startSinglePlayer(variant);
+    playSound('notify');
   };
 
   const handleBack = () => {
-    if (isLocal) {
-      localEngine.current?.cleanup();
-    } else {
-      // Leave the multiplayer room so we don't get stuck
-      useLobbyStore.getState().leaveRoom();
-    }
+    // Leave the room so we don't get stuck
+    useLobbyStore.getState().leaveRoom();
     clearGame();
     navigate(isGuest ? '/login' : '/');
   };
@@ -245,14 +180,35 @@ export default function Game() {
   // Check if game is over
   const humanPlayer = gameState?.players.find(p => p.id === myPlayerId);
   const aliveCount = gameState?.players.filter(p => p.chips > 0).length ?? 0;
-  const humanBusted = gameState?.phase === 'showdown' && humanPlayer && humanPlayer.chips <= 0;
   const humanWonAll = gameState?.phase === 'showdown' && aliveCount < 2 && humanPlayer && humanPlayer.chips > 0;
-  const needsRestart = humanBusted || humanWonAll;
+  // Hole cards stay hidden after an uncontested pot unless the player chooses to table them
+  const canShowCards = gameState?.phase === 'showdown' && !!humanPlayer
+    && humanPlayer.cards.length > 0 && !gameState.shownPlayerIds?.includes(humanPlayer.id);
+  // The server seed is revealed once the hand is over; anyone at the table can re-deal and check it
+  const canVerifyHand = gameState?.phase === 'showdown' && !!gameState.fairness?.serverSeed;
+  // The server stores each hand as it ends; signed-in players can take it away for other tools
+  const canDownloadHand = gameState?.phase === 'showdown' && !isGuest;
+  const handleDownloadHand = (format: HandExportFormat) => {
+    if (!gameState) return;
+    downloadHandHistory(gameState.id, format).catch(() => addLog({ key: 'log.handDownloadFailed' }));
+  };
 
   // Spectator mode: player is watching but not in the game
-  const { isSpectating, isSeated, isStandingUp, sitDown, standUp, currentRoom } = useLobbyStore();
-  const isSpectator = !isLocal && (isSpectating || (gameState && !gameState.players.find(p => p.id === myPlayerId)));
+  const { isSpectating, isSeated, isStandingUp, sitDown, standUp, sitOut, sitIn, topUp, currentRoom } = useLobbyStore();
+  const isSpectator = (isSpectating || (gameState && !gameState.players.find(p => p.id === myPlayerId)));
   const spectators = currentRoom?.spectators ?? [];
+  // Cash seats can buy more chips; the room's copy holds the stack the hand started with plus any pending top-up
+  const mySeat = currentRoom?.players.find(p => p.id === myPlayerId);
+  const tableStack = mySeat ? mySeat.chips + (mySeat.pendingTopUp ?? 0) : 0;
+  const canTopUp = !!mySeat && !currentRoom?.config.tournament;
+  const needsRebuy = canTopUp && tableStack <= 0;
+
+  // The tournament director moved us to another table, or a new single-player table opened: follow the seat
+  useEffect(() => {
+    if (currentRoom && currentRoom.id !== roomId && (currentRoom.tournamentId || currentRoom.isPrivate)) {
+      navigate(`/game/${currentRoom.id}`, { replace: true, state: { moved: !!currentRoom.tournamentId } });
+    }
+  }, [currentRoom?.id]);
 
   return (
     <div className="h-screen w-full bg-casino-bg overflow-hidden relative">
@@ -279,9 +235,13 @@ export default function Game() {
           <span className="text-[10px] sm:text-xs font-medium">{t('game.lobby')}</span>
         </button>
 
+        {currentRoom?.config.tournament && currentRoom.tournament && (
+          <TournamentInfo config={currentRoom.config.tournament} status={currentRoom.tournament} compact />
+        )}
+
         <div className="flex items-center gap-1 sm:gap-2">
           {/* Restart button for single player */}
-          {isLocal && (
+          {isSinglePlayer && (
             <button
               onClick={handleRestart}
               className="flex items-center gap-1 sm:gap-2 px-2 py-1.5 sm:px-3 sm:py-2 rounded-lg
@@ -301,7 +261,7 @@ export default function Game() {
       <GameLog logs={gameLog} />
 
       {/* Spectator list (multiplayer only) — positioned below LLM Advisor area */}
-      {!isLocal && spectators.length > 0 && (
+      {spectators.length > 0 && (
         <div className="fixed top-[5.5rem] left-2 sm:top-[6.5rem] sm:left-4 z-40">
           <div className="flex items-center gap-1 px-2 py-1 sm:px-2.5 sm:py-1.5 rounded-lg bg-casino-card/70 border border-casino-border/40 backdrop-blur-sm max-w-[160px] sm:max-w-[200px]">
             <Eye size={12} className="text-gray-500 shrink-0" />
@@ -316,11 +276,11 @@ export default function Game() {
       {gameState ? (
         <>
           <div className="w-full h-full pt-10 pb-2 px-2 sm:p-4">
-            <PokerTable gameState={gameState} myPlayerId={myPlayerId} isMultiplayer={!isLocal} />
+            <PokerTable gameState={gameState} myPlayerId={myPlayerId} isMultiplayer={!isSinglePlayer} />
           </div>
 
           {/* Game Over overlay */}
-          {needsRestart && isLocal && (
+          {humanWonAll && isSinglePlayer && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -332,9 +292,9 @@ export default function Game() {
                 transition={{ type: 'spring', stiffness: 300, damping: 25 }}
                 className="bg-casino-card/95 border border-casino-border/50 rounded-2xl p-8 text-center space-y-4 max-w-sm mx-4"
               >
-                <div className="text-4xl">{humanWonAll ? '🏆' : '💀'}</div>
-                <h2 className="text-xl font-bold text-white">{humanWonAll ? t('game.victory') : t('game.over')}</h2>
-                <p className="text-sm text-gray-400">{humanWonAll ? t('game.victoryDesc') : t('game.overDesc')}</p>
+                <div className="text-4xl">🏆</div>
+                <h2 className="text-xl font-bold text-white">{t('game.victory')}</h2>
+                <p className="text-sm text-gray-400">{t('game.victoryDesc')}</p>
                 <button
                   onClick={handleRestart}
                   className="w-full py-3 rounded-xl bg-gold-500 text-black font-bold text-base
@@ -358,22 +318,21 @@ export default function Game() {
           <LLMAdvisor
             gameState={gameState}
             myPlayerId={myPlayerId}
-            isMyTurn={isMyTurn || (isLocal && gameState.players[gameState.currentPlayerIndex]?.id === 'human' && gameState.phase !== 'showdown')}
-            isLocal={isLocal}
+            isMyTurn={isMyTurn}
+            isLocal={isSinglePlayer}
             onAction={handleAction}
           />
 
           {/* Chat panel — both modes */}
-          <ChatPanel isLocal={isLocal} />
+          <ChatPanel isLocal={isSinglePlayer} />
 
           {/* Action panel */}
           <ActionPanel
             gameState={gameState}
             myPlayerId={myPlayerId}
-            isMyTurn={isMyTurn || (isLocal && gameState.players[gameState.currentPlayerIndex]?.id === 'human' && gameState.phase !== 'showdown')}
+            isMyTurn={isMyTurn}
             onAction={handleAction}
-            isLocal={isLocal}
-            onStandUp={!isLocal ? () => { standUp(); playSound('notify'); } : undefined}
+            onStandUp={!isSinglePlayer ? () => { standUp(); playSound('notify'); } : undefined}
             isStandingUp={isStandingUp}
           />
 
@@ -409,14 +368,158 @@ export default function Game() {
             </motion.div>
           )}
 
+          {/* Sitting out — the seat is kept until the player is back */}
+          {humanPlayer?.isSittingOut && (
+            <motion.div
+              initial={{ y: 80, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              className="fixed bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/95 via-black/80 to-transparent backdrop-blur-md z-50"
+            >
+              <div className="max-w-md mx-auto text-center space-y-3">
+                <p className="text-sm text-gray-400">
+                  {needsRebuy ? t('game.busted', { orbits: SIT_OUT_MAX_ORBITS })
+                    : currentRoom?.tournament ? t('game.sittingOutTournament') : t('game.sittingOut', { orbits: SIT_OUT_MAX_ORBITS })}
+                </p>
+                <button
+                  onClick={() => {
+                    if (needsRebuy) setShowTopUpDialog(true);
+                    else sitIn();
+                    playSound('notify');
+                  }}
+                  className="w-full py-3 rounded-xl bg-gold-500 text-black font-bold text-base
+                    hover:bg-gold-400 transition-colors cursor-pointer flex items-center justify-center gap-2"
+                >
+                  {needsRebuy ? <Coins size={18} /> : <Armchair size={18} />}
+                  {needsRebuy ? t('game.rebuy') : t('game.imBack')}
+                </button>
+              </div>
+            </motion.div>
+          )}
+
+          {/* Run it twice — offered to players all-in before the river */}
+          <AnimatePresence>
+            {runItOffer && (
+              <RunItPanel
+                maxRuns={runItOffer.maxRuns}
+                timeLimit={runItOffer.timeLimit}
+                onChoose={runs => { sendRunIt(runs); playSound('notify'); }}
+              />
+            )}
+          </AnimatePresence>
+
+          {/* Dealer's choice — the button calls the next orbit's game; everyone else waits for it */}
+          <AnimatePresence>
+            {dealersChoiceOffer && (
+              <DealersChoicePanel
+                options={dealersChoiceOffer.options}
+                timeLimit={dealersChoiceOffer.timeLimit}
+                onChoose={variant => { sendDealersChoice(variant); playSound('notify'); }}
+              />
+            )}
+          </AnimatePresence>
+          {!dealersChoiceOffer && currentRoom?.dealersChoice?.deadline && gameState.phase === 'showdown' && (
+            <div className="fixed bottom-[11.5rem] left-1/2 -translate-x-1/2 sm:bottom-[13rem] z-50 px-3 py-1.5 rounded-lg
+              bg-casino-card/90 border border-casino-border text-xs text-gray-300 backdrop-blur-md">
+              {t('dealersChoice.waiting', { name: currentRoom.players.find(p => p.id === currentRoom.dealersChoice!.chooserId)?.name ?? '' })}
+            </div>
+          )}
+
+          {canShowCards && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="fixed bottom-[11.5rem] right-2 sm:bottom-[13rem] sm:right-4 z-50"
+            >
+              <button
+                onClick={() => { showCards(); playSound('notify'); }}
+                className="flex items-center gap-1.5 px-3 py-2 rounded-lg
+                  bg-casino-card/80 border border-casino-border/50 text-gray-400 hover:text-yellow-400
+                  hover:border-yellow-500/30 transition-colors backdrop-blur-sm cursor-pointer"
+              >
+                <Eye size={14} />
+                <span className="text-xs font-medium">{t('game.showCards')}</span>
+              </button>
+            </motion.div>
+          )}
+
+          {(canVerifyHand || canDownloadHand) && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="fixed bottom-[14.5rem] right-2 sm:bottom-[16rem] sm:right-4 z-50 flex gap-2"
+            >
+              {canDownloadHand && (
+                <div className="flex items-center rounded-lg bg-casino-card/80 border border-casino-border/50 backdrop-blur-sm">
+                  <button
+                    onClick={() => handleDownloadHand('pokerstars')}
+                    title={t('game.downloadHandText')}
+                    className="flex items-center gap-1.5 pl-3 pr-2 py-2 text-gray-400 hover:text-gold-400 transition-colors cursor-pointer"
+                  >
+                    <Download size={14} />
+                    <span className="text-xs font-medium">{t('game.downloadHand')}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDownloadHand('json')}
+                    title={t('game.downloadHandJson')}
+                    className="pl-2 pr-3 py-2 border-l border-casino-border/50 text-[10px] font-mono text-gray-500
+                      hover:text-gold-400 transition-colors cursor-pointer"
+                  >
+                    JSON
+                  </button>
+                  <button
+                    onClick={() => window.open(`/replay/${gameState.id}`, '_blank')}
+                    title={t('game.replayHand')}
+                    className="px-2.5 py-2 border-l border-casino-border/50 text-gray-500 hover:text-gold-400
+                      transition-colors cursor-pointer"
+                  >
+                    <Film size={14} />
+                  </button>
+                </div>
+              )}
+              {canVerifyHand && (
+                <button
+                  onClick={() => setShowVerifyDialog(true)}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg
+                    bg-casino-card/80 border border-casino-border/50 text-gray-400 hover:text-green-400
+                    hover:border-green-500/30 transition-colors backdrop-blur-sm cursor-pointer"
+                >
+                  <ShieldCheck size={14} />
+                  <span className="text-xs font-medium">{t('game.verifyHand')}</span>
+                </button>
+              )}
+            </motion.div>
+          )}
+
           {/* Stand Up button is now inside ActionPanel to avoid overlap with raise +/- buttons */}
           {/* Shown outside ActionPanel only when not player's turn */}
-          {!isLocal && !isSpectator && gameState && !isMyTurn && (
+          {!isSpectator && gameState && !isMyTurn && !humanPlayer?.isSittingOut && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
-              className="fixed bottom-[8.5rem] right-2 sm:bottom-[10rem] sm:right-4 z-50"
+              className="fixed bottom-[8.5rem] right-2 sm:bottom-[10rem] sm:right-4 z-50 flex gap-2"
             >
+              {!isStandingUp && canTopUp && (
+                <button
+                  onClick={() => setShowTopUpDialog(true)}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg
+                    bg-casino-card/80 border border-casino-border/50 text-gray-400 hover:text-gold-400
+                    hover:border-gold-500/30 transition-colors backdrop-blur-sm cursor-pointer"
+                >
+                  <Coins size={14} />
+                  <span className="text-xs font-medium">{t('game.topUp')}</span>
+                </button>
+              )}
+              {!isStandingUp && (
+                <button
+                  onClick={() => { sitOut(); playSound('notify'); }}
+                  className="flex items-center gap-1.5 px-3 py-2 rounded-lg
+                    bg-casino-card/80 border border-casino-border/50 text-gray-400 hover:text-blue-400
+                    hover:border-blue-500/30 transition-colors backdrop-blur-sm cursor-pointer"
+                >
+                  <Coffee size={14} />
+                  <span className="text-xs font-medium">{t('game.sitOut')}</span>
+                </button>
+              )}
               {isStandingUp ? (
                 <div className="px-3 py-2 rounded-lg bg-casino-card/80 border border-yellow-500/30 text-yellow-400 text-xs backdrop-blur-sm">
                   {t('game.standingUp')}
@@ -446,6 +549,21 @@ export default function Game() {
         </div>
       )}
 
+      <AnimatePresence>
+        {showVerifyDialog && gameState?.fairness?.serverSeed && (
+          <VerifyHandDialog gameState={gameState} onClose={() => setShowVerifyDialog(false)} />
+        )}
+        {showTopUpDialog && currentRoom && (
+          <TopUpDialog
+            config={currentRoom.config}
+            stack={tableStack}
+            bankroll={user?.chips ?? 0}
+            onConfirm={amount => { topUp(amount); setShowTopUpDialog(false); playSound('notify'); }}
+            onClose={() => setShowTopUpDialog(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Login Dialog for guest spectators wanting to sit down */}
       <AnimatePresence>
         {showLoginDialog && (
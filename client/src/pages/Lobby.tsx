@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useLobbyStore, LLMBotInfo, RuleBotInfo, OnlinePlayer } from '../stores/lobby-store';
-import { DEFAULT_ROOM_CONFIG, BLIND_LEVELS, RoomConfig, AIPersonality } from '@texas-agent/shared';
+import { DEFAULT_ROOM_CONFIG, DEFAULT_TOURNAMENT_CONFIG, TOURNAMENT_PAYOUT_PRESETS, BLIND_LEVELS, BETTING_STRUCTURES, GAME_VARIANTS, ANTE_STRUCTURES, SIT_OUT_BLINDS, ACTION_TIMEOUT_OPTIONS, TIME_BANK_OPTIONS, MIN_BUY_IN_OPTIONS, MAX_BUY_IN_OPTIONS, BOMB_POT_EVERY_OPTIONS, BOMB_POT_ANTE_OPTIONS, RoomConfig, AIPersonality, BettingStructure, GameVariant, AnteStructure, BlindLevelMode, SitOutBlinds } from '@texas-agent/shared';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -16,10 +16,11 @@ import SoundToggle from '../components/controls/SoundToggle';
 import { playSound, startBGM, stopBGM, isBGMEnabled } from '../services/sound-service';
 import { useAuthStore } from '../stores/auth-store';
 import { getSocket } from '../services/socket-service';
+import TournamentInfo from '../components/table/TournamentInfo';
 
 export default function Lobby() {
   const navigate = useNavigate();
-  const { rooms, currentRoom, isConnected, isSpectating, connect, createRoom, joinRoom, spectateRoom, addAI, startGame, startGameConfirmed, inviteLLMBot, removeLLMBot, llmBots, inviteRuleBot, removeRuleBot, ruleBots, setGameTopupRequired, onlinePlayers } = useLobbyStore();
+  const { rooms, currentRoom, isConnected, isSpectating, connect, createRoom, joinRoom, startSinglePlayer, spectateRoom, addAI, startGame, startGameConfirmed, inviteLLMBot, removeLLMBot, llmBots, inviteRuleBot, removeRuleBot, ruleBots, setGameTopupRequired, onlinePlayers } = useLobbyStore();
   const { t } = useI18n();
   const { user, logout, dailyBonusAwarded, clearDailyBonus } = useAuthStore();
 
@@ -74,9 +75,9 @@ export default function Lobby() {
     playSound('notify');
   };
 
-  const handleSinglePlayer = () => {
+  const handleSinglePlayer = (variant: GameVariant = 'holdem') => {
     playSound('notify');
-    navigate('/game/local');
+    startSinglePlayer(variant);
   };
 
   // If in a room waiting, show room lobby
@@ -150,6 +151,9 @@ export default function Lobby() {
             <span className="text-xs sm:text-sm font-medium text-yellow-400">{user?.chips?.toLocaleString()}</span>
           </div>
           <span className="hidden sm:inline text-sm text-white font-medium">{user?.username}</span>
+          <button onClick={() => navigate('/tournaments')} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors" title={t('mtt.title')}>
+            <Trophy size={16} className="text-gray-400 hover:text-gold-400" />
+          </button>
           <button onClick={() => navigate('/settings')} className="p-1.5 hover:bg-white/10 rounded-lg transition-colors" title={t('settings.title')}>
             <Settings size={16} className="text-gray-400 hover:text-white" />
           </button>
@@ -167,7 +171,7 @@ export default function Lobby() {
           <motion.div
             whileHover={{ y: -4, boxShadow: '0 0 30px rgba(212,175,55,0.15)' }}
             className="glass-card rounded-2xl p-5 sm:p-8 cursor-pointer group transition-all"
-            onClick={handleSinglePlayer}
+            onClick={() => handleSinglePlayer()}
           >
             <div className="flex items-center gap-3 sm:gap-4 mb-3 sm:mb-4">
               <div className="w-11 h-11 sm:w-14 sm:h-14 rounded-2xl bg-gradient-to-br from-gold-400/20 to-gold-600/20 flex items-center justify-center border border-gold-500/20 shrink-0">
@@ -182,6 +186,18 @@ export default function Lobby() {
             <p className="text-xs sm:text-sm text-gray-500 leading-relaxed">
               {t('lobby.singlePlayerDetail')}
             </p>
+            <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs sm:text-sm">
+              <span className="text-gray-500">{t('lobby.otherVariants')}</span>
+              {GAME_VARIANTS.filter(gv => gv !== 'holdem').map(gv => (
+                <button
+                  key={gv}
+                  className="text-gold-400/80 hover:text-gold-300 underline underline-offset-2"
+                  onClick={e => { e.stopPropagation(); handleSinglePlayer(gv); }}
+                >
+                  {t(`variant.${gv}`)}
+                </button>
+              ))}
+            </div>
           </motion.div>
 
           {/* Multiplayer */}
@@ -221,8 +237,11 @@ export default function Lobby() {
                   <div>
                     <h4 className="text-sm font-semibold text-white">{room.name}</h4>
                     <p className="text-xs text-gray-400">
-                      {room.players.length}/{room.config.maxPlayers} {t('lobby.players')} · {t('lobby.blinds')} {room.config.smallBlind}/{room.config.bigBlind}
+                      {room.players.length}/{room.config.maxPlayers} {t('lobby.players')} · {t('lobby.blinds')} {room.config.smallBlind}/{room.config.bigBlind} · {t(`variant.${room.config.variant ?? 'holdem'}`)} · {t(`bettingStructure.${room.config.bettingStructure ?? 'no-limit'}`)}{room.config.anteStructure && room.config.anteStructure !== 'none' ? ` · ${t(`anteStructure.${room.config.anteStructure}`)} ${room.config.ante}` : ''}{room.config.straddle ? ` · ${t('room.straddle')}` : ''}{room.config.runItTwice ? ` · ${t('room.runItTwice')}` : ''}{room.config.bombPotEvery > 0 ? ` · ${t('room.bombPot')}` : ''}{room.config.dealersChoice.length > 0 ? ` · ${t('room.dealersChoice')}` : ''}
                     </p>
+                    {room.config.tournament && room.tournament && (
+                      <TournamentInfo config={room.config.tournament} status={room.tournament} />
+                    )}
                   </div>
                   <div className="flex items-center gap-3">
                     <span className={`px-2 py-0.5 text-xs rounded-full ${room.status === 'playing' ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>
@@ -337,6 +356,79 @@ export default function Lobby() {
                 className="mt-1 bg-casino-bg border-casino-border text-white"
               />
             </div>
+            <div>
+              <Label className="text-gray-300 text-sm">{t('room.type')}</Label>
+              <Select
+                value={config.tournament ? 'sng' : 'cash'}
+                onValueChange={v => setConfig({ ...config, tournament: v === 'sng' ? { ...DEFAULT_TOURNAMENT_CONFIG } : undefined })}
+              >
+                <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-casino-card border-casino-border text-white">
+                  <SelectItem value="cash">{t('room.typeCash')}</SelectItem>
+                  <SelectItem value="sng">{t('room.typeSng')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {config.tournament && (
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.buyIn')}</Label>
+                  <Select
+                    value={`${config.tournament.buyIn}`}
+                    onValueChange={v => setConfig({ ...config, tournament: { ...config.tournament!, buyIn: Number(v) } })}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {[100, 500, 1000, 2000, 5000].map(buyIn => (
+                        <SelectItem key={buyIn} value={`${buyIn}`}>${buyIn}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.blindsUp')}</Label>
+                  <Select
+                    value={`${config.tournament.levelMode}-${config.tournament.levelLength}`}
+                    onValueChange={v => {
+                      const [levelMode, levelLength] = v.split('-');
+                      setConfig({ ...config, tournament: { ...config.tournament!, levelMode: levelMode as BlindLevelMode, levelLength: Number(levelLength) } });
+                    }}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {[3, 5, 10].map(n => (
+                        <SelectItem key={`time-${n}`} value={`time-${n}`}>{t('room.levelTime', { n })}</SelectItem>
+                      ))}
+                      {[5, 10, 20].map(n => (
+                        <SelectItem key={`hands-${n}`} value={`hands-${n}`}>{t('room.levelHands', { n })}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.payouts')}</Label>
+                  <Select
+                    value={config.tournament.payouts.join('/')}
+                    onValueChange={v => setConfig({ ...config, tournament: { ...config.tournament!, payouts: v.split('/').map(Number) } })}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {TOURNAMENT_PAYOUT_PRESETS.map(preset => (
+                        <SelectItem key={preset.join('/')} value={preset.join('/')}>{preset.map(p => `${p}%`).join(' / ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
             <div>
               <Label className="text-gray-300 text-sm">{t('room.maxPlayers')} ({config.maxPlayers})</Label>
               <Slider
@@ -352,7 +444,8 @@ export default function Lobby() {
                 value={`${config.smallBlind}`}
                 onValueChange={v => {
                   const level = BLIND_LEVELS.find(l => `${l.small}` === v);
-                  if (level) setConfig({ ...config, smallBlind: level.small, bigBlind: level.big });
+                  // Keep the ante at the same number of big blinds
+                  if (level) setConfig({ ...config, smallBlind: level.small, bigBlind: level.big, ante: Math.round((config.ante / config.bigBlind) * level.big) });
                 }}
               >
                 <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
@@ -368,14 +461,294 @@ export default function Lobby() {
               </Select>
             </div>
             <div>
-              <Label className="text-gray-300 text-sm">{t('room.startingChips')} (${config.startingChips})</Label>
-              <Slider
-                value={[config.startingChips]}
-                min={500} max={10000} step={100}
-                onValueChange={([v]) => setConfig({ ...config, startingChips: v })}
-                className="mt-2"
-              />
+              <Label className="text-gray-300 text-sm">{t('room.variant')}</Label>
+              <Select
+                value={config.variant}
+                onValueChange={v => {
+                  const variant = v as GameVariant;
+                  // Omaha is only offered pot-limit
+                  setConfig({ ...config, variant, bettingStructure: variant === 'omaha' ? 'pot-limit' : config.bettingStructure });
+                }}
+              >
+                <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-casino-card border-casino-border text-white">
+                  {GAME_VARIANTS.map(gv => (
+                    <SelectItem key={gv} value={gv}>
+                      {t(`variant.${gv}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-gray-300 text-sm">{t('room.bettingStructure')}</Label>
+              <Select
+                value={config.bettingStructure}
+                disabled={config.variant === 'omaha'}
+                onValueChange={v => {
+                  const bettingStructure = v as BettingStructure;
+                  setConfig({ ...config, bettingStructure, straddle: bettingStructure === 'fixed-limit' ? false : config.straddle });
+                }}
+              >
+                <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-casino-card border-casino-border text-white">
+                  {BETTING_STRUCTURES.map(bs => (
+                    <SelectItem key={bs} value={bs}>
+                      {t(`bettingStructure.${bs}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.ante')}</Label>
+                <Select
+                  value={config.anteStructure}
+                  onValueChange={v => {
+                    const anteStructure = v as AnteStructure;
+                    // Per-player antes are a fraction of the big blind; one player paying for the table posts a full big blind
+                    const defaultAnte = anteStructure === 'every-player' ? Math.max(1, Math.round(config.bigBlind / 10)) : config.bigBlind;
+                    const ante = anteStructure === 'none' ? 0 : (config.ante > 0 ? config.ante : defaultAnte);
+                    setConfig({ ...config, anteStructure, ante });
+                  }}
+                >
+                  <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-casino-card border-casino-border text-white">
+                    {ANTE_STRUCTURES.map(structure => (
+                      <SelectItem key={structure} value={structure}>
+                        {t(`anteStructure.${structure}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.anteAmount')}</Label>
+                <Select
+                  value={`${config.ante}`}
+                  disabled={config.anteStructure === 'none'}
+                  onValueChange={v => setConfig({ ...config, ante: Number(v) })}
+                >
+                  <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-casino-card border-casino-border text-white">
+                    {[...new Set([config.ante, ...[10, 25, 50, 100, 200].map(pct => Math.max(1, Math.round(config.bigBlind * pct / 100)))])]
+                      .sort((x, y) => x - y)
+                      .map(amount => (
+                        <SelectItem key={amount} value={`${amount}`}>
+                          {amount}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label className="text-gray-300 text-sm">{t('room.straddle')}</Label>
+              <Select
+                value={config.straddle ? 'on' : 'off'}
+                disabled={config.bettingStructure === 'fixed-limit'}
+                onValueChange={v => setConfig({ ...config, straddle: v === 'on' })}
+              >
+                <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-casino-card border-casino-border text-white">
+                  <SelectItem value="off">{t('room.straddleOff')}</SelectItem>
+                  <SelectItem value="on">{t('room.straddleOn', { amount: config.bigBlind * 2 })}</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
+            <div>
+              <Label className="text-gray-300 text-sm">{t('room.runItTwice')}</Label>
+              <Select
+                value={config.runItTwice ? 'on' : 'off'}
+                onValueChange={v => setConfig({ ...config, runItTwice: v === 'on' })}
+              >
+                <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-casino-card border-casino-border text-white">
+                  <SelectItem value="off">{t('room.runItTwiceOff')}</SelectItem>
+                  <SelectItem value="on">{t('room.runItTwiceOn')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {!config.tournament && (
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.sitOutBlinds')}</Label>
+                <Select
+                  value={config.sitOutBlinds}
+                  onValueChange={v => setConfig({ ...config, sitOutBlinds: v as SitOutBlinds })}
+                >
+                  <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-casino-card border-casino-border text-white">
+                    {SIT_OUT_BLINDS.map(rule => (
+                      <SelectItem key={rule} value={rule}>{t(`room.sitOutBlinds.${rule}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {!config.tournament && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.bombPot')}</Label>
+                  <Select
+                    value={String(config.bombPotEvery)}
+                    onValueChange={v => setConfig({ ...config, bombPotEvery: Number(v) })}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {BOMB_POT_EVERY_OPTIONS.map(hands => (
+                        <SelectItem key={hands} value={String(hands)}>
+                          {hands === 0 ? t('room.bombPotOff') : t('room.bombPotEvery', { hands })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.bombPotAnte')}</Label>
+                  <Select
+                    value={String(config.bombPotAnte)}
+                    disabled={config.bombPotEvery === 0}
+                    onValueChange={v => setConfig({ ...config, bombPotAnte: Number(v) })}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {BOMB_POT_ANTE_OPTIONS.map(bb => (
+                        <SelectItem key={bb} value={String(bb)}>{t('room.buyInBB', { bb, chips: bb * config.bigBlind })}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            {!config.tournament && (
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.dealersChoice')}</Label>
+                <div className="mt-1 flex gap-2">
+                  {GAME_VARIANTS.map(gv => {
+                    const enabled = config.dealersChoice.includes(gv);
+                    return (
+                      <button
+                        key={gv}
+                        type="button"
+                        onClick={() => setConfig({
+                          ...config,
+                          dealersChoice: enabled ? config.dealersChoice.filter(v => v !== gv) : [...config.dealersChoice, gv],
+                        })}
+                        className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-colors cursor-pointer ${
+                          enabled
+                            ? 'bg-gold-500/20 border-gold-500/60 text-gold-400'
+                            : 'bg-casino-bg border-casino-border text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        {t(`variant.${gv}`)}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="mt-1 text-[11px] text-gray-500">{t('room.dealersChoiceHint')}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.actionTimeout')}</Label>
+                <Select
+                  value={String(config.actionTimeout)}
+                  onValueChange={v => setConfig({ ...config, actionTimeout: Number(v) })}
+                >
+                  <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-casino-card border-casino-border text-white">
+                    {ACTION_TIMEOUT_OPTIONS.map(ms => (
+                      <SelectItem key={ms} value={String(ms)}>{t('room.seconds', { seconds: ms / 1000 })}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.timeBank')}</Label>
+                <Select
+                  value={String(config.timeBank)}
+                  onValueChange={v => setConfig({ ...config, timeBank: Number(v) })}
+                >
+                  <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-casino-card border-casino-border text-white">
+                    {TIME_BANK_OPTIONS.map(ms => (
+                      <SelectItem key={ms} value={String(ms)}>
+                        {ms === 0 ? t('room.timeBankOff') : t('room.seconds', { seconds: ms / 1000 })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {config.tournament ? (
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.tournamentStack')} (${config.startingChips})</Label>
+                <Slider
+                  value={[config.startingChips]}
+                  min={500} max={10000} step={100}
+                  onValueChange={([v]) => setConfig({ ...config, startingChips: v })}
+                  className="mt-2"
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.minBuyIn')}</Label>
+                  <Select
+                    value={String(config.minBuyIn)}
+                    onValueChange={v => setConfig({ ...config, minBuyIn: Number(v), maxBuyIn: Math.max(config.maxBuyIn, Number(v)) })}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {MIN_BUY_IN_OPTIONS.map(bb => (
+                        <SelectItem key={bb} value={String(bb)}>{t('room.buyInBB', { bb, chips: bb * config.bigBlind })}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-gray-300 text-sm">{t('room.maxBuyIn')}</Label>
+                  <Select
+                    value={String(config.maxBuyIn)}
+                    onValueChange={v => setConfig({ ...config, maxBuyIn: Number(v) })}
+                  >
+                    <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-casino-card border-casino-border text-white">
+                      {MAX_BUY_IN_OPTIONS.filter(bb => bb >= config.minBuyIn).map(bb => (
+                        <SelectItem key={bb} value={String(bb)}>{t('room.buyInBB', { bb, chips: bb * config.bigBlind })}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
             <Button
               onClick={handleCreateRoom}
               className="w-full bg-gold-500 text-black hover:bg-gold-400 font-bold h-11 cursor-pointer"
@@ -413,8 +786,13 @@ function RoomWaitingScreen({ room, onAddAI, onStart, onStartConfirmed, onLeave,
       <div className="glass-card rounded-2xl p-5 sm:p-8 max-w-lg w-full space-y-4 sm:space-y-6">
         <h2 className="text-xl sm:text-2xl font-bold text-white text-center">{room.name}</h2>
         <p className="text-center text-gray-400 text-sm">
-          {room.players.length}/{room.config.maxPlayers} {t('lobby.players')} · {t('lobby.blinds')} {room.config.smallBlind}/{room.config.bigBlind}
+          {room.players.length}/{room.config.maxPlayers} {t('lobby.players')} · {t('lobby.blinds')} {room.config.smallBlind}/{room.config.bigBlind} · {t(`variant.${room.config.variant ?? 'holdem'}`)} · {t(`bettingStructure.${room.config.bettingStructure ?? 'no-limit'}`)}{room.config.anteStructure && room.config.anteStructure !== 'none' ? ` · ${t(`anteStructure.${room.config.anteStructure}`)} ${room.config.ante}` : ''}{room.config.straddle ? ` · ${t('room.straddle')}` : ''}{room.config.runItTwice ? ` · ${t('room.runItTwice')}` : ''}{room.config.bombPotEvery > 0 ? ` · ${t('room.bombPot')}` : ''}{room.config.dealersChoice.length > 0 ? ` · ${t('room.dealersChoice')}` : ''}
         </p>
+        {room.config.tournament && room.tournament && (
+          <div className="flex justify-center">
+            <TournamentInfo config={room.config.tournament} status={room.tournament} />
+          </div>
+        )}
 
         <div className="space-y-2">
           {room.players.map((p: any) => (
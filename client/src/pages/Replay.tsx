@@ -0,0 +1,233 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Play, Pause, SkipBack, SkipForward, Eye, EyeOff, FileJson } from 'lucide-react';
+import { HandHistory, parseHandExport } from '@texas-agent/shared';
+import PokerTable from '../components/table/PokerTable';
+import { buildReplayFrames } from '../services/hand-replayer';
+import { fetchHandHistory } from '../services/hand-history';
+import { useAuthStore } from '../stores/auth-store';
+import { useI18n } from '../i18n';
+
+/** Time each step stays on the table at 1x */
+const STEP_MS = 1200;
+const SPEEDS = [0.5, 1, 2, 4];
+
+const ACTION_KEYS: Record<string, string> = {
+  fold: 'action.fold',
+  check: 'action.check',
+  call: 'action.call',
+  raise: 'action.raise',
+  'all-in': 'action.allIn',
+};
+
+/** Step through a stored hand — fetched by id, or pasted from a .json hand history file */
+export default function Replay() {
+  const { handId } = useParams();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const user = useAuthStore(s => s.user);
+
+  const [hand, setHand] = useState<HandHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pasted, setPasted] = useState('');
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [revealAll, setRevealAll] = useState(false);
+
+  useEffect(() => {
+    if (!handId) return;
+    setError(null);
+    fetchHandHistory(handId)
+      .then(setHand)
+      .catch(() => setError(t('replay.notFound')));
+  }, [handId]);
+
+  const frames = useMemo(() => (hand ? buildReplayFrames(hand) : []), [hand]);
+  const lastStep = frames.length - 1;
+  const atEnd = step >= lastStep;
+
+  // New hand: back to the deal and play it
+  useEffect(() => {
+    setStep(0);
+    setRevealAll(false);
+    setPlaying(frames.length > 0);
+  }, [frames]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (atEnd) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => Math.min(s + 1, lastStep)), STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, step, speed, atEnd, lastStep]);
+
+  // Our own seat sits at the bottom with its cards up; a shared file falls back to the seat whose cards were never tabled
+  const heroId = hand
+    ? (hand.players.find(p => p.userId && p.userId === user?.id)
+      ?? hand.players.find(p => p.cards.length > 0 && !hand.shownPlayerIds.includes(p.id)))?.id ?? ''
+    : '';
+
+  const frame = frames[Math.min(step, lastStep)];
+  const gameState = useMemo(() => {
+    if (!frame || !hand || !revealAll) return frame?.state;
+    return { ...frame.state, shownPlayerIds: hand.players.filter(p => p.cards.length > 0).map(p => p.id) };
+  }, [frame, hand, revealAll]);
+
+  const caption = (() => {
+    if (!frame || !gameState) return '';
+    const action = frame.action;
+    if (!action) return t(`phase.${gameState.phase}`);
+    const name = gameState.players.find(p => p.id === action.playerId)?.name ?? '';
+    const amount = action.action.type === 'fold' || action.action.type === 'check'
+      ? ''
+      : ` $${action.action.type === 'call' ? action.amount : action.betTo}`;
+    return t('log.action', { name, action: `${t(ACTION_KEYS[action.action.type])}${amount}` });
+  })();
+
+  const handleLoadPasted = () => {
+    try {
+      setHand(parseHandExport(pasted).hand);
+      setError(null);
+      setPasted('');
+    } catch {
+      setError(t('replay.invalidFile'));
+    }
+  };
+
+  return (
+    <div className="h-screen w-full bg-casino-bg overflow-hidden relative">
+      {/* Top bar */}
+      <div className="fixed top-2 left-2 right-2 sm:top-4 sm:left-4 sm:right-4 z-50 flex items-center justify-between gap-2">
+        <button
+          onClick={() => navigate('/')}
+          className="flex items-center gap-1 sm:gap-2 px-2 py-1.5 sm:px-3 sm:py-2 rounded-lg
+            bg-casino-card/80 border border-casino-border/50 text-gray-400 hover:text-white
+            transition-colors backdrop-blur-sm cursor-pointer"
+        >
+          <ArrowLeft size={14} className="sm:w-4 sm:h-4" />
+          <span className="text-[10px] sm:text-xs font-medium">{t('game.lobby')}</span>
+        </button>
+        {hand && (
+          <div className="px-3 py-1.5 rounded-lg bg-casino-card/80 border border-casino-border/50 backdrop-blur-sm
+            text-[10px] sm:text-xs text-gray-300 truncate">
+            {t('replay.title')} · {hand.roomName} · {new Date(hand.startedAt).toLocaleString()}
+          </div>
+        )}
+        {hand && (
+          <button
+            onClick={() => { setHand(null); setPlaying(false); }}
+            className="flex items-center gap-1 px-2 py-1.5 sm:px-3 sm:py-2 rounded-lg
+              bg-casino-card/80 border border-casino-border/50 text-gray-400 hover:text-white
+              transition-colors backdrop-blur-sm cursor-pointer"
+          >
+            <FileJson size={14} />
+            <span className="text-[10px] sm:text-xs font-medium">{t('replay.openFile')}</span>
+          </button>
+        )}
+      </div>
+
+      {gameState ? (
+        <>
+          <div className="w-full h-full pt-10 pb-28 px-2 sm:pt-4 sm:pb-32 sm:px-4">
+            <PokerTable gameState={gameState} myPlayerId={heroId} />
+          </div>
+
+          {/* Playback controls */}
+          <div className="fixed bottom-2 left-1/2 -translate-x-1/2 sm:bottom-4 z-50 w-[min(36rem,calc(100%-1rem))]
+            rounded-xl bg-casino-card/90 border border-casino-border p-3 space-y-2 backdrop-blur-md">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-200 truncate">{caption}</span>
+              <span className="text-gray-500 font-mono shrink-0">{step + 1}/{frames.length}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={lastStep}
+              value={step}
+              onChange={e => { setPlaying(false); setStep(Number(e.target.value)); }}
+              className="w-full accent-gold-500"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => { setPlaying(false); setStep(s => Math.max(s - 1, 0)); }}
+                  disabled={step === 0}
+                  title={t('replay.back')}
+                  className="p-2 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 disabled:opacity-30 cursor-pointer"
+                >
+                  <SkipBack size={16} />
+                </button>
+                <button
+                  onClick={() => { if (atEnd) setStep(0); setPlaying(p => !p || atEnd); }}
+                  title={playing ? t('replay.pause') : t('replay.play')}
+                  className="p-2 rounded-lg bg-gold-500 text-black hover:bg-gold-400 cursor-pointer"
+                >
+                  {playing ? <Pause size={16} /> : <Play size={16} />}
+                </button>
+                <button
+                  onClick={() => { setPlaying(false); setStep(s => Math.min(s + 1, lastStep)); }}
+                  disabled={atEnd}
+                  title={t('replay.forward')}
+                  className="p-2 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 disabled:opacity-30 cursor-pointer"
+                >
+                  <SkipForward size={16} />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-1">
+                {SPEEDS.map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setSpeed(s)}
+                    className={`px-2 py-1 rounded text-[10px] sm:text-xs font-mono cursor-pointer transition-colors
+                      ${speed === s ? 'bg-gold-500/20 text-gold-400 border border-gold-500/40' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {s}x
+                  </button>
+                ))}
+              </div>
+
+              {/* Cards tabled at the end stay face down until the hand has been played through */}
+              <button
+                onClick={() => setRevealAll(r => !r)}
+                disabled={!atEnd && !revealAll}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] sm:text-xs text-gray-300
+                  hover:text-white hover:bg-white/5 disabled:opacity-30 cursor-pointer"
+              >
+                {revealAll ? <EyeOff size={14} /> : <Eye size={14} />}
+                {revealAll ? t('replay.hideCards') : t('replay.revealCards')}
+              </button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="h-full flex items-center justify-center p-4">
+          <div className="w-full max-w-lg bg-casino-card border border-casino-border rounded-2xl p-5 space-y-3">
+            <h1 className="text-lg font-bold text-white">{t('replay.title')}</h1>
+            {handId && !error && <p className="text-sm text-gray-400">{t('replay.loading')}</p>}
+            <p className="text-xs text-gray-400">{t('replay.pasteHint')}</p>
+            <textarea
+              value={pasted}
+              onChange={e => setPasted(e.target.value)}
+              rows={8}
+              className="w-full rounded-lg bg-casino-bg border border-casino-border p-2 text-xs font-mono text-gray-200
+                focus:outline-none focus:border-gold-500/50"
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <button
+              onClick={handleLoadPasted}
+              disabled={!pasted.trim()}
+              className="w-full py-2 rounded-lg bg-gold-500 text-black font-bold text-sm
+                hover:bg-gold-400 transition-colors disabled:opacity-40 cursor-pointer"
+            >
+              {t('replay.load')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
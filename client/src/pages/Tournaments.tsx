@@ -0,0 +1,372 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Plus, Trophy, Users, Eye, Armchair, Clock } from 'lucide-react';
+import { DEFAULT_ROOM_CONFIG, DEFAULT_TOURNAMENT_CONFIG, MTT_PAYOUT_PRESETS, MultiTableTournament, MultiTableTournamentConfig } from '@texas-agent/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useTournamentStore } from '../stores/tournament-store';
+import { useLobbyStore } from '../stores/lobby-store';
+import { useAuthStore } from '../stores/auth-store';
+import TournamentInfo from '../components/table/TournamentInfo';
+import { useI18n } from '../i18n';
+
+interface CreateForm {
+  name: string;
+  startIn: number;
+  tableSize: number;
+  buyIn: number;
+  minEntrants: number;
+  maxEntrants: number;
+  aiEntrants: number;
+  levelLength: number;
+  payouts: string;
+}
+
+const DEFAULT_FORM: CreateForm = {
+  name: '',
+  startIn: 5,
+  tableSize: 6,
+  buyIn: DEFAULT_TOURNAMENT_CONFIG.buyIn,
+  minEntrants: 2,
+  maxEntrants: 18,
+  aiEntrants: 10,
+  levelLength: 5,
+  payouts: MTT_PAYOUT_PRESETS[0].join('/'),
+};
+
+/** Options for one numeric field of the create form */
+const FORM_OPTIONS: Record<'startIn' | 'tableSize' | 'buyIn' | 'minEntrants' | 'maxEntrants' | 'aiEntrants' | 'levelLength', number[]> = {
+  startIn: [2, 5, 10, 30, 60],
+  tableSize: [4, 6, 9],
+  buyIn: [100, 500, 1000, 2000, 5000],
+  minEntrants: [2, 4, 6, 10],
+  maxEntrants: [12, 18, 27, 45, 60],
+  aiEntrants: [0, 5, 10, 20, 30],
+  levelLength: [3, 5, 10],
+};
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** Scheduled multi-table tournaments: registration, standings and every table */
+export default function Tournaments() {
+  const { tournamentId } = useParams();
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const { user } = useAuthStore();
+  const { tournaments, error, connect, createTournament, register, unregister, takeSeat, clearError } = useTournamentStore();
+  const { currentRoom } = useLobbyStore();
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState<CreateForm>(DEFAULT_FORM);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    useLobbyStore.getState().connect();
+    connect();
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Seated when the tournament starts, or back at our table after take-seat
+  useEffect(() => {
+    if (currentRoom?.tournamentId && currentRoom.status === 'playing') {
+      navigate(`/game/${currentRoom.id}`);
+    }
+  }, [currentRoom?.id, currentRoom?.status]);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(clearError, 4000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const handleCreate = async () => {
+    const payouts = form.payouts.split('/').map(Number);
+    const config: MultiTableTournamentConfig = {
+      name: form.name || `${user?.username}'s MTT`,
+      startsAt: Date.now() + form.startIn * 60_000,
+      tableSize: form.tableSize,
+      minEntrants: form.minEntrants,
+      maxEntrants: Math.max(form.maxEntrants, form.minEntrants),
+      aiEntrants: form.aiEntrants,
+      table: {
+        ...DEFAULT_ROOM_CONFIG,
+        maxPlayers: form.tableSize,
+        tournament: { ...DEFAULT_TOURNAMENT_CONFIG, buyIn: form.buyIn, levelMode: 'time', levelLength: form.levelLength, payouts },
+      },
+    };
+    const created = await createTournament(config);
+    if (created) {
+      setShowCreate(false);
+      setForm(DEFAULT_FORM);
+      navigate(`/tournaments/${created.id}`);
+    }
+  };
+
+  const selected = tournamentId ? tournaments.find(tm => tm.id === tournamentId) : undefined;
+
+  const numberField = (field: keyof typeof FORM_OPTIONS, label: string, format: (n: number) => string = n => `${n}`) => (
+    <div>
+      <Label className="text-gray-300 text-sm">{label}</Label>
+      <Select value={`${form[field]}`} onValueChange={v => setForm({ ...form, [field]: Number(v) })}>
+        <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-casino-card border-casino-border text-white">
+          {FORM_OPTIONS[field].map(n => (
+            <SelectItem key={n} value={`${n}`}>{format(n)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-casino-bg p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <button
+            onClick={() => navigate(tournamentId ? '/tournaments' : '/')}
+            className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <ArrowLeft size={18} />
+            {tournamentId ? t('mtt.title') : t('game.lobby')}
+          </button>
+          {!tournamentId && (
+            <Button onClick={() => setShowCreate(true)} className="bg-gold-500 hover:bg-gold-400 text-black font-semibold gap-1">
+              <Plus size={16} />
+              {t('mtt.create')}
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 px-4 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-sm">{error}</div>
+        )}
+
+        {tournamentId
+          ? selected
+            ? <TournamentDetail
+                tournament={selected}
+                now={now}
+                username={user?.username}
+                onRegister={() => register(selected.id)}
+                onUnregister={() => unregister(selected.id)}
+                onTakeSeat={() => takeSeat(selected.id)}
+                onSpectate={roomId => navigate(`/game/${roomId}`)}
+              />
+            : <p className="text-gray-500 text-center py-12">{t('mtt.notFound')}</p>
+          : <TournamentList tournaments={tournaments} now={now} onOpen={id => navigate(`/tournaments/${id}`)} />}
+      </div>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="bg-casino-card border-casino-border text-white max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-gold-400">{t('mtt.create')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 mt-2">
+            <div>
+              <Label className="text-gray-300 text-sm">{t('mtt.name')}</Label>
+              <Input
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                placeholder={`${user?.username}'s MTT`}
+                className="mt-1 bg-casino-bg border-casino-border text-white"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {numberField('startIn', t('mtt.startIn'), n => t('mtt.minutes', { n }))}
+              {numberField('buyIn', t('room.buyIn'), n => `$${n}`)}
+              {numberField('tableSize', t('mtt.tableSize'))}
+              {numberField('levelLength', t('room.blindsUp'), n => t('room.levelTime', { n }))}
+              {numberField('minEntrants', t('mtt.minEntrants'))}
+              {numberField('maxEntrants', t('mtt.maxEntrants'))}
+              {numberField('aiEntrants', t('mtt.aiEntrants'))}
+              <div>
+                <Label className="text-gray-300 text-sm">{t('room.payouts')}</Label>
+                <Select value={form.payouts} onValueChange={v => setForm({ ...form, payouts: v })}>
+                  <SelectTrigger className="mt-1 bg-casino-bg border-casino-border text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-casino-card border-casino-border text-white">
+                    {MTT_PAYOUT_PRESETS.map(preset => (
+                      <SelectItem key={preset.join('/')} value={preset.join('/')}>{t('mtt.paidPlaces', { n: preset.length })}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button onClick={handleCreate} className="w-full bg-gold-500 hover:bg-gold-400 text-black font-semibold">
+              {t('mtt.create')}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function TournamentList({ tournaments, now, onOpen }: {
+  tournaments: MultiTableTournament[];
+  now: number;
+  onOpen: (id: string) => void;
+}) {
+  const { t } = useI18n();
+
+  if (tournaments.length === 0) {
+    return <p className="text-gray-500 text-center py-12">{t('mtt.empty')}</p>;
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {tournaments.map(tm => (
+        <motion.button
+          key={tm.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          onClick={() => onOpen(tm.id)}
+          className="text-left p-4 rounded-xl bg-casino-card border border-casino-border hover:border-gold-500/50 transition-colors cursor-pointer"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold text-white flex items-center gap-2"><Trophy size={16} className="text-gold-400" />{tm.config.name}</span>
+            <TournamentState tournament={tm} now={now} />
+          </div>
+          <p className="text-xs text-gray-400 flex items-center gap-3">
+            <span>{t('room.buyIn')} ${tm.config.table.tournament!.buyIn}</span>
+            <span className="flex items-center gap-1"><Users size={12} />{tm.status.status === 'registering' ? tm.registered.length : tm.status.entrants}/{tm.config.maxEntrants}</span>
+            <span>{t('tournament.pool', { pool: tm.status.prizePool })}</span>
+          </p>
+        </motion.button>
+      ))}
+    </div>
+  );
+}
+
+/** Registering countdown, running or finished */
+function TournamentState({ tournament, now }: { tournament: MultiTableTournament; now: number }) {
+  const { t } = useI18n();
+  if (tournament.cancelled) return <span className="text-xs text-red-400">{t('mtt.cancelled')}</span>;
+  if (tournament.status.status === 'registering') {
+    return (
+      <span className="text-xs text-green-400 flex items-center gap-1">
+        <Clock size={12} />{t('mtt.startsIn', { time: formatCountdown(tournament.config.startsAt - now) })}
+      </span>
+    );
+  }
+  if (tournament.status.status === 'running') return <span className="text-xs text-gold-400">{t('mtt.running')}</span>;
+  return <span className="text-xs text-gray-500">{t('mtt.finished')}</span>;
+}
+
+function TournamentDetail({ tournament, now, username, onRegister, onUnregister, onTakeSeat, onSpectate }: {
+  tournament: MultiTableTournament;
+  now: number;
+  username?: string;
+  onRegister: () => void;
+  onUnregister: () => void;
+  onTakeSeat: () => void;
+  onSpectate: (roomId: string) => void;
+}) {
+  const { t } = useI18n();
+  const { config, status } = tournament;
+  const isRegistered = !!username && tournament.registered.includes(username);
+  const isAlive = !!username && tournament.standings.some(s => !s.isAI && s.name === username);
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-4">
+      <div className="p-5 rounded-xl bg-casino-card border border-casino-border">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+              <Trophy size={20} className="text-gold-400" />{config.name}
+            </h1>
+            <TournamentState tournament={tournament} now={now} />
+            <p className="text-xs text-gray-400">
+              {t('mtt.summary', {
+                buyIn: config.table.tournament!.buyIn,
+                tableSize: config.tableSize,
+                minutes: config.table.tournament!.levelLength,
+                paid: tournament.paidPlaces,
+              })}
+            </p>
+            {status.status === 'running' && config.table.tournament && (
+              <TournamentInfo config={config.table.tournament} status={status} />
+            )}
+          </div>
+          <div className="flex gap-2">
+            {status.status === 'registering' && (isRegistered
+              ? <Button onClick={onUnregister} variant="outline" className="border-casino-border text-gray-300">{t('mtt.unregister')}</Button>
+              : <Button onClick={onRegister} className="bg-gold-500 hover:bg-gold-400 text-black font-semibold">
+                  {t('mtt.register', { buyIn: config.table.tournament!.buyIn })}
+                </Button>)}
+            {status.status === 'running' && isAlive && (
+              <Button onClick={onTakeSeat} className="bg-gold-500 hover:bg-gold-400 text-black font-semibold gap-1">
+                <Armchair size={16} />{t('mtt.takeSeat')}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {status.status === 'registering' && (
+        <div className="p-4 rounded-xl bg-casino-card border border-casino-border">
+          <h2 className="text-sm font-semibold text-gray-300 mb-2">
+            {t('mtt.registered', { count: tournament.registered.length, ai: config.aiEntrants })}
+          </h2>
+          <p className="text-xs text-gray-400">{tournament.registered.join(' · ') || '—'}</p>
+        </div>
+      )}
+
+      {status.status !== 'registering' && (
+        <div className="grid gap-4 md:grid-cols-[1fr_2fr]">
+          <div className="p-4 rounded-xl bg-casino-card border border-casino-border">
+            <h2 className="text-sm font-semibold text-gray-300 mb-2">{t('mtt.standings')}</h2>
+            <div className="space-y-1 text-xs">
+              {tournament.standings.map((s, i) => (
+                <div key={`${s.roomId}-${s.name}`} className={`flex justify-between ${s.name === username && !s.isAI ? 'text-gold-400' : 'text-gray-300'}`}>
+                  <span>{i + 1}. {s.isAI ? '🤖 ' : ''}{s.name}</span>
+                  <span className="font-mono">{s.chips.toLocaleString()}</span>
+                </div>
+              ))}
+              {[...status.finishes].reverse().map(f => (
+                <div key={f.playerId} className="flex justify-between text-gray-500">
+                  <span>#{f.place} {f.name}</span>
+                  <span className="font-mono">{f.prize > 0 ? `+$${f.prize}` : ''}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2 content-start">
+            {tournament.tables.map(table => (
+              <div key={table.roomId} className="p-4 rounded-xl bg-casino-card border border-casino-border">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-semibold text-white">{table.name}</span>
+                  <button
+                    onClick={() => onSpectate(table.roomId)}
+                    className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors cursor-pointer"
+                  >
+                    <Eye size={12} />{t('mtt.watch')}
+                  </button>
+                </div>
+                <div className="space-y-0.5 text-xs">
+                  {table.players.map(p => (
+                    <div key={p.id} className="flex justify-between text-gray-300">
+                      <span>{p.isAI ? '🤖 ' : ''}{p.name}</span>
+                      <span className="font-mono">{p.chips.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,36 @@
+import { HandExportFormat, HandHistory } from '@texas-agent/shared';
+import { useAuthStore } from '../stores/auth-store';
+
+const API_BASE = import.meta.env.VITE_SERVER_URL ?? (import.meta.env.PROD ? '' : `http://${window.location.hostname}:3001`);
+
+/** A stored hand, with the hole cards the signed-in player could see at the table */
+export async function fetchHandHistory(handId: string): Promise<HandHistory> {
+  const token = useAuthStore.getState().token;
+  const res = await fetch(`${API_BASE}/api/hands/${encodeURIComponent(handId)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  const data = await res.json().catch(() => ({ error: 'Request failed' }));
+  if (!res.ok) throw new Error(data.error || 'Request failed');
+  return data.hand;
+}
+
+/** Fetch a stored hand as the server formats it for download, and save it as a file */
+export async function downloadHandHistory(handId: string, format: HandExportFormat): Promise<void> {
+  const token = useAuthStore.getState().token;
+  const res = await fetch(`${API_BASE}/api/hands/${encodeURIComponent(handId)}/export?format=${format}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(data.error || 'Request failed');
+  }
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hand-${handId}.${format === 'json' ? 'json' : 'txt'}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
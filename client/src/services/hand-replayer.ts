@@ -0,0 +1,158 @@
+import { GamePhase, GameState, HandHistory, HandHistoryAction, Player, SidePot } from '@texas-agent/shared';
+
+/** One step of a replayed hand: the table after it, and the action that led to it */
+export interface ReplayFrame {
+  state: GameState;
+  /** Unset for the deal, each new street and the showdown */
+  action?: HandHistoryAction;
+}
+
+const STREETS: GamePhase[] = ['preflop', 'flop', 'turn', 'river'];
+const BOARD_SIZE: Record<string, number> = { preflop: 0, flop: 3, turn: 4, river: 5 };
+
+/**
+ * Rebuild the table a stored hand went through, step by step, from its forced bets and the
+ * chips each action moved. Hole cards are whatever the file holds — the viewer's own and the
+ * ones tabled at the end — so the frames never show more than the player saw at the table.
+ */
+export function buildReplayFrames(hand: HandHistory): ReplayFrame[] {
+  const players: Player[] = [...hand.players]
+    .sort((a, b) => a.seatIndex - b.seatIndex)
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      chips: p.startChips,
+      cards: p.cards,
+      currentBet: 0,
+      totalBet: 0,
+      isActive: true,
+      isFolded: false,
+      isAllIn: false,
+      isAI: p.isAI,
+      seatIndex: p.seatIndex,
+      isDealer: p.isDealer,
+      isSmallBlind: p.isSmallBlind,
+      isBigBlind: p.isBigBlind,
+      isStraddle: p.isStraddle,
+    }));
+  const indexOf = (id: string) => players.findIndex(p => p.id === id);
+
+  const state: GameState = {
+    id: hand.id,
+    phase: 'preflop',
+    players,
+    communityCards: [],
+    pot: 0,
+    sidePots: [],
+    currentPlayerIndex: -1,
+    dealerIndex: players.findIndex(p => p.seatIndex === hand.buttonSeat),
+    smallBlind: hand.smallBlind,
+    bigBlind: hand.bigBlind,
+    minRaise: 0,
+    currentBet: 0,
+    variant: hand.variant,
+    bettingStructure: hand.bettingStructure,
+    ante: hand.ante,
+    anteStructure: hand.anteStructure,
+    straddle: hand.straddle,
+    deadMoney: 0,
+    raiseCount: 0,
+    ...(hand.bombPot ? { bombPot: hand.bombPot } : {}),
+    round: hand.round,
+    actedThisRound: [],
+    shownPlayerIds: [],
+  };
+
+  for (const bet of hand.forcedBets) {
+    const player = players[indexOf(bet.playerId)];
+    if (!player) continue;
+    player.chips -= bet.amount;
+    player.totalBet += bet.amount;
+    state.pot += bet.amount;
+    if (bet.kind === 'ante' || bet.kind === 'bomb-pot') {
+      state.deadMoney += bet.amount;
+    } else {
+      player.currentBet += bet.amount;
+      state.currentBet = Math.max(state.currentBet, player.currentBet);
+    }
+    if (player.chips === 0) player.isAllIn = true;
+  }
+
+  const frames: ReplayFrame[] = [];
+  const push = (action?: HandHistoryAction) => {
+    frames.push({ state: JSON.parse(JSON.stringify(state)) as GameState, ...(action ? { action } : {}) });
+  };
+  /** Whose turn it is before action `i`: only while that action belongs to the street on the table */
+  const turnAt = (i: number) => {
+    const next = hand.actions[i];
+    return next && next.phase === state.phase ? indexOf(next.playerId) : -1;
+  };
+  const dealStreet = () => {
+    state.phase = STREETS[STREETS.indexOf(state.phase) + 1];
+    state.communityCards = hand.board.slice(0, BOARD_SIZE[state.phase]);
+    for (const p of players) p.currentBet = 0;
+    state.currentBet = 0;
+    delete state.lastAction;
+  };
+
+  state.currentPlayerIndex = turnAt(0);
+  push();
+
+  hand.actions.forEach((action, i) => {
+    while (STREETS.indexOf(state.phase) < STREETS.indexOf(action.phase)) {
+      dealStreet();
+      state.currentPlayerIndex = turnAt(i);
+      push();
+    }
+    const player = players[indexOf(action.playerId)];
+    if (player) {
+      player.chips -= action.amount;
+      player.totalBet += action.amount;
+      player.currentBet = action.betTo;
+      state.pot += action.amount;
+      state.currentBet = Math.max(state.currentBet, action.betTo);
+      if (action.action.type === 'fold') player.isFolded = true;
+      if (action.allIn) player.isAllIn = true;
+    }
+    state.lastAction = { playerId: action.playerId, action: action.action };
+    state.currentPlayerIndex = turnAt(i + 1);
+    push(action);
+  });
+
+  // Streets dealt once the betting was over: the run-out after an all-in
+  while (state.phase !== 'river' && hand.board.length > BOARD_SIZE[state.phase]) {
+    dealStreet();
+    state.currentPlayerIndex = -1;
+    push();
+  }
+
+  state.phase = 'showdown';
+  state.currentPlayerIndex = -1;
+  state.communityCards = hand.board;
+  if (hand.boards) state.boards = hand.boards;
+  state.pot = hand.pot;
+  state.sidePots = toSidePots(hand);
+  state.winners = hand.winners;
+  state.potResults = hand.potResults;
+  state.shownPlayerIds = hand.shownPlayerIds;
+  for (const p of players) {
+    p.chips = hand.players.find(h => h.id === p.id)?.endChips ?? p.chips;
+    p.currentBet = 0;
+  }
+  push();
+
+  return frames;
+}
+
+/** Pot sizes at showdown, from the pot-by-pot results (each pot's shares summed over the boards) */
+function toSidePots(hand: HandHistory): SidePot[] {
+  const pots: SidePot[] = [];
+  for (const result of hand.potResults) {
+    const pot = pots[result.potIndex] ?? (pots[result.potIndex] = { amount: 0, eligiblePlayerIds: [] });
+    pot.amount += result.amount;
+    for (const w of result.winners) {
+      if (!pot.eligiblePlayerIds.includes(w.playerId)) pot.eligiblePlayerIds.push(w.playerId);
+    }
+  }
+  return pots.filter(Boolean);
+}
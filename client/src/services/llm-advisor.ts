@@ -4,7 +4,7 @@
  * Now includes rich player profiling data and exploit-oriented prompting.
  */
 
-import { GameState, Card, evaluateHand } from '@texas-agent/shared';
+import { GameState, GameVariant, Card, evaluateHand, getMaxRaise } from '@texas-agent/shared';
 import { getProfileSummaryForLLM } from './player-memory';
 import { useAuthStore } from '../stores/auth-store';
 import { useI18n } from '../i18n';
@@ -61,12 +61,12 @@ const RANK_VAL: Record<string, number> = {
 };
 
 /** Analyze hand strength and draws, return a human-readable summary */
-function analyzeHandStrength(holeCards: Card[], communityCards: Card[], locale: string): string {
+function analyzeHandStrength(holeCards: Card[], communityCards: Card[], locale: string, variant: GameVariant = 'holdem'): string {
   const lines: string[] = [];
 
   if (communityCards.length >= 3) {
     // Evaluate current made hand
-    const eval_ = evaluateHand(holeCards, communityCards);
+    const eval_ = evaluateHand(holeCards, communityCards, variant);
     const bestCardsStr = eval_.bestCards.map(cardToString).join(' ');
     if (locale === 'zh') {
       lines.push(`**已成牌**: ${eval_.rankName}（最佳组合: ${bestCardsStr}）`);
@@ -74,21 +74,28 @@ function analyzeHandStrength(holeCards: Card[], communityCards: Card[], locale:
       lines.push(`**Made Hand**: ${eval_.rankName} (best 5: ${bestCardsStr})`);
     }
 
-    // Check if hole cards contribute to the made hand
-    const bestCardIds = new Set(eval_.bestCards.map(c => `${c.rank}${c.suit}`));
-    const holeInBest = holeCards.filter(c => bestCardIds.has(`${c.rank}${c.suit}`));
-    if (holeInBest.length === 0) {
+    if (variant === 'omaha') {
+      // Omaha always plays exactly two hole cards, so "contribution" is not informative there
       lines.push(locale === 'zh'
-        ? `⚠️ 注意：你的底牌都没有参与最佳组合，这是公共牌面上的牌力，所有人共享！`
-        : `⚠️ WARNING: Neither of your hole cards is in the best 5. This hand is on the board — everyone shares it!`);
-    } else if (holeInBest.length === 1) {
-      lines.push(locale === 'zh'
-        ? `你的底牌 ${cardToString(holeInBest[0])} 参与了最佳组合`
-        : `Your hole card ${cardToString(holeInBest[0])} contributes to the best hand`);
+        ? `奥马哈规则：必须恰好使用 2 张底牌 + 3 张公共牌，以上已按此规则计算`
+        : `Omaha rule: exactly 2 hole cards + 3 board cards — the hand above already follows this rule`);
     } else {
-      lines.push(locale === 'zh'
-        ? `你的两张底牌都参与了最佳组合`
-        : `Both your hole cards contribute to the best hand`);
+      // Check if hole cards contribute to the made hand
+      const bestCardIds = new Set(eval_.bestCards.map(c => `${c.rank}${c.suit}`));
+      const holeInBest = holeCards.filter(c => bestCardIds.has(`${c.rank}${c.suit}`));
+      if (holeInBest.length === 0) {
+        lines.push(locale === 'zh'
+          ? `⚠️ 注意：你的底牌都没有参与最佳组合，这是公共牌面上的牌力，所有人共享！`
+          : `⚠️ WARNING: Neither of your hole cards is in the best 5. This hand is on the board — everyone shares it!`);
+      } else if (holeInBest.length === 1) {
+        lines.push(locale === 'zh'
+          ? `你的底牌 ${cardToString(holeInBest[0])} 参与了最佳组合`
+          : `Your hole card ${cardToString(holeInBest[0])} contributes to the best hand`);
+      } else {
+        lines.push(locale === 'zh'
+          ? `你的两张底牌都参与了最佳组合`
+          : `Both your hole cards contribute to the best hand`);
+      }
     }
   }
 
@@ -104,18 +111,23 @@ function analyzeHandStrength(holeCards: Card[], communityCards: Card[], locale:
     }
     for (const [suit, count] of suitCounts) {
       const suitSymbol = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' }[suit] || suit;
-      if (count === 4) {
-        const holeSuited = holeCards.filter(c => c.suit === suit);
+      const holeSuited = holeCards.filter(c => c.suit === suit);
+      if (variant === 'omaha') {
+        // Needs two suited hole cards and two of the suit on board
+        if (holeSuited.length >= 2 && count - holeSuited.length === 2) {
+          draws.push(locale === 'zh' ? `同花听牌 (${suitSymbol}, 差1张)` : `Flush draw (${suitSymbol}, need 1)`);
+        }
+      } else if (count === 4) {
         if (holeSuited.length > 0) {
           draws.push(locale === 'zh' ? `同花听牌 (${suitSymbol}, 差1张)` : `Flush draw (${suitSymbol}, need 1)`);
         }
       }
     }
 
-    // Straight draw detection
+    // Straight draw detection (hold'em only — the Omaha two-card rule makes a rank window misleading)
     const uniqueRanks = [...new Set(allCards.map(c => RANK_VAL[c.rank]))].sort((a, b) => a - b);
     // Check for open-ended and gutshot straight draws
-    for (let i = 0; i <= uniqueRanks.length - 4; i++) {
+    for (let i = 0; variant === 'holdem' && i <= uniqueRanks.length - 4; i++) {
       const window = uniqueRanks.slice(i, i + 5);
       if (window.length >= 4) {
         const span = window[window.length - 1] - window[0];
@@ -134,7 +146,7 @@ function analyzeHandStrength(holeCards: Card[], communityCards: Card[], locale:
       }
     }
     // Gutshot detection: 4 cards within a span of 5 with one gap
-    for (let high = 5; high <= 14; high++) {
+    for (let high = 5; variant === 'holdem' && high <= 14; high++) {
       const rangeSet = new Set<number>();
       for (let r = high - 4; r <= high; r++) rangeSet.add(r === 1 ? 14 : r);
       const matching = uniqueRanks.filter(r => rangeSet.has(r));
@@ -184,6 +196,31 @@ function analyzeHandStrength(holeCards: Card[], communityCards: Card[], locale:
       : `**Starting Hand**: ${category} (${suitedStr})`);
   }
 
+  // Omaha preflop: pairs, suitedness and connectedness across four cards
+  if (communityCards.length === 0 && holeCards.length === 4) {
+    const ranks = holeCards.map(c => RANK_VAL[c.rank]).sort((a, b) => b - a);
+    const suitCounts = new Map<string, number>();
+    for (const c of holeCards) suitCounts.set(c.suit, (suitCounts.get(c.suit) || 0) + 1);
+    const suitedSuits = [...suitCounts.values()].filter(n => n >= 2).length;
+    const unique = [...new Set(ranks)];
+    const isRundown = unique.length === 4 && ranks[0] - ranks[3] <= 4;
+    const hasAces = ranks.filter(r => r === 14).length >= 2;
+
+    let category = '';
+    if (hasAces && suitedSuits > 0) category = locale === 'zh' ? '超强起手牌（同花 AA）' : 'Premium (suited aces)';
+    else if (hasAces) category = locale === 'zh' ? '强起手牌（AA）' : 'Strong (aces)';
+    else if (isRundown && ranks[3] >= 9) category = locale === 'zh' ? '强起手牌（高连张）' : 'Strong (high rundown)';
+    else if (isRundown) category = locale === 'zh' ? '可玩牌（连张）' : 'Playable (rundown)';
+    else if (unique.length <= 2) category = locale === 'zh' ? '弱牌（重复点数过多）' : 'Weak (too many duplicate ranks)';
+    else category = locale === 'zh' ? '普通起手牌' : 'Marginal hand';
+    const suitedStr = suitedSuits === 2
+      ? (locale === 'zh' ? '双同花' : 'double-suited')
+      : suitedSuits === 1 ? (locale === 'zh' ? '单同花' : 'single-suited') : (locale === 'zh' ? '彩虹' : 'rainbow');
+    lines.push(locale === 'zh'
+      ? `**起手牌分类**: ${category}（${suitedStr}）`
+      : `**Starting Hand**: ${category} (${suitedStr})`);
+  }
+
   return lines.join('\n');
 }
 
@@ -202,7 +239,7 @@ function buildPrompt(state: GameState, myPlayerId: string, locale: string, handA
 
   // Build opponents info with more detail
   const opponents = state.players
-    .filter(p => p.id !== myPlayerId && !p.isFolded && p.isActive)
+    .filter(p => p.id !== myPlayerId && !p.isFolded && p.isActive && !p.isSittingOut)
     .map(p => {
       const parts = [`${p.name}: chips=$${p.chips}, bet=$${p.currentBet}`];
       if (p.isAllIn) parts.push('(ALL-IN)');
@@ -211,14 +248,15 @@ function buildPrompt(state: GameState, myPlayerId: string, locale: string, handA
       return parts.join(' ');
     }).join('\n  ');
 
-  const playersInHand = state.players.filter(p => !p.isFolded && p.isActive).length;
+  // Sitting-out seats fold at their turn, so they are not counted as opponents
+  const playersInHand = state.players.filter(p => !p.isFolded && p.isActive && !p.isSittingOut).length;
   const stackToPot = state.pot > 0 ? (me.chips / state.pot).toFixed(1) : '∞';
 
   // Rich player behavioral data
   const playerMemory = getProfileSummaryForLLM(myPlayerId, me.name);
 
   // Pre-computed hand strength analysis (so LLM doesn't have to figure out card combos)
-  const handStrength = analyzeHandStrength(me.cards, state.communityCards, locale);
+  const handStrength = analyzeHandStrength(me.cards, state.communityCards, locale, state.variant);
 
   const analysisTask = locale === 'zh'
     ? `## 分析任务
@@ -313,17 +351,23 @@ You MUST respond in the following JSON format ONLY (no other text):
     }
   }
 
+  const gameName = state.variant === 'omaha'
+    ? VARIANT_LABELS.omaha
+    : `${VARIANT_LABELS[state.variant]} (${state.bettingStructure})`;
+
   return `## Current Hand State
+- **Game**: ${gameName}
 - **Phase**: ${state.phase}
 - **My Cards**: ${myCards}
 - **Community Cards**: ${community}
 - **My Position**: ${position}
 - **My Chips**: $${me.chips} (stack/pot ratio: ${stackToPot})
 - **My Current Bet**: $${me.currentBet}
-- **Pot Size**: $${state.pot}
+- **Pot Size**: $${state.pot}${state.deadMoney > 0 ? ` (incl. $${state.deadMoney} dead money from antes)` : ''}
 - **Current Bet to Match**: $${state.currentBet}
 - **Call Amount Needed**: $${callAmount} (pot odds: ${potOdds}%)
 - **Min Raise To**: $${state.minRaise}
+- **Max Raise To**: $${getMaxRaise(state, me)}
 - **Big Blind**: $${state.bigBlind}
 - **Players in Hand**: ${playersInHand}
 
@@ -339,8 +383,50 @@ ${playerMemory}
 ${analysisTask}`;
 }
 
-function getSystemPrompt(locale: string): string {
-  const preflopGuide = locale === 'zh'
+const VARIANT_LABELS: Record<GameVariant, string> = {
+  holdem: "Texas Hold'em",
+  omaha: 'Pot-Limit Omaha',
+  'short-deck': "Short-Deck Hold'em",
+};
+
+const VARIANT_LABELS_ZH: Record<GameVariant, string> = {
+  holdem: '德州扑克',
+  omaha: '底池限注奥马哈',
+  'short-deck': '短牌德州扑克',
+};
+
+const SHORT_DECK_NOTE_ZH = `
+## 短牌（6+）规则（必须遵守）
+- 牌堆只有 36 张：去掉了所有 2、3、4、5
+- **同花大于葫芦**；A 可以作为最小牌组成 A-6-7-8-9 顺子
+- 顺子和三条出现得更频繁，大对子价值下降，连张价值上升`;
+
+const SHORT_DECK_NOTE_EN = `
+## Short-Deck (6+) Rules (MUST follow)
+- 36-card deck: every 2, 3, 4 and 5 is removed
+- **A flush beats a full house**; the ace plays low in A-6-7-8-9 straights
+- Straights and sets come far more often — big pairs lose value, connected hands gain it`;
+
+const OMAHA_GUIDE_ZH = `
+## 底池限注奥马哈（PLO）要点（必须遵守）
+- 每人 4 张底牌，成牌必须**恰好使用 2 张底牌 + 3 张公共牌**
+- 下注上限为底池大小，不能随意全下
+- **好的起手牌**：同花 AA、双同花高连张（如 KQJT ds）、高对子+连张
+- 只有一张同花底牌不能成同花；四张同花底牌只有两张有用
+- 坚果意识：非坚果同花/顺子在多人底池中经常输，听牌要听坚果
+- 翻前牌力差距远小于德州扑克，翻后牌力才是关键`;
+
+const OMAHA_GUIDE_EN = `
+## Pot-Limit Omaha Essentials (MUST follow)
+- Four hole cards each; a hand MUST use **exactly 2 hole cards + 3 board cards**
+- Bets are capped at the size of the pot — you cannot shove at will
+- **Good starting hands**: suited aces, double-suited high rundowns (e.g. KQJT ds), high pairs with connectors
+- A single hole card of a suit cannot make a flush; four suited hole cards only use two
+- Play for the nuts: non-nut flushes and straights lose often in multiway pots
+- Preflop equities run much closer than in hold'em — postflop strength decides pots`;
+
+function getSystemPrompt(locale: string, variant: GameVariant = 'holdem'): string {
+  const holdemGuide = locale === 'zh'
     ? `
 ## Preflop 手牌强度分级（必须遵守）
 翻前阶段你必须严格参考以下手牌分级来评估手牌强度，不能仅凭"是否有对子"来判断：
@@ -371,9 +457,14 @@ KEY POINTS:
 - Small pairs (22-55) are NOT stronger than AJ/KQ preflop; their value comes from hitting sets postflop
 - Suited connectors (87s, 98s) have high implied odds, playable in position
 - "s" means suited, which is ~3-4% stronger than offsuit ("o")`;
+  const preflopGuide = variant === 'omaha'
+    ? (locale === 'zh' ? OMAHA_GUIDE_ZH : OMAHA_GUIDE_EN)
+    : variant === 'short-deck'
+      ? holdemGuide + (locale === 'zh' ? SHORT_DECK_NOTE_ZH : SHORT_DECK_NOTE_EN)
+      : holdemGuide;
 
   if (locale === 'zh') {
-    return `你是一位顶尖的德州扑克策略专家——不是保守的顾问，而是一个激进的、善于剥削对手弱点的玩家，追求最大化期望收益(EV)。
+    return `你是一位顶尖的${VARIANT_LABELS_ZH[variant]}策略专家——不是保守的顾问，而是一个激进的、善于剥削对手弱点的玩家，追求最大化期望收益(EV)。
 
 核心原则：
 1. **无情地利用对手弱点**：如果数据显示对手弃牌率高，就诈唬他们。如果他们跟注太多，就做薄价值下注。如果他们被动，就偷池。
@@ -385,7 +476,7 @@ ${preflopGuide}
 
 你给出**简洁、可执行**的建议。你必须使用中文回复。`;
   }
-  return `You are an elite Texas Hold'em poker strategist — not a cautious advisor, but an aggressive, exploitative player who maximizes EV.
+  return `You are an elite ${VARIANT_LABELS[variant]} poker strategist — not a cautious advisor, but an aggressive, exploitative player who maximizes EV.
 
 KEY PRINCIPLES:
 1. **Exploit opponent weaknesses ruthlessly**: If data shows a player folds too much, bluff them. If they call too much, value-bet thinner. If they're passive, steal pots.
@@ -431,7 +522,7 @@ export async function getAdvice(state: GameState, myPlayerId: string, handAction
     headers,
     body: JSON.stringify({
       messages: [
-        { role: 'system', content: getSystemPrompt(locale) },
+        { role: 'system', content: getSystemPrompt(locale, state.variant) },
         { role: 'user', content: prompt },
       ],
       max_tokens: 800,
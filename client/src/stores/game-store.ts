@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { GameState, PlayerAction } from '@texas-agent/shared';
+import { GameState, GameVariant, PlayerAction, BlindLevel, TournamentFinish, generateSeed } from '@texas-agent/shared';
 import { getSocket } from '../services/socket-service';
 import { playSound } from '../services/sound-service';
 
@@ -9,6 +9,27 @@ export interface LogEntry {
   params?: Record<string, string | number>;
 }
 
+/** Winner log lines for a settled hand — one per pot (and board) winner once the pot was split */
+export function potResultLogs(state: GameState): LogEntry[] {
+  const nameOf = (id: string) => state.players.find(p => p.id === id)?.name || '?';
+  if (!state.potResults || state.potResults.length <= 1) {
+    return (state.winners ?? []).map(w => ({
+      key: 'log.wins',
+      params: { name: nameOf(w.playerId), amount: w.amount, hand: w.handName },
+    }));
+  }
+  return state.potResults.flatMap(pot => pot.winners.map(w => ({
+    key: 'log.potWins',
+    params: {
+      pot: pot.potIndex,
+      ...(pot.board !== undefined ? { board: pot.board } : {}),
+      name: nameOf(w.playerId),
+      amount: w.amount,
+      hand: w.handName,
+    },
+  })));
+}
+
 /** Chat message in multiplayer mode */
 export interface ChatMessage {
   playerId: string;
@@ -39,6 +60,8 @@ interface GameStore {
   gameState: GameState | null;
   isMyTurn: boolean;
   timeLimit: number;
+  /** Server-time deadline of my current decision (multiplayer) */
+  deadline: number | null;
   myPlayerId: string;
   gameLog: LogEntry[];
   /** Structured action history for the current hand (reset each new hand) */
@@ -47,9 +70,22 @@ interface GameStore {
   chatMessages: ChatMessage[];
   /** Active reaction animations */
   reactions: ReactionEvent[];
+  /** Entropy this client contributes to every shuffle (provably-fair commit-reveal) */
+  clientSeed: string;
+  /** Open offer to run the board more than once, until answered */
+  runItOffer: { maxRuns: number; timeLimit: number } | null;
+  /** Dealer's choice: I have the button and the table waits for me to call the game */
+  dealersChoiceOffer: { options: GameVariant[]; timeLimit: number } | null;
   setGameState: (state: GameState) => void;
   setMyPlayerId: (id: string) => void;
   sendAction: (action: PlayerAction) => void;
+  showCards: () => void;
+  /** Answer the run-it-twice offer with how many times to run the board */
+  sendRunIt: (runs: number) => void;
+  /** Call the game for my dealer's-choice orbit */
+  sendDealersChoice: (variant: GameVariant) => void;
+  /** Add my time bank to the current decision */
+  callTimeBank: () => void;
   addLog: (entry: LogEntry) => void;
   addHandAction: (action: HandAction) => void;
   addChatMessage: (msg: ChatMessage) => void;
@@ -66,11 +102,15 @@ export const useGameStore = create<GameStore>((set, get) => ({
   gameState: null,
   isMyTurn: false,
   timeLimit: 60000,
+  deadline: null,
   myPlayerId: '',
   gameLog: [],
   handActions: [],
   chatMessages: [],
   reactions: [],
+  clientSeed: generateSeed(),
+  runItOffer: null,
+  dealersChoiceOffer: null,
 
   setGameState: (state: GameState) => {
     const myId = get().myPlayerId;
@@ -94,6 +134,24 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set({ isMyTurn: false });
   },
 
+  showCards: () => {
+    getSocket().emit('game:show-cards');
+  },
+
+  sendRunIt: (runs: number) => {
+    getSocket().emit('game:run-it', runs);
+    set({ runItOffer: null });
+  },
+
+  sendDealersChoice: (variant: GameVariant) => {
+    getSocket().emit('game:dealers-choice', variant);
+    set({ dealersChoiceOffer: null });
+  },
+
+  callTimeBank: () => {
+    getSocket().emit('game:time-bank');
+  },
+
   addLog: (entry: LogEntry) => {
     set(s => ({ gameLog: [entry, ...s.gameLog.slice(0, 49)] }));
   },
@@ -132,10 +190,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
   clearGame: () => set({
     gameState: null,
     isMyTurn: false,
+    deadline: null,
     gameLog: [],
     handActions: [],
     chatMessages: [],
-  reactions: [],
+    reactions: [],
+    runItOffer: null,
+    dealersChoiceOffer: null,
   }),
 
   initGameListeners: () => {
@@ -146,9 +207,24 @@ export const useGameStore = create<GameStore>((set, get) => ({
       // Don't force isMyTurn=false here — game:your-turn may have already arrived
       // (race condition especially with 2-3 players where the first actor is self).
       // Let setGameState handle the isMyTurn logic correctly.
-      set({ handActions: [] });
+      const prevVariant = get().gameState?.variant;
+      set({ handActions: [], runItOffer: null, dealersChoiceOffer: null });
       get().setGameState(state);
+      // Server seats our seed from the next deal on; the current deck is already committed
+      socket.emit('game:client-seed', get().clientSeed);
       get().addLog({ key: 'log.newHand' });
+      if (prevVariant && prevVariant !== state.variant) {
+        get().addLog({ key: 'log.dealersChoice', params: { game: state.variant } });
+      }
+      if (state.bombPot) {
+        get().addLog({ key: 'log.bombPot', params: { amount: state.bombPot } });
+      } else if (state.deadMoney > 0) {
+        get().addLog({ key: 'log.antes', params: { amount: state.deadMoney } });
+      }
+      const straddler = state.players.find(p => p.isStraddle);
+      if (straddler) {
+        get().addLog({ key: 'log.straddle', params: { name: straddler.name, amount: state.straddle } });
+      }
     };
 
     const onState = (state: GameState) => {
@@ -180,20 +256,44 @@ export const useGameStore = create<GameStore>((set, get) => ({
     };
 
     const onEnded = (state: GameState) => {
+      set({ runItOffer: null });
       get().setGameState(state);
-      if (state.winners) {
-        for (const w of state.winners) {
-          const player = state.players.find((p: any) => p.id === w.playerId);
-          get().addLog({
-            key: 'log.wins',
-            params: { name: player?.name || '?', amount: w.amount, hand: w.handName },
-          });
-        }
+      if (state.boards && state.boards.length > 1) {
+        get().addLog({ key: 'log.ranIt', params: { count: state.boards.length } });
       }
+      for (const entry of potResultLogs(state)) {
+        get().addLog(entry);
+      }
+    };
+
+    const onYourTurn = ({ timeLimit, deadline }: { timeLimit: number; deadline: number }) => {
+      set({ isMyTurn: true, timeLimit, deadline });
+    };
+
+    const onRunItOffer = (offer: { maxRuns: number; timeLimit: number }) => {
+      set({ runItOffer: offer });
+    };
+
+    const onDealersChoice = (offer: { options: GameVariant[]; timeLimit: number }) => {
+      set({ dealersChoiceOffer: offer });
+    };
+
+    const onTournamentLevel = ({ level, blinds }: { level: number; blinds: BlindLevel }) => {
+      get().addLog({ key: 'log.levelUp', params: { level: level + 1, small: blinds.smallBlind, big: blinds.bigBlind } });
+    };
+
+    const onEliminated = ({ name, place, prize }: TournamentFinish) => {
+      if (place === 1) return; // announced by tournament:finished
+      get().addLog({ key: prize > 0 ? 'log.eliminatedPrize' : 'log.eliminated', params: { name, place, prize } });
+    };
+
+    const onTournamentFinished = (finishes: TournamentFinish[]) => {
+      const winner = finishes.find(f => f.place === 1);
+      if (winner) get().addLog({ key: 'log.tournamentOver', params: { name: winner.name, prize: winner.prize } });
     };
 
-    const onYourTurn = ({ timeLimit }: { timeLimit: number }) => {
-      set({ isMyTurn: true, timeLimit });
+    const onHandForHand = ({ active }: { active: boolean }) => {
+      get().addLog({ key: active ? 'log.handForHand' : 'log.handForHandOff' });
     };
 
     socket.on('game:started', onStarted);
@@ -201,6 +301,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
     socket.on('game:action', onAction);
     socket.on('game:ended', onEnded);
     socket.on('game:your-turn', onYourTurn);
+    socket.on('game:run-it-offer', onRunItOffer);
+    socket.on('game:dealers-choice', onDealersChoice);
+    socket.on('tournament:level', onTournamentLevel);
+    socket.on('tournament:eliminated', onEliminated);
+    socket.on('tournament:finished', onTournamentFinished);
+    socket.on('tournament:hand-for-hand', onHandForHand);
+    socket.emit('game:client-seed', get().clientSeed);
 
     const onChatMessage = (data: ChatMessage) => {
       get().addChatMessage(data);
@@ -219,6 +326,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
       socket.off('game:action', onAction);
       socket.off('game:ended', onEnded);
       socket.off('game:your-turn', onYourTurn);
+      socket.off('game:run-it-offer', onRunItOffer);
+      socket.off('game:dealers-choice', onDealersChoice);
+      socket.off('tournament:level', onTournamentLevel);
+      socket.off('tournament:eliminated', onEliminated);
+      socket.off('tournament:finished', onTournamentFinished);
+      socket.off('tournament:hand-for-hand', onHandForHand);
       socket.off('chat:message', onChatMessage);
       socket.off('room:reaction', onReaction);
     };
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { Room, RoomConfig } from '@texas-agent/shared';
+import { Room, RoomConfig, GameVariant } from '@texas-agent/shared';
 
 export interface LLMBotInfo {
   id: string;
@@ -52,9 +52,16 @@ interface LobbyState {
   refreshRooms: () => void;
   createRoom: (name: string, config: RoomConfig) => void;
   joinRoom: (roomId: string) => void;
+  /** Open a private table against bots; it is dealt as soon as it is created */
+  startSinglePlayer: (variant: GameVariant) => void;
   spectateRoom: (roomId: string) => void;
   sitDown: () => void;
   standUp: () => void;
+  /** Keep the seat but stop playing hands, and come back */
+  sitOut: () => void;
+  sitIn: () => void;
+  /** Cash rooms: buy more chips from the bankroll (a rebuy on an empty stack) */
+  topUp: (amount: number) => void;
   leaveRoom: () => void;
   addAI: (personality: string, engineType: string) => void;
   inviteLLMBot: (botId: string) => void;
@@ -68,6 +75,8 @@ interface LobbyState {
   llmBots: LLMBotInfo[];
   ruleBots: RuleBotInfo[];
   onlinePlayers: OnlinePlayer[];
+  /** The server announced a restart ending at this time; cleared once a connection is made again */
+  shutdownDeadline: number | null;
 }
 
 export const useLobbyStore = create<LobbyState>((set, get) => ({
@@ -81,6 +90,7 @@ export const useLobbyStore = create<LobbyState>((set, get) => ({
   ruleBots: [],
   onlinePlayers: [],
   onGameTopupRequired: null,
+  shutdownDeadline: null,
 
   connect: () => {
     const token = useAuthStore.getState().token;
@@ -91,7 +101,7 @@ export const useLobbyStore = create<LobbyState>((set, get) => ({
     listenersAttached = true;
 
     socket.on('connect', () => {
-      set({ isConnected: true });
+      set({ isConnected: true, shutdownDeadline: null });
       socket.emit('room:list');
     });
 
@@ -168,6 +178,10 @@ export const useLobbyStore = create<LobbyState>((set, get) => ({
       set({ onlinePlayers: players as OnlinePlayer[] });
     });
 
+    socket.on('server:shutdown', ({ deadline }) => {
+      set({ shutdownDeadline: deadline });
+    });
+
     socket.on('game:topup-required', (data: { items: BotTopupItem[]; total: number }) => {
       const cb = get().onGameTopupRequired;
       if (cb) cb(data);
@@ -192,6 +206,11 @@ export const useLobbyStore = create<LobbyState>((set, get) => ({
     socket.emit('room:join', roomId);
   },
 
+  startSinglePlayer: (variant) => {
+    const socket = getSocket();
+    socket.emit('room:single-player', variant);
+  },
+
   spectateRoom: (roomId: string) => {
     const socket = getSocket();
     socket.emit('room:spectate', roomId);
@@ -207,6 +226,21 @@ export const useLobbyStore = create<LobbyState>((set, get) => ({
     socket.emit('room:stand');
   },
 
+  sitOut: () => {
+    const socket = getSocket();
+    socket.emit('room:sit-out');
+  },
+
+  sitIn: () => {
+    const socket = getSocket();
+    socket.emit('room:sit-in');
+  },
+
+  topUp: (amount) => {
+    const socket = getSocket();
+    socket.emit('room:top-up', amount);
+  },
+
   leaveRoom: () => {
     const socket = getSocket();
     socket.emit('room:leave');
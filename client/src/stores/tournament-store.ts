@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { MultiTableTournament, MultiTableTournamentConfig } from '@texas-agent/shared';
+import { getSocket, connectSocket } from '../services/socket-service';
+import { useAuthStore } from './auth-store';
+
+const API_BASE = import.meta.env.VITE_SERVER_URL ?? (import.meta.env.PROD ? '' : `http://${window.location.hostname}:3001`);
+
+let listenersAttached = false;
+
+// Reset listeners flag when socket is recreated (e.g. after guest login)
+if (typeof window !== 'undefined') {
+  window.addEventListener('socket-reconnect', () => {
+    listenersAttached = false;
+  });
+}
+
+interface TournamentState {
+  tournaments: MultiTableTournament[];
+  error: string | null;
+  connect: () => void;
+  createTournament: (config: MultiTableTournamentConfig) => Promise<MultiTableTournament | null>;
+  register: (tournamentId: string) => Promise<void>;
+  unregister: (tournamentId: string) => Promise<void>;
+  /** Join (or rejoin) your table in a running tournament */
+  takeSeat: (tournamentId: string) => void;
+  clearError: () => void;
+}
+
+/** Authenticated tournament REST call; returns the tournament or sets `error` */
+async function request(path: string, method: string, body?: unknown): Promise<{ tournament?: MultiTableTournament; chips?: number; error?: string }> {
+  const token = useAuthStore.getState().token;
+  const res = await fetch(`${API_BASE}/api/tournaments${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json();
+  return res.ok ? data : { error: data.error || 'Request failed' };
+}
+
+export const useTournamentStore = create<TournamentState>((set, get) => {
+  /** Merge a tournament from a REST response or broadcast into the list */
+  const upsert = (tournament: MultiTableTournament) => {
+    const list = get().tournaments;
+    set({
+      tournaments: list.some(t => t.id === tournament.id)
+        ? list.map(t => t.id === tournament.id ? tournament : t)
+        : [...list, tournament],
+    });
+  };
+
+  /** Apply a registration change and the bankroll it left behind */
+  const applyRegistration = (data: { tournament?: MultiTableTournament; chips?: number; error?: string }) => {
+    if (data.error || !data.tournament) {
+      set({ error: data.error ?? 'Request failed' });
+      return;
+    }
+    upsert(data.tournament);
+    const { user, updateUser } = useAuthStore.getState();
+    if (user && typeof data.chips === 'number') updateUser({ ...user, chips: data.chips });
+  };
+
+  return {
+    tournaments: [],
+    error: null,
+
+    connect: () => {
+      const token = useAuthStore.getState().token;
+      const socket = connectSocket(token || undefined);
+
+      if (listenersAttached) {
+        socket.emit('tournament:list');
+        return;
+      }
+      listenersAttached = true;
+
+      socket.on('connect', () => {
+        socket.emit('tournament:list');
+      });
+
+      socket.on('tournament:list', (tournaments) => {
+        set({ tournaments });
+      });
+
+      socket.on('tournament:updated', upsert);
+
+      socket.emit('tournament:list');
+    },
+
+    createTournament: async (config) => {
+      try {
+        const data = await request('', 'POST', config);
+        if (data.error || !data.tournament) {
+          set({ error: data.error ?? 'Request failed' });
+          return null;
+        }
+        upsert(data.tournament);
+        return data.tournament;
+      } catch {
+        set({ error: 'Network error' });
+        return null;
+      }
+    },
+
+    register: async (tournamentId) => {
+      try {
+        applyRegistration(await request(`/${tournamentId}/register`, 'POST'));
+      } catch {
+        set({ error: 'Network error' });
+      }
+    },
+
+    unregister: async (tournamentId) => {
+      try {
+        applyRegistration(await request(`/${tournamentId}/register`, 'DELETE'));
+      } catch {
+        set({ error: 'Network error' });
+      }
+    },
+
+    takeSeat: (tournamentId) => {
+      getSocket().emit('tournament:take-seat', tournamentId);
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
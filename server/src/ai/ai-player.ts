@@ -1,5 +1,5 @@
-import { PlayerAction, AIDecisionContext, AIPersonality, AIEngineType, GameState, Player } from '@texas-agent/shared';
-import { delay, randomBetween } from '@texas-agent/shared';
+import { PlayerAction, AIDecisionContext, AIPersonality, AIEngineType, GameState, Player, Rng } from '@texas-agent/shared';
+import { delay, randomBetween, getMaxRaise, canRaise } from '@texas-agent/shared';
 import { AI_THINK_DELAY_MIN, AI_THINK_DELAY_MAX } from '@texas-agent/shared';
 import { AIStrategy } from './ai-strategy';
 import { RuleBasedStrategy } from './rule-based/rule-strategy';
@@ -25,21 +25,21 @@ export class AIPlayer {
     return this.strategy.getName();
   }
 
-  async makeDecision(state: GameState, playerId: string): Promise<PlayerAction> {
+  async makeDecision(state: GameState, playerId: string, rng: Rng = Math.random): Promise<PlayerAction> {
     const player = state.players.find(p => p.id === playerId);
     if (!player) return { type: 'fold' };
 
     const context = this.buildContext(state, player);
 
-    const thinkDelay = randomBetween(AI_THINK_DELAY_MIN, AI_THINK_DELAY_MAX);
+    const thinkDelay = randomBetween(AI_THINK_DELAY_MIN, AI_THINK_DELAY_MAX, rng);
     await delay(thinkDelay);
 
-    const action = await this.strategy.decide(context);
+    const action = await this.strategy.decide(context, rng);
     return action;
   }
 
   private buildContext(state: GameState, player: Player): AIDecisionContext {
-    const activePlayers = state.players.filter(p => !p.isFolded && p.isActive);
+    const activePlayers = state.players.filter(p => !p.isFolded && p.isActive && !p.isSittingOut);
     const position = this.calculatePosition(state, player);
 
     return {
@@ -51,7 +51,12 @@ export class AIPlayer {
       playerBet: player.currentBet,
       playerChips: player.chips,
       minRaise: state.minRaise,
+      maxRaise: getMaxRaise(state, player),
+      canRaise: canRaise(state, player),
+      variant: state.variant,
+      bettingStructure: state.bettingStructure,
       bigBlind: state.bigBlind,
+      deadMoney: state.deadMoney,
       phase: state.phase,
       numActivePlayers: activePlayers.length,
       position,
@@ -64,12 +69,13 @@ export class AIPlayer {
         isFolded: p.isFolded,
         isAllIn: p.isAllIn,
         isAI: p.isAI,
+        isSittingOut: p.isSittingOut,
       })),
     };
   }
 
   private calculatePosition(state: GameState, player: Player): 'early' | 'middle' | 'late' | 'blinds' {
-    const activePlayers = state.players.filter(p => p.isActive && !p.isFolded);
+    const activePlayers = state.players.filter(p => p.isActive && !p.isFolded && !p.isSittingOut);
     const n = activePlayers.length;
     const dealerIdx = activePlayers.findIndex(p => p.id === state.players[state.dealerIndex]?.id);
     const myIdx = activePlayers.findIndex(p => p.id === player.id);
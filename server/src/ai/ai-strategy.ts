@@ -1,7 +1,8 @@
-import { PlayerAction, AIDecisionContext, AIPersonality, AIEngineType } from '@texas-agent/shared';
+import { PlayerAction, AIDecisionContext, AIPersonality, AIEngineType, Rng } from '@texas-agent/shared';
 
 export interface AIStrategy {
-  decide(context: AIDecisionContext): Promise<PlayerAction>;
+  /** `rng` drives every random choice, so a seeded hand makes the same decisions */
+  decide(context: AIDecisionContext, rng?: Rng): Promise<PlayerAction>;
   getName(): string;
 }
 
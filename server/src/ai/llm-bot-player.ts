@@ -6,7 +6,7 @@
  * - Tracks which room it is currently in (null = available).
  */
 
-import { PlayerAction, AIDecisionContext, LLM_BOT_CONFIGS, LLMBotId, AIPersonality } from '@texas-agent/shared';
+import { PlayerAction, AIDecisionContext, LLM_BOT_CONFIGS, LLMBotId, AIPersonality, Rng, fitActionToLimits } from '@texas-agent/shared';
 import { AIStrategy } from './ai-strategy';
 import { RuleBasedStrategy } from './rule-based/rule-strategy';
 import { buildDecisionPrompt, parseDecisionResponse, getSystemMessage, getTemperature } from './llm/prompt-builder';
@@ -71,11 +71,11 @@ export class LLMBotPlayer {
     return (suffix && process.env[`${suffix}_API_KEY`]) || '';
   }
 
-  async makeDecision(context: AIDecisionContext): Promise<PlayerAction> {
+  async makeDecision(context: AIDecisionContext, rng?: Rng): Promise<PlayerAction> {
     const apiKey = this.getApiKey();
     if (!apiKey) {
       console.warn(`[LLMBot:${this.name}] No API key configured, using fallback`);
-      const fallbackResult = await this.fallback.decide(context);
+      const fallbackResult = await this.fallback.decide(context, rng);
       console.log(`[LLMBot:${this.name}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
       return fallbackResult;
     }
@@ -114,7 +114,7 @@ export class LLMBotPlayer {
 
       if (!response.ok) {
         console.error(`[LLMBot:${this.name}] API error ${response.status}, using fallback`);
-        const fallbackResult = await this.fallback.decide(context);
+        const fallbackResult = await this.fallback.decide(context, rng);
         console.log(`[LLMBot:${this.name}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
         return fallbackResult;
       }
@@ -124,7 +124,7 @@ export class LLMBotPlayer {
 
       if (!content) {
         console.error(`[LLMBot:${this.name}] Empty response, using fallback`);
-        const fallbackResult = await this.fallback.decide(context);
+        const fallbackResult = await this.fallback.decide(context, rng);
         console.log(`[LLMBot:${this.name}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
         return fallbackResult;
       }
@@ -132,7 +132,7 @@ export class LLMBotPlayer {
       const decision = parseDecisionResponse(content);
       if (!decision) {
         console.error(`[LLMBot:${this.name}] Could not parse decision from: ${content.slice(0, 100)}, using fallback`);
-        const fallbackResult = await this.fallback.decide(context);
+        const fallbackResult = await this.fallback.decide(context, rng);
         console.log(`[LLMBot:${this.name}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
         return fallbackResult;
       }
@@ -149,7 +149,7 @@ export class LLMBotPlayer {
       } else {
         console.error(`[LLMBot:${this.name}] Unexpected error: ${err?.message}, using fallback`);
       }
-      const fallbackResult = await this.fallback.decide(context);
+      const fallbackResult = await this.fallback.decide(context, rng);
       console.log(`[LLMBot:${this.name}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
       return fallbackResult;
     }
@@ -167,13 +167,9 @@ export class LLMBotPlayer {
         return callAmount === 0 ? { type: 'check' } : { type: 'fold' };
       case 'call':
         return callAmount <= context.playerChips ? { type: 'call' } : { type: 'all-in' };
-      case 'raise': {
-        const amount = Math.max(decision.amount ?? context.minRaise, context.minRaise);
-        const max = context.playerChips + context.playerBet;
-        if (amount >= max) return { type: 'all-in' };
-        return { type: 'raise', amount };
-      }
-      case 'all-in': return { type: 'all-in' };
+      case 'raise':
+        return fitActionToLimits({ type: 'raise', amount: decision.amount ?? context.minRaise }, context);
+      case 'all-in': return fitActionToLimits({ type: 'all-in' }, context);
       default:
         return callAmount === 0 ? { type: 'check' } : { type: 'fold' };
     }
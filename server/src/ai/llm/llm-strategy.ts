@@ -1,4 +1,4 @@
-import { PlayerAction, AIDecisionContext, ActionType } from '@texas-agent/shared';
+import { PlayerAction, AIDecisionContext, ActionType, Rng, fitActionToLimits } from '@texas-agent/shared';
 import { AIStrategy } from '../ai-strategy';
 import { RuleBasedStrategy } from '../rule-based/rule-strategy';
 import { buildDecisionPrompt, parseDecisionResponse, getSystemMessage, getTemperature } from './prompt-builder';
@@ -30,10 +30,10 @@ export class LLMStrategy implements AIStrategy {
     return `LLM Engine (${this.config.model})`;
   }
 
-  async decide(context: AIDecisionContext): Promise<PlayerAction> {
+  async decide(context: AIDecisionContext, rng?: Rng): Promise<PlayerAction> {
     if (!this.config.apiKey) {
       console.error(`[LLM:${this.config.model}] API key not configured, falling back to rule-based engine`);
-      const fallbackResult = await this.fallback.decide(context);
+      const fallbackResult = await this.fallback.decide(context, rng);
       console.log(`[LLM:${this.config.model}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
       return fallbackResult;
     }
@@ -71,7 +71,7 @@ export class LLMStrategy implements AIStrategy {
 
     if (!response || !response.ok) {
       console.error(`[LLM:${this.config.model}] API error, falling back to rule-based engine`);
-      const fallbackResult = await this.fallback.decide(context);
+      const fallbackResult = await this.fallback.decide(context, rng);
       console.log(`[LLM:${this.config.model}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
       return fallbackResult;
     }
@@ -79,7 +79,7 @@ export class LLMStrategy implements AIStrategy {
     const data: any = await response.json().catch(() => null);
     if (!data?.choices?.[0]?.message?.content) {
       console.error(`[LLM:${this.config.model}] Response parse error, falling back`);
-      const fallbackResult = await this.fallback.decide(context);
+      const fallbackResult = await this.fallback.decide(context, rng);
       console.log(`[LLM:${this.config.model}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
       return fallbackResult;
     }
@@ -89,7 +89,7 @@ export class LLMStrategy implements AIStrategy {
 
     if (!decision) {
       console.error(`[LLM:${this.config.model}] Could not parse decision from: ${content.slice(0, 100)}, falling back`);
-      const fallbackResult = await this.fallback.decide(context);
+      const fallbackResult = await this.fallback.decide(context, rng);
       console.log(`[LLM:${this.config.model}] ⚠️ Fallback decision: ${fallbackResult.type}${fallbackResult.type === 'raise' ? ` ${fallbackResult.amount}` : ''}`);
       return fallbackResult;
     }
@@ -116,15 +116,10 @@ export class LLMStrategy implements AIStrategy {
       case 'call':
         if (callAmount <= context.playerChips) return { type: 'call' };
         return { type: 'all-in' };
-      case 'raise': {
-        let amount = decision.amount || context.minRaise;
-        amount = Math.max(amount, context.minRaise);
-        const maxAmount = context.playerChips + context.playerBet;
-        if (amount >= maxAmount) return { type: 'all-in' };
-        return { type: 'raise', amount };
-      }
+      case 'raise':
+        return fitActionToLimits({ type: 'raise', amount: decision.amount || context.minRaise }, context);
       case 'all-in':
-        return { type: 'all-in' };
+        return fitActionToLimits({ type: 'all-in' }, context);
       default:
         return callAmount === 0 ? { type: 'check' } : { type: 'fold' };
     }
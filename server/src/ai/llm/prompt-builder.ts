@@ -1,4 +1,4 @@
-import { AIDecisionContext, AIPersonality } from '@texas-agent/shared';
+import { AIDecisionContext, AIPersonality, BettingStructure, GameVariant } from '@texas-agent/shared';
 import { formatCards } from '@texas-agent/shared';
 
 /** Personality-specific system messages — stronger framing than user-level hints */
@@ -8,6 +8,35 @@ const SYSTEM_MESSAGES: Record<AIPersonality, string> = {
   balanced: `You are a skilled, adaptive Texas Hold'em professional. You play a solid TAG (tight-aggressive) style but you're not afraid to make big moves when the situation calls for it. You exploit weak players aggressively and give respect to strong ones. Respond ONLY with valid JSON: {"action":"fold|check|call|raise|all-in","amount":number,"reasoning":"brief reason"}`,
 };
 
+const BETTING_STRUCTURE_NAMES: Record<BettingStructure, string> = {
+  'no-limit': 'No-Limit',
+  'pot-limit': 'Pot-Limit (max raise is the size of the pot)',
+  'fixed-limit': 'Fixed-Limit (fixed bet sizes, raises capped per round)',
+};
+
+const VARIANT_NAMES: Record<GameVariant, string> = {
+  holdem: "Texas Hold'em",
+  omaha: 'Pot-Limit Omaha',
+  'short-deck': "Short-Deck (6+) Hold'em",
+};
+
+/** Rules reminder for variants whose hand construction differs from hold'em */
+const VARIANT_RULES: Record<GameVariant, string> = {
+  holdem: '',
+  omaha: `
+OMAHA RULES (critical):
+- You hold 4 hole cards but your final hand MUST use EXACTLY 2 of them plus EXACTLY 3 community cards.
+- A single hole card of a suit never makes a flush; four suited cards on board do NOT give you a flush unless you hold two of that suit.
+- Hands run close in equity; the nuts matters far more than in hold'em. Draws with many outs (wraps, nut flush draws) are strong.
+`,
+  'short-deck': `
+SHORT-DECK RULES (critical):
+- The deck has 36 cards: all 2s, 3s, 4s and 5s are removed.
+- A FLUSH BEATS A FULL HOUSE. The ace also plays low in A-6-7-8-9 straights.
+- Straights and sets come far more often than in full-deck hold'em; big pairs lose value and connected hands gain it.
+`,
+};
+
 export function getSystemMessage(personality: AIPersonality): string {
   return SYSTEM_MESSAGES[personality];
 }
@@ -25,15 +54,18 @@ export function buildDecisionPrompt(context: AIDecisionContext): string {
   const canCheck = callAmount === 0;
 
   const opponentInfo = context.players
-    .filter(p => p.id !== context.playerId && !p.isFolded)
+    .filter(p => p.id !== context.playerId && !p.isFolded && !p.isSittingOut)
     .map((p, i) => `  Player ${i + 1} (${p.name || 'Unknown'}): chips=${p.chips}, bet=${p.currentBet}${p.isAllIn ? ' (ALL-IN)' : ''}`)
     .join('\n');
 
   const availableActions: string[] = [];
   if (canCheck) availableActions.push('"check"');
   else availableActions.push('"fold"', '"call"');
-  availableActions.push('"raise"');
-  if (context.playerChips > 0) availableActions.push('"all-in"');
+  if (context.canRaise) availableActions.push('"raise"');
+  const allInTotal = context.playerChips + context.playerBet;
+  const allInAllowed = context.playerChips > 0
+    && (allInTotal <= context.currentBet || (context.canRaise && allInTotal <= context.maxRaise));
+  if (allInAllowed) availableActions.push('"all-in"');
 
   // Build hand history section
   let handHistorySection = '';
@@ -69,18 +101,21 @@ export function buildDecisionPrompt(context: AIDecisionContext): string {
     profilesSection = `\nOPPONENT BEHAVIORAL PROFILES (based on ${context.opponentProfiles[0]?.handsPlayed || 0}+ hands of history):\n${profiles.join('\n')}\n`;
   }
 
-  return `You are an expert Texas Hold'em poker player with a ${context.personality} play style.
-
+  return `You are an expert ${VARIANT_NAMES[context.variant]} poker player with a ${context.personality} play style.
+${VARIANT_RULES[context.variant]}
 CURRENT GAME STATE:
+- Game: ${VARIANT_NAMES[context.variant]}
 - Phase: ${context.phase}
 - Your hand: ${formatCards(context.hand)}
 - Community cards: ${context.communityCards.length > 0 ? formatCards(context.communityCards) : 'None (pre-flop)'}
-- Pot size: ${context.pot}
+- Pot size: ${context.pot}${context.deadMoney > 0 ? ` (includes ${context.deadMoney} dead money from antes)` : ''}
 - Current bet to match: ${context.currentBet}
 - Your current bet: ${context.playerBet}
 - Amount to call: ${callAmount}
 - Your chips: ${context.playerChips}
+- Betting structure: ${BETTING_STRUCTURE_NAMES[context.bettingStructure]}
 - Minimum raise to: ${context.minRaise}
+- Maximum raise to: ${context.maxRaise}${context.canRaise ? '' : ' (raising is not allowed: the round is capped, or a short all-in did not reopen the betting)'}
 - Your position: ${context.position}
 - Active players: ${context.numActivePlayers}
 
@@ -99,7 +134,7 @@ Respond with ONLY a JSON object (no markdown, no explanation):
 {"action": "<action_type>", "amount": <number_or_null>, "reasoning": "<brief_reason>"}
 
 Where action is one of: ${availableActions.join(', ')}
-If action is "raise", amount must be >= ${context.minRaise}
+If action is "raise", amount must be between ${context.minRaise} and ${context.maxRaise}${context.bettingStructure === 'fixed-limit' ? ` (fixed-limit: raise to exactly ${context.maxRaise})` : ''}
 If action is not "raise", amount should be null`;
 }
 
@@ -1,50 +1,48 @@
-import { Card, GamePhase } from '@texas-agent/shared';
-import { evaluateHand } from '@texas-agent/shared';
-import { Deck } from '@texas-agent/shared';
+import { Card, GamePhase, GameVariant, Rng } from '@texas-agent/shared';
+import { evaluateHand, getHandValue, getHandRankStrength, HOLE_CARD_COUNT } from '@texas-agent/shared';
+import { createDeck } from '@texas-agent/shared';
 
 export function estimateHandStrength(
   holeCards: Card[],
   communityCards: Card[],
   numOpponents: number,
-  simulations: number = 500
+  simulations: number = 500,
+  variant: GameVariant = 'holdem',
+  rng: Rng = Math.random
 ): number {
   if (communityCards.length === 0) {
-    return estimatePreflopStrength(holeCards);
+    return variant === 'omaha' ? estimateOmahaPreflopStrength(holeCards) : estimatePreflopStrength(holeCards);
   }
 
+  const holeCount = HOLE_CARD_COUNT[variant];
+  const boardNeeded = 5 - communityCards.length;
+
+  // Build the unseen cards once; each simulation only reshuffles the slice it deals
+  const usedCards = new Set([...holeCards, ...communityCards].map(c => `${c.rank}-${c.suit}`));
+  const unseen = createDeck(variant).filter(c => !usedCards.has(`${c.rank}-${c.suit}`));
+  const opponents = Math.min(numOpponents, Math.floor((unseen.length - boardNeeded) / holeCount));
+  const dealt = boardNeeded + opponents * holeCount;
+
   let wins = 0;
   let ties = 0;
-  const usedCards = new Set([...holeCards, ...communityCards].map(c => `${c.rank}-${c.suit}`));
 
   for (let i = 0; i < simulations; i++) {
-    const deck = new Deck();
-    const availableCards: Card[] = [];
-    while (deck.remaining() > 0) {
-      const card = deck.deal(1)[0];
-      if (!usedCards.has(`${card.rank}-${card.suit}`)) {
-        availableCards.push(card);
-      }
-    }
-
-    shuffleArray(availableCards);
+    partialShuffle(unseen, dealt, rng);
 
-    const remainingCommunity = availableCards.splice(0, 5 - communityCards.length);
-    const fullCommunity = [...communityCards, ...remainingCommunity];
-
-    const myEval = evaluateHand(holeCards, fullCommunity);
+    const fullCommunity = boardNeeded > 0 ? [...communityCards, ...unseen.slice(0, boardNeeded)] : communityCards;
+    const myValue = handValue(holeCards, fullCommunity, variant);
 
     let isBest = true;
     let isTied = false;
 
-    for (let o = 0; o < numOpponents; o++) {
-      if (availableCards.length < 2) break;
-      const oppCards = availableCards.splice(0, 2);
-      const oppEval = evaluateHand(oppCards, fullCommunity);
+    for (let o = 0; o < opponents; o++) {
+      const start = boardNeeded + o * holeCount;
+      const oppValue = handValue(unseen.slice(start, start + holeCount), fullCommunity, variant);
 
-      if (oppEval.value > myEval.value) {
+      if (oppValue > myValue) {
         isBest = false;
         break;
-      } else if (oppEval.value === myEval.value) {
+      } else if (oppValue === myValue) {
         isTied = true;
       }
     }
@@ -56,9 +54,15 @@ export function estimateHandStrength(
   return (wins + ties * 0.5) / simulations;
 }
 
-function shuffleArray<T>(arr: T[]): void {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+/** Hold'em and short-deck go straight to the bit-mask value; Omaha needs the 2+3 search */
+function handValue(hole: Card[], board: Card[], variant: GameVariant): number {
+  return variant === 'omaha' ? evaluateHand(hole, board, variant).value : getHandValue([...hole, ...board], variant);
+}
+
+/** Fisher-Yates over the first `count` positions only — enough for a uniformly random deal */
+function partialShuffle<T>(arr: T[], count: number, rng: Rng): void {
+  for (let i = 0; i < count && i < arr.length - 1; i++) {
+    const j = i + Math.floor(rng() * (arr.length - i));
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
 }
@@ -93,22 +97,56 @@ function estimatePreflopStrength(holeCards: Card[]): number {
   return Math.min(Math.max(strength, 0), 1);
 }
 
-export function countOuts(holeCards: Card[], communityCards: Card[]): number {
+/**
+ * Omaha starting hands run much closer in equity than hold'em, so the score is
+ * built from the best two-card pairing plus coordination of all four cards.
+ */
+function estimateOmahaPreflopStrength(holeCards: Card[]): number {
+  const rankValues: Record<string, number> = {
+    '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8,
+    '9': 9, '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14,
+  };
+
+  let best = 0;
+  for (let i = 0; i < holeCards.length; i++) {
+    for (let j = i + 1; j < holeCards.length; j++) {
+      best = Math.max(best, estimatePreflopStrength([holeCards[i], holeCards[j]]));
+    }
+  }
+
+  // Suitedness: each suit held twice is a flush draw that uses exactly two hole cards
+  const suitCounts = new Map<string, number>();
+  for (const c of holeCards) suitCounts.set(c.suit, (suitCounts.get(c.suit) || 0) + 1);
+  const suitedPairs = Array.from(suitCounts.values()).filter(n => n >= 2).length;
+
+  // Connectedness: how tightly the four ranks are packed (rundowns make many straights)
+  const ranks = [...new Set(holeCards.map(c => rankValues[c.rank]))].sort((a, b) => b - a);
+  const span = ranks.length > 1 ? ranks[0] - ranks[ranks.length - 1] : 0;
+  const connected = ranks.length === 4 && span <= 4;
+
+  // Trips or quads in hand kill outs
+  const hasTrips = Array.from(new Set(holeCards.map(c => c.rank)))
+    .some(r => holeCards.filter(c => c.rank === r).length >= 3);
+
+  let strength = best * 0.8 + suitedPairs * 0.06 + (connected ? 0.06 : 0);
+  if (hasTrips) strength -= 0.15;
+
+  return Math.min(Math.max(strength, 0), 1);
+}
+
+export function countOuts(holeCards: Card[], communityCards: Card[], variant: GameVariant = 'holdem'): number {
   if (communityCards.length < 3) return 0;
 
-  const currentEval = evaluateHand(holeCards, communityCards);
+  const currentEval = evaluateHand(holeCards, communityCards, variant);
   const usedCards = new Set([...holeCards, ...communityCards].map(c => `${c.rank}-${c.suit}`));
 
   let outs = 0;
-  const deck = new Deck();
-
-  while (deck.remaining() > 0) {
-    const card = deck.deal(1)[0];
+  for (const card of createDeck(variant)) {
     if (usedCards.has(`${card.rank}-${card.suit}`)) continue;
 
     const newCommunity = [...communityCards, card];
-    const newEval = evaluateHand(holeCards, newCommunity);
-    if (newEval.rank > currentEval.rank) {
+    const newEval = evaluateHand(holeCards, newCommunity, variant);
+    if (getHandRankStrength(newEval.rank, variant) > getHandRankStrength(currentEval.rank, variant)) {
       outs++;
     }
   }
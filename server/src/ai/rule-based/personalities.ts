@@ -1,4 +1,4 @@
-import { AIPersonality } from '@texas-agent/shared';
+import { AIPersonality, Rng } from '@texas-agent/shared';
 
 export interface PersonalityParams {
   aggressiveness: number;    // 0-1: how likely to raise vs call
@@ -50,7 +50,7 @@ export const AI_NAMES: Record<AIPersonality, string[]> = {
   balanced: ['Smart Sam', 'Clever Claire', 'Wise Walter'],
 };
 
-export function getRandomAIName(personality: AIPersonality): string {
+export function getRandomAIName(personality: AIPersonality, rng: Rng = Math.random): string {
   const names = AI_NAMES[personality];
-  return names[Math.floor(Math.random() * names.length)];
+  return names[Math.floor(rng() * names.length)];
 }
@@ -1,8 +1,15 @@
-import { PlayerAction, AIDecisionContext } from '@texas-agent/shared';
+import { PlayerAction, AIDecisionContext, GameVariant, Rng } from '@texas-agent/shared';
 import { AIStrategy } from '../ai-strategy';
 import { estimateHandStrength } from './hand-strength';
 import { getPersonalityParams, PersonalityParams } from './personalities';
-import { calculatePotOdds } from '@texas-agent/shared';
+import { calculatePotOdds, fitActionToLimits } from '@texas-agent/shared';
+
+/** Monte Carlo iterations per decision — Omaha scores 60 hand combinations per player, so it gets fewer */
+const SIMULATIONS: Record<GameVariant, number> = {
+  holdem: 2000,
+  'short-deck': 2000,
+  omaha: 300,
+};
 
 export class RuleBasedStrategy implements AIStrategy {
   private params: PersonalityParams;
@@ -15,12 +22,14 @@ export class RuleBasedStrategy implements AIStrategy {
     return 'Rule-Based Engine';
   }
 
-  async decide(context: AIDecisionContext): Promise<PlayerAction> {
+  async decide(context: AIDecisionContext, rng: Rng = Math.random): Promise<PlayerAction> {
     const handStrength = estimateHandStrength(
       context.hand,
       context.communityCards,
       context.numActivePlayers - 1,
-      300
+      SIMULATIONS[context.variant],
+      context.variant,
+      rng
     );
 
     const callAmount = context.currentBet - context.playerBet;
@@ -35,7 +44,7 @@ export class RuleBasedStrategy implements AIStrategy {
 
     const ev = this.calculateEV(adjustedStrength, context.pot, callAmount, potOdds);
 
-    return this.selectAction(adjustedStrength, ev, callAmount, context);
+    return fitActionToLimits(this.selectAction(adjustedStrength, ev, callAmount, context, rng), context);
   }
 
   private getPositionMultiplier(position: string): number {
@@ -64,9 +73,10 @@ export class RuleBasedStrategy implements AIStrategy {
     strength: number,
     ev: number,
     callAmount: number,
-    context: AIDecisionContext
+    context: AIDecisionContext,
+    rng: Rng
   ): PlayerAction {
-    const shouldBluff = Math.random() < this.params.bluffFrequency;
+    const shouldBluff = rng() < this.params.bluffFrequency;
     const callRatio = callAmount / context.playerChips; // what fraction of stack is the call
 
     // === Optimization 2: Prevent infinite re-raise loops ===
@@ -115,7 +125,7 @@ export class RuleBasedStrategy implements AIStrategy {
     }
 
     // Raise with strong hands or occasional bluff
-    if (strength >= effectiveRaiseThreshold || (shouldBluff && Math.random() < this.params.aggressiveness)) {
+    if (strength >= effectiveRaiseThreshold || (shouldBluff && rng() < this.params.aggressiveness)) {
       if (context.playerChips <= callAmount) {
         return { type: 'all-in' };
       }
@@ -140,8 +150,10 @@ export class RuleBasedStrategy implements AIStrategy {
   }
 
   private calculateRaiseAmount(strength: number, context: AIDecisionContext): number {
-    const { minRaise, currentBet, playerChips, playerBet, bigBlind } = context;
-    const maxRaise = playerChips + playerBet;
+    const { minRaise, maxRaise, currentBet, playerChips, playerBet, bigBlind } = context;
+
+    // Fixed-limit: every bet and raise is exactly one bet size
+    if (context.bettingStructure === 'fixed-limit') return maxRaise;
 
     // === Optimization 1: Normalize raise amounts to valid increments ===
     // In Texas Hold'em, a raise must be at least the size of the previous raise.
@@ -6,7 +6,7 @@
  * - Tracks which room it is currently in (null = available).
  */
 
-import { PlayerAction, AIDecisionContext, RULE_BOT_CONFIGS, RuleBotId, AIPersonality } from '@texas-agent/shared';
+import { PlayerAction, AIDecisionContext, RULE_BOT_CONFIGS, RuleBotId, AIPersonality, Rng } from '@texas-agent/shared';
 import { RuleBasedStrategy } from './rule-based/rule-strategy';
 
 export class RuleBotPlayer {
@@ -48,8 +48,8 @@ export class RuleBotPlayer {
     return this.currentRoomId;
   }
 
-  async makeDecision(context: AIDecisionContext): Promise<PlayerAction> {
-    const action = await this.strategy.decide(context);
+  async makeDecision(context: AIDecisionContext, rng?: Rng): Promise<PlayerAction> {
+    const action = await this.strategy.decide(context, rng);
     console.log(`[RuleBot:${this.name}] ✅ Decision: ${action.type}${action.type === 'raise' ? ` ${action.amount}` : ''}`);
     return action;
   }
@@ -0,0 +1,104 @@
+import { GameState, HandHistory, Player, Room } from '@texas-agent/shared';
+
+/**
+ * Single source of truth for which hole cards a viewer may see.
+ * Every Room / GameState payload leaving the server must pass through here.
+ */
+
+/** Who is looking at the payload */
+export type Viewer =
+  | { kind: 'player'; id: string }
+  | { kind: 'spectator'; id: string }
+  /** Server-side tooling (hand replay, history export) — sees everything */
+  | { kind: 'admin' };
+
+/** Lobby listings are built for nobody in particular */
+const LOBBY_VIEWER: Viewer = { kind: 'spectator', id: '' };
+
+/** Resolve a socket id into a viewer for the given room */
+export function getViewer(room: Room, socketId: string): Viewer {
+  const seated = room.players.some(p => p.id === socketId)
+    || (room.pendingPlayers ?? []).some(p => p.id === socketId);
+  return seated ? { kind: 'player', id: socketId } : { kind: 'spectator', id: socketId };
+}
+
+/** A hand that ended because everyone else folded never reaches a real showdown */
+function isEarlyWin(state: GameState): boolean {
+  return !!state.winners?.length && state.winners.every(w => w.handName === 'Last Standing');
+}
+
+/** Whether `viewer` may see `player`'s hole cards in `state` */
+export function canSeeCards(state: GameState | undefined, player: Player, viewer: Viewer): boolean {
+  if (viewer.kind === 'admin') return true;
+  if (viewer.kind === 'player' && viewer.id === player.id) return true;
+  if (!state) return false;
+  if (state.shownPlayerIds?.includes(player.id)) return true;
+  // Real showdown: only hands that were still live are tabled
+  if (state.phase === 'showdown' && state.winners && !isEarlyWin(state)) {
+    return !player.isFolded;
+  }
+  return false;
+}
+
+/**
+ * Whether `viewer` gets a finished hand's revealed server seed. With it the whole deck can be
+ * re-dealt, mucked hands included — the price of letting a player check the shuffle. Only the
+ * players dealt into the hand pay it, and they already saw how it was played; spectators and
+ * the lobby never get it.
+ */
+export function canVerifyHand(dealOrder: string[], viewer: Viewer): boolean {
+  return viewer.kind === 'admin' || (viewer.kind === 'player' && dealOrder.includes(viewer.id));
+}
+
+function maskPlayers(players: Player[], state: GameState | undefined, viewer: Viewer): Player[] {
+  return players.map(p => (canSeeCards(state, p, viewer) ? p : { ...p, cards: [] }));
+}
+
+/** Deep-copied game state with every card the viewer may not see removed */
+export function getVisibleGameState(state: GameState, viewer: Viewer): GameState {
+  const copy = JSON.parse(JSON.stringify(state)) as GameState;
+  copy.players = maskPlayers(copy.players, state, viewer);
+  // The seed fixes the whole deck, mucked hands included
+  if (viewer.kind !== 'admin') delete copy.seed;
+  if (copy.fairness && !canVerifyHand(copy.fairness.dealOrder, viewer)) delete copy.fairness.serverSeed;
+  return copy;
+}
+
+/** Deep-copied room (including its game state) as seen by the viewer */
+export function getVisibleRoom(room: Room, viewer: Viewer): Room {
+  const copy = JSON.parse(JSON.stringify(room)) as Room;
+  copy.players = maskPlayers(copy.players, room.gameState, viewer);
+  if (copy.pendingPlayers) {
+    copy.pendingPlayers = maskPlayers(copy.pendingPlayers, room.gameState, viewer);
+  }
+  if (copy.gameState) {
+    copy.gameState = getVisibleGameState(copy.gameState, viewer);
+  }
+  return copy;
+}
+
+/** Resolve an account into a viewer for a stored hand: the seat it played, or a spectator */
+export function getHandViewer(hand: HandHistory, userId: string): Viewer {
+  const seat = hand.players.find(p => p.userId === userId);
+  return seat ? { kind: 'player', id: seat.id } : { kind: 'spectator', id: userId };
+}
+
+/**
+ * Deep-copied stored hand with the hole cards the viewer did not see at the table removed, no replay
+ * record, and the server seed only for players who were dealt in (see canVerifyHand)
+ */
+export function getVisibleHandHistory(hand: HandHistory, viewer: Viewer): HandHistory {
+  const copy = JSON.parse(JSON.stringify(hand)) as HandHistory;
+  if (viewer.kind === 'admin') return copy;
+  copy.players = copy.players.map(p => (
+    (viewer.kind === 'player' && viewer.id === p.id) || hand.shownPlayerIds.includes(p.id) ? p : { ...p, cards: [] }
+  ));
+  delete copy.record;
+  if (copy.fairness && !canVerifyHand(copy.fairness.dealOrder, viewer)) delete copy.fairness.serverSeed;
+  return copy;
+}
+
+/** Room as shown in the public lobby list — no private cards at all */
+export function getPublicRoom(room: Room): Room {
+  return getVisibleRoom(room, LOBBY_VIEWER);
+}
@@ -2,28 +2,57 @@ import {
   GameState, GamePhase, Player, PlayerAction, Room,
   getActivePlayers, getPlayersInHand, getNextActivePlayerIndex,
   getSmallBlindIndex, getBigBlindIndex, calculateMinRaise,
-  isValidAction, applyAction, isRoundOver, advancePhase,
-  resetBetsForNewRound, determineWinners, calculateSidePots,
-  Deck, generateId, ACTION_TIMEOUT,
+  isValidAction, applyAction, isRoundOver,
+  getMaxRaise, canRaise,
+  assertChipsConserved, applyEvent, HandEngineState, HandEvent, HandEffect,
+  HandRecord, Rng, generateId, generateSeed, deriveRng, randomBetween, ACTION_TIMEOUT,
+  commitServerSeed, deriveHandSeed, sanitizeClientSeed, MAX_RUN_COUNT, RUN_IT_TIMEOUT,
+  startBlindLevel, isBlindLevelOver, recordFinish, SIT_OUT_MAX_ORBITS, SIT_OUT_ACTION_DELAY, TIME_BANK_REFILL_HANDS,
+  GameVariant, getBettingStructure, DEALERS_CHOICE_TIMEOUT,
 } from '@texas-agent/shared';
 import { AIPlayer } from './ai/ai-player';
 import { llmBotRegistry } from './ai/llm-bot-player';
 import { ruleBotRegistry } from './ai/rule-bot-player';
 import { getRoomMemory, deleteRoomMemory } from './ai/opponent-memory';
+import * as RoomManager from './room-manager';
 
 type GameEventCallback = (roomId: string, event: string, data: unknown) => void;
 
+/** Runs a multi-table tournament: decides when each of its tables deals again */
+export interface TableDirector {
+  /**
+   * A table finished its hand and is waiting for resumeDealing(). `busted` lists the players
+   * who went out, with the stack they started the hand with; they are still in room.players.
+   */
+  onHandFinished(roomId: string, busted: { player: Player; startChips: number }[]): void;
+}
+
 export class GameController {
-  private deck!: Deck;
+  /** The hand engine's state; its game is the room's game state */
+  private hand: HandEngineState | null = null;
+  /** AI randomness for the current hand, derived from its seed */
+  private aiRng: Rng = Math.random;
+  /** Seed, starting table and actions of the current hand — enough to replay it exactly */
+  private handRecord: HandRecord | null = null;
+  /** Secret half of the current hand's commit-reveal; published once the hand ends */
+  private serverSeed = '';
+  /** Entropy each player contributed via game:client-seed */
+  private clientSeeds: Map<string, string> = new Map();
+  /** Ends the open run-it-twice vote early once every voter has answered */
+  private runItResolve: (() => void) | null = null;
   private room: Room;
   private aiPlayers: Map<string, AIPlayer> = new Map();
   private actionTimer: ReturnType<typeof setTimeout> | null = null;
   /** Timer for the delay between hands (finishHand → startNextHand) */
   private nextHandTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Dealer's choice: deals the next orbit in the current game if the button does not call one in time */
+  private dealersChoiceTimer: ReturnType<typeof setTimeout> | null = null;
   private emitEvent: GameEventCallback;
   private isProcessing = false;
   /** Set to true after cleanup() — all async operations should bail out */
   private destroyed = false;
+  /** Server shutting down: the hand in play is finished but no new one is dealt */
+  private draining = false;
   /** Queued action from a timeout that arrived while isProcessing was true */
   private pendingTimeoutAction: { playerId: string; action: PlayerAction } | null = null;
   /** Players who timed out this hand — will be kicked before the next hand */
@@ -36,6 +65,12 @@ export class GameController {
   private onPlayerStand?: (playerId: string) => void;
   /** Callback to notify socket-handler the room should be destroyed (only AI left and no spectators) */
   private onRoomEmpty?: () => void;
+  /** Multi-table tournament director; levels, eliminations and the next deal are its call */
+  private director?: TableDirector;
+  /** No hand is dealt until a sitting-out player comes back (too few players left to deal to) */
+  private waitingForPlayers = false;
+  /** Deadline of the current decision before the time bank was added; time past it is charged to the bank */
+  private baseDeadline = 0;
 
   constructor(room: Room, emitEvent: GameEventCallback) {
     this.room = room;
@@ -57,51 +92,28 @@ export class GameController {
     this.onPlayerStand = cb;
   }
 
+  /** Make this room a table of a multi-table tournament */
+  setTournamentDirector(director: TableDirector): void {
+    this.director = director;
+  }
+
   startGame(): GameState {
     if (this.room.players.length < 2) {
       throw new Error('Need at least 2 players to start');
     }
 
-    this.deck = new Deck();
     this.aiPlayers.clear();
+    this.initAIPlayers();
 
-    // Initialize AI players
-    for (const player of this.room.players) {
-      if (player.isAI && !player.isLLMBot && !player.isRuleBot) {
-        // Regular anonymous rule-based or generic LLM AI
-        this.aiPlayers.set(
-          player.id,
-          new AIPlayer(player.aiPersonality || 'balanced', player.aiEngineType || 'rule-based')
-        );
-      }
-      // LLM bots are handled via llmBotRegistry in handleAITurn
-      // Rule bots are handled via ruleBotRegistry in handleAITurn
-    }
+    // Multi-table tournaments are started by their director before the first table deals
+    if (this.room.tournament?.status === 'registering') this.startTournament();
 
-    const state = this.initializeGameState();
-    this.room.gameState = state;
+    const effects = this.dealNewHand();
+    const state = this.room.gameState!;
     this.room.status = 'playing';
 
-    // Post blinds and deal cards
-    this.postBlinds(state);
-    this.dealHoleCards(state);
-
-    // Set first player to act (UTG position)
-    const bbIndex = getBigBlindIndex(state);
-    state.currentPlayerIndex = getNextActivePlayerIndex(state, bbIndex);
-    if (state.currentPlayerIndex === -1) {
-      state.currentPlayerIndex = getNextActivePlayerIndex(state, state.dealerIndex);
-    }
-
-    this.emitEvent(this.room.id, 'game:started', this.sanitizeState(state));
-
-    // If no one can act (all players all-in from blinds), run out the board directly
-    if (state.currentPlayerIndex === -1) {
-      console.log(`[startGame] All players all-in after blinds, running out board`);
-      this.advanceToNextPhase(state);
-    } else {
-      this.scheduleNextAction(state);
-    }
+    this.emitEvent(this.room.id, 'game:started', state);
+    this.runEffects(effects);
 
     return state;
   }
@@ -126,13 +138,64 @@ export class GameController {
     this.processAction(playerId, action);
   }
 
+  /** Add the player's time bank to the clock of the decision they are facing */
+  useTimeBank(playerId: string): void {
+    const state = this.room.gameState;
+    const clock = state?.turnClock;
+    if (!state || !clock || clock.playerId !== playerId || clock.usingTimeBank) return;
+    const bank = state.players.find(p => p.id === playerId)?.timeBank ?? 0;
+    if (bank <= 0) return;
+
+    this.baseDeadline = clock.deadline;
+    clock.deadline += bank;
+    clock.usingTimeBank = true;
+    this.clearActionTimer();
+    this.actionTimer = setTimeout(() => {
+      this.handlePlayerTimeout(playerId);
+    }, clock.deadline - Date.now());
+    console.log(`[TimeBank] ${playerId} added ${bank / 1000}s in room ${this.room.id}`);
+    this.emitEvent(this.room.id, 'game:your-turn', { playerId, timeLimit: clock.deadline - clock.startedAt, deadline: clock.deadline });
+    this.broadcastState(state);
+  }
+
+  /** Multi-table tournaments: deal the next hand once the director has balanced the tables */
+  resumeDealing(): void {
+    if (this.destroyed || this.draining) return;
+
+    // Players the director moved here wait in pendingPlayers; busted players are gone
+    this.mergePendingPlayers();
+    this.room.players = this.room.players.filter(p => p.chips > 0);
+    this.initAIPlayers();
+    if (this.room.players.length < 2) {
+      this.room.status = 'waiting';
+      this.emitEvent(this.room.id, 'room:updated', this.room);
+      return;
+    }
+    this.room.status = 'playing';
+
+    const effects = this.dealNewHand();
+    this.emitEvent(this.room.id, 'game:started', this.room.gameState);
+    this.runEffects(effects);
+  }
+
   /** Handle a human player leaving mid-game: mark them as folded & inactive */
   handlePlayerLeave(playerId: string): void {
     const state = this.room.gameState;
 
     // Even if state is in showdown/waiting (e.g. between hands), check if only AI remain.
     // Exclude the leaving player since they haven't been removed from room.players yet.
+    this.clientSeeds.delete(playerId);
     const humanPlayersInRoom = this.room.players.filter(p => !p.isAI && p.id !== playerId);
+
+    // Leaving a running Sit-and-Go forfeits the seat at the current finishing place
+    const leaver = this.room.players.find(p => p.id === playerId);
+    if (this.room.tournament?.status === 'running' && leaver) {
+      this.eliminate(leaver);
+      if (humanPlayersInRoom.length === 0) {
+        this.finishTournament(this.room.players.filter(p => p.id !== playerId && p.chips > 0));
+      }
+    }
+
     if (humanPlayersInRoom.length === 0) {
       console.log(`[handlePlayerLeave] No human players left in room ${this.room.id}, aborting immediately`);
       this.clearActionTimer();
@@ -153,44 +216,16 @@ export class GameController {
     const player = state.players.find(p => p.id === playerId);
     if (!player || player.isFolded || !player.isActive) return;
 
-    // Mark player as folded and inactive
-    player.isFolded = true;
-    player.isActive = false;
-
-    // If it was this player's turn, clear the timer and advance the game
-    const currentPlayer = state.players[state.currentPlayerIndex];
-    if (currentPlayer && currentPlayer.id === playerId) {
+    // Fold them out of the hand; on their turn the action moves on
+    const wasTheirTurn = state.players[state.currentPlayerIndex]?.id === playerId;
+    if (wasTheirTurn) {
       this.clearActionTimer();
-      // Broadcast the fold action
-      this.emitEvent(this.room.id, 'game:action', { playerId, action: { type: 'fold' } });
-
-      // Check if only one player remains
-      const inHand = getPlayersInHand(state);
-      if (inHand.length <= 1) {
-        this.finishHand(state);
-      } else {
-        // Move to next player
-        state.currentPlayerIndex = getNextActivePlayerIndex(state, state.currentPlayerIndex);
-        if (state.currentPlayerIndex === -1) {
-          this.finishHand(state);
-        } else {
-          this.broadcastState(state);
-          this.scheduleNextAction(state);
-        }
-      }
-    } else {
-      // Not their turn — just broadcast updated state
-      this.emitEvent(this.room.id, 'game:action', { playerId, action: { type: 'fold' } });
-
-      // Check if only one player remains after the fold
-      const inHand = getPlayersInHand(state);
-      if (inHand.length <= 1) {
-        this.clearActionTimer();
-        this.finishHand(state);
-      } else {
-        this.broadcastState(state);
-      }
+      this.stopTurnClock(state);
     }
+    this.handRecord?.actions.push({ playerId, action: { type: 'fold' }, phase: state.phase, timestamp: Date.now() });
+    const effects = this.dispatch({ type: 'leave', playerId });
+    if (!effects.some(e => e.type === 'turn' || e.type === 'showdown')) this.broadcastState(this.room.gameState!);
+    this.runEffects(effects);
   }
 
   cleanup(): void {
@@ -200,16 +235,101 @@ export class GameController {
       clearTimeout(this.nextHandTimer);
       this.nextHandTimer = null;
     }
+    if (this.dealersChoiceTimer) {
+      clearTimeout(this.dealersChoiceTimer);
+      this.dealersChoiceTimer = null;
+    }
     this.pendingTimeoutAction = null;
+    this.runItResolve?.();
     this.aiPlayers.clear();
     deleteRoomMemory(this.room.id);
   }
 
+  /** Let the hand in play run to its end and deal no more; any deal already scheduled is called off */
+  drain(): void {
+    this.draining = true;
+    if (this.nextHandTimer) {
+      clearTimeout(this.nextHandTimer);
+      this.nextHandTimer = null;
+    }
+    if (this.dealersChoiceTimer) {
+      clearTimeout(this.dealersChoiceTimer);
+      this.dealersChoiceTimer = null;
+    }
+  }
+
+  /** A hand is being played and its pots are not yet settled */
+  isHandInProgress(): boolean {
+    return !this.destroyed && !!this.hand && this.hand.game.phase !== 'showdown';
+  }
+
   /** Mark a player as standing up — they will be removed before the next hand */
   handlePlayerStand(playerId: string): void {
     this.standingPlayers.add(playerId);
   }
 
+  /** Keep the player's seat but stop playing their hands until they sit back in */
+  sitOut(playerId: string): void {
+    const player = this.room.players.find(p => p.id === playerId);
+    if (!player || player.isSittingOut) return;
+    this.setSittingOut(playerId, true);
+    // Away in the middle of their turn: act for them now rather than run down the clock
+    const state = this.room.gameState;
+    if (state && state.phase !== 'showdown' && state.players[state.currentPlayerIndex]?.id === playerId) {
+      this.clearActionTimer();
+      this.handlePlayerTimeout(playerId);
+    }
+  }
+
+  /** "I'm back": deal the player in again from the next hand (or this turn, if it is theirs) */
+  sitIn(playerId: string): void {
+    const player = this.room.players.find(p => p.id === playerId);
+    // A busted cash player comes back by rebuying
+    if (!player?.isSittingOut || player.chips + (player.pendingTopUp ?? 0) <= 0) return;
+    this.setSittingOut(playerId, false);
+    const state = this.room.gameState;
+    if (this.waitingForPlayers) {
+      this.dealIfWaiting();
+    } else if (state && state.phase !== 'showdown' && state.players[state.currentPlayerIndex]?.id === playerId && !this.isProcessing) {
+      this.scheduleNextAction(state);
+    }
+  }
+
+  /**
+   * Add chips a cash player bought to their stack. While they are in a hand the chips wait in
+   * pendingTopUp until the next deal; a rebuy on an empty stack also sits them back in.
+   */
+  topUp(playerId: string, amount: number): void {
+    const player = this.room.players.find(p => p.id === playerId) ?? this.room.pendingPlayers?.find(p => p.id === playerId);
+    if (!player) return;
+    const state = this.room.gameState;
+    const handLive = this.room.status === 'playing' && state && state.phase !== 'showdown' && state.phase !== 'waiting';
+    if (handLive && state.players.some(p => p.id === playerId)) {
+      player.pendingTopUp = (player.pendingTopUp ?? 0) + amount;
+      console.log(`[TopUp] ${player.name} bought ${amount} for the next hand in room ${this.room.id}`);
+      this.emitEvent(this.room.id, 'room:updated', this.room);
+      return;
+    }
+    const rebuy = player.chips === 0;
+    player.chips += amount;
+    const statePlayer = state?.players.find(p => p.id === playerId);
+    if (statePlayer) statePlayer.chips = player.chips;
+    console.log(`[TopUp] ${player.name} bought ${amount} in room ${this.room.id}`);
+    if (rebuy && player.isSittingOut) {
+      this.sitIn(playerId);
+    } else {
+      this.emitEvent(this.room.id, 'room:updated', this.room);
+      if (state) this.broadcastState(state);
+    }
+  }
+
+  /** Deal again if the table was held for lack of players sitting in (e.g. someone new sat down) */
+  dealIfWaiting(): void {
+    if (!this.waitingForPlayers || this.destroyed) return;
+    this.waitingForPlayers = false;
+    this.startNextHand();
+  }
+
   /** Cancel standing/timeout for a reconnected player (check both old and new socket IDs) */
   cancelPlayerStand(newId: string, oldId: string): void {
     this.standingPlayers.delete(newId);
@@ -222,44 +342,91 @@ export class GameController {
     return this.room.gameState;
   }
 
-  getSanitizedStateForPlayer(playerId: string): GameState | undefined {
-    const state = this.room.gameState;
-    if (!state) return undefined;
+  /** Store a player's entropy for the next hand's shuffle (the current deck is already committed) */
+  setClientSeed(playerId: string, seed: string): void {
+    const clean = sanitizeClientSeed(seed);
+    if (clean) this.clientSeeds.set(playerId, clean);
+    else this.clientSeeds.delete(playerId);
+  }
 
-    const sanitized = JSON.parse(JSON.stringify(state)) as GameState;
-    for (const player of sanitized.players) {
-      if (player.id !== playerId && state.phase !== 'showdown') {
-        player.cards = [];
-      }
+  /** Follow a reconnected player to their new socket id in the hand record and fairness data */
+  renamePlayer(oldId: string, newId: string): void {
+    const rename = (id: string) => (id === oldId ? newId : id);
+    const seed = this.clientSeeds.get(oldId);
+    if (seed) {
+      this.clientSeeds.delete(oldId);
+      this.clientSeeds.set(newId, seed);
+    }
+    const fairness = this.room.gameState?.fairness;
+    if (fairness) fairness.dealOrder = fairness.dealOrder.map(rename);
+    if (this.handRecord) {
+      for (const p of this.handRecord.initialState.players) p.id = rename(p.id);
+      for (const a of this.handRecord.actions) a.playerId = rename(a.playerId);
     }
-    return sanitized;
   }
 
-  private initializeGameState(): GameState {
-    // Reset player state for new hand
-    const players: Player[] = this.room.players.map(p => ({
+  /** Seed and actions of the current (or just finished) hand, for replaying it with replayHand */
+  getHandRecord(): HandRecord | null {
+    return this.handRecord;
+  }
+
+  /** Voluntarily table a player's hole cards once the hand is over */
+  handleShowCards(playerId: string): void {
+    const state = this.room.gameState;
+    if (!state || state.phase !== 'showdown') return;
+
+    const player = state.players.find(p => p.id === playerId);
+    if (!player || player.cards.length === 0) return;
+
+    const shown = state.shownPlayerIds ?? [];
+    if (shown.includes(playerId)) return;
+    state.shownPlayerIds = [...shown, playerId];
+    this.broadcastState(state);
+  }
+
+  /** Seats for the next hand: stacks carried over, everything else reset */
+  private dealInPlayers(): Player[] {
+    return this.room.players.map(p => ({
       ...p,
       cards: [],
       currentBet: 0,
       totalBet: 0,
       isFolded: false,
       isAllIn: false,
-      isActive: p.chips > 0,
+      // Away players are dealt out unless the room makes them keep posting
+      isActive: p.chips > 0 && !(p.isSittingOut && this.room.config.sitOutBlinds !== 'post'),
       isDealer: false,
       isSmallBlind: false,
       isBigBlind: false,
+      isStraddle: false,
     }));
+  }
 
-    // Calculate dealer position
+  /** The button moves on to the next player dealt in */
+  private getNextDealerIndex(players: Player[]): number {
     const prevState = this.room.gameState;
-    let dealerIndex = 0;
-    if (prevState) {
-      dealerIndex = getNextActivePlayerIndex(
-        { ...prevState, players } as GameState,
-        prevState.dealerIndex
-      );
-      if (dealerIndex === -1) dealerIndex = 0;
+    if (!prevState) return 0;
+    const dealerIndex = getNextActivePlayerIndex({ ...prevState, players } as GameState, prevState.dealerIndex);
+    return dealerIndex === -1 ? 0 : dealerIndex;
+  }
+
+  private initializeGameState(): GameState {
+    const players = this.dealInPlayers();
+    const dealerIndex = this.getNextDealerIndex(players);
+    const prevState = this.room.gameState;
+    const round = (prevState?.round || 0) + 1;
+
+    // Sit-and-Go blinds follow the level schedule; cash rooms keep the room's blinds
+    const { smallBlind, bigBlind, ante } = this.room.tournament?.blinds ?? this.room.config;
+    const { bombPotEvery, bombPotAnte } = this.room.config;
+    const bombPot = bombPotEvery > 0 && round % bombPotEvery === 0 ? bombPotAnte * bigBlind : 0;
+
+    // Dealer's choice: the first orbit plays the room's own game, later ones whatever the button called
+    if (this.room.config.dealersChoice.length > 0) {
+      if (!this.room.dealersChoice) this.startOrbit(players[dealerIndex].id, this.room.config.variant);
+      this.room.dealersChoice!.handsLeft--;
     }
+    const variant = this.room.dealersChoice?.variant ?? this.room.config.variant;
 
     const state: GameState = {
       id: generateId(),
@@ -270,20 +437,31 @@ export class GameController {
       sidePots: [],
       currentPlayerIndex: 0,
       dealerIndex,
-      smallBlind: this.room.config.smallBlind,
-      bigBlind: this.room.config.bigBlind,
-      minRaise: this.room.config.bigBlind * 2,
-      currentBet: this.room.config.bigBlind,
-      round: (prevState?.round || 0) + 1,
+      smallBlind,
+      bigBlind,
+      // Set once the blinds are posted
+      minRaise: 0,
+      currentBet: bombPot ? 0 : bigBlind,
+      variant,
+      bettingStructure: getBettingStructure(this.room.config, variant),
+      ante,
+      anteStructure: this.room.config.anteStructure,
+      straddle: this.room.config.straddle ? bigBlind * 2 : 0,
+      deadMoney: 0,
+      raiseCount: bombPot ? 0 : 1,
+      round,
       actedThisRound: [],
+      ...(bombPot ? { bombPot } : {}),
     };
 
-    // Mark positional roles
+    // Mark positional roles (a bomb pot has no blinds)
     state.players[dealerIndex].isDealer = true;
-    const sbIndex = getSmallBlindIndex(state);
-    const bbIndex = getBigBlindIndex(state);
-    if (state.players[sbIndex]) state.players[sbIndex].isSmallBlind = true;
-    if (state.players[bbIndex]) state.players[bbIndex].isBigBlind = true;
+    if (!bombPot) {
+      const sbIndex = getSmallBlindIndex(state);
+      const bbIndex = getBigBlindIndex(state);
+      if (state.players[sbIndex]) state.players[sbIndex].isSmallBlind = true;
+      if (state.players[bbIndex]) state.players[bbIndex].isBigBlind = true;
+    }
 
     // Start new hand in opponent memory
     getRoomMemory(this.room.id).startHand(state.round);
@@ -291,47 +469,79 @@ export class GameController {
     return state;
   }
 
-  private postBlinds(state: GameState): void {
-    const sbIndex = getSmallBlindIndex(state);
-    const bbIndex = getBigBlindIndex(state);
-    const sbPlayer = state.players[sbIndex];
-    const bbPlayer = state.players[bbIndex];
-
-    if (sbPlayer) {
-      const sbAmount = Math.min(state.smallBlind, sbPlayer.chips);
-      sbPlayer.chips -= sbAmount;
-      sbPlayer.currentBet = sbAmount;
-      sbPlayer.totalBet = sbAmount;
-      state.pot += sbAmount;
-      if (sbPlayer.chips === 0) sbPlayer.isAllIn = true;
+  /**
+   * Commit to a fresh server seed and start the hand engine on a deck shuffled from it and the
+   * players' entropy: antes, blinds and straddle are posted and hole cards dealt. Returns the
+   * engine's first effects.
+   */
+  private dealNewHand(): HandEffect[] {
+    this.tickBlindLevel();
+    const round = (this.room.gameState?.round ?? 0) + 1;
+    for (const player of this.room.players) {
+      if (player.isSittingOut) player.sitOutHands = (player.sitOutHands ?? 0) + 1;
+      // Time banks start full and refill every TIME_BANK_REFILL_HANDS hands
+      if (!player.isAI && (player.timeBank === undefined || round % TIME_BANK_REFILL_HANDS === 0)) {
+        player.timeBank = this.room.config.timeBank ?? 0;
+      }
     }
+    const initialState = this.initializeGameState();
+    const serverSeed = generateSeed();
+    const nonce = initialState.round;
+    const clientSeed = initialState.players
+      .map(p => this.clientSeeds.get(p.id))
+      .filter((s): s is string => !!s)
+      .join('.');
+    const seed = deriveHandSeed(serverSeed, clientSeed, nonce);
+
+    const { state: hand, effects } = applyEvent({ game: initialState, deck: [] }, { type: 'start', seed });
+    const state = hand.game;
+    state.fairness = {
+      commitment: commitServerSeed(serverSeed),
+      nonce,
+      clientSeed,
+      dealOrder: state.players.filter(p => p.isActive).map(p => p.id),
+    };
+    this.serverSeed = serverSeed;
+    this.hand = hand;
+    this.aiRng = deriveRng(seed, 'ai');
+    this.handRecord = { seed, initialState, actions: [], startedAt: Date.now() };
+    console.log(`[Hand] Room ${this.room.id} hand #${state.round} seed ${seed} commitment ${state.fairness.commitment}`);
 
-    if (bbPlayer) {
-      const bbAmount = Math.min(state.bigBlind, bbPlayer.chips);
-      bbPlayer.chips -= bbAmount;
-      bbPlayer.currentBet = bbAmount;
-      bbPlayer.totalBet = bbAmount;
-      state.pot += bbAmount;
-      if (bbPlayer.chips === 0) bbPlayer.isAllIn = true;
-    }
+    this.room.gameState = state;
+    return effects;
+  }
 
-    state.currentBet = state.bigBlind;
+  /** Feed an event to the hand engine; the state it returns becomes the room's game state */
+  private dispatch(event: HandEvent): HandEffect[] {
+    const { state, effects } = applyEvent({ ...this.hand!, game: this.room.gameState! }, event);
+    this.hand = state;
+    this.room.gameState = state.game;
+    return effects;
   }
 
-  private dealHoleCards(state: GameState): void {
-    for (const player of state.players) {
-      if (player.isActive) {
-        player.cards = this.deck.deal(2);
+  /** Carry out what the hand engine asked for: announce actions, prompt the next player, run out the board, settle */
+  private async runEffects(effects: HandEffect[]): Promise<void> {
+    for (const effect of effects) {
+      if (this.destroyed) return;
+      const state = this.room.gameState!;
+      switch (effect.type) {
+        case 'action':
+          this.emitEvent(this.room.id, 'game:action', { playerId: effect.playerId, action: effect.action });
+          break;
+        case 'turn':
+          this.broadcastState(state);
+          this.scheduleNextAction(state);
+          break;
+        case 'all-in':
+          await this.runOutBoard(state);
+          break;
+        case 'showdown':
+          this.finishHand(state);
+          break;
       }
     }
   }
 
-  private dealCommunityCards(state: GameState, count: number): void {
-    this.deck.burn();
-    const cards = this.deck.deal(count);
-    state.communityCards.push(...cards);
-  }
-
   private async processAction(playerId: string, action: PlayerAction): Promise<void> {
     if (this.destroyed) return;
     if (this.isProcessing) {
@@ -347,58 +557,27 @@ export class GameController {
 
     try {
       const state = this.room.gameState!;
-      const prevCurrentBet = state.currentBet;
-      const newState = applyAction(state, playerId, action);
-      Object.assign(state, newState);
-
-      // Track that this player has acted in the current betting round
-      if (!state.actedThisRound) state.actedThisRound = [];
-      if (action.type === 'raise') {
-        // A raise re-opens action — only the raiser has acted
-        state.actedThisRound = [playerId];
-      } else if (action.type === 'all-in' && state.currentBet > prevCurrentBet) {
-        // All-in that raises the bet re-opens action
-        state.actedThisRound = [playerId];
-      } else {
-        if (!state.actedThisRound.includes(playerId)) {
-          state.actedThisRound.push(playerId);
-        }
-      }
-
-      // Record action to opponent memory for LLM bots
-      const actingPlayer = state.players.find(p => p.id === playerId);
-      if (actingPlayer) {
-        const mem = getRoomMemory(this.room.id);
-        mem.recordAction(
-          playerId, actingPlayer.name, action.type,
-          action.amount, state.pot, state.phase,
-          prevCurrentBet, actingPlayer.currentBet,
-        );
-      }
-
-      // Broadcast the action
-      this.emitEvent(this.room.id, 'game:action', { playerId, action });
-
-      // Check if only one player remains
-      const inHand = getPlayersInHand(state);
-      if (inHand.length <= 1) {
-        this.finishHand(state);
-        return;
+      const player = state.players[state.currentPlayerIndex];
+      // Queued for a turn that has already moved on
+      if (player?.id !== playerId || state.phase === 'showdown') return;
+      if (!isValidAction(state, playerId, action)) {
+        // Bot decisions are not validated upstream: one the rules refuse becomes a check or fold
+        console.warn(`[processAction] Invalid ${action.type} from ${playerId}, checking or folding instead`);
+        action = state.currentBet === player.currentBet ? { type: 'check' } : { type: 'fold' };
       }
+      this.stopTurnClock(state);
+      this.handRecord?.actions.push({ playerId, action, phase: state.phase, timestamp: Date.now() });
+
+      // Record action to opponent memory for LLM bots, with the bet as it stands right after it
+      const acted = applyAction(state, playerId, action);
+      const actingPlayer = acted.players.find(p => p.id === playerId)!;
+      getRoomMemory(this.room.id).recordAction(
+        playerId, actingPlayer.name, action.type,
+        action.amount, acted.pot, acted.phase,
+        state.currentBet, actingPlayer.currentBet,
+      );
 
-      // Check if the betting round is over
-      if (this.isBettingRoundComplete(state)) {
-        await this.advanceToNextPhase(state);
-      } else {
-        // Move to next player
-        state.currentPlayerIndex = getNextActivePlayerIndex(state, state.currentPlayerIndex);
-        if (state.currentPlayerIndex === -1) {
-          await this.advanceToNextPhase(state);
-        } else {
-          this.broadcastState(state);
-          this.scheduleNextAction(state);
-        }
-      }
+      await this.runEffects(this.dispatch({ type: 'action', playerId, action }));
     } catch (err) {
       console.error(`[processAction] Error processing ${action.type} for ${playerId}:`, err);
     } finally {
@@ -423,105 +602,69 @@ export class GameController {
     }
   }
 
-  private isBettingRoundComplete(state: GameState): boolean {
-    const inHand = getPlayersInHand(state);
-    const canAct = inHand.filter(p => !p.isAllIn);
-
-    if (canAct.length === 0) return true;
-    if (canAct.length === 1 && canAct[0].currentBet >= state.currentBet) {
-      // The lone player must have acted at least once
-      return (state.actedThisRound || []).includes(canAct[0].id);
-    }
-
-    // All players who can act have matched the current bet AND have acted this round
-    const allMatched = canAct.every(p => p.currentBet === state.currentBet);
-    if (!allMatched) return false;
-    const allActed = canAct.every(p => (state.actedThisRound || []).includes(p.id));
-    return allActed;
+  /** Record a player's answer to the run-it-twice offer (1 = once) */
+  handleRunItVote(playerId: string, runs: number): void {
+    const vote = this.room.gameState?.runItVote;
+    if (!vote || !vote.playerIds.includes(playerId)) return;
+    if (!Number.isInteger(runs)) return;
+    vote.votes[playerId] = Math.min(Math.max(runs, 1), MAX_RUN_COUNT);
+    this.broadcastState(this.room.gameState!);
+    if (vote.playerIds.every(id => vote.votes[id] !== undefined)) this.runItResolve?.();
   }
 
-  private async advanceToNextPhase(state: GameState): Promise<void> {
-    try {
-      const inHand = getPlayersInHand(state);
-      const canAct = inHand.filter(p => !p.isAllIn);
-
-      // If all remaining players are all-in, deal remaining community cards
-      if (canAct.length <= 1) {
-        await this.runOutBoard(state);
-        return;
-      }
-
-      const nextPhase = advancePhase(state);
-
-      if (nextPhase === 'showdown') {
-        this.finishHand(state);
-        return;
-      }
-
-      state.phase = nextPhase;
-      const resetState = resetBetsForNewRound(state);
-      Object.assign(state, resetState);
-
-      // Deal community cards
-      switch (nextPhase) {
-        case 'flop':
-          this.dealCommunityCards(state, 3);
-          break;
-        case 'turn':
-        case 'river':
-          this.dealCommunityCards(state, 1);
-          break;
-      }
-
-      // Set first player after dealer to act
-      state.currentPlayerIndex = getNextActivePlayerIndex(state, state.dealerIndex);
-      if (state.currentPlayerIndex === -1) {
-        await this.advanceToNextPhase(state);
-        return;
-      }
-
-      this.broadcastState(state);
-      this.scheduleNextAction(state);
-    } catch (err) {
-      console.error('[advanceToNextPhase] Error:', err);
-      // Emergency: finish hand to prevent stuck game
-      this.finishHand(state);
-    }
+  /**
+   * Offer the humans left in an all-in hand to run the board more than once. The board is run
+   * as many times as the most cautious voter chose; a missing answer counts as once. Bots
+   * accept whatever the humans agree on.
+   */
+  private async collectRunItVotes(state: GameState): Promise<number> {
+    const playerIds = getPlayersInHand(state).filter(p => !p.isAI).map(p => p.id);
+    if (playerIds.length === 0) return 1;
+
+    state.runItVote = { playerIds, votes: {} };
+    this.broadcastState(state);
+    this.emitEvent(this.room.id, 'game:run-it-offer', { playerIds, maxRuns: MAX_RUN_COUNT, timeLimit: RUN_IT_TIMEOUT });
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, RUN_IT_TIMEOUT);
+      this.runItResolve = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    this.runItResolve = null;
+
+    const { votes } = state.runItVote;
+    state.runItVote = undefined;
+    return Math.min(...playerIds.map(id => votes[id] ?? 1));
   }
 
+  /** Everyone left is all-in: offer to run it more than once, then deal the rest of the board street by street */
   private async runOutBoard(state: GameState): Promise<void> {
-    // Deal remaining community cards
-    while (state.communityCards.length < 5) {
-      if (this.destroyed) return;
-      const count = state.phase === 'preflop' ? 3 :
-                    state.communityCards.length < 3 ? 3 - state.communityCards.length : 1;
-      this.dealCommunityCards(state, Math.min(count, 5 - state.communityCards.length));
-
-      if (state.communityCards.length === 3) state.phase = 'flop';
-      else if (state.communityCards.length === 4) state.phase = 'turn';
-      else if (state.communityCards.length === 5) state.phase = 'river';
+    const runs = this.room.config.runItTwice ? await this.collectRunItVotes(state) : 1;
+    if (this.destroyed) return;
+    if (runs > 1 && this.handRecord) this.handRecord.runCount = runs;
 
-      this.broadcastState(state);
+    let effects = this.dispatch({ type: 'run-out', runs });
+    while (effects.some(e => e.type === 'pause')) {
+      this.broadcastState(this.room.gameState!);
       await new Promise(resolve => setTimeout(resolve, 800));
       if (this.destroyed) return;
+      effects = this.dispatch({ type: 'deal' });
     }
-
-    this.finishHand(state);
+    await this.runEffects(effects);
   }
 
+  /** The engine has settled the hand: check it, sync the stacks and schedule the next deal */
   private finishHand(state: GameState): void {
     this.clearActionTimer();
-    state.phase = 'showdown';
-    state.sidePots = calculateSidePots(state);
-    state.winners = determineWinners(state);
-
-    // Distribute winnings
-    if (state.winners) {
-      for (const winner of state.winners) {
-        const player = state.players.find(p => p.id === winner.playerId);
-        if (player) {
-          player.chips += winner.amount;
-        }
+    if (this.handRecord) {
+      try {
+        assertChipsConserved(this.handRecord.initialState, state);
+      } catch (err) {
+        console.error(`[Hand] ${(err as Error).message} (room ${this.room.id}, seed ${this.handRecord.seed})`);
+        this.haltOnBrokenHand(this.handRecord);
+        return;
       }
     }
 
@@ -547,6 +690,12 @@ export class GameController {
 
     this.emitEvent(this.room.id, 'game:ended', null);
 
+    // Reveal the server seed so players can check the commitment and re-deal the deck
+    if (state.fairness) {
+      state.fairness.serverSeed = this.serverSeed;
+      this.broadcastState(state);
+    }
+
     // Schedule next hand after delay
     this.nextHandTimer = setTimeout(() => {
       this.nextHandTimer = null;
@@ -554,32 +703,38 @@ export class GameController {
     }, 5000);
   }
 
+  /**
+   * A settled hand created or lost chips: pay nothing out, put every seat back to its stack as
+   * the hand began and stop dealing, so the table waits with its record in the log for a look.
+   */
+  private haltOnBrokenHand(record: HandRecord): void {
+    for (const start of record.initialState.players) {
+      const seat = this.room.players.find(p => p.id === start.id);
+      if (seat) seat.chips = start.chips;
+    }
+    this.drain();
+    this.hand = null;
+    delete this.room.gameState;
+    this.room.status = 'waiting';
+    console.error(`[Hand] Halted room ${this.room.id}: hand #${record.initialState.round} was called off and its stacks restored`);
+    this.emitEvent(this.room.id, 'error', 'This hand was called off after a chip count error; the table has stopped dealing');
+    this.emitEvent(this.room.id, 'room:updated', this.room);
+  }
+
   private startNextHand(): void {
-    // Bail out if controller has been destroyed
-    if (this.destroyed) return;
+    // Bail out if controller has been destroyed or the server is shutting down
+    if (this.destroyed || this.draining) return;
 
     // FIRST: merge pending players so we can cancel any standing/timeout for re-seated players
-    if (this.room.pendingPlayers && this.room.pendingPlayers.length > 0) {
-      for (const pending of this.room.pendingPlayers) {
-        // If a player re-sat after standing/timing out, cancel the stand/kick
-        this.standingPlayers.delete(pending.id);
-        this.timedOutPlayers.delete(pending.id);
-        this.room.players.push(pending);
-      }
-      this.room.pendingPlayers = [];
-      // Remove merged players from spectators list
-      if (this.room.spectators) {
-        const playerIds = new Set(this.room.players.map(p => p.id));
-        this.room.spectators = this.room.spectators.filter(s => !playerIds.has(s.id));
-      }
-      this.emitEvent(this.room.id, 'room:updated', this.room);
-    }
+    this.mergePendingPlayers();
+    this.applyTopUps();
 
     // Kick timed-out players (only those who did NOT re-sit)
     if (this.timedOutPlayers.size > 0) {
       for (const playerId of this.timedOutPlayers) {
         const idx = this.room.players.findIndex(p => p.id === playerId);
         if (idx !== -1) {
+          this.cashOut(playerId);
           this.room.players.splice(idx, 1);
         }
         if (this.onPlayerKick) {
@@ -590,6 +745,8 @@ export class GameController {
       this.emitEvent(this.room.id, 'room:updated', this.room);
     }
 
+    this.standUpAbsentPlayers();
+
     // Remove standing players (those who chose to stand up and did NOT re-sit)
     if (this.standingPlayers.size > 0) {
       if (!this.room.spectators) this.room.spectators = [];
@@ -601,6 +758,7 @@ export class GameController {
           if (!player.isAI && !this.room.spectators.find(s => s.id === player.id)) {
             this.room.spectators.push({ id: player.id, name: player.name });
           }
+          this.cashOut(playerId);
           this.room.players.splice(idx, 1);
         }
       }
@@ -608,8 +766,15 @@ export class GameController {
       this.emitEvent(this.room.id, 'room:updated', this.room);
     }
 
-    // Remove players with no chips (including AI bots)
-    const activePlayers = this.room.players.filter(p => p.chips > 0);
+    // Sit-and-Go: busted players take their finishing places; the last stack standing wins
+    if (this.room.tournament?.status === 'running' && this.recordEliminations()) return;
+
+    // Remove players with no chips (including AI bots); busted cash players keep their seat to rebuy
+    if (!this.room.tournament) this.sitOutBustedPlayers();
+    const activePlayers = this.room.players.filter(p => p.chips > 0 || (!this.room.tournament && !p.isAI));
+    for (const player of this.room.players) {
+      if (!activePlayers.includes(player)) this.cashOut(player.id);
+    }
 
     // Check if only AI players remain — if so, set room to waiting and notify
     const humanPlayers = this.room.players.filter(p => !p.isAI);
@@ -626,35 +791,237 @@ export class GameController {
     // Actually remove busted players from the room
     this.room.players = activePlayers;
 
+    // A cash table holds the deal until enough players are back or have rebought; tournament stacks blind off instead
+    if (!this.room.tournament && activePlayers.length >= 2 && activePlayers.filter(p => p.chips > 0 && !p.isSittingOut).length < 2) {
+      console.log(`[startNextHand] Room ${this.room.id}: too few players sitting in, holding the deal`);
+      this.waitingForPlayers = true;
+      return;
+    }
+
     if (activePlayers.filter(p => p.chips > 0).length < 2) {
       this.room.status = 'waiting';
       this.emitEvent(this.room.id, 'room:updated', this.room);
       return;
     }
 
-    // Reset for new hand
-    this.deck = new Deck();
-    const state = this.initializeGameState();
-    this.room.gameState = state;
+    if (this.callForDealersChoice()) return;
 
-    this.postBlinds(state);
-    this.dealHoleCards(state);
+    const effects = this.dealNewHand();
+    this.emitEvent(this.room.id, 'game:started', this.room.gameState);
+    this.runEffects(effects);
+  }
 
-    const bbIndex = getBigBlindIndex(state);
-    state.currentPlayerIndex = getNextActivePlayerIndex(state, bbIndex);
-    if (state.currentPlayerIndex === -1) {
-      state.currentPlayerIndex = getNextActivePlayerIndex(state, state.dealerIndex);
+  /**
+   * Begin a dealer's-choice orbit: one hand for each player dealt in and one more, so the button
+   * ends up a seat past the caller and the next call goes to the player on their left
+   */
+  private startOrbit(chooserId: string, variant: GameVariant): void {
+    const handsLeft = this.room.players.filter(p => p.chips > 0 && !p.isSittingOut).length + 1;
+    this.room.dealersChoice = { variant, chooserId, handsLeft };
+  }
+
+  /**
+   * Dealer's choice: when an orbit is over, the player taking the button calls the next game
+   * before the deal. Bots call at once; a human has DEALERS_CHOICE_TIMEOUT, after which the
+   * table keeps the current game. Returns true while the table waits for the call.
+   */
+  private callForDealersChoice(): boolean {
+    const options = this.room.config.dealersChoice;
+    const orbit = this.room.dealersChoice;
+    if (options.length === 0 || !orbit || orbit.handsLeft > 0) return false;
+
+    const players = this.dealInPlayers();
+    const chooser = players[this.getNextDealerIndex(players)];
+    if (chooser.isAI) {
+      // Drawn from the last hand's AI rng, so the call replays from that hand's seed
+      this.startOrbit(chooser.id, options[randomBetween(0, options.length - 1, this.aiRng)]);
+      return false;
     }
 
-    this.emitEvent(this.room.id, 'game:started', this.sanitizeState(state));
+    orbit.chooserId = chooser.id;
+    orbit.deadline = Date.now() + DEALERS_CHOICE_TIMEOUT;
+    this.emitEvent(this.room.id, 'room:updated', this.room);
+    this.emitEvent(this.room.id, 'game:dealers-choice', { playerId: chooser.id, options, timeLimit: DEALERS_CHOICE_TIMEOUT });
+    this.dealersChoiceTimer = setTimeout(() => this.handleDealersChoice(chooser.id, orbit.variant), DEALERS_CHOICE_TIMEOUT);
+    return true;
+  }
 
-    // If no one can act (all players all-in from blinds), run out the board directly
-    if (state.currentPlayerIndex === -1) {
-      console.log(`[startNextHand] All players all-in after blinds, running out board`);
-      this.advanceToNextPhase(state);
-    } else {
-      this.scheduleNextAction(state);
+  /** The button called the game for their orbit: deal its first hand */
+  handleDealersChoice(playerId: string, variant: GameVariant): void {
+    const orbit = this.room.dealersChoice;
+    if (!orbit?.deadline || orbit.chooserId !== playerId || !this.room.config.dealersChoice.includes(variant)) return;
+    if (this.dealersChoiceTimer) {
+      clearTimeout(this.dealersChoiceTimer);
+      this.dealersChoiceTimer = null;
+    }
+    console.log(`[DealersChoice] ${playerId} called ${variant} in room ${this.room.id}`);
+    this.startOrbit(playerId, variant);
+    this.emitEvent(this.room.id, 'room:updated', this.room);
+    this.startNextHand();
+  }
+
+  /** Seat players waiting for the next hand */
+  private mergePendingPlayers(): void {
+    if (!this.room.pendingPlayers || this.room.pendingPlayers.length === 0) return;
+    for (const pending of this.room.pendingPlayers) {
+      // If a player re-sat after standing/timing out, cancel the stand/kick
+      this.standingPlayers.delete(pending.id);
+      this.timedOutPlayers.delete(pending.id);
+      this.room.players.push(pending);
+    }
+    this.room.pendingPlayers = [];
+    // Remove merged players from spectators list
+    if (this.room.spectators) {
+      const playerIds = new Set(this.room.players.map(p => p.id));
+      this.room.spectators = this.room.spectators.filter(s => !playerIds.has(s.id));
+    }
+    this.emitEvent(this.room.id, 'room:updated', this.room);
+  }
+
+  /** Add chips bought during the last hand to the stacks */
+  private applyTopUps(): void {
+    for (const player of this.room.players) {
+      if (!player.pendingTopUp) continue;
+      const rebuy = player.chips === 0;
+      player.chips += player.pendingTopUp;
+      delete player.pendingTopUp;
+      if (rebuy && player.isSittingOut) this.setSittingOut(player.id, false);
+    }
+  }
+
+  /** Busted humans at a cash table sit out with their seat kept until they rebuy (or are stood up) */
+  private sitOutBustedPlayers(): void {
+    for (const player of this.room.players) {
+      if (player.isAI || player.chips > 0 || player.isSittingOut) continue;
+      this.setSittingOut(player.id, true);
+    }
+  }
+
+  /** Return a cash player's stack to their bankroll as they give up the seat */
+  private cashOut(playerId: string): void {
+    const userId = RoomManager.cashOut(this.room.id, playerId);
+    if (userId) this.emitEvent(this.room.id, 'room:cashed-out', { playerId, userId });
+  }
+
+  /** Cash players who have sat out SIT_OUT_MAX_ORBITS orbits give up their seat and become spectators */
+  private standUpAbsentPlayers(): void {
+    if (this.room.tournament) return;
+    const orbit = this.room.players.length;
+    for (const player of this.room.players) {
+      if (!player.isSittingOut || (player.sitOutHands ?? 0) < SIT_OUT_MAX_ORBITS * orbit) continue;
+      console.log(`[SitOut] ${player.name} sat out ${SIT_OUT_MAX_ORBITS} orbits in room ${this.room.id}, standing them up`);
+      delete player.isSittingOut;
+      delete player.sitOutHands;
+      this.standingPlayers.add(player.id);
+      this.onPlayerStand?.(player.id);
+    }
+  }
+
+  /** Flag a player away (or back) in the room and, mid-hand, in the live game state */
+  private setSittingOut(playerId: string, away: boolean): void {
+    const players = [this.room.players.find(p => p.id === playerId), this.room.gameState?.players.find(p => p.id === playerId)];
+    for (const player of players) {
+      if (!player) continue;
+      if (away) {
+        player.isSittingOut = true;
+        player.sitOutHands = 0;
+      } else {
+        delete player.isSittingOut;
+        delete player.sitOutHands;
+      }
+    }
+    console.log(`[SitOut] ${playerId} ${away ? 'sat out' : 'is back'} in room ${this.room.id}`);
+    this.emitEvent(this.room.id, 'room:updated', this.room);
+    if (this.room.gameState) this.broadcastState(this.room.gameState);
+  }
+
+  /** Create decision engines for anonymous AI seats that don't have one yet */
+  private initAIPlayers(): void {
+    for (const player of this.room.players) {
+      if (player.isAI && !player.isLLMBot && !player.isRuleBot && !this.aiPlayers.has(player.id)) {
+        // Regular anonymous rule-based or generic LLM AI
+        this.aiPlayers.set(
+          player.id,
+          new AIPlayer(player.aiPersonality || 'balanced', player.aiEngineType || 'rule-based')
+        );
+      }
+      // LLM bots are handled via llmBotRegistry in handleAITurn
+      // Rule bots are handled via ruleBotRegistry in handleAITurn
+    }
+  }
+
+  /** Close registration and start the blind clock */
+  private startTournament(): void {
+    const tournament = this.room.tournament!;
+    tournament.status = 'running';
+    tournament.entrants = this.room.players.length;
+    tournament.remaining = this.room.players.length;
+    startBlindLevel(tournament, this.room.config, 0);
+    console.log(`[Tournament] Room ${this.room.id} started: ${tournament.entrants} entrants, prize pool ${tournament.prizePool}`);
+  }
+
+  /** Raise the blinds once the level's time or hand count has run out, then count this hand */
+  private tickBlindLevel(): void {
+    const tournament = this.room.tournament;
+    // A multi-table director runs one clock for all of its tables
+    if (tournament?.status !== 'running' || this.director) return;
+    if (isBlindLevelOver(tournament)) {
+      startBlindLevel(tournament, this.room.config, tournament.level + 1);
+      const { smallBlind, bigBlind } = tournament.blinds;
+      console.log(`[Tournament] Room ${this.room.id} level ${tournament.level + 1}: ${smallBlind}/${bigBlind}`);
+      this.emitEvent(this.room.id, 'tournament:level', { level: tournament.level, blinds: tournament.blinds });
+    }
+    if (tournament.handsLeftInLevel !== undefined) tournament.handsLeftInLevel--;
+  }
+
+  /**
+   * Give everyone who busted last hand a finishing place. Players busting in the same hand are
+   * ranked by the stack they started it with. Busted humans stay on as spectators.
+   * Returns true when the tournament is over — or, at a multi-table tournament, when the
+   * director takes over until it calls resumeDealing().
+   */
+  private recordEliminations(): boolean {
+    const startStacks = new Map((this.handRecord?.initialState.players ?? []).map(p => [p.id, p.chips]));
+    const busted = this.room.players
+      .filter(p => p.chips <= 0)
+      .sort((a, b) => (startStacks.get(a.id) ?? 0) - (startStacks.get(b.id) ?? 0));
+    if (!this.room.spectators) this.room.spectators = [];
+    for (const player of busted) {
+      if (!this.director) this.eliminate(player);
+      if (!player.isAI && !this.room.spectators.some(s => s.id === player.id)) {
+        this.room.spectators.push({ id: player.id, name: player.name });
+      }
     }
+    if (this.director) {
+      this.director.onHandFinished(this.room.id, busted.map(player => ({ player, startChips: startStacks.get(player.id) ?? 0 })));
+      return true;
+    }
+
+    // Over when one stack is left — or when only bots are, in which case chip counts decide
+    const alive = this.room.players.filter(p => p.chips > 0);
+    if (alive.length > 1 && alive.some(p => !p.isAI)) return false;
+    this.finishTournament(alive);
+    return true;
+  }
+
+  /** Give a player who is out the next finishing place and its prize */
+  private eliminate(player: Player): void {
+    const finish = recordFinish(this.room.tournament!, this.room.config.tournament!.payouts, player.id, player.name);
+    if (!finish) return;
+    console.log(`[Tournament] Room ${this.room.id}: ${player.name} finishes #${finish.place}${finish.prize ? ` (+${finish.prize})` : ''}`);
+    this.emitEvent(this.room.id, 'tournament:eliminated', finish);
+  }
+
+  /** Rank whoever is left by stack, pay the remaining places and stop dealing */
+  private finishTournament(alive: Player[]): void {
+    const tournament = this.room.tournament!;
+    for (const player of [...alive].sort((a, b) => a.chips - b.chips)) this.eliminate(player);
+    tournament.status = 'finished';
+    delete tournament.levelEndsAt;
+    delete tournament.handsLeftInLevel;
+    this.room.status = 'waiting';
+    this.emitEvent(this.room.id, 'tournament:finished', tournament.finishes);
+    this.emitEvent(this.room.id, 'room:updated', this.room);
   }
 
   private scheduleNextAction(state: GameState): void {
@@ -662,32 +1029,40 @@ export class GameController {
     this.clearActionTimer();
 
     const currentPlayer = state.players[state.currentPlayerIndex];
-    if (!currentPlayer) {
-      // No one can act (e.g. all players are all-in after posting blinds)
-      // Advance to next phase / run out the board
-      console.log(`[scheduleNextAction] No actionable player (currentPlayerIndex=${state.currentPlayerIndex}), advancing phase`);
-      this.advanceToNextPhase(state);
-      return;
-    }
+    // The hand engine only hands the turn to a player who can act
+    if (!currentPlayer) return;
 
     if (currentPlayer.isAI) {
       this.handleAITurn(state, currentPlayer);
+    } else if (currentPlayer.isSittingOut) {
+      // Nobody is there to act: check or fold for them after a short pause
+      this.actionTimer = setTimeout(() => {
+        this.handlePlayerTimeout(currentPlayer.id);
+      }, SIT_OUT_ACTION_DELAY);
     } else {
+      // Start the clock — it goes out with the state so spectators and reconnecting players see it too
+      const timeLimit = this.room.config.actionTimeout ?? ACTION_TIMEOUT;
+      const startedAt = Date.now();
+      state.turnClock = { playerId: currentPlayer.id, startedAt, deadline: startedAt + timeLimit, usingTimeBank: false };
+      this.broadcastState(state);
+
       // Notify human player it's their turn
       this.emitEvent(this.room.id, 'game:your-turn', {
         playerId: currentPlayer.id,
-        timeLimit: ACTION_TIMEOUT,
+        timeLimit,
+        deadline: state.turnClock.deadline,
       });
 
       // Set timeout for human player
       this.actionTimer = setTimeout(() => {
         this.handlePlayerTimeout(currentPlayer.id);
-      }, ACTION_TIMEOUT);
+      }, timeLimit);
     }
   }
 
   private buildAIContext(state: GameState, player: Player): import('@texas-agent/shared').AIDecisionContext {
-    const activePlayers = state.players.filter(p => !p.isFolded && p.isActive);
+    // Sitting-out seats still in the hand will fold at their turn — bots don't count them
+    const activePlayers = state.players.filter(p => !p.isFolded && p.isActive && !p.isSittingOut);
     const n = activePlayers.length;
     const dealerIdx = activePlayers.findIndex(p => p.id === state.players[state.dealerIndex]?.id);
     const myIdx = activePlayers.findIndex(p => p.id === player.id);
@@ -709,7 +1084,12 @@ export class GameController {
       playerBet: player.currentBet,
       playerChips: player.chips,
       minRaise: state.minRaise,
+      maxRaise: getMaxRaise(state, player),
+      canRaise: canRaise(state, player),
+      variant: state.variant,
+      bettingStructure: state.bettingStructure,
       bigBlind: state.bigBlind,
+      deadMoney: state.deadMoney,
       phase: state.phase,
       numActivePlayers: activePlayers.length,
       position,
@@ -722,6 +1102,7 @@ export class GameController {
         isFolded: p.isFolded,
         isAllIn: p.isAllIn,
         isAI: p.isAI,
+        isSittingOut: p.isSittingOut,
       })),
       handHistory: mem.getHandActionLog(),
       opponentProfiles: mem.getOpponentSummaries(player.name),
@@ -737,7 +1118,7 @@ export class GameController {
       if (bot) {
         try {
           const context = this.buildAIContext(state, aiPlayer);
-          const action = await bot.makeDecision(context);
+          const action = await bot.makeDecision(context, this.aiRng);
           if (this.destroyed) return;
           if (isValidAction(state, aiPlayer.id, action)) {
             this.processAction(aiPlayer.id, action);
@@ -761,7 +1142,7 @@ export class GameController {
       if (bot) {
         try {
           const context = this.buildAIContext(state, aiPlayer);
-          const action = await bot.makeDecision(context);
+          const action = await bot.makeDecision(context, this.aiRng);
           if (this.destroyed) return;
           if (isValidAction(state, aiPlayer.id, action)) {
             this.processAction(aiPlayer.id, action);
@@ -786,7 +1167,7 @@ export class GameController {
     }
 
     try {
-      const action = await ai.makeDecision(state, aiPlayer.id);
+      const action = await ai.makeDecision(state, aiPlayer.id, this.aiRng);
       // Re-check after async: room may have been destroyed during AI think time
       if (this.destroyed) return;
 
@@ -832,16 +1213,10 @@ export class GameController {
 
     console.log(`[Timeout] Player ${playerId} timed out, isProcessing=${this.isProcessing}`);
 
-    // Auto-fold on timeout AND auto-stand (player becomes spectator next hand)
+    // Check or fold, and sit the player out: the seat is kept until they are back (or gone for too many orbits)
     const callAmount = state.currentBet - currentPlayer.currentBet;
     const action: PlayerAction = callAmount === 0 ? { type: 'check' } : { type: 'fold' };
-
-    // Mark as standing so the player will be removed before the next hand
-    this.standingPlayers.add(playerId);
-    // Notify client so they transition to spectator UI
-    if (this.onPlayerStand) {
-      this.onPlayerStand(playerId);
-    }
+    if (!currentPlayer.isSittingOut) this.setSittingOut(playerId, true);
 
     if (this.isProcessing) {
       // Force-queue the timeout action — it MUST be processed
@@ -852,6 +1227,18 @@ export class GameController {
     }
   }
 
+  /** The player to act is done: clear their clock and charge whatever time bank they used */
+  private stopTurnClock(state: GameState): void {
+    const clock = state.turnClock;
+    if (!clock) return;
+    delete state.turnClock;
+    if (!clock.usingTimeBank) return;
+    const used = Math.max(0, Date.now() - this.baseDeadline);
+    for (const player of [this.room.players.find(p => p.id === clock.playerId), state.players.find(p => p.id === clock.playerId)]) {
+      if (player) player.timeBank = Math.max(0, (player.timeBank ?? 0) - used);
+    }
+  }
+
   private clearActionTimer(): void {
     if (this.actionTimer) {
       clearTimeout(this.actionTimer);
@@ -859,40 +1246,8 @@ export class GameController {
     }
   }
 
-  private sanitizeState(state: GameState): GameState {
-    const sanitized = JSON.parse(JSON.stringify(state)) as GameState;
-    for (const player of sanitized.players) {
-      if (player.isAI) continue;
-      // Cards are sent individually per player via socket
-    }
-    return sanitized;
-  }
-
-  /**
-   * For a real showdown (multiple players), all non-folded cards are revealed.
-   * For an early win (Last Standing), only each player sees their own cards.
-   */
-  getSanitizedStateForShowdown(playerId: string): GameState | undefined {
-    const state = this.room.gameState;
-    if (!state) return undefined;
-
-    const sanitized = JSON.parse(JSON.stringify(state)) as GameState;
-    const isEarlyWin = sanitized.winners?.length === 1
-      && sanitized.winners[0].handName === 'Last Standing';
-
-    if (isEarlyWin) {
-      // Early win: hide everyone's cards except the requesting player's own
-      for (const player of sanitized.players) {
-        if (player.id !== playerId) {
-          player.cards = [];
-        }
-      }
-    }
-    // Real showdown: all non-folded players' cards are visible (no hiding needed)
-    return sanitized;
-  }
-
   private broadcastState(state: GameState): void {
-    this.emitEvent(this.room.id, 'game:state', this.sanitizeState(state));
+    // Per-viewer card masking happens in the socket layer (see card-visibility.ts)
+    this.emitEvent(this.room.id, 'game:state', state);
   }
 }
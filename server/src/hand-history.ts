@@ -0,0 +1,250 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { GameState, HandHistory, HandRecord, Player, Room, replayBetting } from '@texas-agent/shared';
+import { canSeeCards } from './card-visibility';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DATA_DIR = path.resolve(__dirname, '../../data');
+/** One hand per line; a hand written again (e.g. cards shown after it ended) supersedes its earlier line */
+const HANDS_FILE = path.join(DATA_DIR, 'hands.jsonl');
+/** Most hands a single query returns */
+const MAX_QUERY_LIMIT = 200;
+const DEFAULT_QUERY_LIMIT = 50;
+/** Most recently written hands kept whole in memory; older ones are read back from the file */
+const RECENT_HANDS = 500;
+/** Bytes read at a time while indexing the file on startup */
+const READ_CHUNK = 1 << 20;
+
+/** Where a stored hand's latest line is, and what queries filter on without reading it */
+interface HandIndexEntry {
+  id: string;
+  offset: number;
+  length: number;
+  roomId: string;
+  startedAt: number;
+  userIds: string[];
+  isPrivate: boolean;
+}
+
+/** Every stored hand, oldest first — ordered by when it was first written */
+const index: HandIndexEntry[] = [];
+const indexById = new Map<string, HandIndexEntry>();
+/** The last RECENT_HANDS hands written, oldest first */
+const recent = new Map<string, HandHistory>();
+/** Bytes of whole lines in HANDS_FILE, i.e. where the next line goes */
+let fileSize = 0;
+
+function ensureDataDir() {
+  if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+  }
+}
+
+function indexHand(hand: HandHistory, offset: number, length: number) {
+  const entry: HandIndexEntry = {
+    id: hand.id,
+    offset,
+    length,
+    roomId: hand.roomId,
+    startedAt: hand.startedAt,
+    userIds: hand.players.flatMap(p => (p.userId ? [p.userId] : [])),
+    isPrivate: !!hand.isPrivate,
+  };
+  const existing = indexById.get(hand.id);
+  if (existing) {
+    Object.assign(existing, entry);
+  } else {
+    index.push(entry);
+    indexById.set(hand.id, entry);
+  }
+}
+
+function remember(hand: HandHistory) {
+  recent.delete(hand.id);
+  recent.set(hand.id, hand);
+  if (recent.size > RECENT_HANDS) recent.delete(recent.keys().next().value!);
+}
+
+/**
+ * Index the file without keeping the hands: it is read a chunk at a time and only each line's
+ * position and query fields stay in memory. A line cut short by a crash mid-write is cut off the
+ * file, so the next hand starts on a line of its own.
+ */
+function loadIndex() {
+  ensureDataDir();
+  if (!fs.existsSync(HANDS_FILE)) return;
+  const fd = fs.openSync(HANDS_FILE, 'r+');
+  try {
+    const chunk = Buffer.alloc(READ_CHUNK);
+    /** Start of a line not yet ended by a newline, and its file offset */
+    let pending = Buffer.alloc(0);
+    let position = 0;
+    for (;;) {
+      const read = fs.readSync(fd, chunk, 0, chunk.length, position + pending.length);
+      if (read === 0) break;
+      const data = Buffer.concat([pending, chunk.subarray(0, read)]);
+      let start = 0;
+      for (let end = data.indexOf(10); end !== -1; end = data.indexOf(10, start)) {
+        const line = data.toString('utf-8', start, end);
+        if (line.trim()) {
+          try {
+            indexHand(JSON.parse(line) as HandHistory, position + start, end - start);
+          } catch {
+            console.warn(`[HandHistory] Skipped an unreadable line at byte ${position + start}`);
+          }
+        }
+        start = end + 1;
+      }
+      pending = data.subarray(start);
+      position += start;
+    }
+    if (pending.length > 0) {
+      fs.ftruncateSync(fd, position);
+      console.warn('[HandHistory] Dropped a hand cut short by a crash mid-write');
+    }
+    fileSize = position;
+  } finally {
+    fs.closeSync(fd);
+  }
+  console.log(`[HandHistory] Indexed ${index.length} hands`);
+}
+
+function readHand(entry: HandIndexEntry): HandHistory {
+  const buffer = Buffer.alloc(entry.length);
+  const fd = fs.openSync(HANDS_FILE, 'r');
+  try {
+    fs.readSync(fd, buffer, 0, entry.length, entry.offset);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return JSON.parse(buffer.toString('utf-8')) as HandHistory;
+}
+
+function writeHand(hand: HandHistory) {
+  ensureDataDir();
+  const line = JSON.stringify(hand);
+  const length = Buffer.byteLength(line);
+  fs.appendFileSync(HANDS_FILE, `${line}\n`);
+  indexHand(hand, fileSize, length);
+  fileSize += length + 1;
+  remember(hand);
+}
+
+/**
+ * Build the history of a settled hand: seats with their accounts, stacks and hole cards, every
+ * action, the board and pot-by-pot results, and whose cards the table saw at the end.
+ */
+export function createHandHistory(
+  room: Room,
+  record: HandRecord,
+  state: GameState,
+  userIdOf: (player: Player) => string | undefined,
+): HandHistory {
+  const startChips = new Map(record.initialState.players.map(p => [p.id, p.chips]));
+  // Everyone at the table saw these hands, whoever they were
+  const tableViewer = { kind: 'spectator', id: '' } as const;
+  const dealtIn = state.players.filter(p => p.cards.length > 0);
+  const { forcedBets, actions } = replayBetting(record);
+  return {
+    id: state.id,
+    roomId: room.id,
+    roomName: room.name,
+    ...(room.tournamentId ? { tournamentId: room.tournamentId } : {}),
+    ...(room.isPrivate ? { isPrivate: true } : {}),
+    round: state.round,
+    startedAt: record.startedAt ?? Date.now(),
+    endedAt: Date.now(),
+    variant: state.variant,
+    bettingStructure: state.bettingStructure,
+    smallBlind: state.smallBlind,
+    bigBlind: state.bigBlind,
+    ante: state.ante,
+    anteStructure: state.anteStructure,
+    straddle: state.straddle,
+    ...(state.bombPot ? { bombPot: state.bombPot } : {}),
+    maxPlayers: room.config.maxPlayers,
+    buttonSeat: state.players[state.dealerIndex]?.seatIndex ?? -1,
+    players: dealtIn.map(p => ({
+      id: p.id,
+      userId: userIdOf(p),
+      name: p.name,
+      seatIndex: p.seatIndex,
+      isAI: p.isAI,
+      startChips: startChips.get(p.id) ?? p.chips,
+      endChips: p.chips,
+      cards: p.cards,
+      folded: p.isFolded,
+      isDealer: p.isDealer,
+      isSmallBlind: p.isSmallBlind,
+      isBigBlind: p.isBigBlind,
+      isStraddle: p.isStraddle,
+    })),
+    forcedBets,
+    actions,
+    board: state.communityCards,
+    ...(state.boards ? { boards: state.boards } : {}),
+    pot: state.pot,
+    potResults: state.potResults ?? [],
+    winners: state.winners ?? [],
+    shownPlayerIds: dealtIn.filter(p => canSeeCards(state, p, tableViewer)).map(p => p.id),
+    fairness: state.fairness,
+    record,
+  };
+}
+
+export function saveHand(hand: HandHistory): void {
+  writeHand(hand);
+}
+
+/** A player showed their cards after the hand was stored */
+export function recordShownCards(handId: string, playerId: string): void {
+  const hand = getHand(handId);
+  if (!hand || hand.shownPlayerIds.includes(playerId)) return;
+  hand.shownPlayerIds.push(playerId);
+  writeHand(hand);
+}
+
+/** Private single-player hands are only open to the people who played them */
+export function canViewHand(hand: HandHistory, userId: string): boolean {
+  return !hand.isPrivate || hand.players.some(p => p.userId === userId);
+}
+
+export function getHand(id: string): HandHistory | undefined {
+  const cached = recent.get(id);
+  if (cached) return cached;
+  const entry = indexById.get(id);
+  return entry && readHand(entry);
+}
+
+export interface HandQuery {
+  /** Only hands `viewerId` may look up */
+  viewerId: string;
+  /** Hands this account played */
+  userId?: string;
+  roomId?: string;
+  /** Dealt at or after / before this time (ms) */
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+/** Stored hands matching the query, newest first; only the hands returned are read from the file */
+export function queryHands(query: HandQuery): HandHistory[] {
+  const limit = Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_QUERY_LIMIT) || DEFAULT_QUERY_LIMIT), MAX_QUERY_LIMIT);
+  const result: HandHistory[] = [];
+  for (let i = index.length - 1; i >= 0 && result.length < limit; i--) {
+    const entry = index[i];
+    if (query.userId && !entry.userIds.includes(query.userId)) continue;
+    if (query.roomId && entry.roomId !== query.roomId) continue;
+    if (query.from !== undefined && entry.startedAt < query.from) continue;
+    if (query.to !== undefined && entry.startedAt >= query.to) continue;
+    if (entry.isPrivate && !entry.userIds.includes(query.viewerId)) continue;
+    result.push(recent.get(entry.id) ?? readHand(entry));
+  }
+  return result;
+}
+
+// Index on startup
+loadIndex();
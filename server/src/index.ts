@@ -8,11 +8,14 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { ServerToClientEvents, ClientToServerEvents, AuthResponse } from '@texas-agent/shared';
-import { setupSocketHandlers } from './socket-handler';
+import { ServerToClientEvents, ClientToServerEvents, AuthResponse, formatPokerStarsHand, exportHandJson } from '@texas-agent/shared';
+import { setupSocketHandlers, drainServer, isShuttingDown } from './socket-handler';
 import { signToken, authMiddleware, optionalAuthMiddleware, socketAuthMiddleware } from './auth';
-import { createUser, authenticateUser, getUserById, updateUserLLMConfig, setUserChips, getAllUsers, claimDailyBonus } from './user-store';
+import { createUser, authenticateUser, getUserById, updateUserLLMConfig, getTopUsersByChips, claimDailyBonus, flushUsers } from './user-store';
 import { getRoomByPlayerId } from './room-manager';
+import { createTournament, getTournament, getTournamentList } from './tournament-director';
+import { getHand, queryHands, canViewHand } from './hand-history';
+import { getHandViewer, getVisibleHandHistory } from './card-visibility';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -54,10 +57,7 @@ app.get('/api/health', (_req, res) => {
 });
 // Leaderboard
 app.get('/api/leaderboard', (_req, res) => {
-  const allUsers = getAllUsers();
-  const leaderboard = allUsers
-    .sort((a, b) => b.chips - a.chips)
-    .slice(0, 20)
+  const leaderboard = getTopUsersByChips(20)
     .map(u => ({
       username: u.username,
       chips: u.chips,
@@ -354,19 +354,129 @@ app.post('/api/rule-bot/decision', authMiddleware, async (req, res) => {
   }
 });
 
-// Update chips (for single player mode settlement)
-app.put('/api/user/chips', authMiddleware, (req, res) => {
-  const { chips } = req.body;
-  if (typeof chips !== 'number' || chips < 0) {
-    res.status(400).json({ error: 'Invalid chips value' });
+// --- Multi-table tournament routes ---
+
+app.get('/api/tournaments', (_req, res) => {
+  res.json({ tournaments: getTournamentList() });
+});
+
+app.get('/api/tournaments/:id', (req, res) => {
+  const director = getTournament(req.params.id);
+  if (!director) {
+    res.status(404).json({ error: 'Tournament not found' });
     return;
   }
-  const success = setUserChips((req as any).userId, chips);
-  if (!success) {
+  res.json({ tournament: director.toPublic() });
+});
+
+app.post('/api/tournaments', authMiddleware, (req, res) => {
+  if (isShuttingDown()) {
+    res.status(503).json({ error: 'Server is restarting' });
+    return;
+  }
+  const user = getUserById((req as any).userId);
+  if (!user) {
     res.status(404).json({ error: 'User not found' });
     return;
   }
-  res.json({ ok: true, chips });
+  try {
+    const director = createTournament(req.body ?? {}, user.username);
+    res.json({ tournament: director.toPublic() });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.post('/api/tournaments/:id/register', authMiddleware, (req, res) => {
+  if (isShuttingDown()) {
+    res.status(503).json({ error: 'Server is restarting' });
+    return;
+  }
+  const userId = (req as any).userId;
+  const director = getTournament(req.params.id);
+  if (!director) {
+    res.status(404).json({ error: 'Tournament not found' });
+    return;
+  }
+  try {
+    director.register(userId);
+    res.json({ tournament: director.toPublic(), chips: getUserById(userId)?.chips });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.delete('/api/tournaments/:id/register', authMiddleware, (req, res) => {
+  const userId = (req as any).userId;
+  const director = getTournament(req.params.id);
+  if (!director) {
+    res.status(404).json({ error: 'Tournament not found' });
+    return;
+  }
+  try {
+    director.unregister(userId);
+    res.json({ tournament: director.toPublic(), chips: getUserById(userId)?.chips });
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// --- Hand history routes ---
+
+/** A time filter given as epoch milliseconds or a date string; NaN when it is neither */
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const ms = Number(value);
+  return Number.isFinite(ms) ? ms : Date.parse(value);
+}
+
+app.get('/api/hands', authMiddleware, (req, res) => {
+  const viewerId = (req as any).userId;
+  const { userId, roomId, limit } = req.query;
+  const from = parseTime(req.query.from);
+  const to = parseTime(req.query.to);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    res.status(400).json({ error: 'Invalid time range' });
+    return;
+  }
+  const hands = queryHands({
+    viewerId,
+    userId: typeof userId === 'string' ? userId : undefined,
+    roomId: typeof roomId === 'string' ? roomId : undefined,
+    from,
+    to,
+    limit: typeof limit === 'string' ? Number(limit) : undefined,
+  });
+  res.json({ hands: hands.map(hand => getVisibleHandHistory(hand, getHandViewer(hand, viewerId))) });
+});
+
+app.get('/api/hands/:id', authMiddleware, (req, res) => {
+  const viewerId = (req as any).userId;
+  const hand = getHand(req.params.id);
+  if (!hand || !canViewHand(hand, viewerId)) {
+    res.status(404).json({ error: 'Hand not found' });
+    return;
+  }
+  res.json({ hand: getVisibleHandHistory(hand, getHandViewer(hand, viewerId)) });
+});
+
+// Download as a file: PokerStars-style text (default) or the JSON export
+app.get('/api/hands/:id/export', authMiddleware, (req, res) => {
+  const viewerId = (req as any).userId;
+  const hand = getHand(req.params.id);
+  if (!hand || !canViewHand(hand, viewerId)) {
+    res.status(404).json({ error: 'Hand not found' });
+    return;
+  }
+  const viewer = getHandViewer(hand, viewerId);
+  const visible = getVisibleHandHistory(hand, viewer);
+  if (req.query.format === 'json') {
+    res.setHeader('Content-Disposition', `attachment; filename="hand-${hand.id}.json"`);
+    res.json(exportHandJson(visible));
+    return;
+  }
+  res.setHeader('Content-Disposition', `attachment; filename="hand-${hand.id}.txt"`);
+  res.type('text/plain').send(formatPokerStarsHand(visible, viewer.kind === 'player' ? viewer.id : undefined));
 });
 
 // Production: serve client static files
@@ -385,3 +495,20 @@ const PORT = process.env.PORT || 3001;
 httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT} (${IS_PROD ? 'production' : 'development'})`);
 });
+
+// Graceful shutdown: finish (or refund) the hands in play, save everything, then exit
+const SHUTDOWN_TIMEOUT = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 60000;
+async function shutdown(signal: string) {
+  // A second signal skips the wait; the rooms saved so far are refunded on the next start
+  if (isShuttingDown()) {
+    console.log(`[Server] ${signal} received again, exiting now`);
+    process.exit(1);
+  }
+  console.log(`[Server] ${signal} received, shutting down`);
+  await drainServer(io, SHUTDOWN_TIMEOUT);
+  flushUsers();
+  console.log('[Server] Shutdown complete');
+  process.exit(0);
+}
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -1,26 +1,46 @@
-import { Room, RoomConfig, Player, AIPersonality, AIEngineType, AI_STARTING_CHIPS, LLM_BOT_CONFIGS, LLMBotId, RULE_BOT_CONFIGS, RuleBotId, BOT_MIN_CHIPS } from '@texas-agent/shared';
-import { generateId } from '@texas-agent/shared';
+import { Room, RoomConfig, GameState, Player, TournamentStatus, AIPersonality, AIEngineType, GameVariant, LLM_BOT_CONFIGS, LLMBotId, RULE_BOT_CONFIGS, RuleBotId } from '@texas-agent/shared';
+import { generateId, normalizeRoomConfig, createTournamentStatus, getBuyInRange, shuffle, Rng, DEFAULT_ROOM_CONFIG, ACTION_TIMEOUT_OPTIONS } from '@texas-agent/shared';
 import { getRandomAIName } from './ai/rule-based/personalities';
 import { llmBotRegistry } from './ai/llm-bot-player';
 import { ruleBotRegistry } from './ai/rule-bot-player';
-import { getUserById, updateUserChips } from './user-store';
+import { getUserById, updateUserChips, debitUserChips } from './user-store';
+import { getPublicRoom } from './card-visibility';
 
 const MAX_ROOMS = 50;
+/** Named LLM bots, and named rule bots, seated at a single-player table at most */
+const SINGLE_PLAYER_NAMED_BOTS = 2;
+const AI_PERSONALITIES: AIPersonality[] = ['conservative', 'aggressive', 'balanced'];
 const rooms = new Map<string, Room>();
+/** Tournament entrants per room: seat (socket or bot) id → user-store id whose bankroll paid the buy-in */
+const tournamentEntries = new Map<string, Map<string, string>>();
+/** Cash-room seats per room: seat (socket or bot) id → user-store id whose bankroll bought the stack */
+const cashSeats = new Map<string, Map<string, string>>();
+
+/** Chips an anonymous AI seat starts with: the tournament stack in a Sit-and-Go, otherwise the largest buy-in */
+function seatChips(room: Room): number {
+  return room.config.tournament ? room.config.startingChips : getBuyInRange(room.config).max;
+}
+
+/** Sit-and-Go seats can only be taken while registration is open */
+function assertRegistrationOpen(room: Room): void {
+  if (room.tournament && room.tournament.status !== 'registering') throw new Error('Tournament registration is closed');
+}
 
-export function createRoom(name: string, config: RoomConfig, creatorId: string, creatorName: string, userChips?: number): Room {
+export function createRoom(name: string, config: RoomConfig, creatorId: string, creatorName: string): Room {
   if (rooms.size >= MAX_ROOMS) {
     throw new Error('Maximum number of rooms reached');
   }
 
+  const normalized = normalizeRoomConfig(config);
   const room: Room = {
     id: generateId(),
     name,
-    config,
+    config: normalized,
     players: [{
       id: creatorId,
       name: creatorName,
-      chips: userChips ?? config.startingChips,
+      // Cash players buy their stack in with buyIn() once seated
+      chips: normalized.tournament ? normalized.startingChips : 0,
       cards: [],
       currentBet: 0,
       totalBet: 0,
@@ -33,16 +53,62 @@ export function createRoom(name: string, config: RoomConfig, creatorId: string,
     status: 'waiting',
     ownerId: creatorId,
     createdAt: Date.now(),
+    ...(normalized.tournament ? { tournament: createTournamentStatus(normalized) } : {}),
   };
 
   rooms.set(room.id, room);
   return room;
 }
 
-export function joinRoom(roomId: string, playerId: string, playerName: string, userChips?: number): Room {
+/**
+ * Open a private single-player table: the player buys in from `userId`'s bankroll and the other
+ * seats go to free named bots that can cover the minimum buy-in, then anonymous AIs, all drawn
+ * with `rng`. Throws if the player cannot cover the buy-in.
+ */
+export function createSinglePlayerRoom(
+  variant: GameVariant,
+  playerId: string,
+  playerName: string,
+  userId: string,
+  rng: Rng = Math.random,
+): Room {
+  const config: RoomConfig = {
+    ...DEFAULT_ROOM_CONFIG,
+    variant,
+    // Nobody is waiting on the player, so give them the longest clock
+    actionTimeout: Math.max(...ACTION_TIMEOUT_OPTIONS),
+  };
+  // Short-deck is traditionally played with a button ante
+  if (variant === 'short-deck') {
+    config.ante = config.bigBlind;
+    config.anteStructure = 'button';
+  }
+  const room = createRoom(`${playerName} vs AI`, config, playerId, playerName);
+  room.isPrivate = true;
+  try {
+    buyIn(room.id, playerId, userId);
+  } catch (err) {
+    deleteRoom(room.id);
+    throw err;
+  }
+
+  // No owner funds bots here, so named bots only sit in with a full minimum buy-in
+  const { min } = getBuyInRange(room.config);
+  const canSit = (bot: { botId: string; isBusy: boolean }) => !bot.isBusy && (getUserById(bot.botId)?.chips ?? 0) >= min;
+  const pick = <T>(bots: T[]) => shuffle(bots, rng).slice(0, SINGLE_PLAYER_NAMED_BOTS);
+  for (const bot of pick(llmBotRegistry.getAll().filter(canSit))) inviteLLMBot(room.id, bot.botId);
+  for (const bot of pick(ruleBotRegistry.getAll().filter(canSit))) inviteRuleBot(room.id, bot.botId);
+  while (room.players.length < room.config.maxPlayers) {
+    addAIPlayer(room.id, AI_PERSONALITIES[Math.floor(rng() * AI_PERSONALITIES.length)], 'rule-based');
+  }
+  return room;
+}
+
+export function joinRoom(roomId: string, playerId: string, playerName: string): Room {
   const room = rooms.get(roomId);
-  if (!room) throw new Error('Room not found');
+  if (!room || room.isPrivate) throw new Error('Room not found');
   if (room.status === 'playing') throw new Error('Game already in progress');
+  assertRegistrationOpen(room);
   if (room.players.length >= room.config.maxPlayers) throw new Error('Room is full');
   if (room.players.find(p => p.id === playerId)) throw new Error('Already in room');
 
@@ -50,7 +116,7 @@ export function joinRoom(roomId: string, playerId: string, playerName: string, u
   room.players.push({
     id: playerId,
     name: playerName,
-    chips: userChips ?? room.config.startingChips,
+    chips: room.config.tournament ? room.config.startingChips : 0,
     cards: [],
     currentBet: 0,
     totalBet: 0,
@@ -67,7 +133,7 @@ export function joinRoom(roomId: string, playerId: string, playerName: string, u
 /** Allow a player to enter a room as spectator (even when game is in progress) */
 export function spectateRoom(roomId: string, playerId: string, playerName: string): Room {
   const room = rooms.get(roomId);
-  if (!room) throw new Error('Room not found');
+  if (!room || room.isPrivate) throw new Error('Room not found');
   if (room.players.find(p => p.id === playerId)) throw new Error('Already in room');
   // Also check pending players
   if (room.pendingPlayers?.find(p => p.id === playerId)) throw new Error('Already waiting to join');
@@ -79,12 +145,16 @@ export function spectateRoom(roomId: string, playerId: string, playerName: strin
   return room;
 }
 
-/** Register a spectator as a pending player who will join at the start of the next hand */
-export function sitDown(roomId: string, playerId: string, playerName: string, userChips?: number): Room {
+/**
+ * Register a spectator as a pending player who will join at the start of the next hand. At a
+ * cash table the stack is bought from `userId`'s bankroll; throws if it cannot cover it.
+ */
+export function sitDown(roomId: string, playerId: string, playerName: string, userId: string): Room {
   const room = rooms.get(roomId);
   if (!room) throw new Error('Room not found');
   if (room.players.find(p => p.id === playerId)) throw new Error('Already playing');
   if (room.pendingPlayers?.find(p => p.id === playerId)) throw new Error('Already waiting to join');
+  assertRegistrationOpen(room);
   const totalCount = room.players.length + (room.pendingPlayers?.length ?? 0);
   if (totalCount >= room.config.maxPlayers) throw new Error('Room is full');
 
@@ -94,7 +164,7 @@ export function sitDown(roomId: string, playerId: string, playerName: string, us
   room.pendingPlayers.push({
     id: playerId,
     name: playerName,
-    chips: userChips ?? room.config.startingChips,
+    chips: room.config.tournament ? room.config.startingChips : 0,
     cards: [],
     currentBet: 0,
     totalBet: 0,
@@ -104,6 +174,12 @@ export function sitDown(roomId: string, playerId: string, playerName: string, us
     isAI: false,
     seatIndex,
   });
+  try {
+    buyIn(roomId, playerId, userId);
+  } catch (err) {
+    room.pendingPlayers.pop();
+    throw err;
+  }
 
   // Remove from spectators list since they are now a pending player
   if (room.spectators) {
@@ -128,6 +204,7 @@ export function leaveRoom(roomId: string, playerId: string): Room | null {
     const bot = ruleBotRegistry.get(leavingPlayer.ruleBotId as RuleBotId);
     bot?.releaseRoom(roomId);
   }
+  cashOut(roomId, playerId);
 
   room.players = room.players.filter(p => p.id !== playerId);
   if (room.pendingPlayers) {
@@ -144,6 +221,8 @@ export function leaveRoom(roomId: string, playerId: string): Room | null {
     // Release all bots in this room
     releaseAllLLMBots(roomId);
     releaseAllRuleBots(roomId);
+    closeTournamentEntries(roomId);
+    closeCashSeats(roomId);
     rooms.delete(roomId);
     return null;
   }
@@ -154,13 +233,14 @@ export function leaveRoom(roomId: string, playerId: string): Room | null {
 export function addAIPlayer(roomId: string, personality: AIPersonality, engineType: AIEngineType): Room {
   const room = rooms.get(roomId);
   if (!room) throw new Error('Room not found');
+  assertRegistrationOpen(room);
   if (room.players.length >= room.config.maxPlayers) throw new Error('Room is full');
 
   const seatIndex = getNextAvailableSeat(room);
   const aiPlayer: Player = {
     id: `ai-${generateId()}`,
     name: getRandomAIName(personality),
-    chips: AI_STARTING_CHIPS,
+    chips: seatChips(room),
     cards: [],
     currentBet: 0,
     totalBet: 0,
@@ -180,11 +260,12 @@ export function addAIPlayer(roomId: string, personality: AIPersonality, engineTy
 /**
  * Invite a named LLM bot into a room.
  * Throws if bot is already in another room, or room is full.
- * Chip funding (topup to BOT_MIN_CHIPS) happens at game start via topupBotsFromOwner().
+ * Chip funding (topup to the minimum buy-in) happens at game start via topupBotsFromOwner().
  */
 export function inviteLLMBot(roomId: string, botId: string): Room {
   const room = rooms.get(roomId);
   if (!room) throw new Error('Room not found');
+  assertRegistrationOpen(room);
   if (room.players.length >= room.config.maxPlayers) throw new Error('Room is full');
 
   if (!llmBotRegistry.isValidBotId(botId)) throw new Error(`Unknown LLM bot: ${botId}`);
@@ -197,15 +278,11 @@ export function inviteLLMBot(roomId: string, botId: string): Room {
   // Check if busy in another room
   if (bot.isBusy) throw new Error(`${bot.name} is already in another game`);
 
-  // Get bot's stored chips from user store
-  const botProfile = getUserById(botId);
-  const chips = botProfile?.chips ?? 5000;
-
   const seatIndex = getNextAvailableSeat(room);
   const botPlayer: Player = {
     id: botId,
     name: bot.name,
-    chips,
+    chips: room.config.tournament ? room.config.startingChips : 0,
     cards: [],
     currentBet: 0,
     totalBet: 0,
@@ -220,8 +297,12 @@ export function inviteLLMBot(roomId: string, botId: string): Room {
     seatIndex,
   };
 
+  // Sit-and-Go bots pay their buy-in from their own bankroll
+  payBuyIn(roomId, botId, botId);
   bot.occupyRoom(roomId);
   room.players.push(botPlayer);
+  // Cash bots buy their stack from it
+  buyIn(roomId, botId, botId);
   return room;
 }
 
@@ -234,6 +315,8 @@ export function removeLLMBot(roomId: string, botId: string): Room {
 
   const bot = llmBotRegistry.get(botId as LLMBotId);
   if (bot) bot.releaseRoom(roomId);
+  refundBuyIn(roomId, botId);
+  cashOut(roomId, botId);
 
   room.players = room.players.filter(p => p.llmBotId !== botId);
   return room;
@@ -241,11 +324,12 @@ export function removeLLMBot(roomId: string, botId: string): Room {
 
 /**
  * Invite a named rule-based bot into a room.
- * Chip funding (topup to BOT_MIN_CHIPS) happens at game start via topupBotsFromOwner().
+ * Chip funding (topup to the minimum buy-in) happens at game start via topupBotsFromOwner().
  */
 export function inviteRuleBot(roomId: string, botId: string): Room {
   const room = rooms.get(roomId);
   if (!room) throw new Error('Room not found');
+  assertRegistrationOpen(room);
   if (room.players.length >= room.config.maxPlayers) throw new Error('Room is full');
 
   if (!ruleBotRegistry.isValidBotId(botId)) throw new Error(`Unknown rule bot: ${botId}`);
@@ -255,14 +339,11 @@ export function inviteRuleBot(roomId: string, botId: string): Room {
   if (room.players.find(p => p.ruleBotId === botId)) throw new Error('Bot already in this room');
   if (bot.isBusy) throw new Error(`${bot.name} is already in another game`);
 
-  const botProfile = getUserById(botId);
-  const chips = botProfile?.chips ?? 2000;
-
   const seatIndex = getNextAvailableSeat(room);
   const botPlayer: Player = {
     id: botId,
     name: bot.name,
-    chips,
+    chips: room.config.tournament ? room.config.startingChips : 0,
     cards: [],
     currentBet: 0,
     totalBet: 0,
@@ -277,8 +358,12 @@ export function inviteRuleBot(roomId: string, botId: string): Room {
     seatIndex,
   };
 
+  // Sit-and-Go bots pay their buy-in from their own bankroll
+  payBuyIn(roomId, botId, botId);
   bot.occupyRoom(roomId);
   room.players.push(botPlayer);
+  // Cash bots buy their stack from it
+  buyIn(roomId, botId, botId);
   return room;
 }
 
@@ -291,6 +376,8 @@ export function removeRuleBot(roomId: string, botId: string): Room {
 
   const bot = ruleBotRegistry.get(botId as RuleBotId);
   if (bot) bot.releaseRoom(roomId);
+  refundBuyIn(roomId, botId);
+  cashOut(roomId, botId);
 
   room.players = room.players.filter(p => p.ruleBotId !== botId);
   return room;
@@ -304,19 +391,21 @@ export interface BotTopupItem {
 }
 
 /**
- * Check all bots in a room for chips < BOT_MIN_CHIPS.
+ * Check all bots in a room for a stack below the minimum buy-in.
  * Returns a list of items that need topping up.
  */
 export function getBotTopupNeeds(roomId: string): BotTopupItem[] {
   const room = rooms.get(roomId);
-  if (!room) return [];
+  // Sit-and-Go bots play with tournament chips and pay their buy-in on entry
+  if (!room || room.tournament) return [];
+  const { min } = getBuyInRange(room.config);
   const items: BotTopupItem[] = [];
   for (const player of room.players) {
-    if ((player.isLLMBot || player.isRuleBot) && player.chips < BOT_MIN_CHIPS) {
+    if ((player.isLLMBot || player.isRuleBot) && player.chips < min) {
       items.push({
         botId: player.id,
         botName: player.name,
-        needed: BOT_MIN_CHIPS - player.chips,
+        needed: min - player.chips,
       });
     }
   }
@@ -324,8 +413,9 @@ export function getBotTopupNeeds(roomId: string): BotTopupItem[] {
 }
 
 /**
- * Perform chip top-up for all bots in a room that are below BOT_MIN_CHIPS.
- * Deducts total from ownerId's balance.
+ * Perform chip top-up for all bots in a room that are below the minimum buy-in.
+ * Deducts total from ownerId's balance and adds it to the bots' stacks, which go back to
+ * the bots' own bankrolls when they cash out.
  * Throws if owner has insufficient chips.
  */
 export function topupBotsFromOwner(roomId: string, ownerId: string): void {
@@ -334,17 +424,317 @@ export function topupBotsFromOwner(roomId: string, ownerId: string): void {
   const needs = getBotTopupNeeds(roomId);
   if (needs.length === 0) return;
   const total = needs.reduce((sum, n) => sum + n.needed, 0);
-  const ownerProfile = getUserById(ownerId);
-  if (!ownerProfile || ownerProfile.chips < total) {
+  if (!debitUserChips(ownerId, total)) {
     throw new Error(`INSUFFICIENT_CHIPS:${total}`);
   }
-  updateUserChips(ownerId, -total);
   for (const item of needs) {
-    updateUserChips(item.botId, item.needed);
-    // Also update in-memory player chips so the game starts with correct values
     const player = room.players.find(p => p.id === item.botId);
-    if (player) player.chips = BOT_MIN_CHIPS;
+    if (player) player.chips += item.needed;
+  }
+}
+
+/** A seated or waiting-to-be-seated player */
+function findSeat(room: Room, playerId: string): Player | undefined {
+  return room.players.find(p => p.id === playerId) ?? room.pendingPlayers?.find(p => p.id === playerId);
+}
+
+/** Chips a cash seat holds: mid-hand its stack behind in the live hand, plus any top-up not yet added */
+function tableStack(room: Room, seat: Player): number {
+  const state = room.gameState;
+  const inHand = room.status === 'playing' && state && state.phase !== 'showdown' && state.phase !== 'waiting';
+  const live = inHand ? state.players.find(p => p.id === seat.id) : undefined;
+  return (live ?? seat).chips + (seat.pendingTopUp ?? 0);
+}
+
+/**
+ * Buy a cash seat's stack from `userId`'s bankroll — the largest buy-in it covers. Bots may sit
+ * down short; their owner funds them up to the minimum at game start. Throws if a player's
+ * bankroll cannot cover the minimum buy-in.
+ */
+export function buyIn(roomId: string, playerId: string, userId: string): void {
+  const room = rooms.get(roomId);
+  if (!room || room.config.tournament) return;
+  const seat = findSeat(room, playerId);
+  if (!seat) throw new Error('Player is not seated');
+  const { min, max } = getBuyInRange(room.config);
+  const bankroll = getUserById(userId)?.chips ?? 0;
+  if (!seat.isAI && bankroll < min) throw new Error(`Not enough chips for the ${min} minimum buy-in`);
+  const amount = Math.min(max, bankroll);
+  updateUserChips(userId, -amount);
+  seat.chips = amount;
+  if (!cashSeats.has(roomId)) cashSeats.set(roomId, new Map());
+  cashSeats.get(roomId)!.set(playerId, userId);
+}
+
+/**
+ * Take a top-up — or a rebuy, on an empty stack — from a cash seat's bankroll. The stack it
+ * leaves must lie within the buy-in limits. Returns the chips to add to the stack.
+ */
+export function payTopUp(roomId: string, playerId: string, amount: number): number {
+  const room = rooms.get(roomId);
+  if (!room) throw new Error('Room not found');
+  if (room.config.tournament) throw new Error('Cannot buy chips in a tournament');
+  const seat = findSeat(room, playerId);
+  const userId = cashSeats.get(roomId)?.get(playerId);
+  if (!seat || !userId) throw new Error('Not seated');
+  const { min, max } = getBuyInRange(room.config);
+  const chips = Math.floor(amount);
+  const stack = seat.chips + (seat.pendingTopUp ?? 0) + chips;
+  if (!(chips > 0) || stack < min || stack > max) throw new Error(`Your stack must stay between ${min} and ${max}`);
+  if (!debitUserChips(userId, chips)) throw new Error(`Not enough chips for a ${chips} top-up`);
+  return chips;
+}
+
+/** Return a leaving cash seat's chips to the bankroll that bought them; returns the credited user id */
+export function cashOut(roomId: string, playerId: string): string | undefined {
+  const room = rooms.get(roomId);
+  const seats = cashSeats.get(roomId);
+  const userId = seats?.get(playerId);
+  if (!room || !userId) return undefined;
+  const seat = findSeat(room, playerId);
+  const chips = seat ? tableStack(room, seat) : 0;
+  if (chips > 0) updateUserChips(userId, chips);
+  seats!.delete(playerId);
+  console.log(`[Room] ${seat?.name ?? playerId} cashed out ${chips} from room ${roomId}`);
+  return userId;
+}
+
+/** Follow a reconnected player to their new socket id */
+export function renameCashSeat(roomId: string, oldId: string, newId: string): void {
+  const seats = cashSeats.get(roomId);
+  const userId = seats?.get(oldId);
+  if (!seats || !userId) return;
+  seats.delete(oldId);
+  seats.set(newId, userId);
+}
+
+/** Cash out everyone still seated when a room closes; an unfinished hand is void */
+function closeCashSeats(roomId: string): void {
+  const room = rooms.get(roomId);
+  const seats = cashSeats.get(roomId);
+  if (room && seats) {
+    for (const seat of [...room.players, ...(room.pendingPlayers ?? [])]) {
+      const userId = seats.get(seat.id);
+      const chips = seat.chips + (seat.pendingTopUp ?? 0);
+      if (userId && chips > 0) updateUserChips(userId, chips);
+    }
+  }
+  cashSeats.delete(roomId);
+}
+
+/**
+ * Take a Sit-and-Go buy-in from `userId`'s bankroll into the prize pool for the seat `playerId`.
+ * Throws if the bankroll cannot cover it.
+ */
+export function payBuyIn(roomId: string, playerId: string, userId: string): void {
+  const room = rooms.get(roomId);
+  if (!room?.tournament) return;
+  assertRegistrationOpen(room);
+  const buyIn = room.config.tournament!.buyIn;
+  if (!debitUserChips(userId, buyIn)) throw new Error(`Not enough chips for the ${buyIn} buy-in`);
+  room.tournament.prizePool += buyIn;
+  if (!tournamentEntries.has(roomId)) tournamentEntries.set(roomId, new Map());
+  tournamentEntries.get(roomId)!.set(playerId, userId);
+}
+
+/** Give a seat's buy-in back if it leaves before the tournament starts; returns the refunded user id */
+export function refundBuyIn(roomId: string, playerId: string): string | undefined {
+  const room = rooms.get(roomId);
+  const entries = tournamentEntries.get(roomId);
+  const userId = entries?.get(playerId);
+  if (!room?.tournament || !userId || room.tournament.status !== 'registering') return undefined;
+  updateUserChips(userId, room.config.tournament!.buyIn);
+  room.tournament.prizePool -= room.config.tournament!.buyIn;
+  entries!.delete(playerId);
+  return userId;
+}
+
+/** User-store id whose bankroll is behind a seat: the cash stack's buyer or the tournament entrant */
+export function getSeatUserId(roomId: string, playerId: string): string | undefined {
+  return cashSeats.get(roomId)?.get(playerId) ?? tournamentEntries.get(roomId)?.get(playerId);
+}
+
+/** User-store id behind a Sit-and-Go seat, for paying out prizes */
+export function getTournamentUserId(roomId: string, playerId: string): string | undefined {
+  return tournamentEntries.get(roomId)?.get(playerId);
+}
+
+/** Follow a reconnected player to their new socket id */
+export function renameTournamentEntry(roomId: string, oldId: string, newId: string): void {
+  const entries = tournamentEntries.get(roomId);
+  const userId = entries?.get(oldId);
+  if (!entries || !userId) return;
+  entries.delete(oldId);
+  entries.set(newId, userId);
+}
+
+/** Drop a room's entrant list, refunding everyone if the tournament never started */
+function closeTournamentEntries(roomId: string): void {
+  const room = rooms.get(roomId);
+  const entries = tournamentEntries.get(roomId);
+  if (room?.tournament?.status === 'registering' && entries) {
+    for (const userId of entries.values()) updateUserChips(userId, room.config.tournament!.buyIn);
   }
+  tournamentEntries.delete(roomId);
+}
+
+/** A seat at a multi-table tournament table; `userId` is left out for anonymous AI entrants */
+export interface TournamentSeat {
+  id: string;
+  name: string;
+  userId?: string;
+  aiPersonality?: AIPersonality;
+}
+
+/**
+ * Open a table of a multi-table tournament with its players already seated. Every table shares
+ * the tournament's `status` object, so they all show the same level and prize pool.
+ */
+export function createTournamentTable(tournamentId: string, name: string, config: RoomConfig, status: TournamentStatus, seats: TournamentSeat[]): Room {
+  const room: Room = {
+    id: generateId(),
+    name,
+    config,
+    players: seats.map((seat, seatIndex) => ({
+      id: seat.id,
+      name: seat.name,
+      chips: config.startingChips,
+      cards: [],
+      currentBet: 0,
+      totalBet: 0,
+      isActive: true,
+      isFolded: false,
+      isAllIn: false,
+      isAI: !seat.userId,
+      ...(seat.userId ? {} : { aiPersonality: seat.aiPersonality ?? 'balanced', aiEngineType: 'rule-based' as AIEngineType }),
+      seatIndex,
+    })),
+    status: 'waiting',
+    // Nobody owns a tournament table; its director starts and closes it
+    ownerId: '',
+    createdAt: Date.now(),
+    tournament: status,
+    tournamentId,
+  };
+  const entries = new Map<string, string>();
+  for (const seat of seats) if (seat.userId) entries.set(seat.id, seat.userId);
+  tournamentEntries.set(room.id, entries);
+  rooms.set(room.id, room);
+  return room;
+}
+
+/** Move a tournament player to another table; they are dealt in there from its next hand */
+export function moveTournamentSeat(fromRoomId: string, toRoomId: string, playerId: string): void {
+  const from = rooms.get(fromRoomId);
+  const to = rooms.get(toRoomId);
+  if (!from || !to) throw new Error('Room not found');
+  const player = from.players.find(p => p.id === playerId) ?? from.pendingPlayers?.find(p => p.id === playerId);
+  if (!player) throw new Error('Player is not seated at this table');
+
+  from.players = from.players.filter(p => p.id !== playerId);
+  if (from.pendingPlayers) from.pendingPlayers = from.pendingPlayers.filter(p => p.id !== playerId);
+  if (!to.pendingPlayers) to.pendingPlayers = [];
+  to.pendingPlayers.push({
+    ...player,
+    cards: [],
+    currentBet: 0,
+    totalBet: 0,
+    isActive: true,
+    isFolded: false,
+    isAllIn: false,
+    seatIndex: getNextAvailableSeat(to),
+  });
+
+  const userId = tournamentEntries.get(fromRoomId)?.get(playerId);
+  if (userId) {
+    tournamentEntries.get(fromRoomId)!.delete(playerId);
+    if (!tournamentEntries.has(toRoomId)) tournamentEntries.set(toRoomId, new Map());
+    tournamentEntries.get(toRoomId)!.set(playerId, userId);
+  }
+}
+
+/** Seat id a user holds at a tournament table, if any */
+export function findTournamentSeat(roomId: string, userId: string): string | undefined {
+  for (const [playerId, entryUserId] of tournamentEntries.get(roomId) ?? []) {
+    if (entryUserId === userId) return playerId;
+  }
+  return undefined;
+}
+
+/** A room as written to disk: the room itself and whose bankrolls are behind its seats */
+export interface RoomSnapshot {
+  room: Room;
+  cashSeats: [string, string][];
+  tournamentEntries: [string, string][];
+}
+
+/**
+ * Every room that can be brought back after a restart, as it would come back: a hand still being
+ * played is already called off (see voidUnfinishedHand), so nothing of it — hole cards, board or
+ * seed — is written to disk. Multi-table tournament tables are left out: their director lives in
+ * memory only, and a table cannot run without it (see getTournamentSettlements).
+ */
+export function getRoomSnapshots(): RoomSnapshot[] {
+  return [...rooms.values()]
+    .filter(room => !room.tournamentId)
+    .map(room => {
+      const saved = JSON.parse(JSON.stringify(room)) as Room;
+      callOffHand(saved);
+      for (const player of [...saved.players, ...(saved.pendingPlayers ?? [])]) player.cards = [];
+      return {
+        room: saved,
+        cashSeats: [...(cashSeats.get(room.id) ?? [])],
+        tournamentEntries: [...(tournamentEntries.get(room.id) ?? [])],
+      };
+    });
+}
+
+/** A hand has been dealt and its pots are not yet settled */
+export function isHandUnfinished(state: GameState): boolean {
+  return state.phase !== 'waiting' && !(state.phase === 'showdown' && !!state.winners);
+}
+
+/** Drop the room's hand and give every seat back what it bet in it if unfinished; true if it was */
+function callOffHand(room: Room): boolean {
+  const state = room.gameState;
+  const unfinished = !!state && isHandUnfinished(state);
+  if (state && unfinished) {
+    for (const gp of state.players) {
+      const seat = room.players.find(p => p.id === gp.id);
+      if (seat) seat.chips = gp.chips + gp.totalBet;
+    }
+  }
+  delete room.gameState;
+  room.status = 'waiting';
+  return unfinished;
+}
+
+/**
+ * Call off a hand that was still being played: every seat gets back what it bet (its stack as
+ * the hand began) and the room waits to deal again. A settled hand's stacks already stand.
+ */
+export function voidUnfinishedHand(room: Room): void {
+  const round = room.gameState?.round;
+  if (callOffHand(room)) console.log(`[Room] Refunded the unfinished hand #${round} in room ${room.id}`);
+}
+
+/**
+ * Put a saved room back after a restart. Nobody is connected any more, so spectators are
+ * dropped; seated players keep their seats for the caller to hold as disconnected.
+ */
+export function restoreRoom(snapshot: RoomSnapshot): Room {
+  const room = snapshot.room;
+  room.spectators = [];
+  if (room.dealersChoice) delete room.dealersChoice.deadline;
+
+  rooms.set(room.id, room);
+  if (snapshot.cashSeats.length > 0) cashSeats.set(room.id, new Map(snapshot.cashSeats));
+  if (snapshot.tournamentEntries.length > 0) tournamentEntries.set(room.id, new Map(snapshot.tournamentEntries));
+  for (const player of [...room.players, ...(room.pendingPlayers ?? [])]) {
+    if (player.llmBotId) llmBotRegistry.get(player.llmBotId as LLMBotId)?.occupyRoom(room.id);
+    if (player.ruleBotId) ruleBotRegistry.get(player.ruleBotId as RuleBotId)?.occupyRoom(room.id);
+  }
+  return room;
 }
 
 export function getRoom(roomId: string): Room | undefined {
@@ -355,17 +745,13 @@ export function getRoom(roomId: string): Room | undefined {
 export function deleteRoom(roomId: string): void {
   releaseAllLLMBots(roomId);
   releaseAllRuleBots(roomId);
+  closeTournamentEntries(roomId);
+  closeCashSeats(roomId);
   rooms.delete(roomId);
 }
 
 export function getRoomList(): Room[] {
-  return Array.from(rooms.values()).map(room => ({
-    ...room,
-    players: room.players.map(p => ({
-      ...p,
-      cards: [],
-    })),
-  }));
+  return Array.from(rooms.values()).filter(r => !r.isPrivate).map(getPublicRoom);
 }
 
 export function getRoomByPlayerId(playerId: string): Room | undefined {
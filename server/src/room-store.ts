@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RoomSnapshot, getRoomSnapshots, restoreRoom } from './room-manager';
+import { TournamentSettlement, getTournamentSettlements, payTournamentSettlement } from './tournament-director';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const DATA_DIR = path.resolve(__dirname, '../../data');
+const ROOMS_FILE = path.join(DATA_DIR, 'rooms.json');
+
+interface RoomsFile {
+  savedAt: number;
+  rooms: RoomSnapshot[];
+  /** Multi-table tournaments still open when the file was written, paid out if the server died with them */
+  tournaments?: TournamentSettlement[];
+}
+
+/** A seated human whose connection did not survive the restart */
+export interface RestoredSeat {
+  roomId: string;
+  playerId: string;
+  userId: string;
+  name: string;
+}
+
+function ensureDataDir() {
+  if (!fs.existsSync(DATA_DIR)) {
+    fs.mkdirSync(DATA_DIR, { recursive: true });
+  }
+}
+
+/**
+ * Write every room and what the open tournaments owe to disk. The file is replaced in one rename,
+ * so a crash mid-write leaves the previous snapshot intact.
+ */
+export function saveRooms(): void {
+  ensureDataDir();
+  const data: RoomsFile = {
+    savedAt: Date.now(),
+    rooms: getRoomSnapshots(),
+    tournaments: getTournamentSettlements(),
+  };
+  const tmp = `${ROOMS_FILE}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data));
+  fs.renameSync(tmp, ROOMS_FILE);
+}
+
+/**
+ * Bring back the rooms saved before the last shutdown or crash (any hand cut short was refunded
+ * when they were saved) and pay out the tournaments that died with the server. Returns the human
+ * seats to hold for their players to reconnect to.
+ */
+export function loadRooms(): RestoredSeat[] {
+  ensureDataDir();
+  if (!fs.existsSync(ROOMS_FILE)) return [];
+  let data: RoomsFile;
+  try {
+    data = JSON.parse(fs.readFileSync(ROOMS_FILE, 'utf-8'));
+  } catch (err) {
+    console.error(`[RoomStore] Could not read ${ROOMS_FILE}: ${(err as Error).message}`);
+    return [];
+  }
+
+  const seats: RestoredSeat[] = [];
+  for (const saved of data.rooms) {
+    const room = restoreRoom(saved);
+    const owners = new Map([...saved.cashSeats, ...saved.tournamentEntries]);
+    for (const player of [...room.players, ...(room.pendingPlayers ?? [])]) {
+      const userId = owners.get(player.id);
+      if (!player.isAI && userId) seats.push({ roomId: room.id, playerId: player.id, userId, name: player.name });
+    }
+  }
+  console.log(`[RoomStore] Restored ${data.rooms.length} rooms saved at ${new Date(data.savedAt).toISOString()}`);
+
+  const settlements = data.tournaments ?? [];
+  if (settlements.length > 0) {
+    // Rewrite the file first: a crash before the payouts loses them rather than paying them twice
+    saveRooms();
+    for (const settlement of settlements) {
+      payTournamentSettlement(settlement);
+      console.log(`[RoomStore] Settled tournament "${settlement.name}": paid ${settlement.payouts.length} entrants`);
+    }
+  }
+  return seats;
+}
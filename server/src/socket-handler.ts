@@ -1,10 +1,14 @@
 import { Server, Socket } from 'socket.io';
-import { ServerToClientEvents, ClientToServerEvents, PlayerAction, AIPersonality, AIEngineType, RoomConfig, ACTION_TIMEOUT, MIN_PLAYERS } from '@texas-agent/shared';
+import { ServerToClientEvents, ClientToServerEvents, PlayerAction, AIPersonality, AIEngineType, RoomConfig, Room, GameState, GameVariant, TournamentFinish, BlindLevel, MIN_PLAYERS, GAME_VARIANTS } from '@texas-agent/shared';
 import * as RoomManager from './room-manager';
 import { llmBotRegistry } from './ai/llm-bot-player';
 import { ruleBotRegistry } from './ai/rule-bot-player';
 import { GameController } from './game-controller';
+import { getViewer, getVisibleGameState, getVisibleRoom } from './card-visibility';
 import { getUserById, updateUserChips, updateUserStats } from './user-store';
+import { createHandHistory, saveHand, recordShownCards } from './hand-history';
+import { saveRooms, loadRooms, RestoredSeat } from './room-store';
+import { TournamentHost, setTournamentHost, getTournament, getTournamentList, suspendTournaments, abandonTournaments } from './tournament-director';
 
 type IOServer = Server<ClientToServerEvents, ServerToClientEvents>;
 type IOSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
@@ -38,8 +42,15 @@ function broadcastOnlinePlayers(io: IOServer): void {
 // Map userId → { roomId, socketId, username } for reconnection support
 const disconnectedPlayers = new Map<string, { roomId: string; socketId: string; username: string; disconnectTime: number }>();
 const RECONNECT_GRACE_PERIOD = 60000; // 60 seconds to reconnect
+let roomsSaveQueued = false;
+/** When a shutdown in progress ends; while set, no rooms are opened, joined or dealt */
+let shutdownDeadline: number | null = null;
+const SHUTDOWN_POLL_INTERVAL = 500;
 
 export function setupSocketHandlers(io: IOServer): void {
+  setTournamentHost(createTournamentHost(io));
+  for (const seat of loadRooms()) holdRestoredSeat(io, seat);
+
   io.on('connection', (socket: IOSocket) => {
     const userId = (socket as any).data.userId;
     const username = (socket as any).data.username;
@@ -59,81 +70,16 @@ export function setupSocketHandlers(io: IOServer): void {
       const { roomId, socketId: oldSocketId } = disconnectInfo;
       disconnectedPlayers.delete(userId);
       const room = RoomManager.getRoom(roomId);
-      if (room) {
-        // Replace old socket ID with new socket ID in room players
-        const player = room.players.find(p => p.id === oldSocketId);
-        const pendingPlayer = room.pendingPlayers?.find(p => p.id === oldSocketId);
-        const targetPlayer = player || pendingPlayer;
-        if (targetPlayer) {
-          const newSocketId = socket.id;
-          targetPlayer.id = newSocketId;
-          targetPlayer.name = username;
-
-          // Update game state player IDs too
-          const controller = gameControllers.get(roomId);
-          if (controller) {
-            const gameState = controller.getState();
-            if (gameState) {
-              const gp = gameState.players.find(p => p.id === oldSocketId);
-              if (gp) {
-                gp.id = newSocketId;
-              }
-              // Update actedThisRound references
-              if (gameState.actedThisRound) {
-                gameState.actedThisRound = gameState.actedThisRound.map(id => id === oldSocketId ? newSocketId : id);
-              }
-              // Update lastAction reference
-              if (gameState.lastAction && gameState.lastAction.playerId === oldSocketId) {
-                gameState.lastAction.playerId = newSocketId;
-              }
-            }
-            // Cancel standing/timeout for reconnected player
-            controller.cancelPlayerStand(newSocketId, oldSocketId);
-          }
-
-          // Update maps
-          playerRooms.delete(oldSocketId);
-          playerRooms.set(newSocketId, roomId);
-          socketUserMap.delete(oldSocketId);
-          socketUserMap.set(newSocketId, userId);
-
-          // Update owner ID if this player was the room owner
-          if (room.ownerId === oldSocketId) {
-            room.ownerId = newSocketId;
-          }
-
-          // Update spectators if needed
-          if (room.spectators) {
-            const spec = room.spectators.find(s => s.id === oldSocketId);
-            if (spec) spec.id = newSocketId;
-          }
-
-          socket.join(roomId);
-          socket.emit('room:joined', room);
-          io.to(roomId).emit('room:updated', room);
-
-          // Send current game state
-          if (controller) {
-            const personalState = controller.getSanitizedStateForPlayer(newSocketId);
-            if (personalState) {
-              socket.emit('game:state', personalState);
-            }
-            // Re-send turn notification if it's this player's turn
-            const gameState = controller.getState();
-            if (gameState) {
-              const currentPlayer = gameState.players[gameState.currentPlayerIndex];
-              if (currentPlayer && currentPlayer.id === newSocketId) {
-                socket.emit('game:your-turn', { timeLimit: ACTION_TIMEOUT });
-              }
-            }
-          }
-
-          console.log(`[Reconnect] ${username} reconnected to room ${roomId} (${oldSocketId} → ${newSocketId})`);
-          broadcastRoomList(io);
-        }
+      if (room && transferSeat(io, socket, room, oldSocketId, userId)) {
+        console.log(`[Reconnect] ${username} reconnected to room ${roomId} (${oldSocketId} → ${socket.id})`);
+        broadcastRoomList(io);
       }
     }
 
+    if (shutdownDeadline !== null) {
+      socket.emit('server:shutdown', { timeLimit: shutdownDeadline - Date.now(), deadline: shutdownDeadline });
+    }
+
     // Helper: require authenticated (non-guest) user
     const requireAuth = (eventName: string): boolean => {
       if (isGuest) {
@@ -143,6 +89,15 @@ export function setupSocketHandlers(io: IOServer): void {
       return true;
     };
 
+    // Helper: refuse anything that would open a room, take a seat or deal while the server drains
+    const requireNotDraining = (): boolean => {
+      if (shutdownDeadline !== null) {
+        socket.emit('error', 'Server is restarting, please try again in a moment');
+        return false;
+      }
+      return true;
+    };
+
     // Room list
     socket.on('room:list', () => {
       socket.emit('room:list', RoomManager.getRoomList());
@@ -162,34 +117,50 @@ export function setupSocketHandlers(io: IOServer): void {
 
     // Create room (requires auth)
     socket.on('room:create', (config: RoomConfig & { name: string }) => {
-      if (!requireAuth('room:create')) return;
-      const user = getUserById(userId);
-      if (!user) {
+      if (!requireAuth('room:create') || !requireNotDraining()) return;
+      if (!getUserById(userId)) {
         socket.emit('error', 'User not found');
         return;
       }
-      const room = RoomManager.createRoom(config.name, config, socket.id, username, user.chips);
+      const room = RoomManager.createRoom(config.name, config, socket.id, username);
+      try {
+        // Sit-and-Go entrants pay the buy-in into the prize pool; cash players buy their stack
+        if (room.tournament) RoomManager.payBuyIn(room.id, socket.id, userId);
+        else RoomManager.buyIn(room.id, socket.id, userId);
+      } catch (err: any) {
+        RoomManager.deleteRoom(room.id);
+        socket.emit('error', err.message);
+        return;
+      }
+      emitUserUpdated(io, socket.id, userId);
       socket.join(room.id);
       playerRooms.set(socket.id, room.id);
-      socket.emit('room:joined', room);
+      socket.emit('room:joined', getVisibleRoom(room, getViewer(room, socket.id)));
       broadcastRoomList(io);
       console.log(`[Room] Created: "${room.name}" (${room.id}) by ${username}`);
     });
 
     // Join room (requires auth)
     socket.on('room:join', (roomId: string) => {
-      if (!requireAuth('room:join')) return;
-      const user = getUserById(userId);
-      if (!user) {
+      if (!requireAuth('room:join') || !requireNotDraining()) return;
+      if (!getUserById(userId)) {
         socket.emit('error', 'User not found');
         return;
       }
       try {
-        const room = RoomManager.joinRoom(roomId, socket.id, username, user.chips);
+        const room = RoomManager.joinRoom(roomId, socket.id, username);
+        try {
+          if (room.tournament) RoomManager.payBuyIn(room.id, socket.id, userId);
+          else RoomManager.buyIn(room.id, socket.id, userId);
+        } catch (err) {
+          RoomManager.leaveRoom(room.id, socket.id);
+          throw err;
+        }
+        emitUserUpdated(io, socket.id, userId);
         socket.join(room.id);
         playerRooms.set(socket.id, room.id);
-        socket.emit('room:joined', room);
-        io.to(room.id).emit('room:updated', room);
+        socket.emit('room:joined', getVisibleRoom(room, getViewer(room, socket.id)));
+        emitRoomUpdated(io, room);
         broadcastRoomList(io);
         console.log(`[Room] ${username} joined room "${room.name}" (${room.id}) — players: ${room.players.length}`);
       } catch (err: any) {
@@ -204,16 +175,16 @@ export function setupSocketHandlers(io: IOServer): void {
         socket.join(room.id);
         playerRooms.set(socket.id, room.id);
         // Send room info and current game state to the spectator
-        socket.emit('room:spectating', room);
+        socket.emit('room:spectating', getVisibleRoom(room, getViewer(room, socket.id)));
         // Broadcast updated spectator list to the room
-        io.to(room.id).emit('room:updated', room);
+        emitRoomUpdated(io, room);
         console.log(`[Room] ${username} spectating room "${room.name}" (${room.id})${isGuest ? ' [GUEST]' : ''}`);
         // Also send current game state (sanitized — no hole cards visible)
         const controller = gameControllers.get(roomId);
         if (controller) {
-          const spectatorState = controller.getSanitizedStateForPlayer(socket.id);
-          if (spectatorState) {
-            socket.emit('game:state', spectatorState);
+          const currentState = controller.getState();
+          if (currentState) {
+            socket.emit('game:state', getVisibleGameState(currentState, getViewer(room, socket.id)));
           }
         }
       } catch (err: any) {
@@ -223,24 +194,27 @@ export function setupSocketHandlers(io: IOServer): void {
 
     // Spectator clicks "sit down" — register as pending player for next hand (requires auth)
     socket.on('room:sit', () => {
-      if (!requireAuth('room:sit')) return;
+      if (!requireAuth('room:sit') || !requireNotDraining()) return;
       const roomId = playerRooms.get(socket.id);
       if (!roomId) {
         socket.emit('error', 'Not in a room');
         return;
       }
-      const user = getUserById(userId);
-      if (!user) {
+      if (!getUserById(userId)) {
         socket.emit('error', 'User not found');
         return;
       }
       try {
-        const room = RoomManager.sitDown(roomId, socket.id, username, user.chips);
+        const room = RoomManager.sitDown(roomId, socket.id, username, userId);
+        emitUserUpdated(io, socket.id, userId);
         socket.emit('room:seated');
-        io.to(room.id).emit('room:updated', room);
+        emitRoomUpdated(io, room);
         broadcastRoomList(io);
         console.log(`[Room] ${username} sat down in room "${room.name}" (${room.id}) — players: ${room.players.length}, pending: ${room.pendingPlayers?.length ?? 0}`);
 
+        // A table held for lack of players sitting in deals again
+        if (room.status === 'playing') gameControllers.get(roomId)?.dealIfWaiting();
+
         // If the room is waiting (game paused) and there are enough players to resume,
         // merge pending players and auto-start a new game
         if (room.status === 'waiting') {
@@ -253,7 +227,7 @@ export function setupSocketHandlers(io: IOServer): void {
               }
               room.pendingPlayers = [];
             }
-            io.to(room.id).emit('room:updated', room);
+            emitRoomUpdated(io, room);
 
             // Create a fresh game controller and start
             let controller = gameControllers.get(roomId);
@@ -293,16 +267,12 @@ export function setupSocketHandlers(io: IOServer): void {
             });
             gameControllers.set(roomId, controller);
             controller.startGame();
-            io.to(room.id).emit('room:updated', room);
+            emitRoomUpdated(io, room);
             broadcastRoomList(io);
 
-            for (const player of room.players) {
-              if (!player.isAI) {
-                const personalState = controller.getSanitizedStateForPlayer(player.id);
-                if (personalState) {
-                  io.to(player.id).emit('game:state', personalState);
-                }
-              }
+            const startedState = controller.getState();
+            if (startedState) {
+              emitGameStateToRoom(io, room, 'game:state', startedState);
             }
           }
         }
@@ -319,6 +289,10 @@ export function setupSocketHandlers(io: IOServer): void {
         socket.emit('error', 'Not in a room');
         return;
       }
+      if (RoomManager.getRoom(roomId)?.tournament) {
+        socket.emit('error', 'Cannot stand up during a tournament — leave the room to forfeit');
+        return;
+      }
       const controller = gameControllers.get(roomId);
       if (controller) {
         controller.handlePlayerStand(socket.id);
@@ -327,6 +301,62 @@ export function setupSocketHandlers(io: IOServer): void {
       }
     });
 
+    // Cash rooms: buy more chips from the bankroll — added now between hands, else before the next deal
+    socket.on('room:top-up', (amount: number) => {
+      if (!requireAuth('room:top-up')) return;
+      const roomId = playerRooms.get(socket.id);
+      const room = roomId ? RoomManager.getRoom(roomId) : undefined;
+      if (!room) {
+        socket.emit('error', 'Not in a room');
+        return;
+      }
+      try {
+        const chips = RoomManager.payTopUp(room.id, socket.id, amount);
+        const controller = gameControllers.get(room.id);
+        if (controller) {
+          controller.topUp(socket.id, chips);
+        } else {
+          const seat = room.players.find(p => p.id === socket.id) ?? room.pendingPlayers?.find(p => p.id === socket.id);
+          if (seat) seat.chips += chips;
+          emitRoomUpdated(io, room);
+        }
+        emitUserUpdated(io, socket.id, userId);
+        console.log(`[Room] ${username} bought ${chips} chips in room ${room.id}`);
+      } catch (err: any) {
+        socket.emit('error', err.message);
+      }
+    });
+
+    // Call on the time bank for the current decision
+    socket.on('game:time-bank', () => {
+      const roomId = playerRooms.get(socket.id);
+      if (!roomId) return;
+      gameControllers.get(roomId)?.useTimeBank(socket.id);
+    });
+
+    // Sit out — keep the seat but stop playing hands until "I'm back" (requires auth)
+    socket.on('room:sit-out', () => {
+      if (!requireAuth('room:sit-out')) return;
+      const roomId = playerRooms.get(socket.id);
+      const controller = roomId ? gameControllers.get(roomId) : undefined;
+      if (!controller) {
+        socket.emit('error', 'No game in progress');
+        return;
+      }
+      controller.sitOut(socket.id);
+    });
+
+    socket.on('room:sit-in', () => {
+      if (!requireAuth('room:sit-in')) return;
+      const roomId = playerRooms.get(socket.id);
+      const controller = roomId ? gameControllers.get(roomId) : undefined;
+      if (!controller) {
+        socket.emit('error', 'No game in progress');
+        return;
+      }
+      controller.sitIn(socket.id);
+    });
+
     // Leave room
     socket.on('room:leave', () => {
       handleLeaveRoom(io, socket);
@@ -341,7 +371,7 @@ export function setupSocketHandlers(io: IOServer): void {
         return;
       }
       const room = RoomManager.addAIPlayer(roomId, personality, engineType);
-      io.to(room.id).emit('room:updated', room);
+      emitRoomUpdated(io, room);
       broadcastRoomList(io);
     });
 
@@ -355,7 +385,7 @@ export function setupSocketHandlers(io: IOServer): void {
       if (room.ownerId !== socket.id) { socket.emit('error', 'Only the room owner can invite bots'); return; }
       try {
         const updatedRoom = RoomManager.inviteLLMBot(roomId, botId);
-        io.to(roomId).emit('room:updated', updatedRoom);
+        emitRoomUpdated(io, updatedRoom);
         broadcastRoomList(io);
         broadcastLLMBotList(io);
       } catch (err: any) {
@@ -373,7 +403,7 @@ export function setupSocketHandlers(io: IOServer): void {
       if (room.ownerId !== socket.id) { socket.emit('error', 'Only the room owner can remove bots'); return; }
       try {
         const updatedRoom = RoomManager.removeLLMBot(roomId, botId);
-        io.to(roomId).emit('room:updated', updatedRoom);
+        emitRoomUpdated(io, updatedRoom);
         broadcastRoomList(io);
         broadcastLLMBotList(io);
       } catch (err: any) {
@@ -391,7 +421,7 @@ export function setupSocketHandlers(io: IOServer): void {
       if (room.ownerId !== socket.id) { socket.emit('error', 'Only the room owner can invite bots'); return; }
       try {
         const updatedRoom = RoomManager.inviteRuleBot(roomId, botId);
-        io.to(roomId).emit('room:updated', updatedRoom);
+        emitRoomUpdated(io, updatedRoom);
         broadcastRoomList(io);
         broadcastRuleBotList(io);
       } catch (err: any) {
@@ -409,7 +439,7 @@ export function setupSocketHandlers(io: IOServer): void {
       if (room.ownerId !== socket.id) { socket.emit('error', 'Only the room owner can remove bots'); return; }
       try {
         const updatedRoom = RoomManager.removeRuleBot(roomId, botId);
-        io.to(roomId).emit('room:updated', updatedRoom);
+        emitRoomUpdated(io, updatedRoom);
         broadcastRoomList(io);
         broadcastRuleBotList(io);
       } catch (err: any) {
@@ -470,7 +500,7 @@ export function setupSocketHandlers(io: IOServer): void {
       console.log(`[Room] Game started in room "${room.name}" (${room.id}) — ${room.players.length} players`);
 
       // Broadcast room status update so clients navigate to the game page
-      io.to(room.id).emit('room:updated', room);
+      emitRoomUpdated(io, room);
       broadcastRoomList(io);
 
       // Note: personalized game state is already sent via emitGameEvent('game:started')
@@ -478,8 +508,29 @@ export function setupSocketHandlers(io: IOServer): void {
       // and resets isMyTurn to false on the client (causing 2-3 player action freeze).
     };
 
+    // Single-player table against bots (requires auth) — dealt straight away, no lobby wait
+    socket.on('room:single-player', (variant: GameVariant) => {
+      if (!requireAuth('room:single-player') || !requireNotDraining()) return;
+      if (playerRooms.has(socket.id)) { socket.emit('error', 'Already in a room'); return; }
+      if (!getUserById(userId)) { socket.emit('error', 'User not found'); return; }
+      if (!GAME_VARIANTS.includes(variant)) { socket.emit('error', `Unknown variant: ${variant}`); return; }
+      let room: Room;
+      try {
+        room = RoomManager.createSinglePlayerRoom(variant, socket.id, username, userId);
+      } catch (err: any) {
+        socket.emit('error', err.message);
+        return;
+      }
+      emitUserUpdated(io, socket.id, userId);
+      socket.join(room.id);
+      playerRooms.set(socket.id, room.id);
+      doStartGame(room.id);
+      socket.emit('room:joined', getVisibleRoom(room, getViewer(room, socket.id)));
+      console.log(`[Room] Single-player table (${room.id}) opened by ${username}`);
+    });
+
     socket.on('game:start', () => {
-      if (!requireAuth('game:start')) return;
+      if (!requireAuth('game:start') || !requireNotDraining()) return;
       const roomId = playerRooms.get(socket.id);
       if (!roomId) { socket.emit('error', 'Not in a room'); return; }
 
@@ -488,6 +539,7 @@ export function setupSocketHandlers(io: IOServer): void {
 
       // Only the room owner can start the game
       if (room.ownerId !== socket.id) { socket.emit('error', 'Only the room owner can start the game'); return; }
+      if (room.tournament?.status === 'finished') { socket.emit('error', 'Tournament has finished'); return; }
 
       if (room.players.length < MIN_PLAYERS) { socket.emit('error', `Need at least ${MIN_PLAYERS} players`); return; }
 
@@ -505,7 +557,7 @@ export function setupSocketHandlers(io: IOServer): void {
 
     // Owner confirmed topup at game start
     socket.on('game:start-confirmed', () => {
-      if (!requireAuth('game:start-confirmed')) return;
+      if (!requireAuth('game:start-confirmed') || !requireNotDraining()) return;
       const roomId = playerRooms.get(socket.id);
       if (!roomId) { socket.emit('error', 'Not in a room'); return; }
 
@@ -559,21 +611,84 @@ export function setupSocketHandlers(io: IOServer): void {
       const controller = gameControllers.get(roomId);
       if (!controller) return;
 
-      const personalState = controller.getSanitizedStateForPlayer(socket.id);
-      if (personalState) {
-        socket.emit('game:state', personalState);
+      const room = RoomManager.getRoom(roomId);
+      const currentState = controller.getState();
+      if (room && currentState) {
+        socket.emit('game:state', getVisibleGameState(currentState, getViewer(room, socket.id)));
 
         // Re-send your-turn if it's currently this player's turn
         const gs = controller.getState();
         if (gs && gs.phase !== 'showdown' && gs.phase !== 'waiting') {
           const currentPlayer = gs.players[gs.currentPlayerIndex];
-          if (currentPlayer && currentPlayer.id === socket.id && !currentPlayer.isAI) {
-            socket.emit('game:your-turn', { timeLimit: ACTION_TIMEOUT });
+          const clock = gs.turnClock;
+          if (currentPlayer && currentPlayer.id === socket.id && !currentPlayer.isAI && clock) {
+            socket.emit('game:your-turn', { timeLimit: clock.deadline - clock.startedAt, deadline: clock.deadline });
           }
         }
       }
     });
 
+    // Voluntarily show hole cards after the hand is over
+    socket.on('game:show-cards', () => {
+      const roomId = playerRooms.get(socket.id);
+      if (!roomId) return;
+      const controller = gameControllers.get(roomId);
+      if (!controller) return;
+      controller.handleShowCards(socket.id);
+      const state = controller.getState();
+      if (state?.shownPlayerIds?.includes(socket.id)) recordShownCards(state.id, socket.id);
+    });
+
+    // Entropy the player mixes into the next hand's shuffle
+    socket.on('game:client-seed', (seed: string) => {
+      const roomId = playerRooms.get(socket.id);
+      if (!roomId) return;
+      gameControllers.get(roomId)?.setClientSeed(socket.id, seed);
+    });
+
+    // Answer to a run-it-twice offer: how many times to run the board
+    socket.on('game:run-it', (runs: number) => {
+      const roomId = playerRooms.get(socket.id);
+      if (!roomId) return;
+      gameControllers.get(roomId)?.handleRunItVote(socket.id, runs);
+    });
+
+    // Dealer's choice: the button calls the game for their orbit
+    socket.on('game:dealers-choice', (variant: GameVariant) => {
+      const roomId = playerRooms.get(socket.id);
+      if (!roomId) return;
+      gameControllers.get(roomId)?.handleDealersChoice(socket.id, variant);
+    });
+
+    // Multi-table tournaments (registration goes through the REST API)
+    socket.on('tournament:list', () => {
+      socket.emit('tournament:list', getTournamentList());
+    });
+
+    // Go to your table in a running multi-table tournament, e.g. after leaving it or from another tab
+    socket.on('tournament:take-seat', (tournamentId: string) => {
+      if (!requireAuth('tournament:take-seat')) return;
+      const seat = getTournament(tournamentId)?.findSeat(userId);
+      const room = seat && RoomManager.getRoom(seat.roomId);
+      if (!seat || !room) {
+        socket.emit('error', 'You have no seat in this tournament');
+        return;
+      }
+      const currentRoomId = playerRooms.get(socket.id);
+      if (currentRoomId && currentRoomId !== seat.roomId) {
+        socket.emit('error', 'Leave your current room first');
+        return;
+      }
+      // Another tab holding the seat gives it up
+      const previousSocket = seat.playerId !== socket.id ? io.sockets.sockets.get(seat.playerId) : undefined;
+      if (previousSocket) {
+        previousSocket.leave(room.id);
+        previousSocket.emit('room:left');
+      }
+      transferSeat(io, socket, room, seat.playerId, userId);
+      console.log(`[MTT] ${username} took their seat at "${room.name}" (${room.id})`);
+    });
+
     // Chat message
     socket.on('chat:message', (message: string) => {
       const roomId = playerRooms.get(socket.id);
@@ -674,6 +789,168 @@ export function setupSocketHandlers(io: IOServer): void {
   });
 }
 
+/**
+ * Hand a seat to a new socket of the same user — after a reconnect, or when taking a tournament
+ * seat — renaming the player wherever the old socket id is referenced. Returns false if the old
+ * id holds no seat in the room.
+ */
+function transferSeat(io: IOServer, socket: IOSocket, room: Room, oldSocketId: string, userId: string): boolean {
+  const roomId = room.id;
+  const username = (socket as any).data.username;
+  // Replace old socket ID with new socket ID in room players
+  const player = room.players.find(p => p.id === oldSocketId);
+  const pendingPlayer = room.pendingPlayers?.find(p => p.id === oldSocketId);
+  const targetPlayer = player || pendingPlayer;
+  if (!targetPlayer) return false;
+
+  const newSocketId = socket.id;
+  targetPlayer.id = newSocketId;
+  targetPlayer.name = username;
+
+  // Update game state player IDs too
+  const controller = gameControllers.get(roomId);
+  if (controller) {
+    const gameState = controller.getState();
+    if (gameState) {
+      const gp = gameState.players.find(p => p.id === oldSocketId);
+      if (gp) {
+        gp.id = newSocketId;
+      }
+      // Update actedThisRound references
+      if (gameState.actedThisRound) {
+        gameState.actedThisRound = gameState.actedThisRound.map(id => id === oldSocketId ? newSocketId : id);
+      }
+      // Update lastAction reference
+      if (gameState.lastAction && gameState.lastAction.playerId === oldSocketId) {
+        gameState.lastAction.playerId = newSocketId;
+      }
+      if (gameState.turnClock?.playerId === oldSocketId) {
+        gameState.turnClock.playerId = newSocketId;
+      }
+    }
+    // Cancel standing/timeout for reconnected player
+    controller.cancelPlayerStand(newSocketId, oldSocketId);
+    controller.renamePlayer(oldSocketId, newSocketId);
+  }
+  RoomManager.renameTournamentEntry(roomId, oldSocketId, newSocketId);
+  RoomManager.renameCashSeat(roomId, oldSocketId, newSocketId);
+
+  // Update maps
+  playerRooms.delete(oldSocketId);
+  playerRooms.set(newSocketId, roomId);
+  socketUserMap.delete(oldSocketId);
+  socketUserMap.set(newSocketId, userId);
+
+  // Update owner ID if this player was the room owner
+  if (room.ownerId === oldSocketId) {
+    room.ownerId = newSocketId;
+  }
+
+  // Update spectators if needed
+  if (room.spectators) {
+    const spec = room.spectators.find(s => s.id === oldSocketId);
+    if (spec) spec.id = newSocketId;
+  }
+
+  socket.join(roomId);
+  socket.emit('room:joined', getVisibleRoom(room, getViewer(room, socket.id)));
+  emitRoomUpdated(io, room);
+
+  // Send current game state
+  if (controller) {
+    const currentState = controller.getState();
+    if (currentState) {
+      socket.emit('game:state', getVisibleGameState(currentState, getViewer(room, newSocketId)));
+    }
+    // Re-send turn notification if it's this player's turn
+    const gameState = controller.getState();
+    if (gameState) {
+      const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+      const clock = gameState.turnClock;
+      if (currentPlayer && currentPlayer.id === newSocketId && clock) {
+        socket.emit('game:your-turn', { timeLimit: clock.deadline - clock.startedAt, deadline: clock.deadline });
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Keep a seat that survived a restart for its player, as if they had just disconnected: they get
+ * it back by reconnecting within the grace period, or it is cashed out and given up.
+ */
+function holdRestoredSeat(io: IOServer, seat: RestoredSeat): void {
+  disconnectedPlayers.set(seat.userId, {
+    roomId: seat.roomId,
+    socketId: seat.playerId,
+    username: seat.name,
+    disconnectTime: Date.now(),
+  });
+  setTimeout(() => {
+    const info = disconnectedPlayers.get(seat.userId);
+    if (!info || info.socketId !== seat.playerId) return;
+    console.log(`[Restore] ${seat.name} did not come back to room ${seat.roomId}, giving up the seat`);
+    disconnectedPlayers.delete(seat.userId);
+    RoomManager.refundBuyIn(seat.roomId, seat.playerId);
+    const room = RoomManager.leaveRoom(seat.roomId, seat.playerId);
+    if (room) emitRoomUpdated(io, room);
+    broadcastRoomList(io);
+  }, RECONNECT_GRACE_PERIOD);
+}
+
+/** Whether the server is draining for a shutdown (see drainServer) */
+export function isShuttingDown(): boolean {
+  return shutdownDeadline !== null;
+}
+
+/**
+ * Get ready to exit: refuse new rooms and seats, count the clients down to the deadline and let
+ * every table finish the hand it is playing without dealing another. A hand still running at
+ * the deadline is called off and its bets refunded. Resolves once the rooms are saved with no
+ * hand in play; connections are left open so nobody is cashed out on the way down.
+ */
+export function drainServer(io: IOServer, timeLimit: number): Promise<void> {
+  const deadline = Date.now() + timeLimit;
+  shutdownDeadline = deadline;
+  io.emit('server:shutdown', { timeLimit, deadline });
+  suspendTournaments();
+  for (const controller of gameControllers.values()) controller.drain();
+  console.log(`[Shutdown] Draining ${gameControllers.size} tables, deadline in ${timeLimit / 1000}s`);
+
+  return new Promise(resolve => {
+    const poll = setInterval(() => {
+      const playing = [...gameControllers.values()].filter(c => c.isHandInProgress()).length;
+      if (playing > 0 && Date.now() < deadline) return;
+      clearInterval(poll);
+      if (playing > 0) console.log(`[Shutdown] Deadline reached with ${playing} hands in play, refunding them`);
+      for (const [roomId, controller] of gameControllers) {
+        controller.cleanup();
+        const room = RoomManager.getRoom(roomId);
+        if (room) RoomManager.voidUnfinishedHand(room);
+      }
+      gameControllers.clear();
+      // Multi-table tournaments live in memory only: pay them out before anything is saved
+      abandonTournaments();
+      saveRooms();
+      resolve();
+    }, SHUTDOWN_POLL_INTERVAL);
+  });
+}
+
+/** Write the rooms to disk once the current burst of changes is over */
+function queueRoomsSave(): void {
+  if (roomsSaveQueued) return;
+  roomsSaveQueued = true;
+  setImmediate(() => {
+    roomsSaveQueued = false;
+    try {
+      saveRooms();
+    } catch (err) {
+      console.error(`[RoomStore] Save failed: ${(err as Error).message}`);
+    }
+  });
+}
+
 function handleLeaveRoom(io: IOServer, socket: IOSocket): void {
   const roomId = playerRooms.get(socket.id);
   if (!roomId) return;
@@ -686,6 +963,22 @@ function handleLeaveRoom(io: IOServer, socket: IOSocket): void {
   playerRooms.delete(socket.id);
   socket.emit('room:left');
 
+  // A multi-table tournament keeps the seat while its player is away (they can come back with
+  // tournament:take-seat); only the director closes its tables
+  const tournamentTable = RoomManager.getRoom(roomId);
+  if (tournamentTable?.tournamentId) {
+    if (tournamentTable.spectators) {
+      tournamentTable.spectators = tournamentTable.spectators.filter(s => s.id !== socket.id);
+    }
+    emitRoomUpdated(io, tournamentTable);
+    broadcastRoomList(io);
+    return;
+  }
+
+  // A Sit-and-Go seat given up before the start gets its buy-in back
+  const refundedUserId = RoomManager.refundBuyIn(roomId, socket.id);
+  if (refundedUserId) emitUserUpdated(io, socket.id, refundedUserId);
+
   // If a game is in progress, force-fold the leaving player
   const controller = gameControllers.get(roomId);
   if (controller) {
@@ -711,7 +1004,7 @@ function handleLeaveRoom(io: IOServer, socket: IOSocket): void {
       }
       RoomManager.deleteRoom(roomId);
     } else {
-      io.to(room.id).emit('room:updated', room);
+      emitRoomUpdated(io, room);
     }
   } else {
     // Room was deleted by RoomManager
@@ -725,45 +1018,17 @@ function handleLeaveRoom(io: IOServer, socket: IOSocket): void {
 }
 
 function emitGameEvent(io: IOServer, roomId: string, event: string, data: unknown): void {
+  queueRoomsSave();
   const room = RoomManager.getRoom(roomId);
   if (!room) return;
 
   switch (event) {
     case 'game:started':
     case 'game:state': {
-      // Send personalized state to each human player
-      const controller = gameControllers.get(roomId);
-      if (controller) {
-        // Build a set of player IDs for quick lookup
-        const playerIds = new Set(room.players.map(p => p.id));
-
-        // Get all sockets in the room (includes spectators)
-        const socketsInRoom = io.sockets.adapter.rooms.get(roomId);
-        if (socketsInRoom) {
-          for (const socketId of socketsInRoom) {
-            const isPlayer = playerIds.has(socketId);
-            if (isPlayer) {
-              // Active player — send their personalized state (with their own cards)
-              const playerSocket = io.sockets.sockets.get(socketId);
-              const player = room.players.find(p => p.id === socketId);
-              if (playerSocket && player && !player.isAI) {
-                const personalState = controller.getSanitizedStateForPlayer(socketId);
-                if (personalState) {
-                  playerSocket.emit(event as 'game:state', personalState);
-                }
-              }
-            } else {
-              // Spectator — send sanitized state (no hole cards visible)
-              const spectatorSocket = io.sockets.sockets.get(socketId);
-              if (spectatorSocket) {
-                const spectatorState = controller.getSanitizedStateForPlayer(socketId);
-                if (spectatorState) {
-                  spectatorSocket.emit(event as 'game:state', spectatorState);
-                }
-              }
-            }
-          }
-        }
+      // Send personalized state to every socket in the room (players and spectators)
+      const state = gameControllers.get(roomId)?.getState();
+      if (state) {
+        emitGameStateToRoom(io, room, event, state);
       }
       break;
     }
@@ -772,29 +1037,21 @@ function emitGameEvent(io: IOServer, roomId: string, event: string, data: unknow
       break;
     case 'game:ended': {
       // Send personalized showdown state to each socket
-      // (early wins hide other players' cards; real showdowns reveal all)
-      const controller2 = gameControllers.get(roomId);
-      if (controller2) {
-        const gameState = controller2.getSanitizedStateForShowdown(room.players[0]?.id || '');
-        if (gameState?.winners) {
-          settleChips(roomId, gameState);
-        }
-
-        const playerIds2 = new Set(room.players.map(p => p.id));
-        const socketsInRoom2 = io.sockets.adapter.rooms.get(roomId);
-        if (socketsInRoom2) {
-          for (const socketId of socketsInRoom2) {
-            const sock = io.sockets.sockets.get(socketId);
-            if (!sock) continue;
-            const isPlayer2 = playerIds2.has(socketId);
-            const player2 = room.players.find(p => p.id === socketId);
-            if (isPlayer2 && player2 && player2.isAI) continue; // skip AI sockets
-            const personalState = controller2.getSanitizedStateForShowdown(socketId);
-            if (personalState) {
-              sock.emit('game:ended', personalState);
-            }
-          }
+      // (early wins hide other players' cards; real showdowns reveal live hands)
+      const controller = gameControllers.get(roomId);
+      const endedState = controller?.getState();
+      const handRecord = controller?.getHandRecord();
+      if (endedState && handRecord) {
+        saveHand(createHandHistory(room, handRecord, endedState, player => (
+          (player.isLLMBot || player.isRuleBot) ? player.id : socketUserMap.get(player.id) ?? RoomManager.getSeatUserId(roomId, player.id)
+        )));
+      }
+      if (endedState) {
+        // Bankrolls only move on buy-in and cash-out (or a Sit-and-Go payout); hands just count in stats
+        if (endedState.winners && !room.config.tournament) {
+          recordHandStats(roomId, endedState);
         }
+        emitGameStateToRoom(io, room, 'game:ended', endedState);
       }
       // Send updated user info to each human player
       for (const player of room.players) {
@@ -817,20 +1074,59 @@ function emitGameEvent(io: IOServer, roomId: string, event: string, data: unknow
       break;
     }
     case 'game:your-turn': {
-      const turnData = data as { playerId: string; timeLimit: number };
-      io.to(turnData.playerId).emit('game:your-turn', { timeLimit: turnData.timeLimit });
+      const turnData = data as { playerId: string; timeLimit: number; deadline: number };
+      io.to(turnData.playerId).emit('game:your-turn', { timeLimit: turnData.timeLimit, deadline: turnData.deadline });
       break;
     }
+    case 'game:run-it-offer': {
+      const offer = data as { playerIds: string[]; maxRuns: number; timeLimit: number };
+      for (const playerId of offer.playerIds) {
+        io.to(playerId).emit('game:run-it-offer', { maxRuns: offer.maxRuns, timeLimit: offer.timeLimit });
+      }
+      break;
+    }
+    case 'game:dealers-choice': {
+      const call = data as { playerId: string; options: GameVariant[]; timeLimit: number };
+      io.to(call.playerId).emit('game:dealers-choice', { options: call.options, timeLimit: call.timeLimit });
+      break;
+    }
+    case 'tournament:level':
+      io.to(roomId).emit('tournament:level', data as { level: number; blinds: BlindLevel });
+      emitRoomUpdated(io, room);
+      broadcastRoomList(io);
+      break;
+    case 'tournament:eliminated': {
+      const finish = data as TournamentFinish;
+      payTournamentPrize(io, room, finish);
+      io.to(roomId).emit('tournament:eliminated', finish);
+      emitRoomUpdated(io, room);
+      broadcastRoomList(io);
+      break;
+    }
+    case 'tournament:finished':
+      io.to(roomId).emit('tournament:finished', data as TournamentFinish[]);
+      broadcastRoomList(io);
+      break;
+    case 'tournament:hand-for-hand':
+      io.to(roomId).emit('tournament:hand-for-hand', data as { active: boolean });
+      emitRoomUpdated(io, room);
+      break;
     case 'room:updated':
-      io.to(roomId).emit('room:updated', data as any);
+      emitRoomUpdated(io, data as Room);
+      break;
+    case 'room:cashed-out': {
+      const { playerId, userId } = data as { playerId: string; userId: string };
+      emitUserUpdated(io, playerId, userId);
       break;
+    }
     case 'error':
       io.to(roomId).emit('error', data as string);
       break;
   }
 }
 
-function settleChips(roomId: string, gameState: any): void {
+/** Count a finished cash hand in each seated player's win/earnings stats */
+function recordHandStats(roomId: string, gameState: any): void {
   const room = RoomManager.getRoom(roomId);
   if (!room) return;
 
@@ -852,12 +1148,117 @@ function settleChips(roomId: string, gameState: any): void {
     const totalBet = playerInGame?.totalBet || 0;
     const net = winAmount - totalBet;
 
-    updateUserChips(uid, net);
     updateUserStats(uid, winAmount > 0, net);
   }
 }
 
+/** Credit a Sit-and-Go finish to the entrant's bankroll and record it in their stats */
+function payTournamentPrize(io: IOServer, room: Room, finish: TournamentFinish): void {
+  const uid = RoomManager.getTournamentUserId(room.id, finish.playerId);
+  if (!uid) return; // anonymous AI seats play for free and are not paid
+  if (finish.prize > 0) updateUserChips(uid, finish.prize);
+  updateUserStats(uid, finish.place === 1, finish.prize - room.config.tournament!.buyIn);
+  emitUserUpdated(io, finish.playerId, uid);
+}
+
+/** Push a user's bankroll and stats to their socket */
+function emitUserUpdated(io: IOServer, socketId: string, userId: string): void {
+  const user = getUserById(userId);
+  if (!user) return;
+  io.to(socketId).emit('user:updated', {
+    id: user.id,
+    username: user.username,
+    chips: user.chips,
+    stats: user.stats,
+    createdAt: user.createdAt,
+  });
+}
+
+/** Send a room snapshot to every socket in it, masked for each viewer */
+function emitRoomUpdated(io: IOServer, room: Room): void {
+  queueRoomsSave();
+  const socketsInRoom = io.sockets.adapter.rooms.get(room.id);
+  if (!socketsInRoom) return;
+  for (const socketId of socketsInRoom) {
+    io.sockets.sockets.get(socketId)?.emit('room:updated', getVisibleRoom(room, getViewer(room, socketId)));
+  }
+}
+
+/** Send a game state to every socket in the room, masked for each viewer */
+function emitGameStateToRoom(io: IOServer, room: Room, event: 'game:started' | 'game:state' | 'game:ended', state: GameState): void {
+  const socketsInRoom = io.sockets.adapter.rooms.get(room.id);
+  if (!socketsInRoom) return;
+  for (const socketId of socketsInRoom) {
+    io.sockets.sockets.get(socketId)?.emit(event, getVisibleGameState(state, getViewer(room, socketId)));
+  }
+}
+
+/** Socket-side plumbing for multi-table tournament directors */
+function createTournamentHost(io: IOServer): TournamentHost {
+  return {
+    startTable(room, director) {
+      const controller = new GameController(room, (rId, event, data) => {
+        emitGameEvent(io, rId, event, data);
+      });
+      controller.setTournamentDirector(director);
+      gameControllers.set(room.id, controller);
+      // A table opened while the server drains is never dealt; its tournament is settled on exit
+      if (shutdownDeadline !== null) {
+        controller.drain();
+        return controller;
+      }
+      controller.startGame();
+      console.log(`[MTT] Table "${room.name}" (${room.id}) started — ${room.players.length} players`);
+      broadcastRoomList(io);
+      return controller;
+    },
+    seatPlayer(playerId, room, fromRoomId) {
+      const socket = io.sockets.sockets.get(playerId);
+      if (!socket) return;
+      if (fromRoomId) {
+        socket.leave(fromRoomId);
+        socket.emit('tournament:moved', { tournamentId: room.tournamentId!, roomId: room.id });
+      }
+      socket.join(room.id);
+      playerRooms.set(playerId, room.id);
+      socket.emit('room:joined', getVisibleRoom(room, getViewer(room, playerId)));
+    },
+    emitToTable(roomId, event, data) {
+      emitGameEvent(io, roomId, event, data);
+    },
+    closeTable(roomId) {
+      gameControllers.get(roomId)?.cleanup();
+      gameControllers.delete(roomId);
+      for (const socketId of [...(io.sockets.adapter.rooms.get(roomId) ?? [])]) {
+        const socket = io.sockets.sockets.get(socketId);
+        socket?.leave(roomId);
+        socket?.emit('room:left');
+        playerRooms.delete(socketId);
+      }
+      RoomManager.deleteRoom(roomId);
+      broadcastRoomList(io);
+    },
+    findSocket(userId) {
+      for (const [socketId, uid] of socketUserMap) {
+        // Registrants busy in another room are seated in absentia and can take the seat later
+        if (uid === userId && !playerRooms.has(socketId)) return socketId;
+      }
+      return undefined;
+    },
+    tournamentUpdated(tournament) {
+      queueRoomsSave();
+      io.emit('tournament:updated', tournament);
+    },
+    userUpdated(userId) {
+      for (const [socketId, uid] of socketUserMap) {
+        if (uid === userId) emitUserUpdated(io, socketId, userId);
+      }
+    },
+  };
+}
+
 function broadcastRoomList(io: IOServer): void {
+  queueRoomsSave();
   io.emit('room:list', RoomManager.getRoomList());
 }
 
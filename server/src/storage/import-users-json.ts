@@ -0,0 +1,35 @@
+import fs from 'fs';
+import { StoredUser, UserStorage } from './user-storage';
+import { migrateUsers } from './migrations';
+
+/**
+ * One-time move off the old users.json: copy its accounts into the store in a single transaction,
+ * then rename the file so it is never imported again (it stays next to the store as a backup).
+ * Accounts the store already has — from an import cut short before the rename — are left alone.
+ * Returns how many accounts were imported.
+ */
+export function importUsersJson(storage: UserStorage, file: string): number {
+  if (!fs.existsSync(file)) return 0;
+
+  // A file that cannot be read stops the server rather than starting it without those accounts
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, StoredUser>;
+  const accounts = migrateUsers(Object.values(data), 0);
+
+  const imported = storage.transaction(tx => {
+    let count = 0;
+    for (const user of accounts) {
+      if (tx.get(user.id)) continue;
+      if (tx.findByUsername(user.username)) {
+        console.warn(`[UserStore] Skipped importing ${user.id}: username "${user.username}" is already taken`);
+        continue;
+      }
+      tx.put(user);
+      count++;
+    }
+    return count;
+  });
+
+  fs.renameSync(file, `${file}.imported`);
+  console.log(`[UserStore] Imported ${imported} accounts from ${file}`);
+  return imported;
+}
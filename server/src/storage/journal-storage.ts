@@ -0,0 +1,236 @@
+import fs from 'fs';
+import { StoredUser, UserStorage, UserTransaction } from './user-storage';
+import { SCHEMA_VERSION, migrateUsers } from './migrations';
+
+/** Committed transactions the journal holds before they are folded into the snapshot */
+const CHECKPOINT_EVERY = 1000;
+
+interface Snapshot {
+  schemaVersion: number;
+  /** Last journal entry folded in; entries up to it are skipped if the journal is replayed */
+  seq: number;
+  savedAt: number;
+  users: StoredUser[];
+}
+
+/** One committed transaction: the whole new record of every account it wrote */
+interface JournalEntry {
+  seq: number;
+  users: StoredUser[];
+}
+
+function clone(user: StoredUser): StoredUser {
+  return JSON.parse(JSON.stringify(user)) as StoredUser;
+}
+
+/** Account ids ordered by stack, richest first (ties by id, so the order is stable) */
+class ChipsIndex {
+  private entries: { id: string; chips: number }[] = [];
+
+  /** Where (chips, id) sits, or would be inserted */
+  private position(id: string, chips: number): number {
+    let lo = 0;
+    let hi = this.entries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      const e = this.entries[mid];
+      if (e.chips > chips || (e.chips === chips && e.id < id)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  insert(id: string, chips: number): void {
+    this.entries.splice(this.position(id, chips), 0, { id, chips });
+  }
+
+  remove(id: string, chips: number): void {
+    const i = this.position(id, chips);
+    if (this.entries[i]?.id === id) this.entries.splice(i, 1);
+  }
+
+  top(limit: number): string[] {
+    return this.entries.slice(0, limit).map(e => e.id);
+  }
+}
+
+/**
+ * Accounts kept in memory and made durable with a snapshot plus a write-ahead journal. A commit
+ * appends one line to the journal and fsyncs it before the change is applied, so a crash keeps
+ * every committed transaction and loses at most the one being written — a torn last line, which
+ * is dropped on the next start. Opening replays the journal over the snapshot, runs any pending
+ * schema migrations and checkpoints; the snapshot itself is only ever replaced by a rename.
+ */
+export class JournalUserStorage implements UserStorage {
+  private snapshotFile: string;
+  private journalFile: string;
+  private users = new Map<string, StoredUser>();
+  /** Lower-cased username → account id */
+  private byUsername = new Map<string, string>();
+  private byChips = new ChipsIndex();
+  private seq = 0;
+  private journalEntries = 0;
+  private journalFd: number | null = null;
+  private inTransaction = false;
+
+  constructor(snapshotFile: string, journalFile: string) {
+    this.snapshotFile = snapshotFile;
+    this.journalFile = journalFile;
+    this.open();
+  }
+
+  get(id: string): StoredUser | undefined {
+    const user = this.users.get(id);
+    return user && clone(user);
+  }
+
+  findByUsername(username: string): StoredUser | undefined {
+    const id = this.byUsername.get(username.toLowerCase());
+    return id ? this.get(id) : undefined;
+  }
+
+  all(): StoredUser[] {
+    return Array.from(this.users.values(), clone);
+  }
+
+  topByChips(limit: number): StoredUser[] {
+    return this.byChips.top(limit).map(id => clone(this.users.get(id)!));
+  }
+
+  transaction<T>(fn: (tx: UserTransaction) => T): T {
+    if (this.inTransaction) throw new Error('User store transactions cannot be nested');
+    const writes = new Map<string, StoredUser>();
+    const current = (id: string) => writes.get(id) ?? this.users.get(id);
+    const tx: UserTransaction = {
+      get: id => {
+        const user = current(id);
+        return user && clone(user);
+      },
+      findByUsername: username => {
+        const name = username.toLowerCase();
+        for (const user of writes.values()) {
+          if (user.username.toLowerCase() === name) return clone(user);
+        }
+        const id = this.byUsername.get(name);
+        const user = id ? current(id) : undefined;
+        return user && user.username.toLowerCase() === name ? clone(user) : undefined;
+      },
+      put: user => {
+        const owner = tx.findByUsername(user.username);
+        if (owner && owner.id !== user.id) throw new Error(`Username "${user.username}" is taken`);
+        writes.set(user.id, clone(user));
+      },
+    };
+
+    this.inTransaction = true;
+    let result: T;
+    try {
+      result = fn(tx);
+    } finally {
+      this.inTransaction = false;
+    }
+    if (writes.size > 0) this.commit([...writes.values()]);
+    return result;
+  }
+
+  checkpoint(): void {
+    const snapshot: Snapshot = {
+      schemaVersion: SCHEMA_VERSION,
+      seq: this.seq,
+      savedAt: Date.now(),
+      users: [...this.users.values()],
+    };
+    const tmp = `${this.snapshotFile}.tmp`;
+    const fd = fs.openSync(tmp, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmp, this.snapshotFile);
+
+    // Everything in the journal is in the snapshot now; start it afresh
+    if (this.journalFd !== null) fs.closeSync(this.journalFd);
+    this.journalFd = fs.openSync(this.journalFile, 'w');
+    this.journalEntries = 0;
+  }
+
+  close(): void {
+    if (this.journalFd === null) return;
+    fs.closeSync(this.journalFd);
+    this.journalFd = null;
+  }
+
+  /** Make the transaction durable, then apply it */
+  private commit(users: StoredUser[]): void {
+    if (this.journalFd === null) throw new Error('User store is closed');
+    const entry: JournalEntry = { seq: this.seq + 1, users };
+    fs.writeSync(this.journalFd, `${JSON.stringify(entry)}\n`);
+    fs.fsyncSync(this.journalFd);
+    this.seq = entry.seq;
+    for (const user of users) this.apply(user);
+    if (++this.journalEntries >= CHECKPOINT_EVERY) this.checkpoint();
+  }
+
+  /** Write one account into memory and the indices */
+  private apply(user: StoredUser): void {
+    const previous = this.users.get(user.id);
+    if (previous) {
+      this.byUsername.delete(previous.username.toLowerCase());
+      this.byChips.remove(previous.id, previous.chips);
+    }
+    this.users.set(user.id, user);
+    this.byUsername.set(user.username.toLowerCase(), user.id);
+    this.byChips.insert(user.id, user.chips);
+  }
+
+  private open(): void {
+    let schemaVersion = SCHEMA_VERSION;
+    let users = new Map<string, StoredUser>();
+    if (fs.existsSync(this.snapshotFile)) {
+      // Written by rename, so an unreadable snapshot was damaged from outside: refuse to start on it
+      const snapshot = JSON.parse(fs.readFileSync(this.snapshotFile, 'utf-8')) as Snapshot;
+      schemaVersion = snapshot.schemaVersion;
+      this.seq = snapshot.seq;
+      users = new Map(snapshot.users.map(u => [u.id, u]));
+    }
+
+    // Entries were written at the snapshot's schema version, so they are replayed before migrating
+    const replayed = this.replayJournal(users);
+    const migrated = migrateUsers([...users.values()], schemaVersion);
+    for (const user of migrated) this.apply(user);
+    if (replayed > 0) console.log(`[UserStore] Replayed ${replayed} journal entries`);
+
+    this.checkpoint();
+  }
+
+  /** Apply the journal's committed entries to `users`; returns how many there were */
+  private replayJournal(users: Map<string, StoredUser>): number {
+    if (!fs.existsSync(this.journalFile)) return 0;
+    const lines = fs.readFileSync(this.journalFile, 'utf-8').split('\n');
+    let replayed = 0;
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(lines[i]) as JournalEntry;
+      } catch {
+        const last = lines.slice(i + 1).every(l => !l.trim());
+        if (last) {
+          console.warn('[UserStore] Dropped a journal entry cut short by a crash mid-write');
+        } else {
+          const kept = `${this.journalFile}.corrupt-${Date.now()}`;
+          fs.copyFileSync(this.journalFile, kept);
+          console.error(`[UserStore] Journal line ${i + 1} is unreadable; replayed up to it and kept the journal as ${kept}`);
+        }
+        break;
+      }
+      if (entry.seq <= this.seq) continue;
+      for (const user of entry.users) users.set(user.id, user);
+      this.seq = entry.seq;
+      replayed++;
+    }
+    return replayed;
+  }
+}
@@ -0,0 +1,46 @@
+import { StoredUser } from './user-storage';
+
+/**
+ * One step of the account schema. Steps run in order, once each: the snapshot records the version
+ * it was written at, and opening it runs every later step over all accounts before anything else
+ * reads them. Never edit a step that has shipped — add a new one.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  up(user: StoredUser): StoredUser;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Accounts carried over from users.json: every record has a stack, stats and a creation time',
+    up: user => ({
+      ...user,
+      chips: Number.isFinite(user.chips) ? Math.max(0, Math.floor(user.chips)) : 0,
+      stats: {
+        gamesPlayed: user.stats?.gamesPlayed ?? 0,
+        gamesWon: user.stats?.gamesWon ?? 0,
+        totalEarnings: user.stats?.totalEarnings ?? 0,
+      },
+      createdAt: user.createdAt ?? 0,
+      passwordHash: user.passwordHash ?? '',
+    }),
+  },
+];
+
+/** Version a store is at once every migration has run */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Bring accounts written at `fromVersion` up to SCHEMA_VERSION */
+export function migrateUsers(users: StoredUser[], fromVersion: number): StoredUser[] {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`User store is at schema version ${fromVersion}, newer than this server's ${SCHEMA_VERSION}`);
+  }
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  for (const migration of pending) {
+    users = users.map(migration.up);
+    console.log(`[UserStore] Migrated ${users.length} accounts to schema v${migration.version}: ${migration.description}`);
+  }
+  return users;
+}
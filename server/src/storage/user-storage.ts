@@ -0,0 +1,31 @@
+import { UserProfile } from '@texas-agent/shared';
+
+/** An account as it is stored: the profile plus what must never leave the server */
+export interface StoredUser extends UserProfile {
+  passwordHash: string;
+}
+
+/**
+ * Reads and writes within one transaction. Records handed out are copies: change them and put()
+ * them back. Nothing is visible to other readers, or written to disk, until the transaction commits.
+ */
+export interface UserTransaction {
+  get(id: string): StoredUser | undefined;
+  findByUsername(username: string): StoredUser | undefined;
+  put(user: StoredUser): void;
+}
+
+/** Where accounts live. Every write goes through a transaction, which is saved whole or not at all */
+export interface UserStorage {
+  get(id: string): StoredUser | undefined;
+  /** Case-insensitive, through the username index */
+  findByUsername(username: string): StoredUser | undefined;
+  all(): StoredUser[];
+  /** Richest accounts first, through the chips index */
+  topByChips(limit: number): StoredUser[];
+  /** Run `fn` and commit its writes atomically; if it throws, none of them happen */
+  transaction<T>(fn: (tx: UserTransaction) => T): T;
+  /** Fold everything committed so far into the snapshot, so the next start has no journal to replay */
+  checkpoint(): void;
+  close(): void;
+}
@@ -0,0 +1,527 @@
+import {
+  MultiTableTournament, MultiTableTournamentConfig, MultiTableTable, Player, Room, TournamentStatus, AIPersonality,
+  DEFAULT_ROOM_CONFIG, DEFAULT_TOURNAMENT_CONFIG, MAX_PLAYERS, MIN_PLAYERS, MTT_MAX_ENTRANTS, MTT_MAX_START_DELAY,
+  generateId, normalizeRoomConfig, createTournamentStatus, startBlindLevel, recordFinish, getPaidPlaces, shuffle, Rng,
+} from '@texas-agent/shared';
+import { GameController, TableDirector } from './game-controller';
+import * as RoomManager from './room-manager';
+import { getRandomAIName } from './ai/rule-based/personalities';
+import { getUserById, updateUserChips, debitUserChips } from './user-store';
+
+/**
+ * Multi-table tournaments. A director seats its entrants at several GameController tables,
+ * runs one blind clock for all of them, moves players so no table has two more than another,
+ * breaks tables as the field shrinks and plays hand-for-hand on the bubble.
+ */
+
+/** What a director needs from the socket layer */
+export interface TournamentHost {
+  /** Start dealing at a freshly seated table */
+  startTable(room: Room, director: TableDirector): GameController;
+  /** Bring a seated player's socket (if connected) to `room`, out of `fromRoomId` */
+  seatPlayer(playerId: string, room: Room, fromRoomId?: string): void;
+  /** Send a table event the same way the table's own controller does */
+  emitToTable(roomId: string, event: string, data: unknown): void;
+  /** Stop a table and send whoever is still watching back to the lobby */
+  closeTable(roomId: string): void;
+  /** Socket of an online user who is not in a room, to seat them at the start */
+  findSocket(userId: string): string | undefined;
+  tournamentUpdated(tournament: MultiTableTournament): void;
+  /** A bankroll changed outside a request from that user (refund on cancel) */
+  userUpdated(userId: string): void;
+}
+
+const MAX_TOURNAMENTS = 20;
+/** How long finished tables stay open so players can see the final standings */
+const TABLE_CLOSE_DELAY = 60_000;
+const AI_PERSONALITIES: AIPersonality[] = ['balanced', 'aggressive', 'conservative'];
+
+const tournaments = new Map<string, TournamentDirector>();
+let host: TournamentHost | null = null;
+
+type Bust = { player: Player; startChips: number; roomId: string };
+
+/** What an unfinished tournament owes its entrants if it is called off now */
+export interface TournamentSettlement {
+  tournamentId: string;
+  name: string;
+  payouts: { userId: string; amount: number }[];
+}
+
+export class TournamentDirector implements TableDirector {
+  readonly id = generateId();
+  private config: MultiTableTournamentConfig;
+  private status: TournamentStatus;
+  private createdBy: string;
+  private cancelled = false;
+  /** Registered user id → username */
+  private registrations: Map<string, string> = new Map();
+  /** Table room id → its controller */
+  private tables: Map<string, GameController> = new Map();
+  private tablesOpened = 0;
+  /** Tables that finished a hand and are waiting for the director to let them deal */
+  private waiting: Set<string> = new Set();
+  /** Players out since eliminations were last placed (a whole round when hand-for-hand) */
+  private busts: Bust[] = [];
+  private levelTimer: ReturnType<typeof setTimeout> | null = null;
+  private startTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Server shutting down: the clocks are stopped and no table opens */
+  private suspended = false;
+  /** Draws the seats at the start */
+  private rng: Rng;
+
+  constructor(config: MultiTableTournamentConfig, createdBy: string, rng: Rng = Math.random) {
+    this.config = config;
+    this.createdBy = createdBy;
+    this.rng = rng;
+    this.status = createTournamentStatus(config.table);
+    this.startTimer = setTimeout(() => this.start(), Math.max(0, config.startsAt - Date.now()));
+  }
+
+  get isFinished(): boolean {
+    return this.status.status === 'finished';
+  }
+
+  /** Take the buy-in from the user's bankroll and reserve them a seat */
+  register(userId: string): void {
+    if (this.status.status !== 'registering') throw new Error('Tournament registration is closed');
+    if (this.registrations.has(userId)) throw new Error('Already registered');
+    if (this.registrations.size + this.config.aiEntrants >= this.config.maxEntrants) throw new Error('Tournament is full');
+    const buyIn = this.config.table.tournament!.buyIn;
+    const user = getUserById(userId);
+    if (!user || !debitUserChips(userId, buyIn)) throw new Error(`Not enough chips for the ${buyIn} buy-in`);
+    this.status.prizePool += buyIn;
+    this.registrations.set(userId, user.username);
+    this.changed();
+  }
+
+  /** Give the buy-in back; only possible before the start */
+  unregister(userId: string): void {
+    if (this.status.status !== 'registering') throw new Error('Tournament registration is closed');
+    if (!this.registrations.delete(userId)) throw new Error('Not registered');
+    updateUserChips(userId, this.config.table.tournament!.buyIn);
+    this.status.prizePool -= this.config.table.tournament!.buyIn;
+    this.changed();
+  }
+
+  /** Table and seat of a user who is still in the tournament */
+  findSeat(userId: string): { roomId: string; playerId: string } | undefined {
+    for (const roomId of this.tables.keys()) {
+      const playerId = RoomManager.findTournamentSeat(roomId, userId);
+      const room = RoomManager.getRoom(roomId);
+      if (playerId && room && [...room.players, ...(room.pendingPlayers ?? [])].some(p => p.id === playerId && p.chips > 0)) {
+        return { roomId, playerId };
+      }
+    }
+    return undefined;
+  }
+
+  onHandFinished(roomId: string, busted: { player: Player; startChips: number }[]): void {
+    if (this.status.status !== 'running') return;
+    this.waiting.add(roomId);
+    // Shutting down: the finished hand still places its busts, but nobody is moved or dealt
+    if (this.suspended) {
+      this.placeBusts();
+      this.changed();
+      return;
+    }
+    this.busts.push(...busted.map(b => ({ ...b, roomId })));
+    // Hand-for-hand: nobody is placed and nobody deals until every table has finished the hand
+    if (this.status.handForHand && this.waiting.size < this.tables.size) return;
+
+    this.placeBusts();
+    const alive = this.alivePlayers();
+    // Over when one stack is left — or when only bots are, in which case chip counts decide
+    if (alive.length <= 1 || alive.every(({ player }) => player.isAI)) {
+      this.finish(alive);
+      return;
+    }
+
+    this.breakTables(alive.length);
+    this.balanceTables();
+    this.updateHandForHand();
+    if (!this.status.handForHand || this.waiting.size === this.tables.size) {
+      // A table left with one player sits out until balancing brings it another
+      for (const id of [...this.waiting]) {
+        if (this.seatedCount(id) < MIN_PLAYERS) continue;
+        this.waiting.delete(id);
+        this.tables.get(id)?.resumeDealing();
+      }
+    }
+    this.changed();
+  }
+
+  /** Server shutting down: stop the start and level clocks; tables finish their hands but deal no more */
+  suspend(): void {
+    this.suspended = true;
+    if (this.startTimer) clearTimeout(this.startTimer);
+    if (this.levelTimer) clearTimeout(this.levelTimer);
+    this.startTimer = null;
+    this.levelTimer = null;
+  }
+
+  /**
+   * What the entrants get if the tournament is called off now. Before the start everyone gets
+   * their buy-in back; once running, what is left of the prize pool is chopped by stack among the
+   * players still in (a stack in an unfinished hand counts as it was before the hand). Anonymous
+   * AI entrants play for free and, as with prizes, their share is not paid.
+   */
+  getSettlement(): TournamentSettlement | undefined {
+    if (this.status.status === 'finished') return undefined;
+    const payouts: TournamentSettlement['payouts'] = [];
+    if (this.status.status === 'registering') {
+      for (const userId of this.registrations.keys()) payouts.push({ userId, amount: this.config.table.tournament!.buyIn });
+    } else {
+      const stacks: { userId?: string; chips: number }[] = [];
+      for (const roomId of this.tables.keys()) {
+        const room = RoomManager.getRoom(roomId);
+        if (!room) continue;
+        const state = room.gameState && RoomManager.isHandUnfinished(room.gameState) ? room.gameState : undefined;
+        for (const player of [...room.players, ...(room.pendingPlayers ?? [])]) {
+          const inHand = state?.players.find(p => p.id === player.id);
+          const chips = inHand ? inHand.chips + inHand.totalBet : player.chips;
+          if (chips > 0) stacks.push({ userId: RoomManager.getTournamentUserId(roomId, player.id), chips });
+        }
+      }
+      const paid = this.status.finishes.reduce((sum, f) => sum + f.prize, 0);
+      const pool = this.status.prizePool - paid;
+      const total = stacks.reduce((sum, s) => sum + s.chips, 0);
+      for (const { userId, chips } of stacks) {
+        const amount = total > 0 ? Math.floor((pool * chips) / total) : 0;
+        if (userId && amount > 0) payouts.push({ userId, amount });
+      }
+    }
+    return { tournamentId: this.id, name: this.config.name, payouts };
+  }
+
+  /** Server shutting down and the tournament cannot outlive it: pay out its settlement and stop its tables */
+  abandon(): void {
+    if (this.status.status === 'running') this.placeBusts();
+    const settlement = this.getSettlement();
+    if (!settlement) return;
+    this.suspend();
+    payTournamentSettlement(settlement);
+    for (const controller of this.tables.values()) controller.cleanup();
+    this.waiting.clear();
+    this.status.status = 'finished';
+    this.status.handForHand = false;
+    this.cancelled = true;
+    console.log(`[MTT] "${this.config.name}" called off for shutdown: paid ${settlement.payouts.length} entrants`);
+    this.changed();
+  }
+
+  toPublic(): MultiTableTournament {
+    const tables: MultiTableTable[] = [];
+    for (const roomId of this.tables.keys()) {
+      const room = RoomManager.getRoom(roomId);
+      if (!room) continue;
+      tables.push({
+        roomId,
+        name: room.name,
+        players: [...room.players, ...(room.pendingPlayers ?? [])]
+          .filter(p => p.chips > 0)
+          .map(p => ({ id: p.id, name: p.name, chips: p.chips, isAI: p.isAI })),
+      });
+    }
+    const entrants = this.status.status === 'registering'
+      ? this.registrations.size + this.config.aiEntrants
+      : this.status.entrants;
+    return {
+      id: this.id,
+      config: this.config,
+      status: this.status,
+      registered: [...this.registrations.values()],
+      tables,
+      standings: tables
+        .flatMap(t => t.players.map(p => ({ name: p.name, chips: p.chips, roomId: t.roomId, isAI: p.isAI })))
+        .sort((a, b) => b.chips - a.chips),
+      paidPlaces: getPaidPlaces(this.config.table.tournament!.payouts, entrants),
+      createdBy: this.createdBy,
+      ...(this.cancelled ? { cancelled: true } : {}),
+    };
+  }
+
+  /** Close registration, draw seats and deal at every table */
+  private start(): void {
+    this.startTimer = null;
+    if (this.status.status !== 'registering' || this.suspended) return;
+    const entrants = this.registrations.size + this.config.aiEntrants;
+    if (this.registrations.size === 0 || entrants < this.config.minEntrants) {
+      this.cancel();
+      return;
+    }
+
+    const seats: RoomManager.TournamentSeat[] = [...this.registrations].map(([userId, name]) => ({
+      id: host!.findSocket(userId) ?? `seat-${userId}`,
+      name,
+      userId,
+    }));
+    const names = new Set(seats.map(seat => seat.name));
+    for (let i = 0; i < this.config.aiEntrants; i++) {
+      const personality = AI_PERSONALITIES[i % AI_PERSONALITIES.length];
+      // The name pool is small; number repeats so standings stay unambiguous
+      const base = getRandomAIName(personality);
+      let name = base;
+      for (let n = 2; names.has(name); n++) name = `${base} ${n}`;
+      names.add(name);
+      seats.push({ id: `ai-${generateId()}`, name, aiPersonality: personality });
+    }
+
+    this.status.status = 'running';
+    this.status.entrants = entrants;
+    this.status.remaining = entrants;
+    startBlindLevel(this.status, this.config.table, 0);
+    this.scheduleLevel();
+
+    const tableCount = Math.ceil(entrants / this.config.tableSize);
+    const groups: RoomManager.TournamentSeat[][] = Array.from({ length: tableCount }, () => []);
+    // Random seat draw
+    shuffle(seats, this.rng).forEach((seat, i) => groups[i % tableCount].push(seat));
+    this.updateHandForHand(tableCount);
+    for (const group of groups) this.openTable(group);
+    console.log(`[MTT] "${this.config.name}" started: ${entrants} entrants at ${tableCount} tables, prize pool ${this.status.prizePool}`);
+    this.changed();
+  }
+
+  private openTable(seats: RoomManager.TournamentSeat[]): void {
+    const name = `${this.config.name} #${++this.tablesOpened}`;
+    const room = RoomManager.createTournamentTable(this.id, name, this.config.table, this.status, seats);
+    this.tables.set(room.id, host!.startTable(room, this));
+    for (const seat of seats) {
+      if (seat.userId) host!.seatPlayer(seat.id, room);
+    }
+  }
+
+  /** Not enough entrants at the start time: refund everyone */
+  private cancel(): void {
+    const buyIn = this.config.table.tournament!.buyIn;
+    for (const userId of this.registrations.keys()) {
+      updateUserChips(userId, buyIn);
+      host?.userUpdated(userId);
+    }
+    this.status.prizePool = 0;
+    this.status.status = 'finished';
+    this.cancelled = true;
+    console.log(`[MTT] "${this.config.name}" cancelled: ${this.registrations.size} registered, ${this.config.minEntrants} needed`);
+    this.changed();
+  }
+
+  /** One clock for every table; new blinds apply from each table's next hand */
+  private scheduleLevel(): void {
+    if (this.suspended) return;
+    const delay = Math.max(0, (this.status.levelEndsAt ?? Date.now()) - Date.now());
+    this.levelTimer = setTimeout(() => {
+      startBlindLevel(this.status, this.config.table, this.status.level + 1);
+      const { level, blinds } = this.status;
+      console.log(`[MTT] "${this.config.name}" level ${level + 1}: ${blinds.smallBlind}/${blinds.bigBlind}`);
+      for (const roomId of this.tables.keys()) host!.emitToTable(roomId, 'tournament:level', { level, blinds });
+      this.scheduleLevel();
+      this.changed();
+    }, delay);
+  }
+
+  /** Give everyone out since the last call a finishing place; a smaller starting stack places lower */
+  private placeBusts(): void {
+    const busts = this.busts.sort((a, b) => a.startChips - b.startChips);
+    this.busts = [];
+    for (const { player, roomId } of busts) this.place(player, roomId);
+  }
+
+  private place(player: Player, roomId: string): void {
+    const finish = recordFinish(this.status, this.config.table.tournament!.payouts, player.id, player.name);
+    if (!finish) return;
+    console.log(`[MTT] "${this.config.name}": ${player.name} finishes #${finish.place}${finish.prize ? ` (+${finish.prize})` : ''}`);
+    host!.emitToTable(roomId, 'tournament:eliminated', finish);
+  }
+
+  /** Everyone still holding chips, with their table (players moved in count at their new table) */
+  private alivePlayers(): { player: Player; roomId: string }[] {
+    const alive: { player: Player; roomId: string }[] = [];
+    for (const roomId of this.tables.keys()) {
+      const room = RoomManager.getRoom(roomId);
+      for (const player of [...(room?.players ?? []), ...(room?.pendingPlayers ?? [])]) {
+        if (player.chips > 0) alive.push({ player, roomId });
+      }
+    }
+    return alive;
+  }
+
+  private seatedCount(roomId: string): number {
+    const room = RoomManager.getRoom(roomId);
+    if (!room) return 0;
+    return room.players.filter(p => p.chips > 0).length + (room.pendingPlayers?.length ?? 0);
+  }
+
+  /** Close tables the field no longer needs, shortest first, spreading their players over the rest */
+  private breakTables(alive: number): void {
+    while (this.tables.size > Math.ceil(alive / this.config.tableSize)) {
+      // Only a table between hands can be broken
+      const roomId = [...this.waiting].sort((a, b) => this.seatedCount(a) - this.seatedCount(b))[0];
+      const room = roomId ? RoomManager.getRoom(roomId) : undefined;
+      if (!room) return;
+      console.log(`[MTT] "${this.config.name}": breaking ${room.name}`);
+      for (const player of [...room.players, ...(room.pendingPlayers ?? [])]) {
+        if (player.chips > 0) this.movePlayer(player, roomId, this.shortestTable(roomId));
+      }
+      this.tables.delete(roomId);
+      this.waiting.delete(roomId);
+      host!.closeTable(roomId);
+    }
+  }
+
+  /** Keep every table within one player of the others, moving only from tables between hands */
+  private balanceTables(): void {
+    for (;;) {
+      const shortest = this.shortestTable();
+      const from = [...this.waiting]
+        .filter(id => this.seatedCount(id) - this.seatedCount(shortest) >= 2)
+        .sort((a, b) => this.seatedCount(b) - this.seatedCount(a))[0];
+      if (!from) return;
+      this.movePlayer(this.nextBigBlind(from), from, shortest);
+    }
+  }
+
+  private shortestTable(except?: string): string {
+    return [...this.tables.keys()]
+      .filter(id => id !== except)
+      .sort((a, b) => this.seatedCount(a) - this.seatedCount(b))[0];
+  }
+
+  /** The player due the big blind next hand — moving them costs nobody a free orbit */
+  private nextBigBlind(roomId: string): Player {
+    const room = RoomManager.getRoom(roomId)!;
+    const seated = [...room.players.filter(p => p.chips > 0), ...(room.pendingPlayers ?? [])];
+    const state = room.gameState;
+    const dealerId = state?.players[state.dealerIndex]?.id;
+    const dealer = Math.max(0, seated.findIndex(p => p.id === dealerId));
+    // The button moves on one seat; heads-up the button is the small blind
+    return seated[(dealer + (seated.length > 2 ? 3 : 2)) % seated.length];
+  }
+
+  private movePlayer(player: Player, fromRoomId: string, toRoomId: string): void {
+    RoomManager.moveTournamentSeat(fromRoomId, toRoomId, player.id);
+    const to = RoomManager.getRoom(toRoomId)!;
+    if (!player.isAI) host!.seatPlayer(player.id, to, fromRoomId);
+    console.log(`[MTT] "${this.config.name}": ${player.name} moves to ${to.name}`);
+    host!.emitToTable(fromRoomId, 'room:updated', RoomManager.getRoom(fromRoomId));
+    host!.emitToTable(toRoomId, 'room:updated', to);
+  }
+
+  /** Hand-for-hand while one more bust puts everyone left in the money and there is more than one table */
+  private updateHandForHand(tableCount = this.tables.size): void {
+    const paid = getPaidPlaces(this.config.table.tournament!.payouts, this.status.entrants);
+    const active = tableCount > 1 && this.status.remaining === paid + 1;
+    if (active === !!this.status.handForHand) return;
+    this.status.handForHand = active;
+    console.log(`[MTT] "${this.config.name}": hand-for-hand ${active ? 'on' : 'off'}`);
+    for (const roomId of this.tables.keys()) host!.emitToTable(roomId, 'tournament:hand-for-hand', { active });
+  }
+
+  /** Rank whoever is left by stack, stop every table and close them once the results have been seen */
+  private finish(alive: { player: Player; roomId: string }[]): void {
+    for (const { player, roomId } of [...alive].sort((a, b) => a.player.chips - b.player.chips)) {
+      this.place(player, roomId);
+    }
+    this.status.status = 'finished';
+    this.status.handForHand = false;
+    delete this.status.levelEndsAt;
+    delete this.status.handsLeftInLevel;
+    if (this.levelTimer) clearTimeout(this.levelTimer);
+    this.levelTimer = null;
+    this.waiting.clear();
+
+    const tableIds = [...this.tables.keys()];
+    for (const roomId of tableIds) {
+      this.tables.get(roomId)!.cleanup();
+      const room = RoomManager.getRoom(roomId);
+      if (room) room.status = 'waiting';
+      host!.emitToTable(roomId, 'tournament:finished', this.status.finishes);
+      host!.emitToTable(roomId, 'room:updated', room);
+    }
+    setTimeout(() => {
+      for (const roomId of tableIds) host!.closeTable(roomId);
+      this.tables.clear();
+      this.changed();
+    }, TABLE_CLOSE_DELAY);
+    console.log(`[MTT] "${this.config.name}" finished: winner ${this.status.finishes[0]?.name ?? '—'}`);
+    this.changed();
+  }
+
+  private changed(): void {
+    host?.tournamentUpdated(this.toPublic());
+  }
+}
+
+/** Clamp a tournament config from the client into something playable */
+function normalizeMultiTableConfig(config: MultiTableTournamentConfig): MultiTableTournamentConfig {
+  const now = Date.now();
+  const tableSize = Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS + 1, Math.floor(config.tableSize) || 6));
+  const maxEntrants = Math.min(MTT_MAX_ENTRANTS, Math.max(tableSize + 1, Math.floor(config.maxEntrants) || MTT_MAX_ENTRANTS));
+  const table = config.table ?? DEFAULT_ROOM_CONFIG;
+  return {
+    name: String(config.name ?? '').trim().slice(0, 40) || 'MTT',
+    startsAt: Math.min(now + MTT_MAX_START_DELAY, Math.max(now, Number(config.startsAt) || now)),
+    tableSize,
+    minEntrants: Math.min(maxEntrants, Math.max(MIN_PLAYERS, Math.floor(config.minEntrants) || MIN_PLAYERS)),
+    maxEntrants,
+    aiEntrants: Math.min(maxEntrants - 1, Math.max(0, Math.floor(config.aiEntrants) || 0)),
+    // Levels are always timed so every table moves up together
+    table: normalizeRoomConfig({
+      ...DEFAULT_ROOM_CONFIG,
+      ...table,
+      maxPlayers: tableSize,
+      tournament: { ...DEFAULT_TOURNAMENT_CONFIG, ...table.tournament, levelMode: 'time' },
+    }),
+  };
+}
+
+/** Register the socket layer; must be called before any tournament starts */
+export function setTournamentHost(tournamentHost: TournamentHost): void {
+  host = tournamentHost;
+}
+
+export function createTournament(config: MultiTableTournamentConfig, createdBy: string): TournamentDirector {
+  // Finished tournaments make room for new ones, oldest first
+  for (const [id, director] of tournaments) {
+    if (tournaments.size < MAX_TOURNAMENTS) break;
+    if (director.isFinished) tournaments.delete(id);
+  }
+  if (tournaments.size >= MAX_TOURNAMENTS) throw new Error('Maximum number of tournaments reached');
+
+  const director = new TournamentDirector(normalizeMultiTableConfig(config), createdBy);
+  tournaments.set(director.id, director);
+  host?.tournamentUpdated(director.toPublic());
+  return director;
+}
+
+export function getTournament(id: string): TournamentDirector | undefined {
+  return tournaments.get(id);
+}
+
+export function getTournamentList(): MultiTableTournament[] {
+  return Array.from(tournaments.values()).map(director => director.toPublic());
+}
+
+/** Server shutting down: no tournament starts, levels up or opens a table from now on */
+export function suspendTournaments(): void {
+  for (const director of tournaments.values()) director.suspend();
+}
+
+/** Server about to exit: settle every tournament that has not finished */
+export function abandonTournaments(): void {
+  for (const director of tournaments.values()) director.abandon();
+}
+
+/** What every unfinished tournament would pay out now, saved with the rooms in case the server dies */
+export function getTournamentSettlements(): TournamentSettlement[] {
+  return [...tournaments.values()].flatMap(director => director.getSettlement() ?? []);
+}
+
+/** Credit a settlement to the entrants' bankrolls */
+export function payTournamentSettlement(settlement: TournamentSettlement): void {
+  for (const { userId, amount } of settlement.payouts) {
+    updateUserChips(userId, amount);
+    host?.userUpdated(userId);
+  }
+}
+
@@ -3,17 +3,18 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import bcrypt from 'bcryptjs';
 import { UserProfile, DEFAULT_USER_CHIPS, DAILY_BONUS_CHIPS, LLM_BOT_CONFIGS, LLM_BOT_STARTING_CHIPS, RULE_BOT_CONFIGS, RULE_BOT_STARTING_CHIPS } from '@texas-agent/shared';
+import { StoredUser, UserStorage, UserTransaction } from './storage/user-storage';
+import { JournalUserStorage } from './storage/journal-storage';
+import { importUsersJson } from './storage/import-users-json';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const DATA_DIR = path.resolve(__dirname, '../../data');
-const USERS_FILE = path.join(DATA_DIR, 'users.json');
-
-interface StoredUser extends UserProfile {
-  passwordHash: string;
-}
-
-let users: Map<string, StoredUser> = new Map();
+/** Accounts as of the last checkpoint, and every transaction committed since */
+const SNAPSHOT_FILE = path.join(DATA_DIR, 'users.snapshot.json');
+const JOURNAL_FILE = path.join(DATA_DIR, 'users.journal');
+/** The store before accounts moved to the journal; imported once on the first start */
+const LEGACY_USERS_FILE = path.join(DATA_DIR, 'users.json');
 
 function ensureDataDir() {
   if (!fs.existsSync(DATA_DIR)) {
@@ -21,30 +22,14 @@ function ensureDataDir() {
   }
 }
 
-function loadUsers() {
-  ensureDataDir();
-  if (fs.existsSync(USERS_FILE)) {
-    try {
-      const data = JSON.parse(fs.readFileSync(USERS_FILE, 'utf-8'));
-      users = new Map(Object.entries(data));
-    } catch {
-      users = new Map();
-    }
-  }
-}
-
-function saveUsers() {
-  ensureDataDir();
-  const obj: Record<string, StoredUser> = {};
-  users.forEach((v, k) => { obj[k] = v; });
-  fs.writeFileSync(USERS_FILE, JSON.stringify(obj, null, 2));
-}
+ensureDataDir();
+const storage: UserStorage = new JournalUserStorage(SNAPSHOT_FILE, JOURNAL_FILE);
 
 /** Ensure all LLM bot accounts exist in the user store */
-function ensureLLMBotAccounts() {
-  let changed = false;
+function ensureLLMBotAccounts(tx: UserTransaction) {
   for (const cfg of LLM_BOT_CONFIGS) {
-    if (!users.has(cfg.id)) {
+    const existing = tx.get(cfg.id);
+    if (!existing) {
       const bot: StoredUser = {
         id: cfg.id,
         username: cfg.name,
@@ -54,30 +39,20 @@ function ensureLLMBotAccounts() {
         stats: { gamesPlayed: 0, gamesWon: 0, totalEarnings: 0 },
         createdAt: Date.now(),
       };
-      users.set(cfg.id, bot);
-      changed = true;
+      tx.put(bot);
       console.log(`[UserStore] Created LLM bot account: ${cfg.name} (${cfg.id})`);
-    } else {
+    } else if (!existing.isLLMBot || existing.chips !== LLM_BOT_STARTING_CHIPS) {
       // Ensure isLLMBot flag and chips are in sync with config
-      const existing = users.get(cfg.id)!;
-      if (!existing.isLLMBot) {
-        existing.isLLMBot = true;
-        changed = true;
-      }
-      if (existing.chips !== LLM_BOT_STARTING_CHIPS) {
-        existing.chips = LLM_BOT_STARTING_CHIPS;
-        changed = true;
-      }
+      tx.put({ ...existing, isLLMBot: true, chips: LLM_BOT_STARTING_CHIPS });
     }
   }
-  if (changed) saveUsers();
 }
 
 /** Ensure all rule-based bot accounts exist in the user store */
-function ensureRuleBotAccounts() {
-  let changed = false;
+function ensureRuleBotAccounts(tx: UserTransaction) {
   for (const cfg of RULE_BOT_CONFIGS) {
-    if (!users.has(cfg.id)) {
+    const existing = tx.get(cfg.id);
+    if (!existing) {
       const bot: StoredUser = {
         id: cfg.id,
         username: cfg.name,
@@ -87,24 +62,29 @@ function ensureRuleBotAccounts() {
         stats: { gamesPlayed: 0, gamesWon: 0, totalEarnings: 0 },
         createdAt: Date.now(),
       };
-      users.set(cfg.id, bot);
-      changed = true;
+      tx.put(bot);
       console.log(`[UserStore] Created rule bot account: ${cfg.name} (${cfg.id})`);
-    } else {
-      const existing = users.get(cfg.id)!;
-      if (!existing.isRuleBot) {
-        existing.isRuleBot = true;
-        changed = true;
-      }
+    } else if (!existing.isRuleBot) {
+      tx.put({ ...existing, isRuleBot: true });
     }
   }
-  if (changed) saveUsers();
 }
 
-// Load on startup
-loadUsers();
-ensureLLMBotAccounts();
-ensureRuleBotAccounts();
+// Open on startup
+importUsersJson(storage, LEGACY_USERS_FILE);
+storage.transaction(tx => {
+  ensureLLMBotAccounts(tx);
+  ensureRuleBotAccounts(tx);
+});
+
+/**
+ * Checkpoint the store before the process exits; every change is already durable as it is made.
+ * The store stays open: a write that still lands after this (a timer firing on the way down) goes
+ * to the journal as usual and is replayed on the next start.
+ */
+export function flushUsers(): void {
+  storage.checkpoint();
+}
 
 export function createUser(username: string, password: string): UserProfile | null {
   // Prevent registering with LLM bot names
@@ -116,9 +96,7 @@ export function createUser(username: string, password: string): UserProfile | nu
     if (cfg.name.toLowerCase() === username.toLowerCase()) return null;
   }
   // Check duplicate (case-insensitive)
-  for (const u of users.values()) {
-    if (u.username.toLowerCase() === username.toLowerCase()) return null;
-  }
+  if (storage.findByUsername(username)) return null;
 
   const id = `user_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const passwordHash = bcrypt.hashSync(password, 10);
@@ -132,65 +110,69 @@ export function createUser(username: string, password: string): UserProfile | nu
     createdAt: Date.now(),
   };
 
-  users.set(id, user);
-  saveUsers();
+  storage.transaction(tx => tx.put(user));
   return toProfile(user);
 }
 
 export function authenticateUser(username: string, password: string): UserProfile | null {
-  for (const u of users.values()) {
-    if (u.username.toLowerCase() === username.toLowerCase()) {
-      // LLM bots and rule bots cannot authenticate
-      if (u.isLLMBot || u.isRuleBot) return null;
-      if (bcrypt.compareSync(password, u.passwordHash)) {
-        return toProfile(u);
-      }
-      return null;
-    }
-  }
-  return null;
+  const u = storage.findByUsername(username);
+  // LLM bots and rule bots cannot authenticate
+  if (!u || u.isLLMBot || u.isRuleBot) return null;
+  return bcrypt.compareSync(password, u.passwordHash) ? toProfile(u) : null;
 }
 
 export function getUserById(id: string): UserProfile | null {
-  const u = users.get(id);
+  const u = storage.get(id);
   return u ? toProfile(u) : null;
 }
 
 export function updateUserChips(id: string, delta: number): number | null {
-  const u = users.get(id);
-  if (!u) return null;
-  u.chips = Math.max(0, u.chips + delta);
-  saveUsers();
-  return u.chips;
+  return storage.transaction(tx => {
+    const u = tx.get(id);
+    if (!u) return null;
+    u.chips = Math.max(0, u.chips + delta);
+    tx.put(u);
+    return u.chips;
+  });
+}
+
+/**
+ * Take chips from a bankroll only if it holds all of them; the check and the debit commit
+ * together. Returns false (and changes nothing) if the account is missing or short.
+ */
+export function debitUserChips(id: string, amount: number): boolean {
+  return storage.transaction(tx => {
+    const u = tx.get(id);
+    if (!u || u.chips < amount) return false;
+    u.chips -= amount;
+    tx.put(u);
+    return true;
+  });
 }
 
 export function updateUserStats(id: string, won: boolean, earnings: number) {
-  const u = users.get(id);
-  if (!u) return;
-  u.stats.gamesPlayed++;
-  if (won) u.stats.gamesWon++;
-  u.stats.totalEarnings += earnings;
-  saveUsers();
+  storage.transaction(tx => {
+    const u = tx.get(id);
+    if (!u) return;
+    u.stats.gamesPlayed++;
+    if (won) u.stats.gamesWon++;
+    u.stats.totalEarnings += earnings;
+    tx.put(u);
+  });
 }
 
 export function updateUserLLMConfig(id: string, config: UserProfile['llmConfig']): boolean {
-  const u = users.get(id);
-  if (!u) return false;
-  u.llmConfig = config;
-  saveUsers();
-  return true;
+  return storage.transaction(tx => {
+    const u = tx.get(id);
+    if (!u) return false;
+    u.llmConfig = config;
+    tx.put(u);
+    return true;
+  });
 }
 
 export function getUserLLMConfig(id: string): UserProfile['llmConfig'] | undefined {
-  return users.get(id)?.llmConfig;
-}
-
-export function setUserChips(id: string, chips: number): boolean {
-  const u = users.get(id);
-  if (!u) return false;
-  u.chips = chips;
-  saveUsers();
-  return true;
+  return storage.get(id)?.llmConfig;
 }
 
 /**
@@ -198,19 +180,21 @@ export function setUserChips(id: string, chips: number): boolean {
  * Returns the bonus amount if awarded, or 0 if already claimed today.
  */
 export function claimDailyBonus(id: string): number {
-  const u = users.get(id);
-  if (!u) return 0;
-  // Bots don't get daily bonus
-  if (u.isLLMBot || u.isRuleBot) return 0;
+  return storage.transaction(tx => {
+    const u = tx.get(id);
+    if (!u) return 0;
+    // Bots don't get daily bonus
+    if (u.isLLMBot || u.isRuleBot) return 0;
 
-  const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-  if (u.lastDailyBonusDate === today) return 0;
+    const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+    if (u.lastDailyBonusDate === today) return 0;
 
-  u.lastDailyBonusDate = today;
-  u.chips += DAILY_BONUS_CHIPS;
-  saveUsers();
-  console.log(`[UserStore] Daily bonus awarded to ${u.username}: +${DAILY_BONUS_CHIPS} chips (now ${u.chips})`);
-  return DAILY_BONUS_CHIPS;
+    u.lastDailyBonusDate = today;
+    u.chips += DAILY_BONUS_CHIPS;
+    tx.put(u);
+    console.log(`[UserStore] Daily bonus awarded to ${u.username}: +${DAILY_BONUS_CHIPS} chips (now ${u.chips})`);
+    return DAILY_BONUS_CHIPS;
+  });
 }
 
 function toProfile(u: StoredUser): UserProfile {
@@ -219,19 +203,24 @@ function toProfile(u: StoredUser): UserProfile {
 }
 
 export function getAllUsers(): UserProfile[] {
-  return Array.from(users.values()).map(toProfile);
+  return storage.all().map(toProfile);
+}
+
+/** The richest accounts, read off the chips index */
+export function getTopUsersByChips(limit: number): UserProfile[] {
+  return storage.topByChips(limit).map(toProfile);
 }
 
 /** Get all LLM bot profiles */
 export function getLLMBotProfiles(): UserProfile[] {
-  return Array.from(users.values())
+  return storage.all()
     .filter(u => u.isLLMBot)
     .map(toProfile);
 }
 
 /** Get all rule-based bot profiles */
 export function getRuleBotProfiles(): UserProfile[] {
-  return Array.from(users.values())
+  return storage.all()
     .filter(u => u.isRuleBot)
     .map(toProfile);
 }
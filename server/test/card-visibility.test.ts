@@ -0,0 +1,231 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, DEFAULT_ROOM_CONFIG, GameState, HandHistory, Player, Room, commitServerSeed, verifyHand } from '@texas-agent/shared';
+import {
+  canSeeCards, canVerifyHand, getHandViewer, getPublicRoom, getViewer, getVisibleGameState, getVisibleHandHistory, getVisibleRoom,
+} from '../src/card-visibility';
+
+const HOLE: Record<string, Card[]> = {
+  alice: [{ suit: 'spades', rank: 'A' }, { suit: 'spades', rank: 'K' }],
+  bob: [{ suit: 'hearts', rank: '7' }, { suit: 'clubs', rank: '2' }],
+  carol: [{ suit: 'diamonds', rank: 'Q' }, { suit: 'diamonds', rank: 'J' }],
+};
+
+function seat(id: string, seatIndex: number, isFolded = false): Player {
+  return {
+    id,
+    name: id,
+    chips: 1000,
+    cards: HOLE[id],
+    currentBet: 0,
+    totalBet: 0,
+    isActive: true,
+    isFolded,
+    isAllIn: false,
+    isAI: false,
+    seatIndex,
+  };
+}
+
+/** A three-handed room in `phase`, where carol has folded */
+function tableAt(phase: GameState['phase'], winners?: GameState['winners']): Room {
+  const players = [seat('alice', 0), seat('bob', 1), seat('carol', 2, true)];
+  const gameState: GameState = {
+    id: 'hand',
+    phase,
+    players,
+    communityCards: [],
+    pot: 0,
+    sidePots: [],
+    currentPlayerIndex: 0,
+    dealerIndex: 0,
+    smallBlind: 5,
+    bigBlind: 10,
+    minRaise: 10,
+    currentBet: 0,
+    variant: 'holdem',
+    bettingStructure: 'no-limit',
+    ante: 0,
+    anteStructure: 'none',
+    straddle: 0,
+    deadMoney: 0,
+    raiseCount: 0,
+    round: 1,
+    actedThisRound: [],
+    seed: 'deck-seed',
+    winners,
+  };
+  return {
+    id: 'room',
+    name: 'Room',
+    config: DEFAULT_ROOM_CONFIG,
+    players: structuredClone(players),
+    pendingPlayers: [{ ...seat('dave', 3), cards: [] }],
+    gameState,
+    status: 'playing',
+    ownerId: 'alice',
+    createdAt: 0,
+  };
+}
+
+/** Ids of the players whose hole cards survived masking */
+const shown = (players: { id: string; cards: Card[] }[]) => players.filter(p => p.cards.length > 0).map(p => p.id);
+
+test('a seated player sees only their own hole cards mid-hand', () => {
+  const room = tableAt('flop');
+  const viewer = getViewer(room, 'bob');
+  assert.deepEqual(viewer, { kind: 'player', id: 'bob' });
+
+  const visible = getVisibleRoom(room, viewer);
+  assert.deepEqual(shown(visible.players), ['bob']);
+  assert.deepEqual(shown(visible.gameState!.players), ['bob']);
+  assert.deepEqual(visible.gameState!.players[1].cards, HOLE.bob);
+});
+
+test('a player waiting for the next hand is a player, not a spectator', () => {
+  assert.deepEqual(getViewer(tableAt('flop'), 'dave'), { kind: 'player', id: 'dave' });
+});
+
+test('spectators and the lobby see no hole cards mid-hand', () => {
+  const room = tableAt('turn');
+  const viewer = getViewer(room, 'rail');
+  assert.deepEqual(viewer, { kind: 'spectator', id: 'rail' });
+
+  for (const visible of [getVisibleRoom(room, viewer), getPublicRoom(room)]) {
+    assert.deepEqual(shown(visible.players), []);
+    assert.deepEqual(shown(visible.gameState!.players), []);
+  }
+});
+
+test('a hand won by everyone else folding shows no cards', () => {
+  const room = tableAt('showdown', [{ playerId: 'alice', amount: 30, handName: 'Last Standing' }]);
+  assert.deepEqual(shown(getVisibleRoom(room, { kind: 'player', id: 'bob' }).gameState!.players), ['bob']);
+  assert.deepEqual(shown(getPublicRoom(room).gameState!.players), []);
+  assert.equal(canSeeCards(room.gameState, room.players[0], { kind: 'spectator', id: 'rail' }), false);
+});
+
+test('a real showdown tables every live hand but not the mucked ones', () => {
+  const room = tableAt('showdown', [{ playerId: 'alice', amount: 30, handName: 'Pair' }]);
+  const spectator = { kind: 'spectator', id: 'rail' } as const;
+  assert.deepEqual(shown(getVisibleRoom(room, spectator).gameState!.players), ['alice', 'bob']);
+  assert.deepEqual(shown(getPublicRoom(room).players), ['alice', 'bob']);
+  // A folded player still sees their own cards
+  assert.deepEqual(shown(getVisibleRoom(room, { kind: 'player', id: 'carol' }).players), ['alice', 'bob', 'carol']);
+});
+
+test('a hand shown voluntarily after an early win is visible to everyone', () => {
+  const room = tableAt('showdown', [{ playerId: 'alice', amount: 30, handName: 'Last Standing' }]);
+  room.gameState!.shownPlayerIds = ['alice'];
+  assert.deepEqual(shown(getPublicRoom(room).gameState!.players), ['alice']);
+  assert.deepEqual(shown(getVisibleRoom(room, { kind: 'player', id: 'bob' }).players), ['alice', 'bob']);
+});
+
+test('the deck seed is stripped for every viewer but admin', () => {
+  const room = tableAt('preflop');
+  assert.equal(getVisibleGameState(room.gameState!, { kind: 'player', id: 'alice' }).seed, undefined);
+  assert.equal(getVisibleRoom(room, { kind: 'spectator', id: 'rail' }).gameState!.seed, undefined);
+  assert.equal(getPublicRoom(room).gameState!.seed, undefined);
+  assert.equal(getVisibleGameState(room.gameState!, { kind: 'admin' }).seed, 'deck-seed');
+});
+
+/** A real showdown whose server seed has been revealed */
+function verifiableShowdown(): Room {
+  const room = tableAt('showdown', [{ playerId: 'alice', amount: 30, handName: 'Pair' }]);
+  room.gameState!.fairness = {
+    commitment: commitServerSeed('server-seed'),
+    nonce: 1,
+    clientSeed: '',
+    dealOrder: ['alice', 'bob', 'carol'],
+    serverSeed: 'server-seed',
+  };
+  return room;
+}
+
+test('the revealed server seed goes only to the players dealt into the hand', () => {
+  const room = verifiableShowdown();
+  const seedFor = (visible: Room) => visible.gameState!.fairness!.serverSeed;
+  assert.equal(seedFor(getVisibleRoom(room, { kind: 'player', id: 'alice' })), 'server-seed');
+  assert.equal(seedFor(getVisibleRoom(room, { kind: 'player', id: 'carol' })), 'server-seed');
+  // Seated after the deal, watching, or browsing the lobby: no seed, so no re-dealt deck
+  assert.equal(seedFor(getVisibleRoom(room, getViewer(room, 'dave'))), undefined);
+  assert.equal(seedFor(getVisibleRoom(room, { kind: 'spectator', id: 'rail' })), undefined);
+  assert.equal(seedFor(getPublicRoom(room)), undefined);
+  assert.equal(canVerifyHand(['alice'], { kind: 'admin' }), true);
+  // The commitment stays public so anyone can see the shuffle was fixed in advance
+  assert.equal(getPublicRoom(room).gameState!.fairness!.commitment, commitServerSeed('server-seed'));
+});
+
+test('a dealt-in player can re-deal the mucked hands from the seed: the accepted price of verifying', () => {
+  const room = verifiableShowdown();
+  const fairness = getVisibleRoom(room, { kind: 'player', id: 'bob' }).gameState!.fairness!;
+  const result = verifyHand(fairness, 'holdem', {}, [[]]);
+  assert.equal(result.commitmentValid, true);
+  assert.equal(result.holeCards.carol.length, 2);
+});
+
+/** The stored history of verifiableShowdown, where carol folded and nobody showed */
+function storedHand(): HandHistory {
+  const state = verifiableShowdown().gameState!;
+  return {
+    id: 'hand',
+    roomId: 'room',
+    roomName: 'Room',
+    round: 1,
+    startedAt: 0,
+    endedAt: 0,
+    variant: 'holdem',
+    bettingStructure: 'no-limit',
+    smallBlind: 5,
+    bigBlind: 10,
+    ante: 0,
+    anteStructure: 'none',
+    straddle: 0,
+    maxPlayers: 6,
+    buttonSeat: 0,
+    players: state.players.map(p => ({
+      id: p.id,
+      userId: `user-${p.id}`,
+      name: p.name,
+      seatIndex: p.seatIndex,
+      isAI: false,
+      startChips: 1000,
+      endChips: 1000,
+      cards: p.cards,
+      folded: p.isFolded,
+    })),
+    forcedBets: [],
+    actions: [],
+    board: [],
+    pot: 0,
+    potResults: [],
+    winners: state.winners!,
+    shownPlayerIds: ['alice', 'bob'],
+    fairness: state.fairness,
+    record: { seed: 'deck-seed', initialState: state, actions: [] },
+  };
+}
+
+test('a stored hand keeps its server seed and replay record from anyone who was not dealt in', () => {
+  const hand = storedHand();
+  const outsider = getHandViewer(hand, 'user-someone');
+  assert.deepEqual(outsider, { kind: 'spectator', id: 'user-someone' });
+  const visible = getVisibleHandHistory(hand, outsider);
+  assert.equal(visible.fairness?.serverSeed, undefined);
+  assert.equal(visible.record, undefined);
+  assert.deepEqual(shown(visible.players), ['alice', 'bob']);
+
+  const carol = getVisibleHandHistory(hand, getHandViewer(hand, 'user-carol'));
+  assert.equal(carol.fairness?.serverSeed, 'server-seed');
+  assert.equal(carol.record, undefined);
+  assert.equal(getVisibleHandHistory(hand, { kind: 'admin' }).fairness?.serverSeed, 'server-seed');
+  // The stored hand itself is untouched
+  assert.equal(hand.fairness?.serverSeed, 'server-seed');
+});
+
+test('masking works on copies and leaves the room on the server untouched', () => {
+  const room = tableAt('flop');
+  const before = structuredClone(room);
+  getPublicRoom(room);
+  getVisibleRoom(room, { kind: 'player', id: 'alice' });
+  assert.deepEqual(room, before);
+});
@@ -0,0 +1,178 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JournalUserStorage } from '../src/storage/journal-storage';
+import { SCHEMA_VERSION } from '../src/storage/migrations';
+import { importUsersJson } from '../src/storage/import-users-json';
+import { StoredUser } from '../src/storage/user-storage';
+
+function account(id: string, chips = 1000, username = id): StoredUser {
+  return {
+    id,
+    username,
+    chips,
+    passwordHash: 'hash',
+    stats: { gamesPlayed: 0, gamesWon: 0, totalEarnings: 0 },
+    createdAt: 1,
+  };
+}
+
+/** Snapshot and journal paths in a fresh temporary directory */
+function storeFiles(t: { after(fn: () => void): void }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'user-store-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return {
+    dir,
+    snapshot: path.join(dir, 'users.snapshot.json'),
+    journal: path.join(dir, 'users.journal'),
+    open() {
+      return new JournalUserStorage(this.snapshot, this.journal);
+    },
+  };
+}
+
+const journalLines = (file: string) => fs.readFileSync(file, 'utf-8').split('\n').filter(l => l.trim());
+
+test('commits survive a crash: the journal is replayed over the snapshot', t => {
+  const files = storeFiles(t);
+  const store = files.open();
+  store.transaction(tx => tx.put(account('a')));
+  store.transaction(tx => tx.put({ ...tx.get('a')!, chips: 750 }));
+  store.transaction(tx => tx.put(account('b', 300)));
+  // No checkpoint and no close: the process died here
+
+  const reopened = files.open();
+  assert.equal(reopened.get('a')?.chips, 750);
+  assert.equal(reopened.get('b')?.chips, 300);
+  // Opening checkpoints, so nothing is left to replay
+  assert.deepEqual(journalLines(files.journal), []);
+});
+
+test('a torn last line is dropped and every entry before it kept', t => {
+  const files = storeFiles(t);
+  const store = files.open();
+  store.transaction(tx => tx.put(account('a', 100)));
+  store.transaction(tx => tx.put(account('a', 200)));
+  fs.appendFileSync(files.journal, '{"seq":3,"users":[{"id":"a","chi');
+
+  const reopened = files.open();
+  assert.equal(reopened.get('a')?.chips, 200);
+  reopened.transaction(tx => tx.put(account('a', 300)));
+  assert.equal(files.open().get('a')?.chips, 300);
+});
+
+test('an unreadable line mid-journal stops the replay there and keeps a copy of the journal', t => {
+  const files = storeFiles(t);
+  const store = files.open();
+  store.transaction(tx => tx.put(account('a', 100)));
+  const [first] = journalLines(files.journal);
+  fs.writeFileSync(files.journal, `${first}\nnot json\n${JSON.stringify({ seq: 3, users: [account('a', 999)] })}\n`);
+
+  const reopened = files.open();
+  assert.equal(reopened.get('a')?.chips, 100);
+  assert.equal(fs.readdirSync(files.dir).filter(f => f.startsWith('users.journal.corrupt-')).length, 1);
+});
+
+test('entries already in the snapshot are not replayed again after a crash mid-checkpoint', t => {
+  const files = storeFiles(t);
+  const store = files.open();
+  store.transaction(tx => tx.put(account('a', 100)));
+  const stale = fs.readFileSync(files.journal, 'utf-8');
+  store.transaction(tx => tx.put(account('a', 200)));
+  store.checkpoint();
+  // Died after the snapshot was renamed in but before the journal was emptied
+  fs.writeFileSync(files.journal, stale);
+
+  assert.equal(files.open().get('a')?.chips, 200);
+});
+
+test('a transaction that throws writes nothing', t => {
+  const files = storeFiles(t);
+  const store = files.open();
+  store.transaction(tx => tx.put(account('a', 100)));
+  assert.throws(() => store.transaction(tx => {
+    tx.put(account('a', 0));
+    tx.put(account('b'));
+    throw new Error('abort');
+  }), /abort/);
+
+  assert.equal(store.get('a')?.chips, 100);
+  assert.equal(store.get('b'), undefined);
+  assert.equal(journalLines(files.journal).length, 1);
+  assert.equal(files.open().get('b'), undefined);
+});
+
+test('usernames are unique regardless of case and found through the index', t => {
+  const store = storeFiles(t).open();
+  store.transaction(tx => tx.put(account('a', 100, 'Alice')));
+  assert.throws(() => store.transaction(tx => tx.put(account('b', 100, 'alice'))), /taken/);
+  assert.equal(store.findByUsername('ALICE')?.id, 'a');
+
+  // A rename frees the old name
+  store.transaction(tx => tx.put({ ...tx.get('a')!, username: 'Alicia' }));
+  assert.equal(store.findByUsername('alice'), undefined);
+  store.transaction(tx => tx.put(account('b', 100, 'alice')));
+  assert.equal(store.findByUsername('Alice')?.id, 'b');
+});
+
+test('the chips index follows every write, richest first', t => {
+  const store = storeFiles(t).open();
+  store.transaction(tx => {
+    tx.put(account('a', 500));
+    tx.put(account('b', 900));
+    tx.put(account('c', 700));
+  });
+  assert.deepEqual(store.topByChips(2).map(u => u.id), ['b', 'c']);
+  store.transaction(tx => tx.put({ ...tx.get('a')!, chips: 1000 }));
+  assert.deepEqual(store.topByChips(3).map(u => u.id), ['a', 'b', 'c']);
+});
+
+test('opening an old snapshot runs the pending migrations over it and its journal', t => {
+  const files = storeFiles(t);
+  const legacy = { id: 'old', username: 'old', chips: 12.7 } as StoredUser;
+  fs.writeFileSync(files.snapshot, JSON.stringify({ schemaVersion: 0, seq: 0, savedAt: 0, users: [legacy] }));
+  fs.writeFileSync(files.journal, `${JSON.stringify({ seq: 1, users: [{ ...legacy, id: 'later', username: 'later', chips: -5 }] })}\n`);
+
+  const store = files.open();
+  assert.deepEqual(store.get('old'), {
+    ...legacy,
+    chips: 12,
+    stats: { gamesPlayed: 0, gamesWon: 0, totalEarnings: 0 },
+    createdAt: 0,
+    passwordHash: '',
+  });
+  assert.equal(store.get('later')?.chips, 0);
+  assert.equal(JSON.parse(fs.readFileSync(files.snapshot, 'utf-8')).schemaVersion, SCHEMA_VERSION);
+});
+
+test('a snapshot from a newer server is refused', t => {
+  const files = storeFiles(t);
+  fs.writeFileSync(files.snapshot, JSON.stringify({ schemaVersion: SCHEMA_VERSION + 1, seq: 0, savedAt: 0, users: [] }));
+  assert.throws(() => files.open(), /newer than this server/);
+});
+
+test('users.json is imported once and renamed out of the way', t => {
+  const files = storeFiles(t);
+  const legacyFile = path.join(files.dir, 'users.json');
+  fs.writeFileSync(legacyFile, JSON.stringify({ a: account('a', 400), b: account('b', 500) }));
+  const store = files.open();
+  store.transaction(tx => tx.put(account('b', 50)));
+
+  // b already exists, as after an import cut short before the rename
+  assert.equal(importUsersJson(store, legacyFile), 1);
+  assert.equal(store.get('a')?.chips, 400);
+  assert.equal(store.get('b')?.chips, 50);
+  assert.ok(fs.existsSync(`${legacyFile}.imported`));
+  assert.equal(importUsersJson(store, legacyFile), 0);
+});
+
+test('writes after a checkpoint go on to the journal', t => {
+  const files = storeFiles(t);
+  const store = files.open();
+  store.transaction(tx => tx.put(account('a', 100)));
+  store.checkpoint();
+  store.transaction(tx => tx.put(account('a', 50)));
+  assert.equal(files.open().get('a')?.chips, 50);
+});
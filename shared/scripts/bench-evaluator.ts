@@ -0,0 +1,63 @@
+/**
+ * Hand evaluator benchmark: bit-mask evaluateHand vs the exhaustive 21-combination search.
+ *
+ *   npm run bench --workspace=shared [-- <hands>]
+ *
+ * Every random hand is scored by both evaluators first; any disagreement aborts the run,
+ * so the speedup reported is always for identical results.
+ */
+import {
+  Card, GameVariant, createDeck, shuffleDeck,
+  evaluateHand, evaluateHandExhaustive, getHandValue,
+} from '../src/index';
+
+const HANDS = Number(process.argv[2]) || 200_000;
+const VARIANTS: GameVariant[] = ['holdem', 'short-deck', 'omaha'];
+
+function randomHands(variant: GameVariant, count: number): { hole: Card[]; board: Card[] }[] {
+  const holeCount = variant === 'omaha' ? 4 : 2;
+  const hands: { hole: Card[]; board: Card[] }[] = [];
+  for (let i = 0; i < count; i++) {
+    const deck = shuffleDeck(createDeck(variant));
+    hands.push({ hole: deck.slice(0, holeCount), board: deck.slice(holeCount, holeCount + 5) });
+  }
+  return hands;
+}
+
+function time(run: () => void): number {
+  const start = process.hrtime.bigint();
+  run();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+function format(ms: number, count: number): string {
+  return `${ms.toFixed(0).padStart(6)} ms  (${Math.round(count / (ms / 1000)).toLocaleString().padStart(11)} hands/s)`;
+}
+
+for (const variant of VARIANTS) {
+  // Omaha scores 60 combinations per hand on both paths; keep its run shorter
+  const count = variant === 'omaha' ? Math.ceil(HANDS / 10) : HANDS;
+  const hands = randomHands(variant, count);
+
+  for (const { hole, board } of hands) {
+    const fast = evaluateHand(hole, board, variant);
+    const reference = evaluateHandExhaustive(hole, board, variant);
+    if (fast.value !== reference.value || fast.rank !== reference.rank) {
+      console.error(`[bench] ${variant} mismatch on`, hole, board, { fast, reference });
+      process.exit(1);
+    }
+  }
+
+  let sink = 0;
+  const exhaustive = time(() => { for (const { hole, board } of hands) sink += evaluateHandExhaustive(hole, board, variant).value; });
+  const fast = time(() => { for (const { hole, board } of hands) sink += evaluateHand(hole, board, variant).value; });
+  const valueOnly = variant === 'omaha'
+    ? 0
+    : time(() => { for (const { hole, board } of hands) sink += getHandValue([...hole, ...board], variant); });
+
+  console.log(`\n${variant} — ${count.toLocaleString()} hands, results identical`);
+  console.log(`  exhaustive     ${format(exhaustive, count)}`);
+  console.log(`  evaluateHand   ${format(fast, count)}  ${(exhaustive / fast).toFixed(1)}x`);
+  if (valueOnly) console.log(`  getHandValue   ${format(valueOnly, count)}  ${(exhaustive / valueOnly).toFixed(1)}x`);
+  if (sink === -1) console.log(sink);
+}
@@ -1,4 +1,4 @@
-import { Suit, Rank, HandRank, RoomConfig } from './types';
+import { Suit, Rank, HandRank, HandRanking, RoomConfig, BettingStructure, GameVariant, AnteStructure, TournamentConfig, SitOutBlinds } from './types';
 
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 export const RANKS: Rank[] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
@@ -8,6 +8,16 @@ export const RANK_VALUES: Record<Rank, number> = {
   '9': 9, '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14,
 };
 
+/** Short-deck (6+) strips the deuces through fives */
+export const SHORT_DECK_RANKS: Rank[] = RANKS.filter(r => RANK_VALUES[r] >= 6);
+
+/** Ranks in the deck for each variant */
+export const DECK_RANKS: Record<GameVariant, Rank[]> = {
+  holdem: RANKS,
+  omaha: RANKS,
+  'short-deck': SHORT_DECK_RANKS,
+};
+
 export const HAND_RANK_NAMES: Record<HandRank, string> = {
   [HandRank.HIGH_CARD]: 'High Card',
   [HandRank.ONE_PAIR]: 'One Pair',
@@ -21,6 +31,24 @@ export const HAND_RANK_NAMES: Record<HandRank, string> = {
   [HandRank.ROYAL_FLUSH]: 'Royal Flush',
 };
 
+const STANDARD_HAND_RANK_ORDER: HandRank[] = [
+  HandRank.HIGH_CARD, HandRank.ONE_PAIR, HandRank.TWO_PAIR, HandRank.THREE_OF_A_KIND, HandRank.STRAIGHT,
+  HandRank.FLUSH, HandRank.FULL_HOUSE, HandRank.FOUR_OF_A_KIND, HandRank.STRAIGHT_FLUSH, HandRank.ROYAL_FLUSH,
+];
+
+/** Hand category ordering per variant — with nine cards per suit, short-deck flushes are rarer than full houses */
+export const HAND_RANKINGS: Record<GameVariant, HandRanking> = {
+  holdem: { order: STANDARD_HAND_RANK_ORDER, names: HAND_RANK_NAMES },
+  omaha: { order: STANDARD_HAND_RANK_ORDER, names: HAND_RANK_NAMES },
+  'short-deck': {
+    order: [
+      HandRank.HIGH_CARD, HandRank.ONE_PAIR, HandRank.TWO_PAIR, HandRank.THREE_OF_A_KIND, HandRank.STRAIGHT,
+      HandRank.FULL_HOUSE, HandRank.FLUSH, HandRank.FOUR_OF_A_KIND, HandRank.STRAIGHT_FLUSH, HandRank.ROYAL_FLUSH,
+    ],
+    names: HAND_RANK_NAMES,
+  },
+};
+
 export const SUIT_SYMBOLS: Record<Suit, string> = {
   hearts: '♥',
   diamonds: '♦',
@@ -35,6 +63,17 @@ export const SUIT_COLORS: Record<Suit, string> = {
   spades: '#1A1F2E',
 };
 
+/** Default action clock: how long a player has for each decision */
+export const ACTION_TIMEOUT = 60000;
+export const ACTION_TIMEOUT_OPTIONS = [15000, 30000, 60000, 90000];
+/** Extra thinking time each player can call on once per decision; it refills every TIME_BANK_REFILL_HANDS hands */
+export const TIME_BANK_OPTIONS = [0, 30000, 60000, 120000];
+export const TIME_BANK_REFILL_HANDS = 20;
+
+/** Cash-room buy-in limits offered when creating a room, in big blinds */
+export const MIN_BUY_IN_OPTIONS = [20, 40, 50, 100];
+export const MAX_BUY_IN_OPTIONS = [100, 200, 250, 500];
+
 export const DEFAULT_ROOM_CONFIG: RoomConfig = {
   maxPlayers: 6,
   smallBlind: 5,
@@ -43,8 +82,50 @@ export const DEFAULT_ROOM_CONFIG: RoomConfig = {
   aiCount: 3,
   aiDifficulty: 'balanced',
   aiEngine: 'rule-based',
+  variant: 'holdem',
+  bettingStructure: 'no-limit',
+  ante: 0,
+  anteStructure: 'none',
+  straddle: false,
+  runItTwice: false,
+  sitOutBlinds: 'skip',
+  actionTimeout: ACTION_TIMEOUT,
+  timeBank: 60000,
+  minBuyIn: 40,
+  maxBuyIn: 200,
+  bombPotEvery: 0,
+  bombPotAnte: 2,
+  dealersChoice: [],
+};
+
+export const GAME_VARIANTS: GameVariant[] = ['holdem', 'omaha', 'short-deck'];
+
+/** Hole cards dealt to each player per variant */
+export const HOLE_CARD_COUNT: Record<GameVariant, number> = {
+  holdem: 2,
+  omaha: 4,
+  'short-deck': 2,
 };
 
+export const ANTE_STRUCTURES: AnteStructure[] = ['none', 'every-player', 'big-blind', 'button'];
+
+export const BETTING_STRUCTURES: BettingStructure[] = ['no-limit', 'pot-limit', 'fixed-limit'];
+
+export const SIT_OUT_BLINDS: SitOutBlinds[] = ['skip', 'post'];
+/** Orbits a cash player may sit out before they are stood up; an orbit is one hand per seated player */
+export const SIT_OUT_MAX_ORBITS = 3;
+/** How long the table waits before folding a sitting-out player who is due to act */
+export const SIT_OUT_ACTION_DELAY = 1000;
+
+/** Hands between bomb pots offered when creating a room (0 = no bomb pots), and the ante in big blinds */
+export const BOMB_POT_EVERY_OPTIONS = [0, 5, 10, 20];
+export const BOMB_POT_ANTE_OPTIONS = [1, 2, 5];
+/** How long the button has to call the game for a dealer's-choice orbit */
+export const DEALERS_CHOICE_TIMEOUT = 15000;
+
+/** Fixed-limit: max bets + raises per betting round (bet, raise, re-raise, cap) */
+export const FIXED_LIMIT_RAISE_CAP = 4;
+
 /** Minimum chip denomination across all modes */
 export const MIN_CHIP_UNIT = 5;
 
@@ -56,8 +137,29 @@ export const BLIND_LEVELS = [
   { small: 100, big: 200, label: 'Very High' },
 ];
 
+/** Sit-and-Go blind schedule: each level's blinds as a multiple of the starting level */
+export const TOURNAMENT_LEVEL_MULTIPLIERS = [1, 2, 3, 4, 6, 8, 10, 15, 20, 30, 40, 60, 80, 100];
+
+/** Payout tables offered when creating a Sit-and-Go (percent of the prize pool by place) */
+export const TOURNAMENT_PAYOUT_PRESETS: number[][] = [[100], [65, 35], [50, 30, 20]];
+
+/** Multi-table payout tables, for fields too big to pay only the top three */
+export const MTT_PAYOUT_PRESETS: number[][] = [[50, 30, 20], [40, 25, 15, 12, 8], [30, 20, 14, 10, 8, 6, 5, 4, 3]];
+export const MTT_MAX_ENTRANTS = 60;
+/** Latest a multi-table tournament can be scheduled, from now */
+export const MTT_MAX_START_DELAY = 24 * 60 * 60_000;
+
+export const DEFAULT_TOURNAMENT_CONFIG: TournamentConfig = {
+  buyIn: 500,
+  levelMode: 'time',
+  levelLength: 5,
+  payouts: [65, 35],
+};
+
 export const MIN_PLAYERS = 2;
 export const MAX_PLAYERS = 9;
-export const ACTION_TIMEOUT = 60000;
+/** Most run-outs players can agree to, and how long they have to answer */
+export const MAX_RUN_COUNT = 3;
+export const RUN_IT_TIMEOUT = 10000;
 export const AI_THINK_DELAY_MIN = 1000;
 export const AI_THINK_DELAY_MAX = 3000;
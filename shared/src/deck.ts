@@ -1,23 +1,22 @@
-import { Card } from './types';
-import { SUITS, RANKS } from './constants';
+import { Card, GameVariant } from './types';
+import { SUITS, DECK_RANKS } from './constants';
+import { Rng } from './rng';
+import { shuffle } from './utils';
 
-export function createDeck(): Card[] {
+/** 52 cards, or 36 for short-deck */
+export function createDeck(variant: GameVariant = 'holdem'): Card[] {
   const deck: Card[] = [];
   for (const suit of SUITS) {
-    for (const rank of RANKS) {
+    for (const rank of DECK_RANKS[variant]) {
       deck.push({ suit, rank });
     }
   }
   return deck;
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
-  const shuffled = [...deck];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
+/** Fisher–Yates; pass a seeded rng for a reproducible order */
+export function shuffleDeck(deck: Card[], rng: Rng = Math.random): Card[] {
+  return shuffle(deck, rng);
 }
 
 export function dealCards(deck: Card[], count: number): { dealt: Card[]; remaining: Card[] } {
@@ -28,9 +27,13 @@ export function dealCards(deck: Card[], count: number): { dealt: Card[]; remaini
 
 export class Deck {
   private cards: Card[];
+  private variant: GameVariant;
+  private rng: Rng;
 
-  constructor() {
-    this.cards = shuffleDeck(createDeck());
+  constructor(variant: GameVariant = 'holdem', rng: Rng = Math.random) {
+    this.variant = variant;
+    this.rng = rng;
+    this.cards = shuffleDeck(createDeck(variant), rng);
   }
 
   deal(count: number = 1): Card[] {
@@ -49,7 +52,14 @@ export class Deck {
     return this.cards.length;
   }
 
-  reset(): void {
-    this.cards = shuffleDeck(createDeck());
+  /** Undealt cards in dealing order */
+  remainingCards(): Card[] {
+    return [...this.cards];
+  }
+
+  /** Reshuffle a full deck; a new rng (e.g. the next hand's seed) replaces the current one */
+  reset(rng?: Rng): void {
+    if (rng) this.rng = rng;
+    this.cards = shuffleDeck(createDeck(this.variant), this.rng);
   }
 }
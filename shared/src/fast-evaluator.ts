@@ -0,0 +1,220 @@
+import { Card, Suit, HandRank, HandEvaluation, GameVariant } from './types';
+import { RANK_VALUES, DECK_RANKS, HAND_RANKINGS } from './constants';
+
+/**
+ * Bit-mask evaluator for 5–7 cards. Rank counts, per-suit rank masks and a precomputed
+ * straight table replace the 21-combination search: one pass over the cards, no sorting,
+ * and the same HandEvaluation (rank, rankName, value, bestCards) as the exhaustive path.
+ */
+
+const SUIT_INDEX: Record<Suit, number> = { hearts: 0, diamonds: 1, clubs: 2, spades: 3 };
+
+/** Position of a hand category in the variant's ordering (0 = weakest) */
+export function getHandRankStrength(rank: HandRank, variant: GameVariant = 'holdem'): number {
+  return HAND_RANKINGS[variant].order.indexOf(rank);
+}
+
+/** Category strength in the top digits, then up to five kickers in base 15 */
+export function makeHandValue(strength: number, kickers: number[]): number {
+  let value = strength * 100000000;
+  for (let i = 0; i < kickers.length && i < 5; i++) {
+    value += kickers[i] * Math.pow(15, 4 - i);
+  }
+  return value;
+}
+
+// ─── Straight table ─────────────────────────────────────
+
+/** Highest card of the best straight in a rank mask (bit n = rank value n), 0 when there is none */
+const straightTables = new Map<GameVariant, Uint8Array>();
+
+/** The ace plays low under the deck's four lowest ranks: 5 in a full deck, 9 in short-deck */
+function getWheelTop(variant: GameVariant): number {
+  return RANK_VALUES[DECK_RANKS[variant][3]];
+}
+
+function getStraightTable(variant: GameVariant): Uint8Array {
+  let table = straightTables.get(variant);
+  if (table) return table;
+
+  table = new Uint8Array(1 << 15);
+  const wheelTop = getWheelTop(variant);
+  const wheelMask = (1 << 14) | (0b1111 << (wheelTop - 3));
+  for (let mask = 0; mask < table.length; mask++) {
+    for (let high = 14; high >= 6; high--) {
+      const window = 0b11111 << (high - 4);
+      if ((mask & window) === window) {
+        table[mask] = high;
+        break;
+      }
+    }
+    if (!table[mask] && (mask & wheelMask) === wheelMask) table[mask] = wheelTop;
+  }
+  straightTables.set(variant, table);
+  return table;
+}
+
+/** Ranks making up the straight topped by `high` */
+function straightRanks(high: number, variant: GameVariant): number[] {
+  if (high === getWheelTop(variant)) return [14, high, high - 1, high - 2, high - 3];
+  return [high, high - 1, high - 2, high - 3, high - 4];
+}
+
+/** Highest `count` ranks set in the mask, skipping `exclude` */
+function topRanks(mask: number, count: number, exclude: number[] = []): number[] {
+  const result: number[] = [];
+  for (let r = 14; r >= 2 && result.length < count; r--) {
+    if (mask & (1 << r) && !exclude.includes(r)) result.push(r);
+  }
+  return result;
+}
+
+// ─── Classification ─────────────────────────────────────
+
+interface Classification {
+  rank: HandRank;
+  kickers: number[];
+  /** (rank value, copies) groups that make up the five cards */
+  groups: [number, number][];
+  /** Suit every card must share (flushes) */
+  suit?: number;
+}
+
+const counts = new Uint8Array(15);
+const suitMasks = new Uint16Array(4);
+const suitCounts = new Uint8Array(4);
+
+function classify(cards: Card[], variant: GameVariant): Classification {
+  counts.fill(0);
+  suitMasks.fill(0);
+  suitCounts.fill(0);
+  let rankMask = 0;
+  for (const card of cards) {
+    const r = RANK_VALUES[card.rank];
+    const s = SUIT_INDEX[card.suit];
+    counts[r]++;
+    suitMasks[s] |= 1 << r;
+    suitCounts[s]++;
+    rankMask |= 1 << r;
+  }
+
+  let flushSuit = -1;
+  for (let s = 0; s < 4; s++) if (suitCounts[s] >= 5) flushSuit = s;
+
+  const straights = getStraightTable(variant);
+  const order = HAND_RANKINGS[variant].order;
+
+  // Walk the variant's categories from strongest down and return the first one present
+  for (let i = order.length - 1; i >= 0; i--) {
+    const found = findCategory(order[i], variant, rankMask, flushSuit, straights);
+    if (found) return found;
+  }
+  // High card is always found; this is unreachable
+  return { rank: HandRank.HIGH_CARD, kickers: [], groups: [] };
+}
+
+/** Highest rank with at least `min` copies, skipping `exclude` */
+function highestWithCount(min: number, exclude = 0): number {
+  for (let r = 14; r >= 2; r--) {
+    if (r !== exclude && counts[r] >= min) return r;
+  }
+  return 0;
+}
+
+function singles(ranks: number[]): [number, number][] {
+  return ranks.map(r => [r, 1]);
+}
+
+function findCategory(
+  rank: HandRank,
+  variant: GameVariant,
+  rankMask: number,
+  flushSuit: number,
+  straights: Uint8Array,
+): Classification | null {
+  switch (rank) {
+    case HandRank.ROYAL_FLUSH:
+    case HandRank.STRAIGHT_FLUSH: {
+      if (flushSuit === -1) return null;
+      const high = straights[suitMasks[flushSuit]];
+      if (!high || (high === 14) !== (rank === HandRank.ROYAL_FLUSH)) return null;
+      return { rank, kickers: [high], groups: singles(straightRanks(high, variant)), suit: flushSuit };
+    }
+    case HandRank.FOUR_OF_A_KIND: {
+      const quad = highestWithCount(4);
+      if (!quad) return null;
+      const kicker = topRanks(rankMask, 1, [quad]);
+      return { rank, kickers: [quad, ...kicker], groups: [[quad, 4], ...singles(kicker)] };
+    }
+    case HandRank.FULL_HOUSE: {
+      const trips = highestWithCount(3);
+      const pair = trips ? highestWithCount(2, trips) : 0;
+      if (!pair) return null;
+      return { rank, kickers: [trips, pair], groups: [[trips, 3], [pair, 2]] };
+    }
+    case HandRank.FLUSH: {
+      if (flushSuit === -1) return null;
+      const ranks = topRanks(suitMasks[flushSuit], 5);
+      return { rank, kickers: ranks, groups: singles(ranks), suit: flushSuit };
+    }
+    case HandRank.STRAIGHT: {
+      const high = straights[rankMask];
+      if (!high) return null;
+      return { rank, kickers: [high], groups: singles(straightRanks(high, variant)) };
+    }
+    case HandRank.THREE_OF_A_KIND: {
+      const trips = highestWithCount(3);
+      if (!trips) return null;
+      const kickers = topRanks(rankMask, 2, [trips]);
+      return { rank, kickers: [trips, ...kickers], groups: [[trips, 3], ...singles(kickers)] };
+    }
+    case HandRank.TWO_PAIR: {
+      const high = highestWithCount(2);
+      const low = high ? highestWithCount(2, high) : 0;
+      if (!low) return null;
+      const kicker = topRanks(rankMask, 1, [high, low]);
+      return { rank, kickers: [high, low, ...kicker], groups: [[high, 2], [low, 2], ...singles(kicker)] };
+    }
+    case HandRank.ONE_PAIR: {
+      const pair = highestWithCount(2);
+      if (!pair) return null;
+      const kickers = topRanks(rankMask, 3, [pair]);
+      return { rank, kickers: [pair, ...kickers], groups: [[pair, 2], ...singles(kickers)] };
+    }
+    case HandRank.HIGH_CARD: {
+      const ranks = topRanks(rankMask, 5);
+      return { rank, kickers: ranks, groups: singles(ranks) };
+    }
+  }
+}
+
+/** Comparable hand value only — skips building bestCards, for simulations */
+export function getHandValue(cards: Card[], variant: GameVariant = 'holdem'): number {
+  const { rank, kickers } = classify(cards, variant);
+  return makeHandValue(getHandRankStrength(rank, variant), kickers);
+}
+
+/** Best five-card hand out of 5–7 cards (any combination allowed) */
+export function evaluateCards(cards: Card[], variant: GameVariant = 'holdem'): HandEvaluation {
+  const { rank, kickers, groups, suit } = classify(cards, variant);
+
+  const bestCards: Card[] = [];
+  for (const [value, copies] of groups) {
+    let needed = copies;
+    for (const card of cards) {
+      if (needed === 0) break;
+      if (RANK_VALUES[card.rank] !== value) continue;
+      if (suit !== undefined && SUIT_INDEX[card.suit] !== suit) continue;
+      bestCards.push(card);
+      needed--;
+    }
+  }
+  bestCards.sort((a, b) => RANK_VALUES[b.rank] - RANK_VALUES[a.rank]);
+
+  return {
+    rank,
+    rankName: HAND_RANKINGS[variant].names[rank],
+    value: makeHandValue(getHandRankStrength(rank, variant), kickers),
+    bestCards,
+  };
+}
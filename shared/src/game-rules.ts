@@ -1,5 +1,52 @@
-import { GameState, Player, PlayerAction, GamePhase, SidePot } from './types';
+import { GameState, Player, PlayerAction, GamePhase, SidePot, PotResult, AIDecisionContext, RoomConfig, GameVariant, BettingStructure } from './types';
 import { evaluateHand, compareHands } from './hand-evaluator';
+import {
+  FIXED_LIMIT_RAISE_CAP, MIN_CHIP_UNIT, ACTION_TIMEOUT, ACTION_TIMEOUT_OPTIONS, TIME_BANK_OPTIONS, MIN_BUY_IN_OPTIONS, MAX_BUY_IN_OPTIONS,
+  GAME_VARIANTS, BOMB_POT_EVERY_OPTIONS, BOMB_POT_ANTE_OPTIONS,
+} from './constants';
+import { normalizeTournamentConfig } from './tournament';
+
+/**
+ * Fill in fields older clients may omit; Omaha is only offered as pot-limit and fixed-limit has no straddle.
+ * Bomb pots and dealer's choice are cash-game options; a dealer's-choice room opens with a game from its list.
+ */
+export function normalizeRoomConfig(config: RoomConfig): RoomConfig {
+  const choices = config.tournament ? [] : GAME_VARIANTS.filter(v => config.dealersChoice?.includes(v));
+  const dealersChoice = choices.length >= 2 ? choices : [];
+  const variant = dealersChoice.length > 0 && !dealersChoice.includes(config.variant) ? dealersChoice[0] : (config.variant ?? 'holdem');
+  const bettingStructure = variant === 'omaha' ? 'pot-limit' : (config.bettingStructure ?? 'no-limit');
+  const ante = config.ante ?? 0;
+  const minBuyIn = Math.min(Math.max(...MIN_BUY_IN_OPTIONS), Math.max(Math.min(...MIN_BUY_IN_OPTIONS), Math.floor(config.minBuyIn) || 40));
+  return {
+    ...config,
+    variant,
+    bettingStructure,
+    ante: ante > 0 ? ante : 0,
+    anteStructure: ante > 0 ? (config.anteStructure ?? 'none') : 'none',
+    straddle: !!config.straddle && bettingStructure !== 'fixed-limit',
+    runItTwice: !!config.runItTwice,
+    // Tournament players blind off while they are away
+    sitOutBlinds: config.tournament ? 'post' : (config.sitOutBlinds === 'post' ? 'post' : 'skip'),
+    actionTimeout: Math.min(Math.max(...ACTION_TIMEOUT_OPTIONS), Math.max(Math.min(...ACTION_TIMEOUT_OPTIONS), Math.floor(config.actionTimeout) || ACTION_TIMEOUT)),
+    timeBank: Math.min(Math.max(...TIME_BANK_OPTIONS), Math.max(0, Math.floor(config.timeBank) || 0)),
+    minBuyIn,
+    maxBuyIn: Math.min(Math.max(...MAX_BUY_IN_OPTIONS), Math.max(minBuyIn, Math.floor(config.maxBuyIn) || 200)),
+    bombPotEvery: !config.tournament && BOMB_POT_EVERY_OPTIONS.includes(config.bombPotEvery) ? config.bombPotEvery : 0,
+    bombPotAnte: BOMB_POT_ANTE_OPTIONS.includes(config.bombPotAnte) ? config.bombPotAnte : 2,
+    dealersChoice,
+    ...(config.tournament ? { tournament: normalizeTournamentConfig(config.tournament) } : {}),
+  };
+}
+
+/** Betting structure a room plays a game in: Omaha is always pot-limit, the others use the room's structure */
+export function getBettingStructure(config: RoomConfig, variant: GameVariant): BettingStructure {
+  return variant === 'omaha' ? 'pot-limit' : config.bettingStructure;
+}
+
+/** Cash-room buy-in limits in chips */
+export function getBuyInRange(config: RoomConfig): { min: number; max: number } {
+  return { min: config.minBuyIn * config.bigBlind, max: config.maxBuyIn * config.bigBlind };
+}
 
 export function getActivePlayers(state: GameState): Player[] {
   return state.players.filter(p => p.isActive && !p.isFolded);
@@ -36,10 +83,190 @@ export function getBigBlindIndex(state: GameState): number {
   return getNextActivePlayerIndex(state, sbIndex);
 }
 
+/** Antes owed right now, capped by each player's stack. Antes are dead money: they never count toward currentBet */
+export function getAntePostings(state: GameState): { playerId: string; amount: number }[] {
+  if (state.anteStructure === 'none' || state.ante <= 0) return [];
+  let payers: Player[];
+  switch (state.anteStructure) {
+    case 'every-player':
+      payers = state.players.filter(p => p.isActive);
+      break;
+    case 'big-blind':
+      payers = [state.players[getBigBlindIndex(state)]];
+      break;
+    case 'button':
+      payers = [state.players[state.dealerIndex]];
+      break;
+  }
+  return payers
+    .filter(p => p && p.isActive && p.chips > 0)
+    .map(p => ({ playerId: p.id, amount: Math.min(state.ante, p.chips) }));
+}
+
+/** Seat that posts the straddle: first player after the big blind, never one of the blinds themselves */
+export function getStraddleIndex(state: GameState): number {
+  if (state.straddle <= 0) return -1;
+  const sbIndex = getSmallBlindIndex(state);
+  const bbIndex = getBigBlindIndex(state);
+  const index = getNextActivePlayerIndex(state, bbIndex);
+  return index === sbIndex || index === bbIndex ? -1 : index;
+}
+
+/** Preflop action starts left of the straddle, or left of the big blind */
+export function getPreflopFirstToActIndex(state: GameState): number {
+  const straddler = state.players.findIndex(p => p.isStraddle);
+  const index = getNextActivePlayerIndex(state, straddler !== -1 ? straddler : getBigBlindIndex(state));
+  return index !== -1 ? index : getNextActivePlayerIndex(state, state.dealerIndex);
+}
+
+/**
+ * Post antes, blinds and the straddle for a freshly initialized hand.
+ * A big-blind ante is taken after the blind so a short big blind still posts a full blind first.
+ * In a bomb pot everyone dealt in posts the bomb-pot ante instead, and nobody posts a blind.
+ */
+export function postForcedBets(state: GameState): GameState {
+  const newState = JSON.parse(JSON.stringify(state)) as GameState;
+
+  const post = (player: Player | undefined, amount: number, live: boolean): number => {
+    if (!player || amount <= 0) return 0;
+    const paid = Math.min(amount, player.chips);
+    player.chips -= paid;
+    player.totalBet += paid;
+    if (live) player.currentBet += paid;
+    newState.pot += paid;
+    if (player.chips === 0) player.isAllIn = true;
+    return paid;
+  };
+  const postAntes = () => {
+    for (const { playerId, amount } of getAntePostings(newState)) {
+      newState.deadMoney += post(newState.players.find(p => p.id === playerId), amount, false);
+    }
+  };
+
+  if (newState.bombPot) {
+    for (const player of newState.players.filter(p => p.isActive)) {
+      newState.deadMoney += post(player, newState.bombPot, false);
+    }
+    newState.currentBet = 0;
+    newState.straddle = 0;
+    return newState;
+  }
+
+  if (newState.anteStructure !== 'big-blind') postAntes();
+  post(newState.players[getSmallBlindIndex(newState)], newState.smallBlind, true);
+  post(newState.players[getBigBlindIndex(newState)], newState.bigBlind, true);
+  newState.currentBet = newState.bigBlind;
+
+  const straddleIndex = getStraddleIndex(newState);
+  const straddler = newState.players[straddleIndex];
+  const straddled = straddleIndex !== -1 ? post(straddler, newState.straddle, true) : 0;
+  if (straddled > newState.bigBlind) {
+    // The straddle acts as a third blind: it sets the price and the raise size
+    straddler.isStraddle = true;
+    newState.straddle = straddled;
+    newState.currentBet = straddled;
+  } else {
+    newState.straddle = 0;
+  }
+  // The big blind (or straddle) is the opening bet: a raise must add at least as much again
+  newState.lastRaiseSize = newState.currentBet;
+  newState.minRaise = calculateMinRaise(newState);
+
+  if (newState.anteStructure === 'big-blind') postAntes();
+  return newState;
+}
+
 export function calculateMinRaise(state: GameState): number {
   return Math.max(state.bigBlind, state.currentBet * 2);
 }
 
+/** Fixed-limit bet size: small bet preflop/flop, big bet on turn/river */
+export function getFixedLimitBetSize(state: GameState): number {
+  return state.phase === 'turn' || state.phase === 'river' ? state.bigBlind * 2 : state.bigBlind;
+}
+
+/** Minimum raise-to total after the bet is raised from `prevBet` to `newBet` */
+function getNextMinRaise(state: GameState, prevBet: number, newBet: number): number {
+  if (state.bettingStructure === 'fixed-limit') {
+    return newBet + getFixedLimitBetSize(state);
+  }
+  return newBet + Math.max(state.bigBlind, newBet - prevBet);
+}
+
+/** Whether raising the bet to `newBet` is a full raise (or the round's opening bet), which reopens the betting */
+export function isFullRaise(state: GameState, newBet: number): boolean {
+  return state.currentBet === 0 || newBet >= state.minRaise;
+}
+
+/** Fixed-limit only: no further raises once the cap is reached this round */
+export function isRaiseCapped(state: GameState): boolean {
+  return state.bettingStructure === 'fixed-limit' && state.raiseCount >= FIXED_LIMIT_RAISE_CAP;
+}
+
+/** Largest total bet the player may raise to under the betting structure, capped by their stack */
+export function getMaxRaise(state: GameState, player: Player): number {
+  const stackTotal = player.chips + player.currentBet;
+  switch (state.bettingStructure) {
+    case 'pot-limit': {
+      // Pot-sized raise: call first, then raise by the whole pot including that call
+      const callAmount = state.currentBet - player.currentBet;
+      return Math.min(stackTotal, state.currentBet + state.pot + callAmount);
+    }
+    case 'fixed-limit':
+      return Math.min(stackTotal, state.minRaise);
+    default:
+      return stackTotal;
+  }
+}
+
+/**
+ * Incomplete-raise rule: a player who already acted this round may raise again only when the
+ * bet has gone up by at least a full raise since — a short all-in on its own lets them call,
+ * not re-raise. Several short all-ins that add up to a full raise do reopen it.
+ */
+export function isBettingReopened(state: GameState, player: Player): boolean {
+  if (!(state.actedThisRound ?? []).includes(player.id)) return true;
+  return state.currentBet - player.currentBet >= (state.lastRaiseSize ?? state.bigBlind);
+}
+
+/** Whether the player may put in more than a call right now */
+export function canRaise(state: GameState, player: Player): boolean {
+  return !isRaiseCapped(state) && isBettingReopened(state, player) && player.chips + player.currentBet > state.currentBet;
+}
+
+/** Whether going all-in is legal (always, unless it would exceed the structure's max raise) */
+export function canGoAllIn(state: GameState, player: Player): boolean {
+  if (player.chips <= 0) return false;
+  const allInTotal = player.chips + player.currentBet;
+  // All-in for no more than a call is always allowed
+  if (allInTotal <= state.currentBet) return true;
+  return canRaise(state, player) && allInTotal <= getMaxRaise(state, player);
+}
+
+/**
+ * Clamp an AI decision to what the betting structure allows:
+ * raises are fitted into [minRaise, maxRaise], and illegal all-ins become a max raise or a call.
+ */
+export function fitActionToLimits(action: PlayerAction, context: AIDecisionContext): PlayerAction {
+  const callAmount = context.currentBet - context.playerBet;
+  const stackTotal = context.playerChips + context.playerBet;
+  const passive: PlayerAction = callAmount === 0
+    ? { type: 'check' }
+    : callAmount <= context.playerChips ? { type: 'call' } : { type: 'all-in' };
+
+  if (action.type === 'raise') {
+    if (!context.canRaise) return passive;
+    const amount = Math.min(Math.max(action.amount ?? context.minRaise, context.minRaise), context.maxRaise);
+    if (amount >= stackTotal) return { type: 'all-in' };
+    return { type: 'raise', amount };
+  }
+  if (action.type === 'all-in' && stackTotal > context.currentBet) {
+    if (!context.canRaise) return passive;
+    if (stackTotal > context.maxRaise) return { type: 'raise', amount: context.maxRaise };
+  }
+  return action;
+}
+
 export function isValidAction(state: GameState, playerId: string, action: PlayerAction): boolean {
   const player = state.players.find(p => p.id === playerId);
   if (!player || player.isFolded || !player.isActive) return false;
@@ -55,12 +282,14 @@ export function isValidAction(state: GameState, playerId: string, action: Player
     case 'call':
       return callAmount > 0 && player.chips >= callAmount;
     case 'raise': {
-      if (!action.amount) return false;
+      if (!action.amount || !canRaise(state, player)) return false;
       const raiseAmount = action.amount;
-      return raiseAmount >= state.minRaise && player.chips >= (raiseAmount - player.currentBet);
+      return raiseAmount >= state.minRaise
+        && raiseAmount <= getMaxRaise(state, player)
+        && player.chips >= (raiseAmount - player.currentBet);
     }
     case 'all-in':
-      return player.chips > 0;
+      return canGoAllIn(state, player);
     default:
       return false;
   }
@@ -96,7 +325,9 @@ export function applyAction(state: GameState, playerId: string, action: PlayerAc
       player.totalBet += toAdd;
       newState.pot += toAdd;
       newState.currentBet = raiseTotal;
-      newState.minRaise = raiseTotal + (raiseTotal - state.currentBet);
+      newState.minRaise = getNextMinRaise(state, state.currentBet, raiseTotal);
+      newState.lastRaiseSize = newState.minRaise - raiseTotal;
+      newState.raiseCount += 1;
       if (player.chips === 0) player.isAllIn = true;
       break;
     }
@@ -109,7 +340,14 @@ export function applyAction(state: GameState, playerId: string, action: PlayerAc
       player.isAllIn = true;
       if (player.currentBet > newState.currentBet) {
         newState.currentBet = player.currentBet;
-        newState.minRaise = player.currentBet + Math.max(state.bigBlind, player.currentBet - state.currentBet);
+        if (isFullRaise(state, player.currentBet)) {
+          newState.minRaise = getNextMinRaise(state, state.currentBet, player.currentBet);
+          newState.lastRaiseSize = newState.minRaise - player.currentBet;
+          newState.raiseCount += 1;
+        } else {
+          // A short all-in: the next raise must still add a full raise on top of it
+          newState.minRaise = player.currentBet + (state.lastRaiseSize ?? state.bigBlind);
+        }
       }
       break;
     }
@@ -146,7 +384,11 @@ export function resetBetsForNewRound(state: GameState): GameState {
     player.currentBet = 0;
   }
   newState.currentBet = 0;
-  newState.minRaise = newState.bigBlind;
+  newState.minRaise = newState.bettingStructure === 'fixed-limit'
+    ? getFixedLimitBetSize(newState)
+    : newState.bigBlind;
+  newState.raiseCount = 0;
+  newState.lastRaiseSize = newState.minRaise;
   newState.lastAction = undefined;
   newState.actedThisRound = [];
 
@@ -160,6 +402,11 @@ export function resetBetsForNewRound(state: GameState): GameState {
   return newState;
 }
 
+/**
+ * Split the pot into main and side pots by all-in level. Every chip committed this hand counts —
+ * including bets and antes from players who later folded — so a player all-in for just an ante
+ * can still win everyone's matching share.
+ */
 export function calculateSidePots(state: GameState): SidePot[] {
   const playersInHand = getPlayersInHand(state);
   if (playersInHand.length === 0) return [];
@@ -174,67 +421,125 @@ export function calculateSidePots(state: GameState): SidePot[] {
     return [{ amount: state.pot, eligiblePlayerIds: playersInHand.map(p => p.id) }];
   }
 
+  const committedUpTo = (level: number) =>
+    state.players.reduce((sum, p) => sum + Math.min(p.totalBet, level), 0);
+
   const sidePots: SidePot[] = [];
   let previousLevel = 0;
+  let previousCommitted = 0;
 
   for (const level of uniqueAmounts) {
-    const contribution = level - previousLevel;
+    const committed = committedUpTo(level);
     const eligible = playersInHand.filter(p => p.totalBet >= level);
-    const potAmount = contribution * eligible.length;
+    const potAmount = committed - previousCommitted;
     if (potAmount > 0) {
       sidePots.push({ amount: potAmount, eligiblePlayerIds: eligible.map(p => p.id) });
     }
     previousLevel = level;
+    previousCommitted = committed;
   }
 
-  const remainingPlayers = playersInHand.filter(p => p.totalBet > previousLevel);
-  if (remainingPlayers.length > 0) {
-    let remaining = 0;
-    for (const p of remainingPlayers) {
-      remaining += p.totalBet - previousLevel;
-    }
-    if (remaining > 0) {
+  const remaining = state.pot - previousCommitted;
+  if (remaining > 0) {
+    const remainingPlayers = playersInHand.filter(p => p.totalBet > previousLevel);
+    if (remainingPlayers.length > 0) {
       sidePots.push({ amount: remaining, eligiblePlayerIds: remainingPlayers.map(p => p.id) });
+    } else if (sidePots.length > 0) {
+      // Only folded players put chips above the last all-in: that money stays in the last pot
+      sidePots[sidePots.length - 1].amount += remaining;
     }
   }
 
   return sidePots;
 }
 
-export function determineWinners(state: GameState): { playerId: string; amount: number; handName: string }[] {
-  const inHand = getPlayersInHand(state);
+/** Seats clockwise from the first seat left of the button — the odd-chip order */
+function seatsFromButton(state: GameState, playerIds: string[]): string[] {
+  const n = state.players.length;
+  const distance = (id: string) =>
+    (state.players.findIndex(p => p.id === id) - state.dealerIndex - 1 + n) % n;
+  return [...playerIds].sort((a, b) => distance(a) - distance(b));
+}
 
-  if (inHand.length === 1) {
-    return [{ playerId: inHand[0].id, amount: state.pot, handName: 'Last Standing' }];
+/** Split chips into `parts` shares of whole chip units; the odd chips go to the first shares */
+function splitChips(amount: number, parts: number): number[] {
+  const unit = amount % MIN_CHIP_UNIT === 0 ? MIN_CHIP_UNIT : 1;
+  const share = Math.floor(amount / (parts * unit)) * unit;
+  const shares = new Array<number>(parts).fill(share);
+  let oddChips = amount - share * parts;
+  for (let i = 0; oddChips > 0; i++) {
+    const chip = Math.min(unit, oddChips);
+    shares[i % parts] += chip;
+    oddChips -= chip;
   }
+  return shares;
+}
 
-  const sidePots = calculateSidePots(state);
-  const winners: Map<string, { amount: number; handName: string }> = new Map();
-
-  const evaluations = new Map<string, ReturnType<typeof evaluateHand>>();
-  for (const player of inHand) {
-    evaluations.set(player.id, evaluateHand(player.cards, state.communityCards));
-  }
+/** Best eligible hand(s) on one board take `amount`, odd chips starting left of the button */
+function awardPot(
+  state: GameState,
+  pot: SidePot,
+  amount: number,
+  evaluations: Map<string, ReturnType<typeof evaluateHand>>,
+): PotResult['winners'] {
+  const eligibleEvals = pot.eligiblePlayerIds
+    .filter(id => evaluations.has(id))
+    .map(id => ({ id, eval: evaluations.get(id)! }));
+  if (eligibleEvals.length === 0) return [];
+
+  eligibleEvals.sort((a, b) => compareHands(b.eval, a.eval));
+  const bestValue = eligibleEvals[0].eval.value;
+  const winnerIds = seatsFromButton(state, eligibleEvals.filter(e => e.eval.value === bestValue).map(e => e.id));
+  const amounts = splitChips(amount, winnerIds.length);
+  return winnerIds.map((playerId, i) => ({
+    playerId,
+    amount: amounts[i],
+    handName: evaluations.get(playerId)!.rankName,
+  }));
+}
 
-  for (const pot of sidePots) {
-    const eligibleEvals = pot.eligiblePlayerIds
-      .filter(id => evaluations.has(id))
-      .map(id => ({ id, eval: evaluations.get(id)! }));
+/**
+ * Award every pot to its best eligible hand(s). A split pot is divided in whole chip units;
+ * the odd chips go one unit at a time starting with the first winner left of the button.
+ * When the board was run more than once, each pot is first split evenly across the boards.
+ */
+export function determinePotResults(state: GameState): PotResult[] {
+  const inHand = getPlayersInHand(state);
 
-    if (eligibleEvals.length === 0) continue;
+  if (inHand.length === 1) {
+    return [{
+      potIndex: 0,
+      amount: state.pot,
+      winners: [{ playerId: inHand[0].id, amount: state.pot, handName: 'Last Standing' }],
+    }];
+  }
 
-    eligibleEvals.sort((a, b) => compareHands(b.eval, a.eval));
-    const bestValue = eligibleEvals[0].eval.value;
-    const potWinners = eligibleEvals.filter(e => e.eval.value === bestValue);
-    const share = Math.floor(pot.amount / potWinners.length);
+  const boards = state.boards && state.boards.length > 1 ? state.boards : [state.communityCards];
+  const evaluations = boards.map(board => new Map(
+    inHand.map(p => [p.id, evaluateHand(p.cards, board, state.variant)] as const),
+  ));
+
+  return calculateSidePots(state).flatMap((pot, potIndex) =>
+    splitChips(pot.amount, boards.length).map((amount, board): PotResult => ({
+      potIndex,
+      ...(boards.length > 1 ? { board } : {}),
+      amount,
+      winners: awardPot(state, pot, amount, evaluations[board]),
+    })),
+  );
+}
 
-    for (const w of potWinners) {
-      const existing = winners.get(w.id);
-      if (existing) {
-        existing.amount += share;
-      } else {
-        winners.set(w.id, { amount: share, handName: w.eval.rankName });
-      }
+/** Total won per player across all pots */
+export function determineWinners(
+  state: GameState,
+  potResults: PotResult[] = determinePotResults(state),
+): { playerId: string; amount: number; handName: string }[] {
+  const winners: Map<string, { amount: number; handName: string }> = new Map();
+  for (const pot of potResults) {
+    for (const w of pot.winners) {
+      const existing = winners.get(w.playerId);
+      if (existing) existing.amount += w.amount;
+      else winners.set(w.playerId, { amount: w.amount, handName: w.handName });
     }
   }
 
@@ -244,3 +549,17 @@ export function determineWinners(state: GameState): { playerId: string; amount:
     handName: data.handName,
   }));
 }
+
+/** Sum of every stack at the table */
+export function getTotalChips(players: Player[]): number {
+  return players.reduce((sum, p) => sum + p.chips, 0);
+}
+
+/** Throws if settling a hand created or destroyed chips (compare the pre-blind state with the settled one) */
+export function assertChipsConserved(before: GameState, after: GameState): void {
+  const expected = getTotalChips(before.players);
+  const actual = getTotalChips(after.players);
+  if (expected !== actual) {
+    throw new Error(`Chip conservation violated in hand #${after.round}: ${expected} before, ${actual} after`);
+  }
+}
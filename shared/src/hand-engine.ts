@@ -0,0 +1,210 @@
+import { Card, GamePhase, GameState, PlayerAction } from './types';
+import { MAX_RUN_COUNT } from './constants';
+import {
+  applyAction, isValidAction, advancePhase, resetBetsForNewRound, getPlayersInHand, getNextActivePlayerIndex,
+  getPreflopFirstToActIndex, calculateSidePots, determinePotResults, determineWinners,
+} from './game-rules';
+import { startHandFromSeed } from './hand-replay';
+
+/**
+ * Pure hand engine: one hand as a reducer over events. applyEvent never reads a clock, starts a
+ * timer or draws randomness — the deck comes from the hand's seed — so the same events always
+ * give the same hand. The effects tell the driver (the server's GameController) what happened
+ * and what it is waiting for; pacing, clocks, bots and broadcasting stay with the driver.
+ */
+
+export interface HandEngineState {
+  game: GameState;
+  /** Undealt cards, next card first */
+  deck: Card[];
+  /** Boards to run out after an all-in, once the players have answered the run-it offer */
+  runs?: number;
+  /** The board at the all-in: every further run-out starts again from these cards */
+  sharedBoard?: Card[];
+}
+
+export type HandEvent =
+  /** Post forced bets and deal hole cards; `game` must be the hand's pre-blind state */
+  | { type: 'start'; seed: string }
+  | { type: 'action'; playerId: string; action: PlayerAction }
+  /** A player left mid-hand: their cards are folded, in turn or not */
+  | { type: 'leave'; playerId: string }
+  /** Answer to the all-in effect: how many times to run the board */
+  | { type: 'run-out'; runs: number }
+  /** Deal the next street or board of an all-in run-out */
+  | { type: 'deal' };
+
+export type HandEffect =
+  | { type: 'action'; playerId: string; action: PlayerAction }
+  | { type: 'street'; phase: GamePhase; cards: Card[] }
+  /** Waiting for this player to act */
+  | { type: 'turn'; playerId: string }
+  /** Betting is over with cards to come: answer with a run-out event */
+  | { type: 'all-in' }
+  /** Part of a run-out was dealt: send a deal event once the table has seen it */
+  | { type: 'pause' }
+  /** The hand is settled: pots awarded and the winners' stacks paid */
+  | { type: 'showdown' };
+
+export interface HandStep {
+  state: HandEngineState;
+  effects: HandEffect[];
+}
+
+/** Apply one event to a hand. Events that do not fit the hand (an invalid action, a deal with nothing to deal) change nothing. */
+export function applyEvent(hand: HandEngineState, event: HandEvent): HandStep {
+  const next: HandEngineState = { ...hand, game: JSON.parse(JSON.stringify(hand.game)), deck: [...hand.deck] };
+  const effects: HandEffect[] = [];
+
+  switch (event.type) {
+    case 'start': {
+      const { state, deck } = startHandFromSeed(next.game, event.seed);
+      next.game = state;
+      next.deck = deck.remainingCards();
+      next.game.actedThisRound = [];
+      // A bomb pot has no preflop betting: play starts on the flop
+      next.game.currentPlayerIndex = next.game.bombPot ? -1 : getPreflopFirstToActIndex(next.game);
+      if (next.game.currentPlayerIndex === -1) closeBettingRound(next, effects);
+      else effects.push({ type: 'turn', playerId: next.game.players[next.game.currentPlayerIndex].id });
+      break;
+    }
+
+    case 'action': {
+      const { playerId, action } = event;
+      if (!isBetting(next.game) || !isValidAction(next.game, playerId, action)) return { state: hand, effects };
+      const prevRaiseCount = next.game.raiseCount;
+      next.game = applyAction(next.game, playerId, action);
+      // Only a full bet or raise re-opens the action; after a short all-in the others just owe the difference
+      if (next.game.raiseCount > prevRaiseCount) {
+        next.game.actedThisRound = [playerId];
+      } else if (!next.game.actedThisRound.includes(playerId)) {
+        next.game.actedThisRound.push(playerId);
+      }
+      effects.push({ type: 'action', playerId, action });
+      passTurn(next, effects);
+      break;
+    }
+
+    case 'leave': {
+      const player = next.game.players.find(p => p.id === event.playerId);
+      if (!isBetting(next.game) || !player || player.isFolded || !player.isActive) return { state: hand, effects };
+      const wasTheirTurn = next.game.players[next.game.currentPlayerIndex]?.id === player.id;
+      player.isFolded = true;
+      player.isActive = false;
+      effects.push({ type: 'action', playerId: player.id, action: { type: 'fold' } });
+      if (wasTheirTurn || getPlayersInHand(next.game).length <= 1) passTurn(next, effects);
+      break;
+    }
+
+    case 'run-out': {
+      if (next.runs !== undefined || !isAllInRunOut(next.game)) return { state: hand, effects };
+      next.runs = Math.min(Math.max(Math.floor(event.runs) || 1, 1), MAX_RUN_COUNT);
+      next.sharedBoard = [...next.game.communityCards];
+      dealRunOut(next, effects);
+      break;
+    }
+
+    case 'deal': {
+      if (next.runs === undefined || next.game.phase === 'showdown') return { state: hand, effects };
+      dealRunOut(next, effects);
+      break;
+    }
+  }
+
+  return { state: next, effects };
+}
+
+function isBetting(game: GameState): boolean {
+  return game.phase !== 'waiting' && game.phase !== 'showdown';
+}
+
+/** Nobody, or only one player, can still bet while two or more are in the hand with cards to come */
+function isAllInRunOut(game: GameState): boolean {
+  const inHand = getPlayersInHand(game);
+  return isBetting(game) && inHand.length > 1 && inHand.filter(p => !p.isAllIn).length <= 1 && game.communityCards.length < 5;
+}
+
+function isBettingRoundComplete(game: GameState): boolean {
+  const canAct = getPlayersInHand(game).filter(p => !p.isAllIn);
+  if (canAct.length === 0) return true;
+  // A lone player facing no bet must still have had their turn (e.g. the big blind's option)
+  if (canAct.length === 1 && canAct[0].currentBet >= game.currentBet) return game.actedThisRound.includes(canAct[0].id);
+  return canAct.every(p => p.currentBet === game.currentBet && game.actedThisRound.includes(p.id));
+}
+
+/** After an action or fold: settle an uncontested pot, close the betting round, or hand the turn on */
+function passTurn(hand: HandEngineState, effects: HandEffect[]): void {
+  const game = hand.game;
+  if (getPlayersInHand(game).length <= 1) {
+    settle(hand, effects);
+  } else if (isBettingRoundComplete(game)) {
+    closeBettingRound(hand, effects);
+  } else {
+    game.currentPlayerIndex = getNextActivePlayerIndex(game, game.currentPlayerIndex);
+    if (game.currentPlayerIndex === -1) closeBettingRound(hand, effects);
+    else effects.push({ type: 'turn', playerId: game.players[game.currentPlayerIndex].id });
+  }
+}
+
+/** Deal the next street and open its betting — or, when nobody is left to bet, ask for the run-out */
+function closeBettingRound(hand: HandEngineState, effects: HandEffect[]): void {
+  if (isAllInRunOut(hand.game)) {
+    effects.push({ type: 'all-in' });
+    return;
+  }
+  const phase = advancePhase(hand.game);
+  if (phase === 'showdown' || getPlayersInHand(hand.game).filter(p => !p.isAllIn).length <= 1) {
+    settle(hand, effects);
+    return;
+  }
+
+  hand.game = resetBetsForNewRound({ ...hand.game, phase });
+  effects.push({ type: 'street', phase, cards: dealStreetCards(hand) });
+  hand.game.currentPlayerIndex = getNextActivePlayerIndex(hand.game, hand.game.dealerIndex);
+  if (hand.game.currentPlayerIndex === -1) closeBettingRound(hand, effects);
+  else effects.push({ type: 'turn', playerId: hand.game.players[hand.game.currentPlayerIndex].id });
+}
+
+/** Burn one card and deal the flop, turn or river onto the live board */
+function dealStreetCards(hand: HandEngineState, board: Card[] = hand.game.communityCards): Card[] {
+  const count = board.length === 0 ? 3 : 1;
+  const cards = hand.deck.slice(1, 1 + count);
+  hand.deck = hand.deck.slice(1 + count);
+  board.push(...cards);
+  return cards;
+}
+
+/** One step of an all-in run-out: the next street of the live board, then each further board */
+function dealRunOut(hand: HandEngineState, effects: HandEffect[]): void {
+  const game = hand.game;
+  if (game.communityCards.length < 5) {
+    const cards = dealStreetCards(hand);
+    game.phase = game.communityCards.length === 3 ? 'flop' : game.communityCards.length === 4 ? 'turn' : 'river';
+    effects.push({ type: 'street', phase: game.phase, cards });
+    effects.push({ type: 'pause' });
+    return;
+  }
+  const boards = game.boards ?? [game.communityCards];
+  if (boards.length < hand.runs!) {
+    const board = [...hand.sharedBoard!];
+    while (board.length < 5) dealStreetCards(hand, board);
+    game.boards = [...boards, board];
+    effects.push({ type: 'pause' });
+    return;
+  }
+  settle(hand, effects);
+}
+
+/** Split the pots at showdown (or award an uncontested one) and pay the winners */
+function settle(hand: HandEngineState, effects: HandEffect[]): void {
+  const game = hand.game;
+  game.phase = 'showdown';
+  game.sidePots = calculateSidePots(game);
+  game.potResults = determinePotResults(game);
+  game.winners = determineWinners(game, game.potResults);
+  for (const winner of game.winners) {
+    const player = game.players.find(p => p.id === winner.playerId);
+    if (player) player.chips += winner.amount;
+  }
+  effects.push({ type: 'showdown' });
+}
@@ -1,5 +1,6 @@
-import { Card, HandRank, HandEvaluation } from './types';
-import { RANK_VALUES, HAND_RANK_NAMES } from './constants';
+import { Card, HandRank, HandEvaluation, GameVariant } from './types';
+import { RANK_VALUES, DECK_RANKS, HAND_RANKINGS } from './constants';
+import { evaluateCards, getHandValue, getHandRankStrength, makeHandValue } from './fast-evaluator';
 
 function getRankValue(rank: string): number {
   return RANK_VALUES[rank as keyof typeof RANK_VALUES] || 0;
@@ -22,7 +23,8 @@ function getCombinations(cards: Card[], size: number): Card[][] {
   return result;
 }
 
-function evaluateFiveCards(cards: Card[]): { rank: HandRank; value: number } {
+function evaluateFiveCards(cards: Card[], variant: GameVariant): { rank: HandRank; value: number } {
+  const score = (rank: HandRank, kickers: number[]) => ({ rank, value: makeHandValue(getHandRankStrength(rank, variant), kickers) });
   const sorted = sortByRankDesc(cards);
   const ranks = sorted.map(c => getRankValue(c.rank));
   const suits = sorted.map(c => c.suit);
@@ -38,17 +40,19 @@ function evaluateFiveCards(cards: Card[]): { rank: HandRank; value: number } {
       isStraight = true;
       straightHigh = ranks[0];
     }
-    if (ranks[0] === 14 && ranks[1] === 5 && ranks[2] === 4 && ranks[3] === 3 && ranks[4] === 2) {
+    // The ace plays low below the deck's four lowest ranks: A-2-3-4-5, or A-6-7-8-9 in short-deck
+    const lowest = DECK_RANKS[variant].slice(0, 4).map(getRankValue).reverse();
+    if (ranks[0] === 14 && lowest.every((r, i) => ranks[i + 1] === r)) {
       isStraight = true;
-      straightHigh = 5;
+      straightHigh = lowest[0];
     }
   }
 
   if (isFlush && isStraight) {
     if (straightHigh === 14) {
-      return { rank: HandRank.ROYAL_FLUSH, value: makeValue(HandRank.ROYAL_FLUSH, [14]) };
+      return score(HandRank.ROYAL_FLUSH, [14]);
     }
-    return { rank: HandRank.STRAIGHT_FLUSH, value: makeValue(HandRank.STRAIGHT_FLUSH, [straightHigh]) };
+    return score(HandRank.STRAIGHT_FLUSH, [straightHigh]);
   }
 
   const rankCounts = new Map<number, number>();
@@ -62,69 +66,94 @@ function evaluateFiveCards(cards: Card[]): { rank: HandRank; value: number } {
   if (counts[0][1] === 4) {
     const quad = counts[0][0];
     const kicker = counts[1][0];
-    return { rank: HandRank.FOUR_OF_A_KIND, value: makeValue(HandRank.FOUR_OF_A_KIND, [quad, kicker]) };
+    return score(HandRank.FOUR_OF_A_KIND, [quad, kicker]);
   }
 
   if (counts[0][1] === 3 && counts[1][1] === 2) {
-    return { rank: HandRank.FULL_HOUSE, value: makeValue(HandRank.FULL_HOUSE, [counts[0][0], counts[1][0]]) };
+    return score(HandRank.FULL_HOUSE, [counts[0][0], counts[1][0]]);
   }
 
   if (isFlush) {
-    return { rank: HandRank.FLUSH, value: makeValue(HandRank.FLUSH, ranks) };
+    return score(HandRank.FLUSH, ranks);
   }
 
   if (isStraight) {
-    return { rank: HandRank.STRAIGHT, value: makeValue(HandRank.STRAIGHT, [straightHigh]) };
+    return score(HandRank.STRAIGHT, [straightHigh]);
   }
 
   if (counts[0][1] === 3) {
     const triple = counts[0][0];
     const kickers = counts.slice(1).map(c => c[0]).sort((a, b) => b - a);
-    return { rank: HandRank.THREE_OF_A_KIND, value: makeValue(HandRank.THREE_OF_A_KIND, [triple, ...kickers]) };
+    return score(HandRank.THREE_OF_A_KIND, [triple, ...kickers]);
   }
 
   if (counts[0][1] === 2 && counts[1][1] === 2) {
     const pairs = [counts[0][0], counts[1][0]].sort((a, b) => b - a);
     const kicker = counts[2][0];
-    return { rank: HandRank.TWO_PAIR, value: makeValue(HandRank.TWO_PAIR, [...pairs, kicker]) };
+    return score(HandRank.TWO_PAIR, [...pairs, kicker]);
   }
 
   if (counts[0][1] === 2) {
     const pair = counts[0][0];
     const kickers = counts.slice(1).map(c => c[0]).sort((a, b) => b - a);
-    return { rank: HandRank.ONE_PAIR, value: makeValue(HandRank.ONE_PAIR, [pair, ...kickers]) };
+    return score(HandRank.ONE_PAIR, [pair, ...kickers]);
   }
 
-  return { rank: HandRank.HIGH_CARD, value: makeValue(HandRank.HIGH_CARD, ranks) };
+  return score(HandRank.HIGH_CARD, ranks);
 }
 
-function makeValue(rank: HandRank, kickers: number[]): number {
-  let value = rank * 100000000;
-  for (let i = 0; i < kickers.length && i < 5; i++) {
-    value += kickers[i] * Math.pow(15, 4 - i);
+/** Placeholder before a full five-card hand exists */
+function incompleteHand(cards: Card[], variant: GameVariant): HandEvaluation {
+  return {
+    rank: HandRank.HIGH_CARD,
+    rankName: HAND_RANKINGS[variant].names[HandRank.HIGH_CARD],
+    value: 0,
+    bestCards: sortByRankDesc(cards),
+  };
+}
+
+/**
+ * Best five-card hand for a player. Hold'em and short-deck use any 5 of the 7 cards;
+ * Omaha must use exactly 2 hole cards and exactly 3 community cards.
+ */
+export function evaluateHand(holeCards: Card[], communityCards: Card[], variant: GameVariant = 'holdem'): HandEvaluation {
+  const allCards = [...holeCards, ...communityCards];
+  if (allCards.length < 5 || (variant === 'omaha' && communityCards.length < 3)) {
+    return incompleteHand(allCards, variant);
+  }
+  if (variant !== 'omaha') return evaluateCards(allCards, variant);
+
+  // Omaha: score the 60 legal hands by value, build the full evaluation only for the winner
+  let bestValue = -1;
+  let bestCombo: Card[] = [];
+  for (const combo of getOmahaCombinations(holeCards, communityCards)) {
+    const value = getHandValue(combo, variant);
+    if (value > bestValue) {
+      bestValue = value;
+      bestCombo = combo;
+    }
   }
-  return value;
+  return evaluateCards(bestCombo, variant);
 }
 
-export function evaluateHand(holeCards: Card[], communityCards: Card[]): HandEvaluation {
+/**
+ * Reference implementation: scores every five-card combination one by one.
+ * Kept to verify and benchmark the bit-mask evaluator; game code should call evaluateHand.
+ */
+export function evaluateHandExhaustive(holeCards: Card[], communityCards: Card[], variant: GameVariant = 'holdem'): HandEvaluation {
   const allCards = [...holeCards, ...communityCards];
+  const isOmaha = variant === 'omaha';
 
-  if (allCards.length < 5) {
-    const sorted = sortByRankDesc(allCards);
-    return {
-      rank: HandRank.HIGH_CARD,
-      rankName: HAND_RANK_NAMES[HandRank.HIGH_CARD],
-      value: 0,
-      bestCards: sorted,
-    };
+  if (allCards.length < 5 || (isOmaha && communityCards.length < 3)) {
+    return incompleteHand(allCards, variant);
   }
 
-  const combos = getCombinations(allCards, 5);
+  const combos = isOmaha ? getOmahaCombinations(holeCards, communityCards) : getCombinations(allCards, 5);
   let bestEval = { rank: HandRank.HIGH_CARD as HandRank, value: -1 };
   let bestCombo: Card[] = combos[0];
 
   for (const combo of combos) {
-    const evalResult = evaluateFiveCards(combo);
+    const evalResult = evaluateFiveCards(combo, variant);
     if (evalResult.value > bestEval.value) {
       bestEval = evalResult;
       bestCombo = combo;
@@ -133,12 +162,23 @@ export function evaluateHand(holeCards: Card[], communityCards: Card[]): HandEva
 
   return {
     rank: bestEval.rank,
-    rankName: HAND_RANK_NAMES[bestEval.rank],
+    rankName: HAND_RANKINGS[variant].names[bestEval.rank],
     value: bestEval.value,
     bestCards: sortByRankDesc(bestCombo),
   };
 }
 
+/** Every legal Omaha hand: 2 of the hole cards + 3 of the board */
+function getOmahaCombinations(holeCards: Card[], communityCards: Card[]): Card[][] {
+  const result: Card[][] = [];
+  for (const hole of getCombinations(holeCards, 2)) {
+    for (const board of getCombinations(communityCards, 3)) {
+      result.push([...hole, ...board]);
+    }
+  }
+  return result;
+}
+
 export function compareHands(hand1: HandEvaluation, hand2: HandEvaluation): number {
   return hand1.value - hand2.value;
 }
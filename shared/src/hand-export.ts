@@ -0,0 +1,339 @@
+import { BettingStructure, Card, GamePhase, GameVariant, HandHistory, HandHistoryPlayer } from './types';
+import { cardToString } from './utils';
+
+/**
+ * Hand history export. PokerStars-style text is what third-party trackers and replayers read;
+ * the JSON file is the stored hand itself, wrapped with a format tag and version so it can be
+ * loaded back into the replayer. Both work on a hand as the viewer saw it: hole cards the
+ * viewer was not allowed to see are already gone and are simply not printed.
+ */
+
+export type HandExportFormat = 'pokerstars' | 'json';
+
+export const HAND_EXPORT_FORMAT = 'texas-agent-hand';
+export const HAND_EXPORT_VERSION = 1;
+
+/** A hand as written to a .json export file — see HAND_EXPORT_JSON_SCHEMA */
+export interface HandExport {
+  format: typeof HAND_EXPORT_FORMAT;
+  version: typeof HAND_EXPORT_VERSION;
+  exportedAt: number;
+  /** The stored hand, without its server-side replay record */
+  hand: HandHistory;
+}
+
+const VARIANT_NAMES: Record<GameVariant, string> = {
+  holdem: "Hold'em",
+  omaha: 'Omaha',
+  'short-deck': "6+ Hold'em",
+};
+
+const STRUCTURE_NAMES: Record<BettingStructure, string> = {
+  'no-limit': 'No Limit',
+  'pot-limit': 'Pot Limit',
+  'fixed-limit': 'Limit',
+};
+
+const FOLDED_ON: Partial<Record<GamePhase, string>> = {
+  preflop: 'before Flop',
+  flop: 'on the Flop',
+  turn: 'on the Turn',
+  river: 'on the River',
+};
+
+/** PokerStars card notation: rank (T for ten) and lowercase suit letter, e.g. Th */
+function formatCard(card: Card): string {
+  return cardToString(card).replace(/^10/, 'T');
+}
+
+function formatCards(cards: Card[]): string {
+  return `[${cards.map(formatCard).join(' ')}]`;
+}
+
+/** 2024/01/31 18:05:09 UTC */
+function formatTime(ms: number): string {
+  const iso = new Date(ms).toISOString();
+  return `${iso.slice(0, 10).replace(/-/g, '/')} ${iso.slice(11, 19)} UTC`;
+}
+
+function seatLabel(player: HandHistoryPlayer): string {
+  if (player.isDealer) return ' (button)';
+  if (player.isSmallBlind) return ' (small blind)';
+  if (player.isBigBlind) return ' (big blind)';
+  return '';
+}
+
+/**
+ * Format a stored hand as PokerStars hand history text. `heroId` is the seat the file is written
+ * for: its hole cards go on the "Dealt to" line even when they were never shown.
+ */
+export function formatPokerStarsHand(hand: HandHistory, heroId?: string): string {
+  const lines: string[] = [];
+  const players = [...hand.players].sort((a, b) => a.seatIndex - b.seatIndex);
+  const byId = new Map(players.map(p => [p.id, p]));
+  const name = (id: string) => byId.get(id)?.name ?? id;
+
+  const game = `${VARIANT_NAMES[hand.variant]} ${STRUCTURE_NAMES[hand.bettingStructure]}`;
+  const prefix = hand.tournamentId ? `Tournament #${hand.tournamentId}, ` : '';
+  lines.push(`PokerStars Hand #${hand.id}: ${prefix}${game} (${hand.smallBlind}/${hand.bigBlind}) - ${formatTime(hand.startedAt)}`);
+  lines.push(`Table '${hand.roomName}' ${hand.maxPlayers}-max${hand.buttonSeat >= 0 ? ` Seat #${hand.buttonSeat + 1} is the button` : ''}`);
+  for (const p of players) {
+    lines.push(`Seat ${p.seatIndex + 1}: ${p.name} (${p.startChips} in chips)`);
+  }
+
+  for (const bet of hand.forcedBets) {
+    const what = bet.kind === 'ante' || bet.kind === 'bomb-pot' ? 'the ante'
+      : bet.kind === 'straddle' ? 'straddle' : bet.kind.replace('-', ' ');
+    lines.push(`${name(bet.playerId)}: posts ${what} ${bet.amount}`);
+  }
+
+  lines.push('*** HOLE CARDS ***');
+  const hero = heroId ? byId.get(heroId) : undefined;
+  if (hero && hero.cards.length > 0) lines.push(`Dealt to ${hero.name} ${formatCards(hero.cards)}`);
+
+  // The street a player folded on, for the summary
+  const foldedOn = new Map<string, GamePhase>();
+  let phase: GamePhase = 'preflop';
+  let streetBet = hand.bombPot ? 0 : Math.max(0, ...hand.forcedBets.filter(b => b.kind !== 'ante' && b.kind !== 'bomb-pot').map(b => b.amount));
+  const board = hand.board;
+  const streetHeader = (street: GamePhase) => {
+    if (street === 'flop') return `*** FLOP *** ${formatCards(board.slice(0, 3))}`;
+    if (street === 'turn') return `*** TURN *** ${formatCards(board.slice(0, 3))} ${formatCards(board.slice(3, 4))}`;
+    return `*** RIVER *** ${formatCards(board.slice(0, 4))} ${formatCards(board.slice(4, 5))}`;
+  };
+  const streets: GamePhase[] = ['preflop', 'flop', 'turn', 'river'];
+  const openStreet = (next: GamePhase) => {
+    while (streets.indexOf(phase) < streets.indexOf(next)) {
+      phase = streets[streets.indexOf(phase) + 1];
+      if (board.length >= (phase === 'flop' ? 3 : phase === 'turn' ? 4 : 5)) lines.push(streetHeader(phase));
+      streetBet = 0;
+    }
+  };
+
+  for (const { playerId, action, phase: actionPhase, amount, betTo, allIn } of hand.actions) {
+    openStreet(actionPhase);
+    const who = name(playerId);
+    const allInSuffix = allIn ? ' and is all-in' : '';
+    switch (action.type) {
+      case 'fold':
+        foldedOn.set(playerId, actionPhase);
+        lines.push(`${who}: folds`);
+        break;
+      case 'check':
+        lines.push(`${who}: checks`);
+        break;
+      default:
+        if (betTo <= streetBet) {
+          lines.push(amount > 0 ? `${who}: calls ${amount}${allInSuffix}` : `${who}: checks`);
+        } else if (streetBet === 0) {
+          lines.push(`${who}: bets ${amount}${allInSuffix}`);
+        } else {
+          lines.push(`${who}: raises ${betTo - streetBet} to ${betTo}${allInSuffix}`);
+        }
+        streetBet = Math.max(streetBet, betTo);
+    }
+  }
+  // Streets dealt after the betting was over: an all-in run-out
+  openStreet(board.length >= 5 ? 'river' : board.length === 4 ? 'turn' : board.length === 3 ? 'flop' : 'preflop');
+
+  const live = players.filter(p => !p.folded);
+  const isShowdown = live.length > 1;
+  if (isShowdown) {
+    lines.push('*** SHOW DOWN ***');
+    for (const p of live) {
+      if (hand.shownPlayerIds.includes(p.id) && p.cards.length > 0) {
+        const handName = hand.winners.find(w => w.playerId === p.id)?.handName;
+        lines.push(`${p.name}: shows ${formatCards(p.cards)}${handName ? ` (${handName})` : ''}`);
+      } else {
+        lines.push(`${p.name}: mucks hand`);
+      }
+    }
+  }
+  const multiplePots = new Set(hand.potResults.map(r => r.potIndex)).size > 1;
+  for (const result of hand.potResults) {
+    const pot = !multiplePots ? 'pot' : result.potIndex === 0 ? 'main pot' : `side pot-${result.potIndex}`;
+    const run = result.board !== undefined && hand.boards && hand.boards.length > 1 ? ` (board ${result.board + 1})` : '';
+    for (const winner of result.winners) {
+      lines.push(`${name(winner.playerId)} collected ${winner.amount} from ${pot}${run}`);
+    }
+  }
+
+  lines.push('*** SUMMARY ***');
+  lines.push(`Total pot ${hand.pot} | Rake 0`);
+  const boards = hand.boards && hand.boards.length > 1 ? hand.boards : [board];
+  boards.forEach((b, i) => {
+    if (b.length > 0) lines.push(`${boards.length > 1 ? `Board ${i + 1}` : 'Board'} ${formatCards(b)}`);
+  });
+  for (const p of players) {
+    const seat = `Seat ${p.seatIndex + 1}: ${p.name}${seatLabel(p)}`;
+    const won = hand.winners.find(w => w.playerId === p.id);
+    if (p.folded) {
+      lines.push(`${seat} folded ${FOLDED_ON[foldedOn.get(p.id) ?? 'preflop']}`);
+    } else if (!isShowdown) {
+      lines.push(`${seat} collected (${won?.amount ?? 0})`);
+    } else if (hand.shownPlayerIds.includes(p.id) && p.cards.length > 0) {
+      lines.push(won
+        ? `${seat} showed ${formatCards(p.cards)} and won (${won.amount}) with ${won.handName}`
+        : `${seat} showed ${formatCards(p.cards)} and lost`);
+    } else {
+      lines.push(won ? `${seat} mucked and won (${won.amount})` : `${seat} mucked`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** Wrap a stored hand for a .json export file, dropping the server's replay record */
+export function exportHandJson(hand: HandHistory, exportedAt = Date.now()): HandExport {
+  const { record: _record, ...rest } = hand;
+  return { format: HAND_EXPORT_FORMAT, version: HAND_EXPORT_VERSION, exportedAt, hand: rest };
+}
+
+/** Read a .json export file back; throws when it is not one */
+export function parseHandExport(json: string): HandExport {
+  const data = JSON.parse(json) as HandExport;
+  if (data?.format !== HAND_EXPORT_FORMAT || typeof data.hand !== 'object' || !Array.isArray(data.hand?.players)) {
+    throw new Error('Not a hand history file');
+  }
+  if (data.version > HAND_EXPORT_VERSION) {
+    throw new Error(`Unsupported hand history version ${data.version}`);
+  }
+  return data;
+}
+
+const CARD_SCHEMA = {
+  type: 'object',
+  required: ['suit', 'rank'],
+  properties: {
+    suit: { enum: ['hearts', 'diamonds', 'clubs', 'spades'] },
+    rank: { enum: ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'] },
+  },
+} as const;
+
+const WINNER_SCHEMA = {
+  type: 'object',
+  required: ['playerId', 'amount', 'handName'],
+  properties: {
+    playerId: { type: 'string' },
+    amount: { type: 'number' },
+    handName: { type: 'string', description: 'Winning hand, or "Last Standing" when everyone else folded' },
+  },
+} as const;
+
+/** JSON Schema (draft 2020-12) of a .json hand export */
+export const HAND_EXPORT_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Texas Agent hand history',
+  type: 'object',
+  required: ['format', 'version', 'exportedAt', 'hand'],
+  properties: {
+    format: { const: HAND_EXPORT_FORMAT },
+    version: { const: HAND_EXPORT_VERSION },
+    exportedAt: { type: 'number', description: 'Export time, epoch milliseconds' },
+    hand: {
+      type: 'object',
+      required: [
+        'id', 'roomId', 'roomName', 'round', 'startedAt', 'endedAt', 'variant', 'bettingStructure', 'smallBlind', 'bigBlind',
+        'ante', 'anteStructure', 'straddle', 'maxPlayers', 'buttonSeat', 'players', 'forcedBets', 'actions', 'board', 'pot', 'potResults',
+        'winners', 'shownPlayerIds',
+      ],
+      properties: {
+        id: { type: 'string' },
+        roomId: { type: 'string' },
+        roomName: { type: 'string' },
+        tournamentId: { type: 'string', description: 'Set for tables of a multi-table tournament' },
+        isPrivate: { type: 'boolean', description: 'Single-player table' },
+        round: { type: 'integer', description: 'Hand number at the table' },
+        startedAt: { type: 'number', description: 'Deal time, epoch milliseconds' },
+        endedAt: { type: 'number', description: 'Settle time, epoch milliseconds' },
+        variant: { enum: ['holdem', 'omaha', 'short-deck'] },
+        bettingStructure: { enum: ['no-limit', 'pot-limit', 'fixed-limit'] },
+        smallBlind: { type: 'number' },
+        bigBlind: { type: 'number' },
+        ante: { type: 'number' },
+        anteStructure: { enum: ['none', 'every-player', 'big-blind', 'button'] },
+        straddle: { type: 'number', description: 'Straddle posted; 0 when nobody straddled' },
+        bombPot: { type: 'number', description: 'Bomb pot ante each player posted; no preflop betting' },
+        maxPlayers: { type: 'integer' },
+        buttonSeat: { type: 'integer', description: 'Zero-based seat of the button; -1 when unknown' },
+        players: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'name', 'seatIndex', 'isAI', 'startChips', 'endChips', 'cards', 'folded'],
+            properties: {
+              id: { type: 'string', description: 'Seat id the actions refer to' },
+              userId: { type: 'string', description: 'Account behind the seat' },
+              name: { type: 'string' },
+              seatIndex: { type: 'integer', description: 'Zero-based seat' },
+              isAI: { type: 'boolean' },
+              startChips: { type: 'number', description: 'Stack before the forced bets' },
+              endChips: { type: 'number', description: 'Stack after the pots were paid' },
+              cards: { type: 'array', items: CARD_SCHEMA, description: 'Hole cards; empty when the exporter could not see them' },
+              folded: { type: 'boolean' },
+              isDealer: { type: 'boolean' },
+              isSmallBlind: { type: 'boolean' },
+              isBigBlind: { type: 'boolean' },
+              isStraddle: { type: 'boolean' },
+            },
+          },
+        },
+        forcedBets: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['playerId', 'kind', 'amount'],
+            properties: {
+              playerId: { type: 'string' },
+              kind: { enum: ['ante', 'small-blind', 'big-blind', 'straddle', 'bomb-pot'] },
+              amount: { type: 'number' },
+            },
+          },
+        },
+        actions: {
+          type: 'array',
+          description: 'Player actions in order',
+          items: {
+            type: 'object',
+            required: ['playerId', 'action', 'phase', 'amount', 'betTo'],
+            properties: {
+              playerId: { type: 'string' },
+              action: {
+                type: 'object',
+                required: ['type'],
+                properties: {
+                  type: { enum: ['fold', 'check', 'call', 'raise', 'all-in'] },
+                  amount: { type: 'number', description: 'Raise: the total bet raised to' },
+                },
+              },
+              phase: { enum: ['preflop', 'flop', 'turn', 'river'] },
+              timestamp: { type: 'number', description: 'Epoch milliseconds' },
+              amount: { type: 'number', description: 'Chips the action put in the pot' },
+              betTo: { type: 'number', description: "The player's bet on this street after the action" },
+              allIn: { type: 'boolean' },
+            },
+          },
+        },
+        board: { type: 'array', items: CARD_SCHEMA },
+        boards: { type: 'array', items: { type: 'array', items: CARD_SCHEMA }, description: 'Every board when it was run more than once' },
+        pot: { type: 'number' },
+        potResults: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['potIndex', 'amount', 'winners'],
+            properties: {
+              potIndex: { type: 'integer', description: '0 is the main pot' },
+              board: { type: 'integer', description: 'Run-out the share was decided on' },
+              amount: { type: 'number' },
+              winners: { type: 'array', items: WINNER_SCHEMA },
+            },
+          },
+        },
+        winners: { type: 'array', items: WINNER_SCHEMA, description: 'Total won per player across all pots' },
+        shownPlayerIds: { type: 'array', items: { type: 'string' }, description: 'Seats whose hole cards the table saw' },
+        fairness: { type: 'object', description: 'Commit-reveal proof of the shuffle' },
+      },
+    },
+  },
+} as const;
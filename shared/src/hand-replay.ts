@@ -0,0 +1,118 @@
+import { Card, ForcedBet, GameState, GamePhase, HandHistoryAction, HandRecord } from './types';
+import { HOLE_CARD_COUNT } from './constants';
+import { Deck } from './deck';
+import { createRng } from './rng';
+import {
+  postForcedBets, applyAction, advancePhase, resetBetsForNewRound, getSmallBlindIndex,
+  getPlayersInHand, calculateSidePots, determinePotResults, determineWinners, assertChipsConserved,
+} from './game-rules';
+
+/**
+ * Deterministic hand replay. The engines deal in a fixed order — hole cards to each active
+ * seat in turn, then burn-and-deal for the flop, turn and river — so re-shuffling the deck
+ * from the hand's seed and re-applying its actions reproduces the hand card for card.
+ */
+
+const STREETS: GamePhase[] = ['preflop', 'flop', 'turn', 'river'];
+
+/** Burn one card, then add the next street's cards (flop, turn or river) to the board */
+export function dealStreet(deck: Deck, board: Card[]): void {
+  const count = board.length === 0 ? 3 : 1;
+  deck.burn();
+  board.push(...deck.deal(count));
+}
+
+/**
+ * Deal the rest of the board `runs` times from one deck. The first run-out completes the live
+ * board; each further run starts again from the cards that were already out.
+ */
+export function dealRunOuts(deck: Deck, board: Card[], runs: number): Card[][] {
+  const boards: Card[][] = [];
+  for (let run = 0; run < runs; run++) {
+    const runBoard = [...board];
+    while (runBoard.length < 5) dealStreet(deck, runBoard);
+    boards.push(runBoard);
+  }
+  return boards;
+}
+
+/** Start a new hand from its pre-blind state: post forced bets and deal hole cards from the seeded deck */
+export function startHandFromSeed(initialState: GameState, seed: string): { state: GameState; deck: Deck } {
+  const deck = new Deck(initialState.variant, createRng(seed));
+  const state = postForcedBets({ ...initialState, seed });
+  for (const player of state.players) {
+    if (player.isActive) player.cards = deck.deal(HOLE_CARD_COUNT[state.variant]);
+  }
+  return { state, deck };
+}
+
+/** Replay a recorded hand's betting: what each seat was forced to post, and the chips each action put in */
+export function replayBetting(record: HandRecord): { forcedBets: ForcedBet[]; actions: HandHistoryAction[] } {
+  let { state, deck } = startHandFromSeed(record.initialState, record.seed);
+
+  // Dead money first, as it is posted at the table; then the live blinds and straddle
+  const dead: ForcedBet[] = [];
+  const live: ForcedBet[] = [];
+  const smallBlindIndex = getSmallBlindIndex(state);
+  state.players.forEach((player, i) => {
+    const deadAmount = player.totalBet - player.currentBet;
+    if (deadAmount > 0) dead.push({ playerId: player.id, kind: state.bombPot ? 'bomb-pot' : 'ante', amount: deadAmount });
+    if (player.currentBet > 0) {
+      const kind = player.isStraddle ? 'straddle' : i === smallBlindIndex ? 'small-blind' : 'big-blind';
+      live.push({ playerId: player.id, kind, amount: player.currentBet });
+    }
+  });
+
+  const actions: HandHistoryAction[] = [];
+  for (const recorded of record.actions) {
+    while (state.phase !== recorded.phase && STREETS.indexOf(state.phase) < STREETS.indexOf(recorded.phase)) {
+      state = resetBetsForNewRound({ ...state, phase: advancePhase(state) });
+      dealStreet(deck, state.communityCards);
+    }
+    const before = state.players.find(p => p.id === recorded.playerId);
+    state = applyAction(state, recorded.playerId, recorded.action);
+    const after = state.players.find(p => p.id === recorded.playerId);
+    const amount = before && after ? after.totalBet - before.totalBet : 0;
+    actions.push({
+      ...recorded,
+      amount,
+      betTo: after?.currentBet ?? 0,
+      ...(after?.isAllIn && amount > 0 ? { allIn: true } : {}),
+    });
+  }
+  return { forcedBets: [...dead, ...live], actions };
+}
+
+/** Replay a recorded hand to its final, settled state (board, stacks and winners) */
+export function replayHand(record: HandRecord): GameState {
+  let { state, deck } = startHandFromSeed(record.initialState, record.seed);
+
+  for (const { playerId, action, phase } of record.actions) {
+    if (STREETS.indexOf(phase) < STREETS.indexOf(state.phase)) {
+      throw new Error(`Replay out of order: ${action.type} by ${playerId} recorded on ${phase}, hand is on ${state.phase}`);
+    }
+    while (state.phase !== phase) {
+      state = resetBetsForNewRound({ ...state, phase: advancePhase(state) });
+      dealStreet(deck, state.communityCards);
+    }
+    state = applyAction(state, playerId, action);
+  }
+
+  // Run out the rest of the board (once, or as many times as the players agreed) when more than one player reaches showdown
+  if (getPlayersInHand(state).length > 1 && state.communityCards.length < 5) {
+    const boards = dealRunOuts(deck, state.communityCards, record.runCount ?? 1);
+    state.communityCards = boards[0];
+    if (boards.length > 1) state.boards = boards;
+  }
+
+  state.phase = 'showdown';
+  state.sidePots = calculateSidePots(state);
+  state.potResults = determinePotResults(state);
+  state.winners = determineWinners(state, state.potResults);
+  for (const winner of state.winners) {
+    const player = state.players.find(p => p.id === winner.playerId);
+    if (player) player.chips += winner.amount;
+  }
+  assertChipsConserved(record.initialState, state);
+  return state;
+}
@@ -1,6 +1,13 @@
 export * from './types';
 export * from './constants';
+export * from './rng';
 export * from './deck';
 export * from './hand-evaluator';
+export * from './fast-evaluator';
 export * from './game-rules';
+export * from './hand-replay';
+export * from './hand-export';
+export * from './hand-engine';
+export * from './provably-fair';
+export * from './tournament';
 export * from './utils';
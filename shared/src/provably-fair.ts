@@ -0,0 +1,157 @@
+import { Card, GameVariant, HandFairness } from './types';
+import { HOLE_CARD_COUNT } from './constants';
+import { Deck } from './deck';
+import { createRng } from './rng';
+import { dealStreet, dealRunOuts } from './hand-replay';
+
+/**
+ * Commit-reveal shuffle. Before the deal the server publishes sha256(serverSeed); the deck is
+ * shuffled from sha256(serverSeed:clientSeed:nonce); after the hand the server seed is revealed
+ * so anyone can check the commitment and re-deal the exact deck.
+ */
+
+// ─── SHA-256 ────────────────────────────────────────────
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+function utf8(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) bytes.push(code);
+    else if (code < 0x800) bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    else if (code < 0x10000) bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    else bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 63), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+  }
+  return bytes;
+}
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/** Hex SHA-256 of a UTF-8 string — synchronous and identical in Node and the browser */
+export function sha256(text: string): string {
+  const bytes = utf8(text);
+  const bitLength = bytes.length * 8;
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) bytes.push(0);
+  for (let i = 7; i >= 0; i--) bytes.push(i >= 4 ? 0 : (bitLength >>> (i * 8)) & 0xff);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+  return Array.from(h, x => x.toString(16).padStart(8, '0')).join('');
+}
+
+// ─── Commit-reveal ──────────────────────────────────────
+
+/** Commitment published before the deal */
+export function commitServerSeed(serverSeed: string): string {
+  return sha256(serverSeed);
+}
+
+/** Seed the deck (and the hand's AI randomness) is actually shuffled from */
+export function deriveHandSeed(serverSeed: string, clientSeed: string, nonce: number): string {
+  return sha256(`${serverSeed}:${clientSeed}:${nonce}`);
+}
+
+/** Client seeds are free text from players; keep them short and printable */
+export function sanitizeClientSeed(seed: unknown): string {
+  if (typeof seed !== 'string') return '';
+  return seed.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 64);
+}
+
+export interface HandVerification {
+  /** sha256(serverSeed) equals the commitment published with game:started */
+  commitmentValid: boolean;
+  /** Every known card sits where the re-dealt deck puts it */
+  cardsValid: boolean;
+  /** Human-readable description of each card that does not match */
+  mismatches: string[];
+  /** Re-dealt hole cards by player id, and the board(s) */
+  holeCards: Record<string, Card[]>;
+  boards: Card[][];
+}
+
+const sameCard = (a: Card, b: Card) => a.rank === b.rank && a.suit === b.suit;
+
+/** Cards every board shares — what was out before the board was run more than once */
+function sharedCardCount(boards: Card[][]): number {
+  let count = 0;
+  while (count < boards[0].length && boards.every(b => b[count] && sameCard(b[count], boards[0][count]))) count++;
+  return count;
+}
+
+/**
+ * Re-deal a finished hand from its revealed seed and compare it with the cards that were seen.
+ * Only cards the verifier knows need to be passed — hidden hands may be left empty. `boards`
+ * holds the board, or every run-out when it was run more than once.
+ */
+export function verifyHand(
+  fairness: HandFairness,
+  variant: GameVariant,
+  knownHoleCards: Record<string, Card[]>,
+  boards: Card[][],
+): HandVerification {
+  const mismatches: string[] = [];
+  if (!fairness.serverSeed) {
+    return { commitmentValid: false, cardsValid: false, mismatches: ['Server seed not revealed'], holeCards: {}, boards: [] };
+  }
+
+  const commitmentValid = commitServerSeed(fairness.serverSeed) === fairness.commitment;
+  const seed = deriveHandSeed(fairness.serverSeed, fairness.clientSeed, fairness.nonce);
+
+  // Same order as startHandFromSeed and the engines: hole cards seat by seat, then burn-and-deal streets
+  const deck = new Deck(variant, createRng(seed));
+  const holeCards: Record<string, Card[]> = {};
+  for (const playerId of fairness.dealOrder) {
+    holeCards[playerId] = deck.deal(HOLE_CARD_COUNT[variant]);
+  }
+  const board: Card[] = [];
+  const shared = boards.length > 1 ? sharedCardCount(boards) : boards[0]?.length ?? 0;
+  while (board.length < shared) dealStreet(deck, board);
+  const dealtBoards = boards.length > 1 ? dealRunOuts(deck, board, boards.length) : [board];
+
+  for (const [playerId, cards] of Object.entries(knownHoleCards)) {
+    const expected = holeCards[playerId];
+    if (cards.length === 0) continue;
+    if (!expected || cards.some((card, i) => !expected[i] || !sameCard(card, expected[i]))) {
+      mismatches.push(`Hole cards of ${playerId}`);
+    }
+  }
+  boards.forEach((seen, b) => seen.forEach((card, i) => {
+    const dealt = dealtBoards[b]?.[i];
+    if (!dealt || !sameCard(card, dealt)) mismatches.push(`Board ${b + 1} card ${i + 1}`);
+  }));
+
+  return { commitmentValid, cardsValid: mismatches.length === 0, mismatches, holeCards, boards: dealtBoards };
+}
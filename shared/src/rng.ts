@@ -0,0 +1,69 @@
+/**
+ * Seedable pseudo-random numbers. Every source of chance in a hand — the shuffle, bot
+ * bluffs, Monte Carlo rollouts and think delays — takes an `Rng`, so a hand replays
+ * exactly from its recorded seed. Defaults fall back to Math.random.
+ */
+
+/** Returns a float in [0, 1), like Math.random */
+export type Rng = () => number;
+
+/** cyrb128: spreads a string seed over four 32-bit words */
+function hashSeed(seed: string): [number, number, number, number] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/** sfc32 generator seeded from a string; the same seed always yields the same sequence */
+export function createRng(seed: string): Rng {
+  let [a, b, c, d] = hashSeed(seed);
+  return () => {
+    a |= 0; b |= 0; c |= 0; d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
+
+interface CryptoLike {
+  getRandomValues(array: Uint32Array): Uint32Array;
+}
+
+/**
+ * New 128-bit hex seed. Without an rng it draws from the platform CSPRNG
+ * (Web Crypto in browsers and Node 19+); with one, the seed is derived from it.
+ */
+export function generateSeed(rng?: Rng): string {
+  const words = new Uint32Array(4);
+  const crypto = (globalThis as { crypto?: CryptoLike }).crypto;
+  if (!rng && crypto) {
+    crypto.getRandomValues(words);
+  } else {
+    const next = rng ?? Math.random;
+    for (let i = 0; i < words.length; i++) words[i] = Math.floor(next() * 4294967296);
+  }
+  return Array.from(words, w => w.toString(16).padStart(8, '0')).join('');
+}
+
+/** Separate, reproducible stream for one purpose of a hand (e.g. `deriveRng(seed, 'ai')`) */
+export function deriveRng(seed: string, purpose: string): Rng {
+  return createRng(`${seed}:${purpose}`);
+}
@@ -0,0 +1,101 @@
+import { BlindLevel, RoomConfig, TournamentConfig, TournamentFinish, TournamentStatus } from './types';
+import { DEFAULT_TOURNAMENT_CONFIG, MIN_CHIP_UNIT, TOURNAMENT_LEVEL_MULTIPLIERS } from './constants';
+
+/**
+ * Tournament rules shared by the server and the lobby: the blind schedule, level timing and
+ * prize splits, for Sit-and-Gos and multi-table tournaments alike. Tournament chips are separate from bankrolls — only buy-ins and prizes move
+ * bankroll chips.
+ */
+
+const roundToUnit = (amount: number) => Math.max(MIN_CHIP_UNIT, Math.round(amount / MIN_CHIP_UNIT) * MIN_CHIP_UNIT);
+
+/** Clamp a tournament config from the client into something playable */
+export function normalizeTournamentConfig(config: TournamentConfig): TournamentConfig {
+  const payouts = (config.payouts ?? []).filter(p => Number.isFinite(p) && p > 0);
+  const total = payouts.reduce((sum, p) => sum + p, 0);
+  return {
+    buyIn: Math.max(0, Math.floor(config.buyIn ?? DEFAULT_TOURNAMENT_CONFIG.buyIn)),
+    levelMode: config.levelMode === 'hands' ? 'hands' : 'time',
+    levelLength: Math.max(1, Math.floor(config.levelLength ?? DEFAULT_TOURNAMENT_CONFIG.levelLength)),
+    payouts: total === 100 ? payouts : DEFAULT_TOURNAMENT_CONFIG.payouts,
+  };
+}
+
+/** Blinds and ante at a 0-based level; past the end of the schedule they keep doubling */
+export function getBlindLevel(config: RoomConfig, level: number): BlindLevel {
+  const last = TOURNAMENT_LEVEL_MULTIPLIERS.length - 1;
+  const multiplier = level <= last
+    ? TOURNAMENT_LEVEL_MULTIPLIERS[level]
+    : TOURNAMENT_LEVEL_MULTIPLIERS[last] * 2 ** (level - last);
+  const bigBlind = roundToUnit(config.bigBlind * multiplier);
+  return {
+    smallBlind: Math.min(roundToUnit(config.smallBlind * multiplier), bigBlind),
+    bigBlind,
+    ante: config.ante > 0 ? roundToUnit(config.ante * multiplier) : 0,
+  };
+}
+
+/** Status of a Sit-and-Go that is still taking entries */
+export function createTournamentStatus(config: RoomConfig): TournamentStatus {
+  return {
+    status: 'registering',
+    level: 0,
+    blinds: getBlindLevel(config, 0),
+    nextBlinds: getBlindLevel(config, 1),
+    entrants: 0,
+    remaining: 0,
+    prizePool: 0,
+    finishes: [],
+  };
+}
+
+/** Move the status to `level` and restart its clock (or hand count) */
+export function startBlindLevel(status: TournamentStatus, config: RoomConfig, level: number, now = Date.now()): void {
+  const tournament = config.tournament!;
+  status.level = level;
+  status.blinds = getBlindLevel(config, level);
+  status.nextBlinds = getBlindLevel(config, level + 1);
+  if (tournament.levelMode === 'time') {
+    status.levelEndsAt = now + tournament.levelLength * 60_000;
+    delete status.handsLeftInLevel;
+  } else {
+    status.handsLeftInLevel = tournament.levelLength;
+    delete status.levelEndsAt;
+  }
+}
+
+/** Whether the current level is over (checked before each deal) */
+export function isBlindLevelOver(status: TournamentStatus, now = Date.now()): boolean {
+  if (status.levelEndsAt !== undefined) return now >= status.levelEndsAt;
+  return (status.handsLeftInLevel ?? 1) <= 0;
+}
+
+/**
+ * Prize for each paid place, in whole chips. Only as many places as there were entrants are
+ * paid; percentages of unpaid places and rounding leftovers go to the winner.
+ */
+export function calculatePayouts(prizePool: number, payouts: number[], entrants: number): number[] {
+  const paid = payouts.slice(0, Math.max(1, entrants));
+  const prizes = paid.map(pct => Math.floor(prizePool * pct / 100));
+  prizes[0] += prizePool - prizes.reduce((sum, p) => sum + p, 0);
+  return prizes;
+}
+
+/** Number of places that win a prize (as in calculatePayouts) */
+export function getPaidPlaces(payouts: number[], entrants: number): number {
+  return Math.min(payouts.length, Math.max(1, entrants));
+}
+
+/**
+ * Give a player who is out the next finishing place and its prize. Returns null if they already
+ * have one.
+ */
+export function recordFinish(status: TournamentStatus, payouts: number[], playerId: string, name: string): TournamentFinish | null {
+  if (status.finishes.some(f => f.playerId === playerId)) return null;
+  const prizes = calculatePayouts(status.prizePool, payouts, status.entrants);
+  const place = status.remaining;
+  const finish: TournamentFinish = { playerId, name, place, prize: prizes[place - 1] ?? 0 };
+  status.remaining--;
+  status.finishes = [...status.finishes, finish].sort((a, b) => a.place - b.place);
+  return finish;
+}
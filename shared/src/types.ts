@@ -10,6 +10,14 @@ export type GamePhase = 'waiting' | 'preflop' | 'flop' | 'turn' | 'river' | 'sho
 export type ActionType = 'fold' | 'check' | 'call' | 'raise' | 'all-in';
 export type AIPersonality = 'conservative' | 'aggressive' | 'balanced';
 export type AIEngineType = 'rule-based' | 'llm';
+export type BettingStructure = 'no-limit' | 'pot-limit' | 'fixed-limit';
+export type GameVariant = 'holdem' | 'omaha' | 'short-deck';
+/** Who pays the ante each hand: everyone, the big blind for the table, or the button for the table */
+export type AnteStructure = 'none' | 'every-player' | 'big-blind' | 'button';
+/** Whether tournament blinds go up after a number of minutes or a number of hands */
+export type BlindLevelMode = 'time' | 'hands';
+/** What a sitting-out player does about the blinds: keep posting them (and fold) or be dealt out */
+export type SitOutBlinds = 'post' | 'skip';
 
 export interface PlayerAction {
   type: ActionType;
@@ -37,6 +45,15 @@ export interface Player {
   isDealer?: boolean;
   isSmallBlind?: boolean;
   isBigBlind?: boolean;
+  isStraddle?: boolean;
+  /** Away from the table: the seat is kept but the player is folded or dealt out (see RoomConfig.sitOutBlinds) */
+  isSittingOut?: boolean;
+  /** Hands dealt since the player sat out; a cash seat is given up after SIT_OUT_MAX_ORBITS orbits */
+  sitOutHands?: number;
+  /** Time bank left (ms), humans only */
+  timeBank?: number;
+  /** Cash rooms: chips bought mid-hand, added to the stack before the next deal */
+  pendingTopUp?: number;
 }
 
 export interface SidePot {
@@ -44,6 +61,16 @@ export interface SidePot {
   eligiblePlayerIds: string[];
 }
 
+/** How one pot was split at the end of a hand */
+export interface PotResult {
+  /** Index into sidePots — 0 is the main pot */
+  potIndex: number;
+  /** Run-out the share was decided on, when the board was run more than once */
+  board?: number;
+  amount: number;
+  winners: { playerId: string; amount: number; handName: string }[];
+}
+
 export interface GameState {
   id: string;
   phase: GamePhase;
@@ -57,10 +84,161 @@ export interface GameState {
   bigBlind: number;
   minRaise: number;
   currentBet: number;
+  variant: GameVariant;
+  bettingStructure: BettingStructure;
+  ante: number;
+  anteStructure: AnteStructure;
+  /** UTG straddle size this hand (0 when nobody straddled) */
+  straddle: number;
+  /** Antes posted this hand — in the pot but not part of any player's current bet */
+  deadMoney: number;
+  /** Bets and raises made in the current betting round (preflop, the big blind counts as the opening bet) */
+  raiseCount: number;
+  /** Size of the last full bet or raise this betting round; an all-in for less does not reopen the betting */
+  lastRaiseSize?: number;
+  /** Bomb pot: the ante every player dealt in posts instead of blinds; there is no preflop betting */
+  bombPot?: number;
   lastAction?: { playerId: string; action: PlayerAction };
+  /** Total won per player across all pots */
   winners?: { playerId: string; amount: number; handName: string }[];
+  /** Pot-by-pot breakdown of the same result */
+  potResults?: PotResult[];
+  /** Open run-it-twice vote: who may vote and what each chose so far */
+  runItVote?: { playerIds: string[]; votes: Record<string, number> };
+  /** Complete boards when the board was run out more than once; communityCards is the first */
+  boards?: Card[][];
   round: number;
+  /** Seed of this hand's shuffle and AI randomness — never sent to players (see `fairness`) */
+  seed?: string;
+  /** Commit-reveal proof of the shuffle: committed before the deal, server seed revealed after it */
+  fairness?: HandFairness;
   actedThisRound: string[];  // track who has acted in current betting round
+  /** Players who voluntarily revealed their hole cards after the hand ended */
+  shownPlayerIds?: string[];
+  /** Clock of the human player to act, in server time (ms since epoch) — lets late joiners show the countdown */
+  turnClock?: TurnClock;
+}
+
+export interface TurnClock {
+  playerId: string;
+  startedAt: number;
+  /** Includes the time bank once the player has called on it */
+  deadline: number;
+  usingTimeBank: boolean;
+}
+
+/** Provably-fair shuffle data for one hand; the deck seed is sha256(serverSeed:clientSeed:nonce) */
+export interface HandFairness {
+  /** sha256 of the server seed, published with game:started */
+  commitment: string;
+  /** Per-hand nonce mixed into the deck seed */
+  nonce: number;
+  /** Entropy contributed by the seated players, fixed before the deal */
+  clientSeed: string;
+  /** Players dealt in, in dealing order */
+  dealOrder: string[];
+  /** Revealed once the hand has ended */
+  serverSeed?: string;
+}
+
+/** One player action, tagged with the betting round it was made in */
+export interface HandAction {
+  playerId: string;
+  action: PlayerAction;
+  phase: GamePhase;
+  /** When the server took the action (ms) */
+  timestamp?: number;
+}
+
+/** Everything needed to replay a hand exactly: the table before forced bets, the seed and the actions */
+export interface HandRecord {
+  seed: string;
+  initialState: GameState;
+  actions: HandAction[];
+  /** Times the rest of the board was dealt (1 unless the players ran it twice or three times) */
+  runCount?: number;
+  /** When the hand was dealt (ms) */
+  startedAt?: number;
+}
+
+/** Chips a seat posted before the cards were dealt; antes and bomb-pot money are dead, blinds and straddles live */
+export interface ForcedBet {
+  playerId: string;
+  kind: 'ante' | 'small-blind' | 'big-blind' | 'straddle' | 'bomb-pot';
+  amount: number;
+}
+
+/** A stored action with the chips it moved */
+export interface HandHistoryAction extends HandAction {
+  /** Chips the action put in the pot */
+  amount: number;
+  /** The player's bet on this street after the action */
+  betTo: number;
+  allIn?: boolean;
+}
+
+/** One seat of a stored hand */
+export interface HandHistoryPlayer {
+  /** Seat id the actions refer to */
+  id: string;
+  /** Account behind the seat; anonymous AIs have none */
+  userId?: string;
+  name: string;
+  seatIndex: number;
+  isAI: boolean;
+  /** Stack before the forced bets, and after the pots were paid */
+  startChips: number;
+  endChips: number;
+  /** Hole cards; API responses keep only the ones the requesting user could see at the table */
+  cards: Card[];
+  folded: boolean;
+  isDealer?: boolean;
+  isSmallBlind?: boolean;
+  isBigBlind?: boolean;
+  isStraddle?: boolean;
+}
+
+/** A finished hand as kept by the server's hand history (GET /api/hands) */
+export interface HandHistory {
+  /** The hand's GameState id */
+  id: string;
+  roomId: string;
+  roomName: string;
+  /** Set for tables of a multi-table tournament */
+  tournamentId?: string;
+  /** Single-player table: only its own players can look the hand up */
+  isPrivate?: boolean;
+  round: number;
+  startedAt: number;
+  endedAt: number;
+  variant: GameVariant;
+  bettingStructure: BettingStructure;
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  anteStructure: AnteStructure;
+  /** Straddle actually posted; 0 when nobody straddled */
+  straddle: number;
+  bombPot?: number;
+  /** Seats at the table, for the "N-max" of exported hands */
+  maxPlayers: number;
+  /** Seat index of the button, which may be a seat that was not dealt in */
+  buttonSeat: number;
+  players: HandHistoryPlayer[];
+  forcedBets: ForcedBet[];
+  actions: HandHistoryAction[];
+  board: Card[];
+  /** Every board when it was run more than once; `board` is the first */
+  boards?: Card[][];
+  pot: number;
+  potResults: PotResult[];
+  winners: { playerId: string; amount: number; handName: string }[];
+  /** Seats whose hole cards the whole table saw: live hands at a real showdown, and hands shown after it */
+  shownPlayerIds: string[];
+  /** Commit-reveal proof of the shuffle, as published at the table */
+  fairness?: HandFairness;
+  /** Seed and actions to replay the hand — kept on the server, never sent to players */
+  record?: HandRecord;
 }
 
 export interface RoomConfig {
@@ -71,6 +249,125 @@ export interface RoomConfig {
   aiCount: number;
   aiDifficulty: AIPersonality;
   aiEngine: AIEngineType;
+  /** Omaha is always played pot-limit */
+  variant: GameVariant;
+  bettingStructure: BettingStructure;
+  /** Ante each posting player pays; with a big-blind or button ante one player pays it for the whole table */
+  ante: number;
+  anteStructure: AnteStructure;
+  /** UTG posts a live straddle of two big blinds every hand (not available in fixed-limit) */
+  straddle: boolean;
+  /** All-in players may agree to deal the rest of the board up to MAX_RUN_COUNT times */
+  runItTwice: boolean;
+  /** Cash rooms only — tournament players always post while away */
+  sitOutBlinds: SitOutBlinds;
+  /** Time per decision (ms) */
+  actionTimeout: number;
+  /** Size of each player's time bank (ms); 0 turns it off */
+  timeBank: number;
+  /** Cash rooms only — smallest and largest stack (in big blinds) a player may buy in or top up to */
+  minBuyIn: number;
+  maxBuyIn: number;
+  /** Cash rooms only — every Nth hand is a bomb pot; 0 turns bomb pots off */
+  bombPotEvery: number;
+  /** Bomb pot ante, in big blinds */
+  bombPotAnte: number;
+  /** Cash rooms only — games the button may call for their orbit; fewer than two turns dealer's choice off */
+  dealersChoice: GameVariant[];
+  /** Set for Sit-and-Go rooms; cash rooms leave it out */
+  tournament?: TournamentConfig;
+}
+
+export interface TournamentConfig {
+  /** Bankroll chips each entrant pays; the prize pool is the sum of buy-ins */
+  buyIn: number;
+  levelMode: BlindLevelMode;
+  /** Minutes or hands per blind level */
+  levelLength: number;
+  /** Percent of the prize pool paid to 1st, 2nd, 3rd, ... */
+  payouts: number[];
+}
+
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+}
+
+export interface TournamentFinish {
+  playerId: string;
+  name: string;
+  place: number;
+  prize: number;
+}
+
+/** Public progress of a Sit-and-Go, shown in the lobby and at the table */
+export interface TournamentStatus {
+  status: 'registering' | 'running' | 'finished';
+  /** 0-based blind level */
+  level: number;
+  blinds: BlindLevel;
+  nextBlinds: BlindLevel;
+  /** Time mode: when the next level starts */
+  levelEndsAt?: number;
+  /** Hands mode: hands left at the current level */
+  handsLeftInLevel?: number;
+  entrants: number;
+  /** Players still holding chips */
+  remaining: number;
+  prizePool: number;
+  /** Finishing order so far, best place first */
+  finishes: TournamentFinish[];
+  /** Multi-table bubble: every table plays one hand, then waits for the others */
+  handForHand?: boolean;
+}
+
+/** Scheduled multi-table tournament: the director seats entrants at several tables and balances them */
+export interface MultiTableTournamentConfig {
+  name: string;
+  /** When registration closes and the first hands are dealt (ms since epoch) */
+  startsAt: number;
+  /** Seats per table */
+  tableSize: number;
+  /** Fewer entrants than this at the start time cancels the tournament and refunds every buy-in */
+  minEntrants: number;
+  maxEntrants: number;
+  /** Anonymous AI entrants seated at the start; they play for free and are not paid */
+  aiEntrants: number;
+  /** Stakes, variant, stack and the blind/payout schedule every table plays (levels are always timed) */
+  table: RoomConfig;
+}
+
+/** One table of a multi-table tournament as listed in its lobby */
+export interface MultiTableTable {
+  roomId: string;
+  name: string;
+  players: { id: string; name: string; chips: number; isAI: boolean }[];
+}
+
+/** A player still in a multi-table tournament */
+export interface MultiTableStanding {
+  name: string;
+  chips: number;
+  roomId: string;
+  isAI: boolean;
+}
+
+/** Public view of a multi-table tournament */
+export interface MultiTableTournament {
+  id: string;
+  config: MultiTableTournamentConfig;
+  /** Level clock, prize pool and finishes — the same status every table shows */
+  status: TournamentStatus;
+  /** Usernames registered so far */
+  registered: string[];
+  tables: MultiTableTable[];
+  /** Players still holding chips, biggest stack first */
+  standings: MultiTableStanding[];
+  paidPlaces: number;
+  createdBy: string;
+  /** Did not reach minEntrants by the start time; buy-ins were refunded */
+  cancelled?: boolean;
 }
 
 export interface Spectator {
@@ -92,6 +389,24 @@ export interface Room {
   /** Socket ID of the room creator (room owner) */
   ownerId: string;
   createdAt: number;
+  /** Sit-and-Go progress (tournament rooms only) */
+  tournament?: TournamentStatus;
+  /** Set when the room is a table of a multi-table tournament */
+  tournamentId?: string;
+  /** Single-player table against bots: not listed in the lobby and closed to other players */
+  isPrivate?: boolean;
+  /** Dealer's-choice rooms: the game of the current orbit */
+  dealersChoice?: DealersChoiceOrbit;
+}
+
+/** One orbit of a dealer's-choice room, called by the player on the button when it began */
+export interface DealersChoiceOrbit {
+  variant: GameVariant;
+  chooserId: string;
+  /** Hands of the orbit still to be dealt */
+  handsLeft: number;
+  /** Set while the table waits for the next button to call the game (server time) */
+  deadline?: number;
 }
 
 export enum HandRank {
@@ -107,6 +422,13 @@ export enum HandRank {
   ROYAL_FLUSH = 9,
 }
 
+/** How a variant orders and names the hand categories */
+export interface HandRanking {
+  /** Weakest to strongest */
+  order: HandRank[];
+  names: Record<HandRank, string>;
+}
+
 export interface HandEvaluation {
   rank: HandRank;
   rankName: string;
@@ -123,7 +445,15 @@ export interface AIDecisionContext {
   playerBet: number;
   playerChips: number;
   minRaise: number;
+  /** Largest total the player may raise to under the betting structure (capped by stack) */
+  maxRaise: number;
+  /** False when the raise cap is reached or the stack cannot cover more than a call */
+  canRaise: boolean;
+  variant: GameVariant;
+  bettingStructure: BettingStructure;
   bigBlind: number;
+  /** Antes in the pot this hand */
+  deadMoney: number;
   phase: GamePhase;
   numActivePlayers: number;
   position: 'early' | 'middle' | 'late' | 'blinds';
@@ -136,6 +466,8 @@ export interface AIDecisionContext {
     isFolded: boolean;
     isAllIn: boolean;
     isAI: boolean;
+    /** Away; folds at their turn, so not a real opponent */
+    isSittingOut?: boolean;
   }[];
   /** Current hand's action history (all players' actions so far this hand) */
   handHistory?: {
@@ -193,7 +525,6 @@ export interface AuthResponse {
   dailyBonusAwarded?: number;
 }
 
-export const BOT_MIN_CHIPS = 2000; // 邀请 bot 时要求的最低筹码
 export const DEFAULT_USER_CHIPS = 2000;
 export const DAILY_BONUS_CHIPS = 1000; // 每日登录奖励筹码
 export const AI_STARTING_CHIPS = 2000;
@@ -283,7 +614,23 @@ export interface ServerToClientEvents {
   'game:started': (state: GameState) => void;
   'game:action': (data: { playerId: string; action: PlayerAction }) => void;
   'game:ended': (state: GameState) => void;
-  'game:your-turn': (data: { timeLimit: number }) => void;
+  /** `deadline` is in server time; `timeLimit` is the whole clock, time bank included */
+  'game:your-turn': (data: { timeLimit: number; deadline: number }) => void;
+  /** All-in before the river: choose how many times to run the board */
+  'game:run-it-offer': (data: { maxRuns: number; timeLimit: number }) => void;
+  /** Dealer's choice: you have the button, call the game for the next orbit */
+  'game:dealers-choice': (data: { options: GameVariant[]; timeLimit: number }) => void;
+  /** Sit-and-Go: blinds went up (applies from this hand) */
+  'tournament:level': (data: { level: number; blinds: BlindLevel }) => void;
+  'tournament:eliminated': (finish: TournamentFinish) => void;
+  /** Final standings, best place first */
+  'tournament:finished': (finishes: TournamentFinish[]) => void;
+  /** Multi-table tournaments in the lobby, and changes to one of them */
+  'tournament:list': (tournaments: MultiTableTournament[]) => void;
+  'tournament:updated': (tournament: MultiTableTournament) => void;
+  /** The director moved you to another table (room:joined follows with the new room) */
+  'tournament:moved': (data: { tournamentId: string; roomId: string }) => void;
+  'tournament:hand-for-hand': (data: { active: boolean }) => void;
   'user:updated': (user: AuthResponse['user']) => void;
   'error': (message: string) => void;
   'chat:message': (data: { playerId: string; playerName: string; message: string; timestamp: number }) => void;
@@ -293,15 +640,24 @@ export interface ServerToClientEvents {
   'room:bot-topup-required': (data: { botId: string; needed: number; botName: string }) => void;
   'game:topup-required': (data: { items: Array<{ botId: string; botName: string; needed: number }>; total: number }) => void;
   'lobby:online-players': (players: Array<{ username: string; chips: number; status: string }>) => void;
+  /** The server is restarting: no new rooms or seats, hands in play end (or are refunded) by the deadline */
+  'server:shutdown': (data: { timeLimit: number; deadline: number }) => void;
 }
 
 export interface ClientToServerEvents {
   'room:list': () => void;
   'room:create': (config: RoomConfig & { name: string }) => void;
   'room:join': (roomId: string) => void;
+  /** Open a private table against bots and start dealing straight away */
+  'room:single-player': (variant: GameVariant) => void;
   'room:spectate': (roomId: string) => void;
   'room:sit': () => void;
   'room:stand': () => void;
+  /** Keep the seat but stop playing hands, and come back */
+  'room:sit-out': () => void;
+  'room:sit-in': () => void;
+  /** Cash rooms: buy more chips from the bankroll (a rebuy when the stack is empty) */
+  'room:top-up': (amount: number) => void;
   'room:leave': () => void;
   'room:add-ai': (personality: AIPersonality, engineType: AIEngineType) => void;
   'room:invite-llm-bot': (botId: string, topupConfirmed?: boolean) => void;
@@ -309,8 +665,22 @@ export interface ClientToServerEvents {
   'room:invite-rule-bot': (botId: string, topupConfirmed?: boolean) => void;
   'room:remove-rule-bot': (botId: string) => void;
   'game:start': () => void;
+  /** Owner's answer to game:topup-required: fund the short bots from their own bankroll, then start */
+  'game:start-confirmed': () => void;
   'game:action': (action: PlayerAction) => void;
   'game:resync': () => void;
+  'game:show-cards': () => void;
+  /** Player-contributed entropy mixed into the next hand's shuffle */
+  'game:client-seed': (seed: string) => void;
+  /** Answer to game:run-it-offer — 1 declines */
+  'game:run-it': (runs: number) => void;
+  /** Answer to game:dealers-choice */
+  'game:dealers-choice': (variant: GameVariant) => void;
+  /** Add your time bank to the current decision's clock */
+  'game:time-bank': () => void;
+  'tournament:list': () => void;
+  /** Go to your seat in a running multi-table tournament */
+  'tournament:take-seat': (tournamentId: string) => void;
   'chat:message': (message: string) => void;
   'room:send-reaction': (toId: string, emoji: string) => void;
 }
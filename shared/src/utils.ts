@@ -1,5 +1,6 @@
 import { Card, Suit, Rank } from './types';
 import { SUIT_SYMBOLS, RANK_VALUES } from './constants';
+import { Rng } from './rng';
 
 export function formatCard(card: Card): string {
   return `${card.rank}${SUIT_SYMBOLS[card.suit]}`;
@@ -40,8 +41,18 @@ export function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export function randomBetween(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function randomBetween(min: number, max: number, rng: Rng = Math.random): number {
+  return Math.floor(rng() * (max - min + 1)) + min;
+}
+
+/** Fisher–Yates over a copy; every order is equally likely, unlike sorting by a random comparator */
+export function shuffle<T>(items: readonly T[], rng: Rng = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
 }
 
 export function calculatePotOdds(callAmount: number, potSize: number): number {
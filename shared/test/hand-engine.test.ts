@@ -0,0 +1,161 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, HandEffect, HandEngineState, HandEvent, Player, applyEvent, getTotalChips } from '../src/index';
+
+/** A pre-blind hold'em hand at 5/10, as the game controller builds it before the start event */
+function newHand(stacks: number[], dealerIndex = 0): HandEngineState {
+  const players: Player[] = stacks.map((chips, i) => ({
+    id: `p${i}`,
+    name: `P${i}`,
+    chips,
+    cards: [],
+    currentBet: 0,
+    totalBet: 0,
+    isActive: true,
+    isFolded: false,
+    isAllIn: false,
+    isAI: false,
+    seatIndex: i,
+  }));
+  const game: GameState = {
+    id: 'hand',
+    phase: 'preflop',
+    players,
+    communityCards: [],
+    pot: 0,
+    sidePots: [],
+    currentPlayerIndex: 0,
+    dealerIndex,
+    smallBlind: 5,
+    bigBlind: 10,
+    minRaise: 0,
+    currentBet: 10,
+    variant: 'holdem',
+    bettingStructure: 'no-limit',
+    ante: 0,
+    anteStructure: 'none',
+    straddle: 0,
+    deadMoney: 0,
+    raiseCount: 1,
+    round: 1,
+    actedThisRound: [],
+  };
+  return { game, deck: [] };
+}
+
+/** Feed events in order, failing on any the engine rejects; returns the last step's effects too */
+function play(hand: HandEngineState, events: HandEvent[]): { hand: HandEngineState; effects: HandEffect[] } {
+  let effects: HandEffect[] = [];
+  for (const event of events) {
+    const step = applyEvent(hand, event);
+    assert.notEqual(step.state, hand, `event rejected: ${JSON.stringify(event)}`);
+    hand = step.state;
+    effects = step.effects;
+  }
+  return { hand, effects };
+}
+
+function player(hand: HandEngineState, id: string): Player {
+  return hand.game.players.find(p => p.id === id)!;
+}
+
+const turnOf = (effects: HandEffect[]) => effects.find(e => e.type === 'turn')?.playerId;
+
+test('heads-up: the button posts the small blind and acts first preflop, last after the flop', () => {
+  const start = applyEvent(newHand([1000, 1000]), { type: 'start', seed: 'heads-up' });
+  assert.equal(player(start.state, 'p0').currentBet, 5);
+  assert.equal(player(start.state, 'p1').currentBet, 10);
+  assert.equal(turnOf(start.effects), 'p0');
+
+  // The big blind keeps the option after a limp
+  const limp = applyEvent(start.state, { type: 'action', playerId: 'p0', action: { type: 'call' } });
+  assert.equal(turnOf(limp.effects), 'p1');
+
+  const flop = applyEvent(limp.state, { type: 'action', playerId: 'p1', action: { type: 'check' } });
+  assert.deepEqual(flop.effects.find(e => e.type === 'street'), { type: 'street', phase: 'flop', cards: flop.state.game.communityCards });
+  assert.equal(flop.state.game.communityCards.length, 3);
+  assert.equal(turnOf(flop.effects), 'p1');
+});
+
+test('heads-up: a fold hands the blinds to the other player without a showdown', () => {
+  const { hand, effects } = play(newHand([1000, 1000]), [
+    { type: 'start', seed: 'fold' },
+    { type: 'action', playerId: 'p0', action: { type: 'fold' } },
+  ]);
+  assert.ok(effects.some(e => e.type === 'showdown'));
+  assert.equal(player(hand, 'p0').chips, 995);
+  assert.equal(player(hand, 'p1').chips, 1005);
+});
+
+test('side pots: each all-in stack is only eligible for what it covered', () => {
+  const stacks = [50, 100, 200];
+  let { hand, effects } = play(newHand(stacks), [
+    { type: 'start', seed: 'side-pots' },
+    { type: 'action', playerId: 'p0', action: { type: 'all-in' } },
+    { type: 'action', playerId: 'p1', action: { type: 'all-in' } },
+    { type: 'action', playerId: 'p2', action: { type: 'call' } },
+  ]);
+  assert.deepEqual(effects.map(e => e.type), ['action', 'all-in']);
+
+  ({ hand, effects } = play(hand, [{ type: 'run-out', runs: 1 }]));
+  while (!effects.some(e => e.type === 'showdown')) ({ hand, effects } = play(hand, [{ type: 'deal' }]));
+
+  const game = hand.game;
+  assert.equal(game.communityCards.length, 5);
+  assert.deepEqual(game.sidePots.map(p => ({ amount: p.amount, eligible: [...p.eligiblePlayerIds].sort() })), [
+    { amount: 150, eligible: ['p0', 'p1', 'p2'] },
+    { amount: 100, eligible: ['p1', 'p2'] },
+  ]);
+  assert.equal(getTotalChips(game.players), stacks.reduce((a, b) => a + b, 0));
+  // The uncalled part of the big stack never left it, and the short stack wins at most the main pot
+  assert.ok(player(hand, 'p2').chips >= 100);
+  assert.ok(player(hand, 'p0').chips <= 150);
+});
+
+test('reopened action: a short all-in lets earlier players call but not re-raise', () => {
+  // p0 on the button opens to 30; the small blind shoves for 45 total, 15 more — short of a full raise
+  const { hand } = play(newHand([1000, 45, 1000]), [
+    { type: 'start', seed: 'short-all-in' },
+    { type: 'action', playerId: 'p0', action: { type: 'raise', amount: 30 } },
+    { type: 'action', playerId: 'p1', action: { type: 'all-in' } },
+    { type: 'action', playerId: 'p2', action: { type: 'call' } },
+  ]);
+  assert.equal(hand.game.players[hand.game.currentPlayerIndex].id, 'p0');
+
+  const reraise = applyEvent(hand, { type: 'action', playerId: 'p0', action: { type: 'raise', amount: 100 } });
+  assert.equal(reraise.state, hand, 'a re-raise after a short all-in must be rejected');
+  assert.deepEqual(reraise.effects, []);
+
+  const call = applyEvent(hand, { type: 'action', playerId: 'p0', action: { type: 'call' } });
+  assert.equal(player(call.state, 'p0').totalBet, 45);
+  assert.equal(call.state.game.phase, 'flop');
+});
+
+test('reopened action: a full raise lets earlier players raise again', () => {
+  const { hand } = play(newHand([1000, 1000, 1000]), [
+    { type: 'start', seed: 'full-raise' },
+    { type: 'action', playerId: 'p0', action: { type: 'raise', amount: 30 } },
+    { type: 'action', playerId: 'p1', action: { type: 'raise', amount: 60 } },
+    { type: 'action', playerId: 'p2', action: { type: 'call' } },
+  ]);
+  const reraise = applyEvent(hand, { type: 'action', playerId: 'p0', action: { type: 'raise', amount: 150 } });
+  assert.notEqual(reraise.state, hand);
+  assert.equal(reraise.state.game.currentBet, 150);
+  assert.equal(turnOf(reraise.effects), 'p1');
+});
+
+test('the same seed and events always give the same hand', () => {
+  const events: HandEvent[] = [
+    { type: 'start', seed: 'replay' },
+    { type: 'action', playerId: 'p0', action: { type: 'call' } },
+    { type: 'action', playerId: 'p1', action: { type: 'check' } },
+  ];
+  assert.deepEqual(play(newHand([500, 500]), events).hand, play(newHand([500, 500]), events).hand);
+});
+
+test('an action out of turn changes nothing', () => {
+  const { hand } = play(newHand([1000, 1000, 1000]), [{ type: 'start', seed: 'out-of-turn' }]);
+  const step = applyEvent(hand, { type: 'action', playerId: 'p2', action: { type: 'fold' } });
+  assert.equal(step.state, hand);
+  assert.deepEqual(step.effects, []);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Card, GameVariant, HandRank, createDeck, createRng, shuffleDeck, stringToCard,
+  evaluateHand, evaluateHandExhaustive,
+} from '../src/index';
+
+const cards = (text: string): Card[] => text.split(' ').map(c => stringToCard(c)!);
+
+/** Both evaluators on one hand; they must agree on every field, best five cards included */
+function evaluateBoth(hole: string, board: string, variant: GameVariant = 'holdem') {
+  const fast = evaluateHand(cards(hole), cards(board), variant);
+  assert.deepEqual(fast, evaluateHandExhaustive(cards(hole), cards(board), variant), `${variant}: ${hole} | ${board}`);
+  return fast;
+}
+
+test('every hand category scores the same on the fast and the exhaustive evaluator', () => {
+  const cases: [string, string, HandRank][] = [
+    ['Ah Kh', 'Qh Jh 10h 2c 3d', HandRank.ROYAL_FLUSH],
+    ['9s 8s', '7s 6s 5s Ad Kc', HandRank.STRAIGHT_FLUSH],
+    ['Ad 2d', '3d 4d 5d Kc Qs', HandRank.STRAIGHT_FLUSH],
+    ['7c 7d', '7h 7s 2c 3d 9h', HandRank.FOUR_OF_A_KIND],
+    ['Kc Kd', 'Kh 4s 4c 9d 2h', HandRank.FULL_HOUSE],
+    ['2h 9h', 'Jh 4h 6h Kc Qs', HandRank.FLUSH],
+    ['9c 10d', 'Jh Qs Kc 2d 3h', HandRank.STRAIGHT],
+    ['Ac 2d', '3h 4s 5c Kd 9h', HandRank.STRAIGHT],
+    ['8c 8d', '8h Ks 2c 5d 9h', HandRank.THREE_OF_A_KIND],
+    ['Jc Jd', '4h 4s 2c 9d Kh', HandRank.TWO_PAIR],
+    ['Ac Qd', 'Ah 7s 2c 9d 4h', HandRank.ONE_PAIR],
+    ['Ac Qd', 'Jh 7s 2c 9d 4h', HandRank.HIGH_CARD],
+  ];
+  for (const [hole, board, rank] of cases) {
+    assert.equal(evaluateBoth(hole, board).rank, rank, `${hole} | ${board}`);
+  }
+  assert.equal(new Set(cases.map(c => c[2])).size, Object.keys(HandRank).length / 2);
+});
+
+test('the wheel is the lowest straight, below six-high', () => {
+  const wheel = evaluateBoth('Ac 2d', '3h 4s 5c Kd 9h');
+  const sixHigh = evaluateBoth('6c 2d', '3h 4s 5c Kd 9h');
+  assert.ok(wheel.value < sixHigh.value);
+  // Short-deck has no 2–5: A-6-7-8-9 is its wheel
+  assert.equal(evaluateBoth('Ac 6d', '7h 8s 9c Kd Qh', 'short-deck').rank, HandRank.STRAIGHT);
+});
+
+test('kickers break ties the same way on both evaluators', () => {
+  const board = 'Ah 7s 2c 9d 4h';
+  const queenKicker = evaluateBoth('Ac Qd', board);
+  const jackKicker = evaluateBoth('As Jd', board);
+  assert.equal(queenKicker.rank, jackKicker.rank);
+  assert.ok(queenKicker.value > jackKicker.value);
+  // A kicker below the board's fifth card plays no part
+  assert.equal(evaluateBoth('Kc 3d', 'Ah Qs Jc 9d 8h').value, evaluateBoth('Kd 2c', 'Ah Qs Jc 9d 8h').value);
+});
+
+test('omaha uses exactly two hole cards on both evaluators', () => {
+  // Four hearts on the board and one in hand is no flush in Omaha
+  const result = evaluateBoth('Ah Kc Qd Js', '2h 5h 8h 9h 10c', 'omaha');
+  assert.notEqual(result.rank, HandRank.FLUSH);
+});
+
+test('a fixed-seed sample of every variant scores identically on both evaluators', () => {
+  const variants: [GameVariant, number, number][] = [['holdem', 2, 3000], ['short-deck', 2, 3000], ['omaha', 4, 300]];
+  for (const [variant, holeCount, count] of variants) {
+    const rng = createRng(`evaluator-${variant}`);
+    const seen = new Set<HandRank>();
+    for (let i = 0; i < count; i++) {
+      const deck = shuffleDeck(createDeck(variant), rng);
+      const hole = deck.slice(0, holeCount);
+      const board = deck.slice(holeCount, holeCount + 5);
+      const fast = evaluateHand(hole, board, variant);
+      assert.deepEqual(fast, evaluateHandExhaustive(hole, board, variant), `${variant} hand ${i}`);
+      seen.add(fast.rank);
+    }
+    // The sample reaches well beyond pairs, so the categories in between are exercised too
+    assert.ok(seen.has(HandRank.FULL_HOUSE), `${variant}: no full house in the sample`);
+  }
+});
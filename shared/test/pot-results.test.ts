@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, Player, determinePotResults, stringToCard, Card } from '../src/index';
+
+const cards = (text: string): Card[] => text.split(' ').map(c => stringToCard(c)!);
+
+/** A hold'em hand at showdown over `board`; each seat is [hole cards, totalBet, folded?, all-in?] */
+function showdown(board: string, seats: [string, number, boolean?, boolean?][], dealerIndex = 0): GameState {
+  const players: Player[] = seats.map(([hole, totalBet, isFolded = false, isAllIn = false], i) => ({
+    id: `p${i}`,
+    name: `P${i}`,
+    chips: 0,
+    cards: cards(hole),
+    currentBet: 0,
+    totalBet,
+    isActive: true,
+    isFolded,
+    isAllIn,
+    isAI: false,
+    seatIndex: i,
+  }));
+  return {
+    id: 'hand',
+    phase: 'showdown',
+    players,
+    communityCards: cards(board),
+    pot: players.reduce((sum, p) => sum + p.totalBet, 0),
+    sidePots: [],
+    currentPlayerIndex: 0,
+    dealerIndex,
+    smallBlind: 5,
+    bigBlind: 10,
+    minRaise: 10,
+    currentBet: 0,
+    variant: 'holdem',
+    bettingStructure: 'no-limit',
+    ante: 0,
+    anteStructure: 'none',
+    straddle: 0,
+    deadMoney: 0,
+    raiseCount: 0,
+    round: 1,
+    actedThisRound: [],
+  };
+}
+
+const paid = (state: GameState) =>
+  determinePotResults(state).flatMap(pot => pot.winners.map(w => ({ pot: pot.potIndex, id: w.playerId, amount: w.amount })));
+
+test('a three-way split gives the odd chips to the first winners left of the button', () => {
+  // Everyone plays the straight on the board; p1 is on the button and folded
+  const board = '5h 6d 7c 8s 9h';
+  const holes = ['2c 2d', 'Kc Qd', '2h 3s', '3c 3d'];
+
+  // 100 splits in 5-chip units: 30 each and two odd units
+  const even = showdown(board, [[holes[0], 30], [holes[1], 10, true], [holes[2], 30], [holes[3], 30]], 1);
+  assert.deepEqual(paid(even), [
+    { pot: 0, id: 'p2', amount: 35 },
+    { pot: 0, id: 'p3', amount: 35 },
+    { pot: 0, id: 'p0', amount: 30 },
+  ]);
+
+  // 101 is not a whole number of units, so it splits by the chip: 33 each and two odd chips
+  const odd = showdown(board, [[holes[0], 30], [holes[1], 11, true], [holes[2], 30], [holes[3], 30]], 1);
+  assert.deepEqual(paid(odd), [
+    { pot: 0, id: 'p2', amount: 34 },
+    { pot: 0, id: 'p3', amount: 34 },
+    { pot: 0, id: 'p0', amount: 33 },
+  ]);
+});
+
+test('the best hand is listed in every pot it wins, and every chip of every pot is paid', () => {
+  // p0 is all-in short, p1 all-in for more with the best hand, p2 covers
+  const state = showdown('Ah Kd 7c 4s 2h', [['8d 9c', 50, false, true], ['As Ac', 100, false, true], ['Kh Qc', 100]]);
+  const results = determinePotResults(state);
+  assert.deepEqual(results.map(r => ({ pot: r.potIndex, amount: r.amount })), [
+    { pot: 0, amount: 150 },
+    { pot: 1, amount: 100 },
+  ]);
+  assert.deepEqual(paid(state), [
+    { pot: 0, id: 'p1', amount: 150 },
+    { pot: 1, id: 'p1', amount: 100 },
+  ]);
+  assert.equal(results[0].winners[0].handName, results[1].winners[0].handName);
+  assert.equal(paid(state).reduce((sum, w) => sum + w.amount, 0), state.pot);
+});
+
+test('a side pot goes to the best hand among those who covered it', () => {
+  // Here the short stack has the best hand: it takes the main pot, the side pot goes to p2
+  const state = showdown('Ah Kd 7c 4s 2h', [['As Ac', 50, false, true], ['8d 9c', 100, false, true], ['Kh Qc', 100]]);
+  assert.deepEqual(paid(state), [
+    { pot: 0, id: 'p0', amount: 150 },
+    { pot: 1, id: 'p2', amount: 100 },
+  ]);
+});
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Card, GameState, HandFairness, Player, commitServerSeed, dealRunOuts, deriveHandSeed, startHandFromSeed, verifyHand,
+} from '../src/index';
+
+const SERVER_SEED = 'server-seed';
+
+/** The fairness record of a three-handed hold'em hand, seed revealed */
+function fairness(): HandFairness {
+  return {
+    commitment: commitServerSeed(SERVER_SEED),
+    nonce: 7,
+    clientSeed: 'alice-bob',
+    dealOrder: ['p0', 'p1', 'p2'],
+    serverSeed: SERVER_SEED,
+  };
+}
+
+/** Deal that hand the way the table does, from its pre-blind state; returns what each seat saw */
+function dealAtTable(fair: HandFairness): { holeCards: Record<string, Card[]>; board: Card[] } {
+  const players: Player[] = fair.dealOrder.map((id, i) => ({
+    id,
+    name: id,
+    chips: 1000,
+    cards: [],
+    currentBet: 0,
+    totalBet: 0,
+    isActive: true,
+    isFolded: false,
+    isAllIn: false,
+    isAI: false,
+    seatIndex: i,
+  }));
+  const initialState: GameState = {
+    id: 'hand',
+    phase: 'preflop',
+    players,
+    communityCards: [],
+    pot: 0,
+    sidePots: [],
+    currentPlayerIndex: 0,
+    dealerIndex: 0,
+    smallBlind: 5,
+    bigBlind: 10,
+    minRaise: 0,
+    currentBet: 10,
+    variant: 'holdem',
+    bettingStructure: 'no-limit',
+    ante: 0,
+    anteStructure: 'none',
+    straddle: 0,
+    deadMoney: 0,
+    raiseCount: 1,
+    round: 1,
+    actedThisRound: [],
+  };
+  const { state, deck } = startHandFromSeed(initialState, deriveHandSeed(fair.serverSeed!, fair.clientSeed, fair.nonce));
+  const [board] = dealRunOuts(deck, [], 1);
+  return { holeCards: Object.fromEntries(state.players.map(p => [p.id, p.cards])), board };
+}
+
+test('a fair hand verifies: the seed matches its commitment and re-deals every card', () => {
+  const fair = fairness();
+  const { holeCards, board } = dealAtTable(fair);
+  const result = verifyHand(fair, 'holdem', holeCards, [board]);
+  assert.equal(result.commitmentValid, true);
+  assert.equal(result.cardsValid, true);
+  assert.deepEqual(result.mismatches, []);
+  assert.deepEqual(result.holeCards, holeCards);
+  assert.deepEqual(result.boards, [board]);
+});
+
+test('a commitment that is not the hash of the revealed seed fails', () => {
+  const fair = { ...fairness(), commitment: commitServerSeed('another-seed') };
+  const { holeCards, board } = dealAtTable(fairness());
+  const result = verifyHand(fair, 'holdem', holeCards, [board]);
+  assert.equal(result.commitmentValid, false);
+  // The cards still follow from the revealed seed; it is the commitment that was broken
+  assert.equal(result.cardsValid, true);
+});
+
+test('a dealt card that the seed does not produce is reported', () => {
+  const fair = fairness();
+  const { holeCards, board } = dealAtTable(fair);
+  const swapped = (card: Card): Card => ({ ...card, suit: card.suit === 'spades' ? 'hearts' : 'spades' });
+
+  const hole = verifyHand(fair, 'holdem', { ...holeCards, p1: [holeCards.p1[0], swapped(holeCards.p1[1])] }, [board]);
+  assert.equal(hole.commitmentValid, true);
+  assert.equal(hole.cardsValid, false);
+  assert.deepEqual(hole.mismatches, ['Hole cards of p1']);
+
+  const river = verifyHand(fair, 'holdem', holeCards, [[...board.slice(0, 4), swapped(board[4])]]);
+  assert.equal(river.cardsValid, false);
+  assert.deepEqual(river.mismatches, ['Board 1 card 5']);
+});
+
+test('hidden hands may be left out, but a seat that was never dealt in is reported', () => {
+  const fair = fairness();
+  const { holeCards, board } = dealAtTable(fair);
+  assert.equal(verifyHand(fair, 'holdem', { p0: holeCards.p0, p1: [] }, [board]).cardsValid, true);
+  assert.deepEqual(verifyHand(fair, 'holdem', { p9: holeCards.p0 }, [board]).mismatches, ['Hole cards of p9']);
+});
+
+test('nothing verifies before the server seed is revealed', () => {
+  const { serverSeed: _, ...hidden } = fairness();
+  const { holeCards, board } = dealAtTable(fairness());
+  assert.deepEqual(verifyHand(hidden, 'holdem', holeCards, [board]), {
+    commitmentValid: false,
+    cardsValid: false,
+    mismatches: ['Server seed not revealed'],
+    holeCards: {},
+    boards: [],
+  });
+});
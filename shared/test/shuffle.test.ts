@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRng, shuffle, shuffleDeck, createDeck } from '../src/index';
+
+test('shuffle leaves its input alone and keeps every item', () => {
+  const items = [1, 2, 3, 4, 5];
+  const shuffled = shuffle(items, createRng('keep'));
+  assert.deepEqual(items, [1, 2, 3, 4, 5]);
+  assert.deepEqual([...shuffled].sort(), items);
+});
+
+test('shuffle deals every order about equally often', () => {
+  const rng = createRng('uniform');
+  const counts = new Map<string, number>();
+  const runs = 6000;
+  for (let i = 0; i < runs; i++) {
+    const order = shuffle(['a', 'b', 'c'], rng).join('');
+    counts.set(order, (counts.get(order) ?? 0) + 1);
+  }
+  assert.equal(counts.size, 6);
+  for (const [order, count] of counts) {
+    assert.ok(Math.abs(count - runs / 6) < runs / 6 * 0.1, `${order} came up ${count} times in ${runs}`);
+  }
+});
+
+test('shuffleDeck is the same shuffle, so a seed still fixes the deck', () => {
+  const deck = createDeck();
+  assert.deepEqual(shuffleDeck(deck, createRng('deck')), shuffle(deck, createRng('deck')));
+});